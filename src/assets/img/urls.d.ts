@@ -0,0 +1,25 @@
+export declare const IMG: {
+  readonly toolLog: {
+    readonly terrain: string;
+    readonly axes: string;
+    readonly draw: string;
+    readonly measure: string;
+    readonly animation: string;
+    readonly info: string;
+    readonly terrainEdit: string;
+    readonly test: string;
+  };
+  readonly measure: {
+    readonly point: string;
+    readonly distance: string;
+    readonly multiDistance: string;
+    readonly area: string;
+    readonly cutFill: string;
+    readonly profile: string;
+  };
+  readonly point: {
+    readonly point: string;
+    readonly start: string;
+    readonly end: string;
+  };
+};
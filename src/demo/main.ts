@@ -4,9 +4,20 @@ const container = document.getElementById('app');
 if (!container) {
   throw new Error('Missing #app container');
 }
+// The scenes own the .hud panel and rewrite it every frame, so errors go to a status line of their own.
+const status = document.getElementById('status');
+
+// ?mode=globe starts on the WGS84 ellipsoid instead of the planar validation scene; G morphs between them.
+const globeMode = new URLSearchParams(window.location.search).get('mode') === 'globe';
 
 const viewer = new Viewer({
   container,
+  sceneMode: globeMode ? 'globe' : 'planar',
+  globe: {
+    frontLonDeg: 108.94,
+    imagery: { urlTemplate: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png' },
+    terrain: false
+  },
   planarValidation: {
     frontLonDeg: 0,
     initialCameraHeight: 12_000,
@@ -16,29 +27,43 @@ const viewer = new Viewer({
       urlTemplate: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
       minZoom: 0,
       maxZoom: 18,
-      tileRadius: 3,
-      maxDynamicTileRadius: 10,
+      maximumScreenSpaceError: 2,
       updateThrottleMs: 80,
-      zoomThrottleMs: 140,
-      immediateTileShift: 2,
-      lodLevels: [
-        { zoom: 18, maxTiles: 49, marginTiles: 1, updateThrottleMs: 100, zoomThrottleMs: 180 },
-        { zoom: 16, maxTiles: 64, marginTiles: 1, updateThrottleMs: 90, zoomThrottleMs: 160 },
-        { zoom: 14, maxTiles: 81, marginTiles: 1, updateThrottleMs: 80, zoomThrottleMs: 140 },
-        { zoom: 12, maxTiles: 100, marginTiles: 1, updateThrottleMs: 70, zoomThrottleMs: 120 },
-        { zoom: 10, maxTiles: 121, marginTiles: 2, updateThrottleMs: 60, zoomThrottleMs: 100 },
-        { zoom: 8, maxTiles: 144, marginTiles: 2, updateThrottleMs: 50, zoomThrottleMs: 90 },
-        { zoom: 6, maxTiles: 196, marginTiles: 3, updateThrottleMs: 40, zoomThrottleMs: 80 },
-        { zoom: 4, maxTiles: 256, marginTiles: 3, updateThrottleMs: 32, zoomThrottleMs: 64 }
-      ],
       debugOverlay: true,
       enableProgressiveBlend: false,
       fadeDurationMs: 180,
       maxParentSearchDepth: 6,
       opacity: 1,
       yType: 'xyz'
+    },
+    terrain: {
+      enabled: false,
+      encoding: 'terrarium',
+      minZoom: 0,
+      maxZoom: 15,
+      tileSegments: 32,
+      exaggeration: 1
     }
   }
 });
 
 viewer.start();
+
+window.addEventListener('keydown', (event) => {
+  if (event.key.toLowerCase() !== 'g' || event.repeat) return;
+  const target = viewer.sceneMode === 'globe' ? 'planar' : 'globe';
+  viewer.morphTo(target).then(
+    () => showStatus(null),
+    (error: unknown) => showStatus(`Switching to the ${target} scene failed: ${errorMessage(error)}`)
+  );
+});
+
+function showStatus(message: string | null): void {
+  if (!status) return;
+  status.textContent = message ?? '';
+  status.hidden = message === null;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
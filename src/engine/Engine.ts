@@ -1,7 +1,43 @@
 ﻿import * as THREE from 'three';
 import { GeoCoordinator, type LonLatHeight, type Vec3, type Wgs84OriginInput } from '../geo/coords';
 import { CameraController, type CameraControllerOptions } from './CameraController';
+import { GlobeScene, type GlobeOptions } from './globe/GlobeScene';
+import { SceneMorph, type MorphCameraPose, type MorphOptions, type SceneMode } from './SceneMorph';
 import { ToolManager } from './ToolManager';
+import type {
+  PlanarClipPlaneOptions,
+  PlanarClipPolygonInfo,
+  PlanarClipPolygonOptions
+} from './validation/PlanarClipping';
+import type { CutFillOptions, CutFillResult } from './validation/PlanarCutFill';
+import type { PlanarDemPatchInfo, PlanarDemPatchOptions } from './validation/PlanarDemPatch';
+import type { PlanarExcavationInfo, PlanarExcavationOptions } from './validation/PlanarExcavation';
+import type {
+  PlanarFeatureInfo,
+  PlanarFeatureInfoOptions,
+  PlanarImageryLayerChange,
+  PlanarImageryLayerInfo,
+  PlanarImageryLayerOptions,
+  PlanarImageryLayers
+} from './validation/PlanarImageryLayers';
+import type { TerrainProfile, TerrainProfileOptions } from './validation/PlanarProfile';
+import type {
+  AreaMeasureInput,
+  AreaMeasurement,
+  PathMeasureInput,
+  PathMeasurement,
+  SurveyMeasurement,
+  SurveyPointInput
+} from './validation/PlanarSurvey';
+import type { SurveyPoint } from './validation/PlanarSurveyPoints';
+import type {
+  ElevationPathOptions,
+  ElevationPathSample,
+  ElevationQueryOptions,
+  ElevationSample,
+  PlanarTerrainLayer
+} from './validation/PlanarTerrainLayer';
+import type { TerrainModifier, TerrainModifierDocument } from './validation/PlanarTerrainModifiers';
 import { PlanarValidation, type PlanarValidationOptions } from './validation/PlanarValidation';
 
 export type EngineOptions = {
@@ -14,6 +50,18 @@ export type EngineOptions = {
   geo?: GeoCoordinator;
   cameraController?: false | CameraControllerOptions;
   planarValidation?: false | PlanarValidationOptions;
+  // Renders the WGS84 ellipsoid instead of the planar scene; only one of the two modes is shown at a time.
+  globe?: false | GlobeOptions;
+  // Mode shown first when both planarValidation and globe are configured; the other is reached by morphTo().
+  sceneMode?: SceneMode;
+  // Default duration of morphTo() transitions.
+  morphDurationMs?: number;
+};
+
+type ActiveMorph = {
+  morph: SceneMorph;
+  complete: () => void;
+  cancel: (error: Error) => void;
 };
 
 export class Engine {
@@ -29,7 +77,12 @@ export class Engine {
   private _onResize: (() => void) | null = null;
   private _lastFrameTimeMs = 0;
   private readonly _updateHandlers = new Set<(dtSeconds: number, timeSeconds: number) => void>();
-  private readonly _planarValidation: PlanarValidation | null;
+  private readonly _planarOptions: PlanarValidationOptions;
+  private readonly _globeOptions: GlobeOptions;
+  private readonly _morphDurationMs: number;
+  private _planarValidation: PlanarValidation | null;
+  private _globe: GlobeScene | null;
+  private _morph: ActiveMorph | null = null;
 
   constructor(options: EngineOptions) {
     const {
@@ -41,7 +94,10 @@ export class Engine {
       cameraFar = 80_000_000,
       geo,
       cameraController,
-      planarValidation
+      planarValidation,
+      globe,
+      sceneMode = planarValidation ? 'planar' : 'globe',
+      morphDurationMs = 2000
     } = options;
 
     this.scene = new THREE.Scene();
@@ -67,22 +123,12 @@ export class Engine {
     container.appendChild(this.renderer.domElement);
 
     this.addDefaultLights();
-    this._planarValidation =
-      planarValidation === undefined || planarValidation === false
-        ? null
-        : new PlanarValidation(
-            {
-              renderer: this.renderer,
-              camera: this.camera,
-              cameraController: this.cameraController,
-              toolManager: this.toolManager,
-              geo: this.geo,
-              worldRoot: this.worldRoot,
-              setRenderOrigin: (threeWorld, keepWorldCamera = true) =>
-                this.setRenderOrigin(threeWorld, keepWorldCamera)
-            },
-            planarValidation
-          );
+    // Options of the inactive mode are kept so morphTo() can build that scene later.
+    this._planarOptions = planarValidation || {};
+    this._globeOptions = globe || {};
+    this._morphDurationMs = Math.max(0, morphDurationMs);
+    this._planarValidation = planarValidation && sceneMode === 'planar' ? this.createPlanarValidation() : null;
+    this._globe = globe && sceneMode === 'globe' ? this.createGlobe() : null;
     this.handleResize(container);
   }
 
@@ -97,11 +143,17 @@ export class Engine {
       this._lastFrameTimeMs = nowMs;
 
       this.cameraController?.update();
+      const morph = this._morph;
+      if (morph && morph.morph.update(nowMs)) {
+        this._morph = null;
+        morph.complete();
+      }
 
       for (const handler of this._updateHandlers) {
         handler(dtSeconds, nowMs / 1000);
       }
       this._planarValidation?.update(this.getCameraWorldPosition());
+      this._globe?.update(this.getCameraWorldPosition());
 
       this.renderer.render(this.scene, this.camera);
     };
@@ -122,7 +174,10 @@ export class Engine {
       window.removeEventListener('resize', this._onResize);
       this._onResize = null;
     }
+    this._morph?.cancel(new Error('Engine was disposed during a scene morph.'));
+    this._morph = null;
     this._planarValidation?.dispose();
+    this._globe?.dispose();
     this.toolManager?.dispose();
     this.cameraController?.dispose();
     this.renderer.dispose();
@@ -132,6 +187,37 @@ export class Engine {
     }
   }
 
+  get globe(): GlobeScene | null {
+    return this._globe;
+  }
+
+  get sceneMode(): SceneMode | null {
+    if (this._globe) return 'globe';
+    return this._planarValidation ? 'planar' : null;
+  }
+
+  // Animates tiles and camera into the other scene mode, keeping the focused point in the centre of the
+  // view. The promise settles once the render loop has played the transition, so the engine must be started.
+  morphTo(mode: SceneMode, options?: MorphOptions): Promise<void> {
+    if (this._morph) {
+      return Promise.reject(new Error('A scene morph is already in progress.'));
+    }
+    if (this.sceneMode === mode) return Promise.resolve();
+
+    const durationMs = Math.max(0, options?.durationMs ?? this._morphDurationMs);
+    if (mode === 'globe' && this._planarValidation) {
+      return this.morphPlanarToGlobe(this._planarValidation, durationMs);
+    }
+    if (mode === 'planar' && this._globe) {
+      return this.morphGlobeToPlanar(this._globe, durationMs);
+    }
+
+    // Nothing to morph from: the requested scene is simply created.
+    if (mode === 'globe') this._globe = this.createGlobe();
+    else this._planarValidation = this.createPlanarValidation();
+    return Promise.resolve();
+  }
+
   addWorldObject(object: THREE.Object3D): void {
     this.worldRoot.add(object);
   }
@@ -195,6 +281,361 @@ export class Engine {
     return this.setRenderOrigin(cameraWorld, true);
   }
 
+  // The planar calls below throw (or reject) while the globe is shown, including during a morph either way:
+  // the planar scene only sleeps then, and edits or queries would act on terrain and layers nobody sees.
+  // The get* methods still report the sleeping scene's state.
+  async queryElevation(lon: number, lat: number, options?: ElevationQueryOptions): Promise<ElevationSample | null> {
+    const terrain = this.activePlanarValidation()?.terrain;
+    return terrain ? terrain.queryElevation(lon, lat, options) : null;
+  }
+
+  async queryElevationAtPixel(
+    clientX: number,
+    clientY: number,
+    options?: ElevationQueryOptions
+  ): Promise<ElevationSample | null> {
+    const validation = this.activePlanarValidation();
+    const terrain = validation?.terrain;
+    const point = validation?.pickSurface(clientX, clientY);
+    if (!validation || !terrain || !point) return null;
+
+    const lonLat = validation.worldXYToLonLat(point.x, point.y);
+    return terrain.queryElevation(lonLat.lon, lonLat.lat, options);
+  }
+
+  async queryElevationAlong(
+    path: ReadonlyArray<{ lon: number; lat: number }>,
+    options?: ElevationPathOptions
+  ): Promise<ElevationPathSample[]> {
+    const terrain = this.activePlanarValidation()?.terrain;
+    return terrain ? terrain.queryElevationAlong(path, options) : [];
+  }
+
+  addExcavation(options: PlanarExcavationOptions): PlanarExcavationInfo {
+    return this.requireTerrain().addExcavation(options);
+  }
+
+  removeExcavation(id: string): boolean {
+    return this.activePlanarValidation()?.terrain?.removeExcavation(id) ?? false;
+  }
+
+  getExcavations(): PlanarExcavationInfo[] {
+    return this._planarValidation?.terrain?.excavations ?? [];
+  }
+
+  addDemPatch(options: PlanarDemPatchOptions): PlanarDemPatchInfo {
+    return this.requireTerrain().addDemPatch(options);
+  }
+
+  removeDemPatch(id: string): boolean {
+    return this.activePlanarValidation()?.terrain?.removeDemPatch(id) ?? false;
+  }
+
+  getDemPatches(): PlanarDemPatchInfo[] {
+    return this._planarValidation?.terrain?.demPatches ?? [];
+  }
+
+  addTerrainModifier(modifier: TerrainModifier): TerrainModifier {
+    return this.requireTerrain().addModifier(modifier);
+  }
+
+  removeTerrainModifier(id: string): boolean {
+    return this.activePlanarValidation()?.terrain?.removeModifier(id) ?? false;
+  }
+
+  clearTerrainModifiers(): void {
+    this.activePlanarValidation()?.terrain?.clearModifiers();
+  }
+
+  getTerrainModifiers(): TerrainModifier[] {
+    return this._planarValidation?.terrain?.modifiers ?? [];
+  }
+
+  exportTerrainModifiers(): TerrainModifierDocument {
+    return this.requireTerrain().exportModifiers();
+  }
+
+  importTerrainModifiers(
+    input: TerrainModifierDocument | string,
+    options?: { append?: boolean }
+  ): TerrainModifier[] {
+    return this.requireTerrain().importModifiers(input, options);
+  }
+
+  get imageryLayers(): PlanarImageryLayers {
+    return this.requirePlanarValidation().imageryLayers;
+  }
+
+  addImageryLayer(options: PlanarImageryLayerOptions): PlanarImageryLayerInfo {
+    return this.requirePlanarValidation().imageryLayers.add(options);
+  }
+
+  removeImageryLayer(id: string): boolean {
+    return this.activePlanarValidation()?.imageryLayers.remove(id) ?? false;
+  }
+
+  getImageryLayers(): PlanarImageryLayerInfo[] {
+    return this._planarValidation?.imageryLayers.layers ?? [];
+  }
+
+  onImageryLayersChange(listener: (change: PlanarImageryLayerChange) => void): () => void {
+    return this.requirePlanarValidation().imageryLayers.onChange(listener);
+  }
+
+  async queryFeatureInfo(lon: number, lat: number, options?: PlanarFeatureInfoOptions): Promise<PlanarFeatureInfo[]> {
+    const imagery = this.activePlanarValidation()?.imageryLayers;
+    return imagery ? imagery.queryFeatureInfo(lon, lat, options) : [];
+  }
+
+  // For click handlers: the WMS layers' answers for whatever is under the pointer.
+  async queryFeatureInfoAtPixel(
+    clientX: number,
+    clientY: number,
+    options?: PlanarFeatureInfoOptions
+  ): Promise<PlanarFeatureInfo[]> {
+    const validation = this.activePlanarValidation();
+    const point = validation?.pickSurface(clientX, clientY);
+    if (!validation || !point) return [];
+
+    const lonLat = validation.worldXYToLonLat(point.x, point.y);
+    return validation.imageryLayers.queryFeatureInfo(lonLat.lon, lonLat.lat, options);
+  }
+
+  addClipPolygon(options: PlanarClipPolygonOptions): PlanarClipPolygonInfo {
+    return this.requirePlanarValidation().clipping.addPolygon(options);
+  }
+
+  removeClipPolygon(id: string): boolean {
+    return this.activePlanarValidation()?.clipping.removePolygon(id) ?? false;
+  }
+
+  getClipPolygons(): PlanarClipPolygonInfo[] {
+    return this._planarValidation?.clipping.polygons ?? [];
+  }
+
+  setClipPlanes(planes: readonly PlanarClipPlaneOptions[]): void {
+    this.requirePlanarValidation().clipping.setPlanes(planes);
+  }
+
+  clearClipping(): void {
+    this.activePlanarValidation()?.clipping.clear();
+  }
+
+  addSurveyPoint(input: SurveyPointInput): SurveyPoint {
+    return this.requirePlanarValidation().survey.addPoint(input);
+  }
+
+  removeSurveyPoint(id: string): boolean {
+    return this.activePlanarValidation()?.survey.removePoint(id) ?? false;
+  }
+
+  getSurveyPoints(): SurveyPoint[] {
+    return this._planarValidation?.survey.points ?? [];
+  }
+
+  clearSurveyPoints(): void {
+    this.activePlanarValidation()?.survey.clearPoints();
+  }
+
+  measurePath(input: PathMeasureInput): PathMeasurement {
+    return this.requirePlanarValidation().survey.measurePath(input);
+  }
+
+  measureArea(input: AreaMeasureInput): AreaMeasurement {
+    return this.requirePlanarValidation().survey.measureArea(input);
+  }
+
+  removeMeasurement(id: string): boolean {
+    return this.activePlanarValidation()?.survey.removeMeasurement(id) ?? false;
+  }
+
+  getMeasurements(): SurveyMeasurement[] {
+    return this._planarValidation?.survey.measurements ?? [];
+  }
+
+  clearMeasurements(): void {
+    this.activePlanarValidation()?.survey.clearMeasurements();
+  }
+
+  async computeCutFill(options: CutFillOptions): Promise<CutFillResult> {
+    return this.requirePlanarValidation().survey.computeCutFill(options);
+  }
+
+  clearCutFill(): void {
+    this.activePlanarValidation()?.survey.clearCutFill();
+  }
+
+  async computeTerrainProfile(options: TerrainProfileOptions): Promise<TerrainProfile> {
+    return this.requirePlanarValidation().survey.computeProfile(options);
+  }
+
+  clearTerrainProfile(): void {
+    this.activePlanarValidation()?.survey.clearProfile();
+  }
+
+  private sceneContext(): {
+    renderer: THREE.WebGLRenderer;
+    camera: THREE.PerspectiveCamera;
+    cameraController: CameraController | null;
+    toolManager: ToolManager | null;
+    geo: GeoCoordinator;
+    worldRoot: THREE.Group;
+    setRenderOrigin: (threeWorld: Vec3, keepWorldCamera?: boolean) => Vec3;
+  } {
+    return {
+      renderer: this.renderer,
+      camera: this.camera,
+      cameraController: this.cameraController,
+      toolManager: this.toolManager,
+      geo: this.geo,
+      worldRoot: this.worldRoot,
+      setRenderOrigin: (threeWorld, keepWorldCamera = true) => this.setRenderOrigin(threeWorld, keepWorldCamera)
+    };
+  }
+
+  private createPlanarValidation(): PlanarValidation {
+    return new PlanarValidation(this.sceneContext(), this._planarOptions);
+  }
+
+  private createGlobe(): GlobeScene {
+    return new GlobeScene(this.sceneContext(), { ...this._globeOptions, planarOrigin: this.planarOrigin() });
+  }
+
+  // Geographic position of the planar world origin, resolved the same way PlanarValidation resolves it.
+  private planarOrigin(): { lon: number; lat: number } {
+    const { mapTiles, terrain } = this._planarOptions;
+    if (mapTiles !== false) return { lon: mapTiles?.originLon ?? 0, lat: mapTiles?.originLat ?? 0 };
+    if (terrain) return { lon: terrain.originLon ?? 0, lat: terrain.originLat ?? 0 };
+    return { lon: 0, lat: 0 };
+  }
+
+  private morphPlanarToGlobe(planar: PlanarValidation, durationMs: number): Promise<void> {
+    const cameraWorld = this.getCameraWorldPosition();
+    const focusWorld = this.cameraController
+      ? this.renderToWorldPosition(this.cameraController.target)
+      : { x: cameraWorld.x, y: cameraWorld.y, z: 0 };
+    const focus = planar.worldXYToLonLat(focusWorld.x, focusWorld.y);
+    const planarDistance = distanceBetween(cameraWorld, focusWorld) * this.geo.metersPerUnit;
+    // Mercator stretches ground distances by 1 / cos(lat); undoing it keeps the apparent scale.
+    const height = planarDistance * mercatorGroundScale(focus.lat);
+
+    // The planar scene only goes to sleep, so its layers, edits and measurements are there on the way back.
+    planar.setActive(false);
+    const globe = this.createGlobe();
+    this._globe = globe;
+
+    const focusGlobe = this.geo.wgs84ToThree(focus.lat, focus.lon, 0);
+    const cameraGlobe = this.geo.wgs84ToThree(focus.lat, focus.lon, height);
+    globe.setMorph(0);
+    globe.beginMorph(cameraGlobe, Math.max(planarDistance, height));
+    return this.runMorph(
+      { position: cameraWorld, target: focusWorld },
+      { position: cameraGlobe, target: focusGlobe },
+      durationMs,
+      (progress) => globe.setMorph(progress),
+      () => {
+        globe.endMorph();
+        globe.setMorph(1);
+        globe.focusOn(focus.lon, focus.lat, height);
+      }
+    );
+  }
+
+  private morphGlobeToPlanar(globe: GlobeScene, durationMs: number): Promise<void> {
+    const cameraWorld = this.getCameraWorldPosition();
+    const focus = globe.focusPoint();
+    const focusGlobe = this.geo.wgs84ToThree(focus.lat, focus.lon, 0);
+    const height = distanceBetween(cameraWorld, focusGlobe) * this.geo.metersPerUnit;
+    const planarHeight = height / mercatorGroundScale(focus.lat);
+
+    const metersPerUnit = this.geo.metersPerUnit;
+    const origin = this.planarOrigin();
+    const originMercator = this.geo.lonLatToWebMercator(origin.lon, origin.lat);
+    const focusMercator = this.geo.lonLatToWebMercator(focus.lon, focus.lat);
+    const focusPlanar = {
+      x: (focusMercator.x - originMercator.x) / metersPerUnit,
+      y: (focusMercator.y - originMercator.y) / metersPerUnit,
+      z: 0
+    };
+    globe.beginMorph(cameraWorld, Math.max(height, planarHeight));
+    return this.runMorph(
+      { position: cameraWorld, target: focusGlobe },
+      { position: { ...focusPlanar, z: planarHeight / metersPerUnit }, target: focusPlanar },
+      durationMs,
+      (progress) => globe.setMorph(1 - progress),
+      () => {
+        globe.dispose();
+        this._globe = null;
+        const planar = this._planarValidation ?? this.createPlanarValidation();
+        this._planarValidation = planar;
+        planar.setActive(true);
+        planar.focusOn(focus.lon, focus.lat, planarHeight);
+      }
+    );
+  }
+
+  private runMorph(
+    from: MorphCameraPose,
+    to: MorphCameraPose,
+    durationMs: number,
+    onProgress: (progress: number) => void,
+    onComplete: () => void
+  ): Promise<void> {
+    const controller = this.cameraController;
+    const controllerEnabled = controller?.enabled ?? false;
+    if (controller) controller.enabled = false;
+    const restoreController = () => {
+      if (controller) controller.enabled = controllerEnabled;
+    };
+
+    const morph = new SceneMorph({
+      camera: this.camera,
+      from,
+      to,
+      durationMs,
+      worldToRender: (world) => this.worldToRenderPosition(world),
+      onProgress
+    });
+    return new Promise((resolve, reject) => {
+      this._morph = {
+        morph,
+        complete: () => {
+          onComplete();
+          restoreController();
+          resolve();
+        },
+        cancel: (error) => {
+          restoreController();
+          reject(error);
+        }
+      };
+    });
+  }
+
+  // Null when no planar scene is configured; throws while it sleeps behind the globe.
+  private activePlanarValidation(): PlanarValidation | null {
+    if (this._planarValidation && this.sceneMode !== 'planar') {
+      throw new Error('Planar scene is not active while the globe is shown. Call morphTo("planar") first.');
+    }
+    return this._planarValidation;
+  }
+
+  private requirePlanarValidation(): PlanarValidation {
+    const validation = this.activePlanarValidation();
+    if (!validation) {
+      throw new Error('Planar validation scene is not configured. Pass planarValidation to enable it.');
+    }
+    return validation;
+  }
+
+  private requireTerrain(): PlanarTerrainLayer {
+    const terrain = this.requirePlanarValidation().terrain;
+    if (!terrain) {
+      throw new Error('Terrain layer is not configured. Pass planarValidation.terrain to enable it.');
+    }
+    return terrain;
+  }
+
   private addDefaultLights(): void {
     const hemi = new THREE.HemisphereLight(0xffffff, 0x223344, 0.7);
     const dir = new THREE.DirectionalLight(0xffffff, 1.0);
@@ -219,3 +660,11 @@ export class Engine {
     this._onResize();
   }
 }
+
+function distanceBetween(a: Vec3, b: Vec3): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+function mercatorGroundScale(lat: number): number {
+  return Math.max(0.01, Math.cos((lat * Math.PI) / 180));
+}
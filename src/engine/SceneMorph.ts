@@ -0,0 +1,64 @@
+import type * as THREE from 'three';
+import type { Vec3 } from '../geo/coords';
+
+export type SceneMode = 'planar' | 'globe';
+
+export type MorphOptions = {
+  durationMs?: number;
+};
+
+// Camera position and the point it looks at, both in the three world frame.
+export type MorphCameraPose = {
+  position: Vec3;
+  target: Vec3;
+};
+
+type SceneMorphParams = {
+  camera: THREE.PerspectiveCamera;
+  from: MorphCameraPose;
+  to: MorphCameraPose;
+  durationMs: number;
+  worldToRender: (world: Vec3) => Vec3;
+  // Receives the eased progress from 0 (start scene) to 1 (target scene).
+  onProgress: (progress: number) => void;
+};
+
+// The geometry and the camera share one eased progress, so a focus point that is interpolated the same
+// way as the tile vertices stays at the centre of the view for the whole transition.
+export class SceneMorph {
+  private readonly _camera: THREE.PerspectiveCamera;
+  private readonly _from: MorphCameraPose;
+  private readonly _to: MorphCameraPose;
+  private readonly _durationMs: number;
+  private readonly _worldToRender: (world: Vec3) => Vec3;
+  private readonly _onProgress: (progress: number) => void;
+  private _startMs: number | null = null;
+
+  constructor(params: SceneMorphParams) {
+    this._camera = params.camera;
+    this._from = params.from;
+    this._to = params.to;
+    this._durationMs = Math.max(0, params.durationMs);
+    this._worldToRender = params.worldToRender;
+    this._onProgress = params.onProgress;
+  }
+
+  // Returns true once the morph has reached the target scene.
+  update(nowMs: number): boolean {
+    if (this._startMs === null) this._startMs = nowMs;
+    const linear = this._durationMs <= 0 ? 1 : Math.min(1, (nowMs - this._startMs) / this._durationMs);
+    const progress = linear < 0.5 ? 4 * linear * linear * linear : 1 - (-2 * linear + 2) ** 3 / 2;
+
+    this._onProgress(progress);
+    const position = this._worldToRender(lerpVec3(this._from.position, this._to.position, progress));
+    const target = this._worldToRender(lerpVec3(this._from.target, this._to.target, progress));
+    this._camera.up.set(0, 1, 0);
+    this._camera.position.set(position.x, position.y, position.z);
+    this._camera.lookAt(target.x, target.y, target.z);
+    return linear >= 1;
+  }
+}
+
+function lerpVec3(a: Vec3, b: Vec3, t: number): Vec3 {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, z: a.z + (b.z - a.z) * t };
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { TileScheduler, type ScheduledTile } from './TileScheduler';
+
+type TestTile = ScheduledTile & { priority: number };
+
+type PendingLoad = { tile: TestTile; resolve: () => void; reject: () => void; isCurrent: () => boolean };
+
+function createTile(key: string, priority: number, frame = 0): TestTile {
+  return { key, priority, state: 'idle', attempts: 0, lastWantedFrame: frame, lastTouchedFrame: frame };
+}
+
+type SchedulerLimits = { maxConcurrentRequests?: number; maxCachedTiles?: number; retainFrames?: number };
+
+function createScheduler(options?: SchedulerLimits) {
+  const tiles = new Map<string, TestTile>();
+  const pending: PendingLoad[] = [];
+  const disposed: string[] = [];
+  const scheduler = new TileScheduler<TestTile>({
+    tiles,
+    maxConcurrentRequests: options?.maxConcurrentRequests ?? 2,
+    maxCachedTiles: options?.maxCachedTiles ?? 16,
+    retryLimit: 1,
+    retainFrames: options?.retainFrames,
+    compare: (a, b) => a.priority - b.priority,
+    load: (tile, isCurrent) =>
+      new Promise<void>((resolve, reject) => {
+        pending.push({ tile, resolve, reject: () => reject(new Error(`failed ${tile.key}`)), isCurrent });
+      }),
+    dispose: (tile) => {
+      disposed.push(tile.key);
+      tiles.delete(tile.key);
+    }
+  });
+  const add = (tile: TestTile) => {
+    tiles.set(tile.key, tile);
+    return tile;
+  };
+  return { scheduler, tiles, pending, disposed, add };
+}
+
+async function settle(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('TileScheduler', () => {
+  it('loads the most urgent tiles first, a limited number at a time', () => {
+    const { scheduler, pending, add } = createScheduler();
+    for (const [key, priority] of [['far', 9], ['near', 1], ['mid', 4]] as const) {
+      scheduler.request(add(createTile(key, priority)));
+    }
+    scheduler.processQueue();
+
+    expect(pending.map((load) => load.tile.key)).toEqual(['near', 'mid']);
+    expect(scheduler.queuedCount).toBe(1);
+  });
+
+  it('marks a tile ready and starts the next one when a load finishes', async () => {
+    const { scheduler, pending, add } = createScheduler({ maxConcurrentRequests: 1 });
+    const first = add(createTile('a', 1));
+    scheduler.request(first);
+    scheduler.request(add(createTile('b', 2)));
+    scheduler.processQueue();
+
+    pending[0]?.resolve();
+    await settle();
+
+    expect(first.state).toBe('ready');
+    expect(pending.map((load) => load.tile.key)).toEqual(['a', 'b']);
+  });
+
+  it('retries a failed tile up to the retry limit', async () => {
+    const { scheduler, pending, add } = createScheduler();
+    const tile = add(createTile('a', 1));
+    scheduler.request(tile);
+    scheduler.processQueue();
+
+    pending[0]?.reject();
+    await settle();
+    expect(tile.state).toBe('loading');
+    expect(tile.attempts).toBe(2);
+
+    pending[1]?.reject();
+    await settle();
+    expect(tile.state).toBe('error');
+    expect(pending).toHaveLength(2);
+  });
+
+  it('discards a load whose tile was evicted meanwhile', async () => {
+    const { scheduler, tiles, pending, add } = createScheduler();
+    const tile = add(createTile('a', 1));
+    scheduler.request(tile);
+    scheduler.processQueue();
+
+    tiles.delete('a');
+    expect(pending[0]?.isCurrent()).toBe(false);
+    pending[0]?.resolve();
+    await settle();
+    expect(tile.state).toBe('loading');
+  });
+
+  it('evicts expired tiles, then the least recently touched ones, but never wanted or loading tiles', () => {
+    const { scheduler, disposed, add } = createScheduler({ maxCachedTiles: 4, retainFrames: 10 });
+    const wanted = add(createTile('wanted', 5, 0));
+    const loading = add({ ...createTile('loading', 5, 0), state: 'loading' });
+    add(createTile('expired', 1, 5));
+    add(createTile('old', 1, 15));
+    add(createTile('older-far', 9, 12));
+    add(createTile('older-near', 1, 12));
+
+    scheduler.evict(20, (tile) => tile === wanted);
+
+    expect(disposed).toEqual(['expired', 'older-far']);
+    expect(loading.state).toBe('loading');
+  });
+
+  it('replaces the queue with a fresh wish list', () => {
+    const { scheduler, add } = createScheduler({ maxConcurrentRequests: 1 });
+    const dropped = add(createTile('dropped', 1));
+    const kept = add(createTile('kept', 2));
+    scheduler.request(dropped);
+    scheduler.replaceQueue([kept]);
+
+    expect(dropped.state).toBe('idle');
+    expect(kept.state).toBe('queued');
+    expect(scheduler.queuedCount).toBe(1);
+  });
+});
@@ -0,0 +1,150 @@
+export type TileLoadState = 'idle' | 'queued' | 'loading' | 'ready' | 'error';
+
+// The part of a layer's tile record that the scheduler reads and writes.
+export type ScheduledTile = {
+  key: string;
+  state: TileLoadState;
+  attempts: number;
+  lastWantedFrame: number;
+  lastTouchedFrame: number;
+};
+
+export type TileSchedulerOptions<T extends ScheduledTile> = {
+  // The layer's tile cache; evicted tiles are handed back through `dispose`, which removes them from it.
+  tiles: Map<string, T>;
+  maxConcurrentRequests: number;
+  maxCachedTiles: number;
+  retryLimit: number;
+  // Tiles nobody wanted for more frames than this are dropped even while the cache has room.
+  retainFrames?: number;
+  // Load order, most urgent first; eviction runs it backwards among equally stale tiles.
+  compare: (a: T, b: T) => number;
+  // Requests the tile and adopts the result only while `isCurrent()` still holds. Resolves once the tile can
+  // draw, rejects when the attempt failed.
+  load: (tile: T, isCurrent: () => boolean) => Promise<void>;
+  dispose: (tile: T) => void;
+};
+
+// The load queue, retries and cache eviction shared by the planar terrain, planar imagery and globe tile layers.
+export class TileScheduler<T extends ScheduledTile> {
+  private readonly _tiles: Map<string, T>;
+  private readonly _maxConcurrentRequests: number;
+  private readonly _maxCachedTiles: number;
+  private readonly _retryLimit: number;
+  private readonly _retainFrames: number;
+  private readonly _compare: (a: T, b: T) => number;
+  private readonly _load: (tile: T, isCurrent: () => boolean) => Promise<void>;
+  private readonly _dispose: (tile: T) => void;
+  private _queue: T[] = [];
+  private _inflightCount = 0;
+
+  constructor(options: TileSchedulerOptions<T>) {
+    this._tiles = options.tiles;
+    this._maxConcurrentRequests = Math.max(1, Math.floor(options.maxConcurrentRequests));
+    this._maxCachedTiles = Math.max(0, Math.floor(options.maxCachedTiles));
+    this._retryLimit = Math.max(0, Math.floor(options.retryLimit));
+    this._retainFrames = Math.max(0, options.retainFrames ?? Number.POSITIVE_INFINITY);
+    this._compare = options.compare;
+    this._load = options.load;
+    this._dispose = options.dispose;
+  }
+
+  get queuedCount(): number {
+    return this._queue.length;
+  }
+
+  // Queues an idle tile, or a failed one with retries left; other states are left alone.
+  request(tile: T): void {
+    if (tile.state === 'idle' || (tile.state === 'error' && tile.attempts <= this._retryLimit)) {
+      tile.state = 'queued';
+      this._queue.push(tile);
+    }
+  }
+
+  // Drops whatever is still queued and queues `tiles` instead, for layers that rebuild their wish list each frame.
+  replaceQueue(tiles: Iterable<T>): void {
+    for (const tile of this._queue) {
+      if (tile.state === 'queued') tile.state = 'idle';
+    }
+    this._queue = [];
+    for (const tile of tiles) this.request(tile);
+  }
+
+  // Takes a tile off the queue, e.g. because the layer filled it in from another request.
+  cancel(tile: T): void {
+    if (tile.state === 'queued') tile.state = 'idle';
+    this._queue = this._queue.filter((queued) => queued !== tile);
+  }
+
+  processQueue(): void {
+    while (this._inflightCount < this._maxConcurrentRequests && this._queue.length > 0) {
+      const tile = this.takeNext();
+      if (tile.state === 'queued' && this._tiles.get(tile.key) === tile) this.startLoad(tile);
+    }
+  }
+
+  // Disposes tiles not wanted for longer than `retainFrames`, then the least recently touched ones until the
+  // cache fits. Wanted tiles and tiles still loading are kept.
+  evict(frame: number, isWanted: (tile: T) => boolean): void {
+    const candidates = [...this._tiles.values()].filter((tile) => !isWanted(tile) && tile.state !== 'loading');
+    for (const tile of candidates) {
+      if (frame - tile.lastWantedFrame > this._retainFrames) this._dispose(tile);
+    }
+
+    if (this._tiles.size > this._maxCachedTiles) {
+      const stale = candidates
+        .filter((tile) => this._tiles.get(tile.key) === tile)
+        .sort((a, b) => a.lastTouchedFrame - b.lastTouchedFrame || this._compare(b, a));
+      for (const tile of stale) {
+        if (this._tiles.size <= this._maxCachedTiles) break;
+        this._dispose(tile);
+      }
+    }
+
+    this._queue = this._queue.filter((tile) => this._tiles.get(tile.key) === tile);
+  }
+
+  // Forgets the queue; loads still in flight find their tile gone from the cache and are discarded.
+  clear(): void {
+    this._queue = [];
+  }
+
+  private takeNext(): T {
+    let bestIndex = 0;
+    for (let i = 1; i < this._queue.length; i += 1) {
+      const candidate = this._queue[i];
+      const best = this._queue[bestIndex];
+      if (candidate && best && this._compare(candidate, best) < 0) bestIndex = i;
+    }
+    const [tile] = this._queue.splice(bestIndex, 1);
+    if (!tile) throw new Error('Tile load queue is empty.');
+    return tile;
+  }
+
+  private startLoad(tile: T): void {
+    tile.state = 'loading';
+    tile.attempts += 1;
+    const attempt = tile.attempts;
+    const isCurrent = () => this._tiles.get(tile.key) === tile && tile.attempts === attempt && tile.state === 'loading';
+    this._inflightCount += 1;
+
+    this._load(tile, isCurrent).then(
+      () => {
+        this._inflightCount -= 1;
+        if (isCurrent()) tile.state = 'ready';
+        this.processQueue();
+      },
+      () => {
+        this._inflightCount -= 1;
+        if (isCurrent()) {
+          tile.state = 'error';
+          if (tile.attempts <= this._retryLimit) {
+            tile.state = 'idle';
+            this.request(tile);
+          }
+        }
+        this.processQueue();
+      }
+    );
+  }
+}
@@ -0,0 +1,258 @@
+import * as THREE from 'three';
+import type { GeoCoordinator, LonLatHeight, Vec3 } from '../../geo/coords';
+import { WGS84_A } from '../../geo/ellipsoid';
+import type { CameraController } from '../CameraController';
+import type { ToolManager } from '../ToolManager';
+import { GlobeTileLayer, type GlobeTileLayerOptions } from './GlobeTileLayer';
+import { intersectEllipsoid } from './GlobeTileMath';
+
+export type GlobeOptions = GlobeTileLayerOptions & {
+  frontLonDeg?: number;
+  initialCameraHeight?: number;
+  minCameraHeight?: number;
+  hud?: boolean;
+};
+
+type GlobeSceneContext = {
+  renderer: THREE.WebGLRenderer;
+  camera: THREE.PerspectiveCamera;
+  cameraController: CameraController | null;
+  toolManager: ToolManager | null;
+  geo: GeoCoordinator;
+  worldRoot: THREE.Group;
+  setRenderOrigin: (threeWorld: Vec3, keepWorldCamera?: boolean) => Vec3;
+};
+
+const DEFAULT_INITIAL_CAMERA_HEIGHT = 20_000_000;
+const DEFAULT_MIN_CAMERA_HEIGHT = 50;
+const NEAR_HEIGHT_RATIO = 0.01;
+const MIN_NEAR_METERS = 1;
+const MAX_NEAR_METERS = 100_000;
+// Mountains beyond the ellipsoid horizon can still be in view.
+const FAR_HORIZON_MARGIN_METERS = 400_000;
+const MIN_CONTROL_SPEED_RATIO = 1e-5;
+// Covers the whole Mercator plane while tiles are between the two shapes.
+const MORPH_FAR_METERS = 100_000_000;
+
+export class GlobeScene {
+  private readonly _camera: THREE.PerspectiveCamera;
+  private readonly _renderer: THREE.WebGLRenderer;
+  private readonly _cameraController: CameraController | null;
+  private readonly _geo: GeoCoordinator;
+  private readonly _worldRoot: THREE.Group;
+  private readonly _root = new THREE.Group();
+  private readonly _tiles: GlobeTileLayer;
+  private readonly _initialCameraHeight: number;
+  private readonly _minCameraHeight: number;
+  private readonly _initialNear: number;
+  private readonly _initialFar: number;
+  private readonly _baseZoomSpeed: number;
+  private readonly _baseRotateSpeed: number;
+  private readonly _baseMinDistance: number;
+  private readonly _toolManager: ToolManager | null;
+  private readonly _hudPanelId: string | null;
+  private readonly _onKeyDownBound: (event: KeyboardEvent) => void;
+  private readonly _tmpDirection = new THREE.Vector3();
+  private _morphLodCamera: Vec3 | null = null;
+  private _hudText = '';
+  private _disposed = false;
+
+  constructor(context: GlobeSceneContext, options?: GlobeOptions) {
+    this._renderer = context.renderer;
+    this._camera = context.camera;
+    this._cameraController = context.cameraController;
+    this._geo = context.geo;
+    this._worldRoot = context.worldRoot;
+    this._toolManager = context.toolManager;
+    this._initialCameraHeight = options?.initialCameraHeight ?? DEFAULT_INITIAL_CAMERA_HEIGHT;
+    this._minCameraHeight = Math.max(0, options?.minCameraHeight ?? DEFAULT_MIN_CAMERA_HEIGHT);
+    this._initialNear = this._camera.near;
+    this._initialFar = this._camera.far;
+    this._baseZoomSpeed = this._cameraController?.zoomSpeed ?? 1;
+    this._baseRotateSpeed = this._cameraController?.rotateSpeed ?? 1;
+    this._baseMinDistance = this._cameraController?.minDistance ?? 1;
+    this._hudPanelId = (options?.hud ?? true) ? 'globe-hud' : null;
+    this.setupHud();
+
+    this._geo.setFrontLonDeg(options?.frontLonDeg ?? 0);
+    context.setRenderOrigin({ x: 0, y: 0, z: 0 }, false);
+
+    const anisotropy = Math.max(1, Math.min(8, this._renderer.capabilities.getMaxAnisotropy()));
+    this._tiles = new GlobeTileLayer(this._geo, {
+      ...options,
+      imagery: options?.imagery === false ? false : { maxAnisotropy: anisotropy, ...(options?.imagery ?? {}) }
+    });
+    this._root.add(this._tiles.object3d);
+    this._worldRoot.add(this._root);
+
+    this.resetView();
+
+    this._onKeyDownBound = (event) => this.onKeyDown(event);
+    if (typeof window !== 'undefined') {
+      window.addEventListener('keydown', this._onKeyDownBound);
+    }
+  }
+
+  get tiles(): GlobeTileLayer {
+    return this._tiles;
+  }
+
+  get morphing(): boolean {
+    return this._morphLodCamera !== null;
+  }
+
+  resetView(): void {
+    // +Z of the three frame faces (frontLonDeg, 0).
+    const distance = (WGS84_A + this._initialCameraHeight) / this._geo.metersPerUnit;
+    const center = this._geo.worldToRender({ x: 0, y: 0, z: 0 });
+    this._camera.up.set(0, 1, 0);
+    this._camera.position.set(center.x, center.y, center.z + distance);
+    this._cameraController?.setTarget(center);
+    this._camera.lookAt(center.x, center.y, center.z);
+  }
+
+  // Places the camera `height` metres above the point, orbiting the Earth's centre.
+  focusOn(lon: number, lat: number, height: number): void {
+    const position = this._geo.worldToRender(this._geo.wgs84ToThree(lat, lon, height));
+    const center = this._geo.worldToRender({ x: 0, y: 0, z: 0 });
+    this._camera.up.set(0, 1, 0);
+    this._camera.position.set(position.x, position.y, position.z);
+    this._cameraController?.setTarget(center);
+    this._camera.lookAt(center.x, center.y, center.z);
+  }
+
+  // The ellipsoid point at the centre of the view, or the point below the camera when the view misses it.
+  focusPoint(): LonLatHeight {
+    const cameraWorld = this._geo.renderToWorld(this._camera.position);
+    this._camera.getWorldDirection(this._tmpDirection);
+    const hit = intersectEllipsoid(cameraWorld, this._tmpDirection, this._geo.metersPerUnit);
+    const { lon, lat } = this._geo.threeToWgs84(hit ?? cameraWorld);
+    return { lon, lat, height: 0 };
+  }
+
+  // During a morph the caller drives the camera; tiles pick their LOD for `lodCameraWorld` on the globe.
+  beginMorph(lodCameraWorld: Vec3, focusDistanceMeters: number): void {
+    this._morphLodCamera = { ...lodCameraWorld };
+    const metersPerUnit = this._geo.metersPerUnit;
+    const near = Math.min(MAX_NEAR_METERS, Math.max(MIN_NEAR_METERS, focusDistanceMeters * NEAR_HEIGHT_RATIO));
+    this._camera.near = near / metersPerUnit;
+    this._camera.far = Math.max(MORPH_FAR_METERS, focusDistanceMeters * 4) / metersPerUnit;
+    this._camera.updateProjectionMatrix();
+  }
+
+  setMorph(morph: number): void {
+    this._tiles.setMorph(morph);
+  }
+
+  endMorph(): void {
+    this._morphLodCamera = null;
+  }
+
+  update(cameraWorld: Vec3): void {
+    if (this._disposed) return;
+
+    const geodetic = this._geo.threeToWgs84(cameraWorld);
+    if (this._morphLodCamera) {
+      this._tiles.update(this._camera, this._renderer.domElement.clientHeight, this._morphLodCamera);
+    } else {
+      this.updateCameraLimits(cameraWorld, geodetic);
+      this._tiles.update(this._camera, this._renderer.domElement.clientHeight);
+    }
+    this.updateHud(geodetic);
+  }
+
+  dispose(): void {
+    if (this._disposed) return;
+    this._disposed = true;
+
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('keydown', this._onKeyDownBound);
+    }
+    this._tiles.dispose();
+    this._camera.near = this._initialNear;
+    this._camera.far = this._initialFar;
+    this._camera.updateProjectionMatrix();
+    if (this._cameraController) {
+      this._cameraController.zoomSpeed = this._baseZoomSpeed;
+      this._cameraController.rotateSpeed = this._baseRotateSpeed;
+      this._cameraController.minDistance = this._baseMinDistance;
+    }
+    if (this._toolManager && this._hudPanelId) this._toolManager.removePanel(this._hudPanelId);
+    this._worldRoot.remove(this._root);
+  }
+
+  private setupHud(): void {
+    if (!this._toolManager || !this._hudPanelId || typeof document === 'undefined') return;
+
+    this._toolManager.removePanel(this._hudPanelId);
+    const existingHud = document.querySelector('.hud') as HTMLElement | null;
+    const hudOptions = {
+      placement: { top: '12px', left: '12px' },
+      style: { maxWidth: '60vw', whiteSpace: 'pre' as const },
+      visible: true
+    };
+    if (existingHud) {
+      this._toolManager.attachPanel(this._hudPanelId, existingHud, hudOptions);
+    } else {
+      this._toolManager.createPanel(this._hudPanelId, { className: 'hud', ...hudOptions });
+    }
+  }
+
+  // The orbit controller circles the Earth's centre, so its clip planes, zoom and rotation steps are
+  // rescaled by the camera height to stay usable from orbit down to street level.
+  private updateCameraLimits(cameraWorld: Vec3, geodetic: LonLatHeight): void {
+    const metersPerUnit = this._geo.metersPerUnit;
+    const height = Math.max(0, geodetic.height);
+    const centerDistance = Math.hypot(cameraWorld.x, cameraWorld.y, cameraWorld.z) * metersPerUnit;
+    const near = Math.min(MAX_NEAR_METERS, Math.max(MIN_NEAR_METERS, height * NEAR_HEIGHT_RATIO));
+    const horizon = Math.sqrt(Math.max(0, centerDistance * centerDistance - WGS84_A * WGS84_A));
+    const far = Math.max(near * 2, (horizon + FAR_HORIZON_MARGIN_METERS) * 1.1);
+    if (this._camera.near !== near / metersPerUnit || this._camera.far !== far / metersPerUnit) {
+      this._camera.near = near / metersPerUnit;
+      this._camera.far = far / metersPerUnit;
+      this._camera.updateProjectionMatrix();
+    }
+
+    const controller = this._cameraController;
+    if (!controller) return;
+    const target = controller.target;
+    const targetWorld = this._geo.renderToWorld(target);
+    const surface = this._geo.wgs84ToThree(geodetic.lat, geodetic.lon, 0);
+    const surfaceRadius = Math.hypot(surface.x, surface.y, surface.z);
+    const targetRadius = Math.hypot(targetWorld.x, targetWorld.y, targetWorld.z);
+    controller.minDistance = Math.max(
+      this._baseMinDistance,
+      surfaceRadius + this._minCameraHeight / metersPerUnit - targetRadius
+    );
+
+    const targetDistance = this._camera.position.distanceTo(new THREE.Vector3(target.x, target.y, target.z));
+    const ratio = Math.min(1, Math.max(MIN_CONTROL_SPEED_RATIO, height / (targetDistance * metersPerUnit || 1)));
+    controller.zoomSpeed = this._baseZoomSpeed * ratio;
+    controller.rotateSpeed = this._baseRotateSpeed * ratio;
+  }
+
+  private updateHud(geodetic: LonLatHeight): void {
+    if (!this._toolManager || !this._hudPanelId) return;
+
+    const tiles = this._tiles.debugInfo;
+    const text = [
+      'WGS84 globe',
+      `camera lon=${geodetic.lon.toFixed(5)} lat=${geodetic.lat.toFixed(5)} height=${geodetic.height.toFixed(1)}m`,
+      `tiles req=${tiles.requestedCount} cache=${tiles.tileCount} ready=${tiles.readyCount} ` +
+        `loading=${tiles.loadingCount} queued=${tiles.queuedCount} error=${tiles.errorCount} ` +
+        `rendered=${tiles.renderedCount} culled=${tiles.culledCount} maxZoom=${tiles.maxRenderedZoom}`,
+      `near=${this._camera.near.toFixed(2)} far=${this._camera.far.toFixed(0)}`,
+      '+Y north pole | +Z front meridian | R reset'
+    ].join('\n');
+    if (text === this._hudText) return;
+    this._hudText = text;
+    this._toolManager.setPanelText(this._hudPanelId, text);
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    if (this._morphLodCamera) return;
+    if (event.key.toLowerCase() === 'r') {
+      this.resetView();
+    }
+  }
+}
@@ -0,0 +1,719 @@
+import * as THREE from 'three';
+import type { GeoCoordinator, LonLatHeight, Vec3 } from '../../geo/coords';
+import { WEB_MERCATOR_MAX_LAT } from '../../geo/ellipsoid';
+import type { VerticalDatum } from '../../geo/geoid';
+import { TileScheduler, type TileLoadState } from '../TileScheduler';
+import {
+  decodeTerrainImage,
+  sampleTileData,
+  type TerrainEncoding,
+  type TerrainTileData
+} from '../validation/PlanarTerrainLayer';
+import { childTileIds, clampInt, normalizeSubdomains, tileKey, type TileId } from '../validation/PlanarTileMath';
+import {
+  EllipsoidOccluder,
+  closestPointInTile,
+  computeGlobeTileBounds,
+  sampleTileSurface,
+  tileGeometricError,
+  tileRegion,
+  type GlobeTileBounds
+} from './GlobeTileMath';
+
+export type GlobeImageryOptions = {
+  urlTemplate?: string;
+  yType?: 'xyz' | 'tms';
+  subdomains?: readonly string[] | string;
+  maxAnisotropy?: number;
+};
+
+export type GlobeTerrainOptions = {
+  urlTemplate?: string;
+  encoding?: TerrainEncoding;
+  // Datum of the DEM heights; they are moved onto the ellipsoid with the coordinator's geoid when one is set.
+  verticalDatum?: VerticalDatum;
+  yType?: 'xyz' | 'tms';
+  subdomains?: readonly string[] | string;
+  // Deeper tiles sample the terrain tile of this zoom instead of requesting their own.
+  maxZoom?: number;
+  exaggeration?: number;
+};
+
+export type GlobeTileLayerOptions = {
+  enabled?: boolean;
+  minZoom?: number;
+  maxZoom?: number;
+  tileSize?: number;
+  tileSegments?: number;
+  // A tile is split into its children while one imagery texel covers more than this many screen pixels.
+  maximumScreenSpaceError?: number;
+  // Skirt depth as a fraction of the tile's ground width.
+  skirtRatio?: number;
+  color?: number;
+  maxConcurrentRequests?: number;
+  maxCachedTiles?: number;
+  retryLimit?: number;
+  imagery?: false | GlobeImageryOptions;
+  terrain?: false | GlobeTerrainOptions;
+  // Origin of the planar world frame that tiles flatten into while morphing to the planar scene.
+  planarOrigin?: { lon: number; lat: number };
+};
+
+export type GlobeTileDebugInfo = {
+  enabled: boolean;
+  tileCount: number;
+  queuedCount: number;
+  loadingCount: number;
+  readyCount: number;
+  errorCount: number;
+  requestedCount: number;
+  renderedCount: number;
+  culledCount: number;
+  maxRenderedZoom: number;
+};
+
+type GlobeTileMaterial = THREE.MeshBasicMaterial | THREE.MeshLambertMaterial;
+
+type GlobeTile = {
+  tileId: TileId;
+  key: string;
+  state: TileLoadState;
+  attempts: number;
+  bounds: GlobeTileBounds;
+  horizonPoint: THREE.Vector3 | null;
+  geometricError: number;
+  distance: number;
+  lastWantedFrame: number;
+  lastTouchedFrame: number;
+  mesh: THREE.Mesh<THREE.BufferGeometry, GlobeTileMaterial> | null;
+};
+
+type ImagerySource = {
+  urlTemplate: string;
+  yType: 'xyz' | 'tms';
+  subdomains: readonly string[];
+  maxAnisotropy: number;
+};
+
+type TerrainSource = {
+  urlTemplate: string;
+  encoding: TerrainEncoding;
+  verticalDatum: VerticalDatum;
+  yType: 'xyz' | 'tms';
+  subdomains: readonly string[];
+  maxZoom: number;
+  exaggeration: number;
+};
+
+type PlanarFrame = {
+  originMercator: { x: number; y: number };
+  metersPerUnit: number;
+};
+
+type GlobeTileGeometry = {
+  geometry: THREE.BufferGeometry;
+  center: THREE.Vector3;
+  points: THREE.Vector3[];
+  minHeight: number;
+  maxHeight: number;
+};
+
+const DEFAULT_IMAGERY_URL_TEMPLATE = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const DEFAULT_TERRAIN_URL_TEMPLATE = 'https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png';
+const MAX_TILE_SEGMENTS = 128;
+// Coarse tiles get extra segments so their chords do not cut visibly into the ellipsoid.
+const MAX_SEGMENT_DEGREES = 2;
+const HORIZON_SAMPLE_SEGMENTS = 8;
+const MIN_SSE_DISTANCE_METERS = 1;
+const POLAR_CAP_SEGMENTS = 64;
+const POLAR_CAP_ROWS = 4;
+
+export class GlobeTileLayer {
+  private readonly _root = new THREE.Group();
+  private readonly _tileRoot = new THREE.Group();
+  private readonly _geo: GeoCoordinator;
+  private readonly _minZoom: number;
+  private readonly _maxZoom: number;
+  private readonly _tileSize: number;
+  private readonly _tileSegments: number;
+  private readonly _maximumScreenSpaceError: number;
+  private readonly _skirtRatio: number;
+  private readonly _color: number;
+  private readonly _maxCachedTiles: number;
+  private readonly _imagery: ImagerySource | null;
+  private readonly _terrain: TerrainSource | null;
+  private readonly _occluder: EllipsoidOccluder;
+  private readonly _planarFrame: PlanarFrame;
+  private readonly _polarCaps: THREE.Mesh[];
+  private readonly _textureLoader = new THREE.TextureLoader();
+  private readonly _imageLoader = new THREE.ImageLoader();
+
+  private readonly _tiles = new Map<string, GlobeTile>();
+  private readonly _scheduler: TileScheduler<GlobeTile>;
+  private readonly _terrainData = new Map<string, Promise<TerrainTileData | null>>();
+  private readonly _frustum = new THREE.Frustum();
+  private readonly _projScreen = new THREE.Matrix4();
+  private readonly _cameraWorld = new THREE.Vector3();
+  private readonly _tmpSphere = new THREE.Sphere();
+
+  private _enabled: boolean;
+  private _disposed = false;
+  private _decodeCanvas: HTMLCanvasElement | null = null;
+  private _frame = 0;
+  private _requestedCount = 0;
+  private _culledCount = 0;
+  private _cameraGeodetic: LonLatHeight = { lon: 0, lat: 0, height: 0 };
+  private _renderOrigin = new THREE.Vector3();
+  private _sseFactor = 1;
+  private _morph = 1;
+  private _rendered = new Set<GlobeTile>();
+
+  constructor(geo: GeoCoordinator, options?: GlobeTileLayerOptions) {
+    this._geo = geo;
+    this._enabled = options?.enabled ?? true;
+    this._minZoom = clampInt(options?.minZoom ?? 0, 0, 22);
+    this._maxZoom = clampInt(options?.maxZoom ?? 18, this._minZoom, 22);
+    this._tileSize = Math.max(1, Math.floor(options?.tileSize ?? 256));
+    this._tileSegments = clampInt(options?.tileSegments ?? 32, 2, MAX_TILE_SEGMENTS);
+    this._maximumScreenSpaceError = Math.max(0.1, options?.maximumScreenSpaceError ?? 2);
+    this._skirtRatio = Math.max(0, options?.skirtRatio ?? 0.02);
+    this._color = options?.color ?? 0x2b4a6f;
+    this._maxCachedTiles = Math.max(16, Math.floor(options?.maxCachedTiles ?? 512));
+    // Coarse tiles load first so the globe is covered before it is refined.
+    this._scheduler = new TileScheduler({
+      tiles: this._tiles,
+      maxConcurrentRequests: Math.max(1, Math.floor(options?.maxConcurrentRequests ?? 8)),
+      maxCachedTiles: this._maxCachedTiles,
+      retryLimit: Math.max(0, Math.floor(options?.retryLimit ?? 2)),
+      compare: (a, b) => a.tileId.z - b.tileId.z || a.distance - b.distance,
+      load: (tile, isCurrent) => this.loadTile(tile, isCurrent),
+      dispose: (tile) => this.disposeTile(tile)
+    });
+
+    const imagery = options?.imagery === false ? null : (options?.imagery ?? {});
+    this._imagery = imagery
+      ? {
+          urlTemplate: imagery.urlTemplate ?? DEFAULT_IMAGERY_URL_TEMPLATE,
+          yType: imagery.yType ?? 'xyz',
+          subdomains: normalizeSubdomains(imagery.subdomains),
+          maxAnisotropy: Math.max(1, Math.floor(imagery.maxAnisotropy ?? 1))
+        }
+      : null;
+
+    const terrain = options?.terrain === undefined || options.terrain === false ? null : options.terrain;
+    this._terrain = terrain
+      ? {
+          urlTemplate: terrain.urlTemplate ?? DEFAULT_TERRAIN_URL_TEMPLATE,
+          encoding: terrain.encoding ?? (terrain.urlTemplate === undefined ? 'terrarium' : 'mapbox'),
+          verticalDatum: terrain.verticalDatum ?? 'orthometric',
+          yType: terrain.yType ?? 'xyz',
+          subdomains: normalizeSubdomains(terrain.subdomains),
+          maxZoom: clampInt(terrain.maxZoom ?? 15, 0, 22),
+          exaggeration: terrain.exaggeration ?? 1
+        }
+      : null;
+    if (this._terrain && (!Number.isFinite(this._terrain.exaggeration) || this._terrain.exaggeration <= 0)) {
+      throw new Error(`Invalid terrain exaggeration: ${this._terrain.exaggeration}`);
+    }
+
+    this._occluder = new EllipsoidOccluder(this._geo.metersPerUnit);
+    this._planarFrame = {
+      originMercator: this._geo.lonLatToWebMercator(options?.planarOrigin?.lon ?? 0, options?.planarOrigin?.lat ?? 0),
+      metersPerUnit: this._geo.metersPerUnit
+    };
+    this._textureLoader.setCrossOrigin('anonymous');
+    this._imageLoader.setCrossOrigin('anonymous');
+
+    const capMaterial = new THREE.MeshLambertMaterial({ color: this._color });
+    this._polarCaps = [
+      new THREE.Mesh(createPolarCap(this._geo, true), capMaterial),
+      new THREE.Mesh(createPolarCap(this._geo, false), capMaterial)
+    ];
+    this._root.add(...this._polarCaps, this._tileRoot);
+    this._root.visible = this._enabled;
+  }
+
+  get object3d(): THREE.Object3D {
+    return this._root;
+  }
+
+  get enabled(): boolean {
+    return this._enabled;
+  }
+
+  // 1 draws the tiles on the ellipsoid, 0 flattens them onto the Web Mercator plane of the planar scene.
+  get morph(): number {
+    return this._morph;
+  }
+
+  get debugInfo(): GlobeTileDebugInfo {
+    let loadingCount = 0;
+    let readyCount = 0;
+    let errorCount = 0;
+    for (const tile of this._tiles.values()) {
+      if (tile.state === 'loading') loadingCount += 1;
+      if (tile.state === 'ready') readyCount += 1;
+      if (tile.state === 'error') errorCount += 1;
+    }
+    let maxRenderedZoom = 0;
+    for (const tile of this._rendered) {
+      maxRenderedZoom = Math.max(maxRenderedZoom, tile.tileId.z);
+    }
+
+    return {
+      enabled: this._enabled,
+      tileCount: this._tiles.size,
+      queuedCount: this._scheduler.queuedCount,
+      loadingCount,
+      readyCount,
+      errorCount,
+      requestedCount: this._requestedCount,
+      renderedCount: this._rendered.size,
+      culledCount: this._culledCount,
+      maxRenderedZoom
+    };
+  }
+
+  setEnabled(enabled: boolean): void {
+    this._enabled = enabled;
+    this._root.visible = enabled;
+  }
+
+  setMorph(morph: number): void {
+    this._morph = Math.max(0, Math.min(1, morph));
+    // The poles have no place on the Mercator plane.
+    for (const cap of this._polarCaps) {
+      cap.visible = this._morph >= 1;
+    }
+    for (const tile of this._tiles.values()) {
+      if (tile.mesh) tile.mesh.morphTargetInfluences = [1 - this._morph];
+    }
+  }
+
+  // While the tiles are morphing their bounds no longer match the ellipsoid, so culling is skipped and
+  // LOD is chosen for `lodCameraWorld`, the camera's pose on the globe side of the morph.
+  update(camera: THREE.PerspectiveCamera, viewportHeight: number, lodCameraWorld?: Vec3): void {
+    if (!this._enabled || this._disposed) return;
+
+    this._frame += 1;
+    this._culledCount = 0;
+
+    const cameraWorld = lodCameraWorld ?? this._geo.renderToWorld(camera.position);
+    this._cameraWorld.set(cameraWorld.x, cameraWorld.y, cameraWorld.z);
+    this._cameraGeodetic = this._geo.threeToWgs84(cameraWorld);
+    this._occluder.setCamera(cameraWorld);
+    const origin = this._geo.renderOriginThree;
+    this._renderOrigin.set(origin.x, origin.y, origin.z);
+
+    camera.updateMatrixWorld();
+    this._projScreen.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+    this._frustum.setFromProjectionMatrix(this._projScreen);
+    this._sseFactor = Math.max(1, viewportHeight) / (2 * Math.tan((camera.fov * Math.PI) / 360));
+
+    const rendered = new Set<GlobeTile>();
+    const wanted = new Set<GlobeTile>();
+    this.visitTile(this.ensureTile({ x: 0, y: 0, z: 0 }, null), rendered, wanted);
+
+    for (const tile of this._tiles.values()) {
+      if (tile.mesh) tile.mesh.visible = rendered.has(tile);
+    }
+    this._rendered = rendered;
+
+    this._scheduler.replaceQueue(wanted);
+    this._scheduler.processQueue();
+    this._scheduler.evict(this._frame, (tile) => tile.lastWantedFrame === this._frame);
+  }
+
+  dispose(): void {
+    this._disposed = true;
+    this._scheduler.clear();
+    for (const tile of [...this._tiles.values()]) {
+      this.disposeTile(tile);
+    }
+    this._terrainData.clear();
+    this._rendered.clear();
+    for (const child of this._root.children) {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    }
+    this._root.clear();
+  }
+
+  // Children were already tested for visibility by their parent; only the root is tested here.
+  private visitTile(tile: GlobeTile, rendered: Set<GlobeTile>, wanted: Set<GlobeTile>): void {
+    this.touchTile(tile);
+    if (tile.tileId.z === 0 && !this.isTileVisible(tile)) {
+      this._culledCount += 1;
+      return;
+    }
+
+    const { z } = tile.tileId;
+    const belowMinZoom = z < this._minZoom;
+    if (!belowMinZoom) wanted.add(tile);
+
+    const refine = belowMinZoom || (z < this._maxZoom && this.screenSpaceError(tile) > this._maximumScreenSpaceError);
+    if (refine) {
+      const children = childTileIds(tile.tileId)
+        .map((tileId) => this.ensureTile(tileId, tile))
+        .filter((child) => {
+          this.touchTile(child);
+          if (this.isTileVisible(child)) return true;
+          this._culledCount += 1;
+          return false;
+        });
+
+      // Children replace their parent only once all of them can draw, so the surface never shows holes.
+      if (belowMinZoom || children.every((child) => child.state === 'ready')) {
+        for (const child of children) {
+          this.visitTile(child, rendered, wanted);
+        }
+        return;
+      }
+      for (const child of children) {
+        this.screenSpaceError(child);
+        wanted.add(child);
+      }
+    }
+
+    if (tile.state === 'ready') rendered.add(tile);
+  }
+
+  // Every tile the traversal reaches stays wanted, so the scheduler only evicts what the view has left.
+  private touchTile(tile: GlobeTile): void {
+    tile.lastWantedFrame = this._frame;
+    tile.lastTouchedFrame = this._frame;
+  }
+
+  private isTileVisible(tile: GlobeTile): boolean {
+    if (this._morph < 1) return true;
+    this._tmpSphere.center.copy(tile.bounds.sphere.center).sub(this._renderOrigin);
+    this._tmpSphere.radius = tile.bounds.sphere.radius;
+    if (!this._frustum.intersectsSphere(this._tmpSphere)) return false;
+    return !tile.horizonPoint || this._occluder.isScaledPointVisible(tile.horizonPoint);
+  }
+
+  private screenSpaceError(tile: GlobeTile): number {
+    const closest = closestPointInTile(this._geo, tile.bounds, this._cameraGeodetic);
+    const dx = closest.x - this._cameraWorld.x;
+    const dy = closest.y - this._cameraWorld.y;
+    const dz = closest.z - this._cameraWorld.z;
+    tile.distance = Math.max(Math.hypot(dx, dy, dz) * this._geo.metersPerUnit, MIN_SSE_DISTANCE_METERS);
+    return (tile.geometricError * this._sseFactor) / tile.distance;
+  }
+
+  private ensureTile(tileId: TileId, parent: GlobeTile | null): GlobeTile {
+    const key = tileKey(tileId);
+    const existing = this._tiles.get(key);
+    if (existing) return existing;
+
+    // Until its own terrain arrives a tile borrows the height range of its parent.
+    const minHeight = parent?.bounds.minHeight ?? 0;
+    const maxHeight = parent?.bounds.maxHeight ?? 0;
+    const bounds = computeGlobeTileBounds(this._geo, tileId, minHeight, maxHeight);
+    const tile: GlobeTile = {
+      tileId,
+      key,
+      state: 'idle',
+      attempts: 0,
+      bounds,
+      horizonPoint: this._occluder.horizonCullingPoint(
+        sampleTileSurface(this._geo, tileId, HORIZON_SAMPLE_SEGMENTS, Math.max(maxHeight, 0)),
+        bounds.sphere.center
+      ),
+      geometricError: tileGeometricError(tileRegion(this._geo, tileId), tileId.z, this._tileSize),
+      distance: Number.POSITIVE_INFINITY,
+      lastWantedFrame: this._frame,
+      lastTouchedFrame: this._frame,
+      mesh: null
+    };
+    this._tiles.set(key, tile);
+    return tile;
+  }
+
+  private loadTile(tile: GlobeTile, isCurrent: () => boolean): Promise<void> {
+    this._requestedCount += 1;
+    const imagery = this._imagery
+      ? this._textureLoader.loadAsync(buildTileUrl(this._imagery, tile.tileId))
+      : Promise.resolve(null);
+    return Promise.all([imagery, this.loadTerrain(tile.tileId)]).then(([texture, terrain]) => {
+      if (!isCurrent()) {
+        texture?.dispose();
+        return;
+      }
+
+      if (texture && this._imagery) {
+        texture.generateMipmaps = true;
+        texture.minFilter = THREE.LinearMipmapLinearFilter;
+        texture.magFilter = THREE.LinearFilter;
+        texture.anisotropy = this._imagery.maxAnisotropy;
+        texture.colorSpace = THREE.SRGBColorSpace;
+      }
+      this.buildTileMesh(tile, texture, terrain);
+    });
+  }
+
+  // Missing terrain is not fatal: the tile is drawn on the bare ellipsoid instead.
+  private loadTerrain(tileId: TileId): Promise<TerrainTileData | null> {
+    const terrain = this._terrain;
+    if (!terrain) return Promise.resolve(null);
+
+    const shift = Math.max(0, tileId.z - terrain.maxZoom);
+    const sourceId = { x: tileId.x >> shift, y: tileId.y >> shift, z: tileId.z - shift };
+    const key = tileKey(sourceId);
+    const cached = this._terrainData.get(key);
+    if (cached) return cached;
+
+    const request = this._imageLoader
+      .loadAsync(buildTileUrl(terrain, sourceId))
+      .then((image) => this.decodeImage(sourceId, image, terrain.encoding))
+      .catch(() => null);
+    this._terrainData.set(key, request);
+    // Maps iterate in insertion order, so the first entries are the oldest requests.
+    for (const staleKey of this._terrainData.keys()) {
+      if (this._terrainData.size <= this._maxCachedTiles) break;
+      this._terrainData.delete(staleKey);
+    }
+    return request;
+  }
+
+  private decodeImage(tileId: TileId, image: HTMLImageElement, encoding: TerrainEncoding): TerrainTileData | null {
+    if (typeof document === 'undefined') return null;
+    if (!this._decodeCanvas) {
+      this._decodeCanvas = document.createElement('canvas');
+    }
+    return decodeTerrainImage(this._decodeCanvas, tileId, image, encoding);
+  }
+
+  private buildTileMesh(tile: GlobeTile, texture: THREE.Texture | null, data: TerrainTileData | null): void {
+    const { tileId } = tile;
+    const terrain = this._terrain;
+    const scale = data ? 2 ** (tileId.z - data.tileId.z) : 1;
+    const heightAt = (lon: number, lat: number, u: number, v: number): number => {
+      if (!data || !terrain) return 0;
+      const dataU = (tileId.x - data.tileId.x * scale + u) / scale;
+      const dataV = (tileId.y - data.tileId.y * scale + v) / scale;
+      const height = sampleTileData(data, dataU, dataV) * terrain.exaggeration;
+      if (terrain.verticalDatum === 'ellipsoidal' || !this._geo.geoid) return height;
+      return height + (this._geo.geoid.undulation(lon, lat) ?? 0);
+    };
+
+    const built = createGlobeTileGeometry(
+      this._geo,
+      tileId,
+      this.segmentsFor(tileId.z),
+      tile.geometricError * this._tileSize * this._skirtRatio,
+      this._planarFrame,
+      heightAt
+    );
+    tile.bounds = computeGlobeTileBounds(this._geo, tileId, built.minHeight, built.maxHeight);
+    tile.horizonPoint = this._occluder.horizonCullingPoint(built.points, tile.bounds.sphere.center);
+
+    const material: GlobeTileMaterial = texture
+      ? new THREE.MeshBasicMaterial({ map: texture })
+      : new THREE.MeshLambertMaterial({ color: this._color });
+    const mesh = new THREE.Mesh(built.geometry, material);
+    mesh.position.copy(built.center);
+    mesh.morphTargetInfluences = [1 - this._morph];
+    mesh.visible = false;
+    tile.mesh = mesh;
+    this._tileRoot.add(mesh);
+  }
+
+  private segmentsFor(zoom: number): number {
+    const spanDegrees = 360 / 2 ** zoom;
+    let segments = this._tileSegments;
+    while (segments < MAX_TILE_SEGMENTS && spanDegrees / segments > MAX_SEGMENT_DEGREES) {
+      segments *= 2;
+    }
+    return Math.min(segments, MAX_TILE_SEGMENTS);
+  }
+
+  private disposeTile(tile: GlobeTile): void {
+    if (tile.mesh) {
+      this._tileRoot.remove(tile.mesh);
+      tile.mesh.geometry.dispose();
+      tile.mesh.material.map?.dispose();
+      tile.mesh.material.dispose();
+      tile.mesh = null;
+    }
+    this._tiles.delete(tile.key);
+  }
+}
+
+function buildTileUrl(
+  source: { urlTemplate: string; yType: 'xyz' | 'tms'; subdomains: readonly string[] },
+  tileId: TileId
+): string {
+  const n = 2 ** tileId.z;
+  const y = source.yType === 'tms' ? n - 1 - tileId.y : tileId.y;
+  const subdomain =
+    source.subdomains.length === 0
+      ? ''
+      : (source.subdomains[Math.abs(tileId.x + tileId.y + tileId.z) % source.subdomains.length] ?? '');
+  return source.urlTemplate
+    .replace('{z}', String(tileId.z))
+    .replace('{x}', String(tileId.x))
+    .replace('{y}', String(y))
+    .replace('{s}', subdomain);
+}
+
+// Unit normal of the ellipsoid at a geodetic position, expressed in the three frame.
+function geodeticNormal(geo: GeoCoordinator, lon: number, lat: number): THREE.Vector3 {
+  const lonRad = (lon * Math.PI) / 180;
+  const latRad = (lat * Math.PI) / 180;
+  const normal = geo.ecefToThree({
+    x: Math.cos(latRad) * Math.cos(lonRad),
+    y: Math.cos(latRad) * Math.sin(lonRad),
+    z: Math.sin(latRad)
+  });
+  return new THREE.Vector3(normal.x, normal.y, normal.z).normalize();
+}
+
+// Vertices are laid out on the Web Mercator grid of the tile so imagery maps linearly onto them, and are
+// stored relative to the tile centre to keep float32 precision on an Earth-sized mesh. The single morph
+// target holds the same vertices on the planar scene's Mercator plane.
+function createGlobeTileGeometry(
+  geo: GeoCoordinator,
+  tileId: TileId,
+  segments: number,
+  skirtHeight: number,
+  planar: PlanarFrame,
+  heightAt: (lon: number, lat: number, u: number, v: number) => number
+): GlobeTileGeometry {
+  const side = segments + 1;
+  const gridCount = side * side;
+  const ringCount = segments * 4;
+  const lons = new Float64Array(gridCount);
+  const lats = new Float64Array(gridCount);
+  const heights = new Float64Array(gridCount);
+  let minHeight = Number.POSITIVE_INFINITY;
+  let maxHeight = Number.NEGATIVE_INFINITY;
+
+  for (let j = 0; j < side; j += 1) {
+    for (let i = 0; i < side; i += 1) {
+      const index = j * side + i;
+      const { lon, lat } = geo.tileToLonLat(tileId.x + i / segments, tileId.y + j / segments, tileId.z);
+      const height = heightAt(lon, lat, i / segments, j / segments);
+      lons[index] = lon;
+      lats[index] = lat;
+      heights[index] = height;
+      minHeight = Math.min(minHeight, height);
+      maxHeight = Math.max(maxHeight, height);
+    }
+  }
+
+  const mid = geo.tileToLonLat(tileId.x + 0.5, tileId.y + 0.5, tileId.z);
+  const centerThree = geo.wgs84ToThree(mid.lat, mid.lon, (minHeight + maxHeight) * 0.5);
+  const center = new THREE.Vector3(centerThree.x, centerThree.y, centerThree.z);
+  const positions = new Float32Array((gridCount + ringCount) * 3);
+  const normals = new Float32Array((gridCount + ringCount) * 3);
+  const uvs = new Float32Array((gridCount + ringCount) * 2);
+  const planarPositions = new Float32Array((gridCount + ringCount) * 3);
+  const planarNormals = new Float32Array((gridCount + ringCount) * 3);
+  const points: THREE.Vector3[] = [];
+
+  const writeVertex = (target: number, source: number, heightOffset: number): THREE.Vector3 => {
+    const lon = lons[source] ?? 0;
+    const lat = lats[source] ?? 0;
+    const height = (heights[source] ?? 0) - heightOffset;
+    const three = geo.wgs84ToThree(lat, lon, height);
+    const normal = geodeticNormal(geo, lon, lat);
+    const mercator = geo.lonLatToWebMercator(lon, lat);
+    positions[target * 3] = three.x - center.x;
+    positions[target * 3 + 1] = three.y - center.y;
+    positions[target * 3 + 2] = three.z - center.z;
+    normals[target * 3] = normal.x;
+    normals[target * 3 + 1] = normal.y;
+    normals[target * 3 + 2] = normal.z;
+    planarPositions[target * 3] = (mercator.x - planar.originMercator.x) / planar.metersPerUnit - center.x;
+    planarPositions[target * 3 + 1] = (mercator.y - planar.originMercator.y) / planar.metersPerUnit - center.y;
+    planarPositions[target * 3 + 2] = height / planar.metersPerUnit - center.z;
+    planarNormals[target * 3 + 2] = 1;
+    uvs[target * 2] = (source % side) / segments;
+    uvs[target * 2 + 1] = 1 - Math.floor(source / side) / segments;
+    return new THREE.Vector3(three.x, three.y, three.z);
+  };
+
+  for (let index = 0; index < gridCount; index += 1) {
+    points.push(writeVertex(index, index, 0));
+  }
+
+  const indices: number[] = [];
+  for (let j = 0; j < segments; j += 1) {
+    for (let i = 0; i < segments; i += 1) {
+      const a = j * side + i;
+      const b = a + 1;
+      const c = a + side;
+      const d = c + 1;
+      indices.push(a, c, b, b, c, d);
+    }
+  }
+
+  // Skirts hang below the tile border and hide cracks against neighbours drawn at other zoom levels.
+  // The ring runs clockwise seen from above, so each skirt quad faces away from the tile.
+  const ring: number[] = [];
+  for (let i = 0; i < segments; i += 1) ring.push(i);
+  for (let j = 0; j < segments; j += 1) ring.push(j * side + segments);
+  for (let i = segments; i > 0; i -= 1) ring.push(segments * side + i);
+  for (let j = segments; j > 0; j -= 1) ring.push(j * side);
+
+  for (let k = 0; k < ring.length; k += 1) {
+    writeVertex(gridCount + k, ring[k] ?? 0, skirtHeight);
+  }
+  for (let k = 0; k < ring.length; k += 1) {
+    const next = (k + 1) % ring.length;
+    const top = ring[k] ?? 0;
+    const topNext = ring[next] ?? 0;
+    const bottom = gridCount + k;
+    const bottomNext = gridCount + next;
+    indices.push(top, topNext, bottom, bottom, topNext, bottomNext);
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+  geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+  geometry.morphAttributes.position = [new THREE.BufferAttribute(planarPositions, 3)];
+  geometry.morphAttributes.normal = [new THREE.BufferAttribute(planarNormals, 3)];
+  geometry.setIndex(indices);
+  geometry.computeBoundingSphere();
+  return { geometry, center, points, minHeight, maxHeight };
+}
+
+// Web Mercator tiles stop at ±85.05°; the caps close the globe over the poles.
+function createPolarCap(geo: GeoCoordinator, north: boolean): THREE.BufferGeometry {
+  const side = POLAR_CAP_SEGMENTS + 1;
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const indices: number[] = [];
+  const latNorth = north ? 90 : -WEB_MERCATOR_MAX_LAT;
+  const latSouth = north ? WEB_MERCATOR_MAX_LAT : -90;
+
+  for (let j = 0; j <= POLAR_CAP_ROWS; j += 1) {
+    const lat = latNorth + ((latSouth - latNorth) * j) / POLAR_CAP_ROWS;
+    for (let i = 0; i < side; i += 1) {
+      const lon = -180 + (360 * i) / POLAR_CAP_SEGMENTS;
+      const three = geo.wgs84ToThree(lat, lon, 0);
+      const normal = geodeticNormal(geo, lon, lat);
+      positions.push(three.x, three.y, three.z);
+      normals.push(normal.x, normal.y, normal.z);
+    }
+  }
+  for (let j = 0; j < POLAR_CAP_ROWS; j += 1) {
+    for (let i = 0; i < POLAR_CAP_SEGMENTS; i += 1) {
+      const a = j * side + i;
+      const b = a + 1;
+      const c = a + side;
+      const d = c + 1;
+      indices.push(a, c, b, b, c, d);
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+  geometry.setIndex(indices);
+  return geometry;
+}
@@ -0,0 +1,155 @@
+import * as THREE from 'three';
+import type { GeoCoordinator, LonLatHeight, Vec3 } from '../../geo/coords';
+import { WGS84_A, WGS84_B } from '../../geo/ellipsoid';
+import { WEB_MERCATOR_WORLD_SIZE, type TileId } from '../validation/PlanarTileMath';
+
+export type GeoRegion = {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+};
+
+// Heights are ellipsoidal metres; positions are in the three world frame (before the render origin offset).
+export type GlobeTileBounds = GeoRegion & {
+  minHeight: number;
+  maxHeight: number;
+  center: THREE.Vector3;
+  sphere: THREE.Sphere;
+};
+
+const BOUNDS_SEGMENTS = 4;
+
+export function tileRegion(geo: GeoCoordinator, tileId: TileId): GeoRegion {
+  const northWest = geo.tileToLonLat(tileId.x, tileId.y, tileId.z);
+  const southEast = geo.tileToLonLat(tileId.x + 1, tileId.y + 1, tileId.z);
+  return { west: northWest.lon, south: southEast.lat, east: southEast.lon, north: northWest.lat };
+}
+
+// Ground size of one imagery texel at the tile's latitude, used as the tile's geometric error.
+export function tileGeometricError(region: GeoRegion, zoom: number, tileSize: number): number {
+  const lat = region.south <= 0 && region.north >= 0 ? 0 : Math.min(Math.abs(region.south), Math.abs(region.north));
+  return (WEB_MERCATOR_WORLD_SIZE / 2 ** zoom / tileSize) * Math.cos((lat * Math.PI) / 180);
+}
+
+export function sampleTileSurface(
+  geo: GeoCoordinator,
+  tileId: TileId,
+  segments: number,
+  height: number
+): THREE.Vector3[] {
+  const points: THREE.Vector3[] = [];
+  for (let j = 0; j <= segments; j += 1) {
+    for (let i = 0; i <= segments; i += 1) {
+      const { lon, lat } = geo.tileToLonLat(tileId.x + i / segments, tileId.y + j / segments, tileId.z);
+      const three = geo.wgs84ToThree(lat, lon, height);
+      points.push(new THREE.Vector3(three.x, three.y, three.z));
+    }
+  }
+  return points;
+}
+
+export function computeGlobeTileBounds(
+  geo: GeoCoordinator,
+  tileId: TileId,
+  minHeight: number,
+  maxHeight: number
+): GlobeTileBounds {
+  const low = sampleTileSurface(geo, tileId, BOUNDS_SEGMENTS, minHeight);
+  const high = minHeight === maxHeight ? [] : sampleTileSurface(geo, tileId, BOUNDS_SEGMENTS, maxHeight);
+  const { lon, lat } = geo.tileToLonLat(tileId.x + 0.5, tileId.y + 0.5, tileId.z);
+  const center = geo.wgs84ToThree(lat, lon, (minHeight + maxHeight) * 0.5);
+  return {
+    ...tileRegion(geo, tileId),
+    minHeight,
+    maxHeight,
+    center: new THREE.Vector3(center.x, center.y, center.z),
+    sphere: new THREE.Sphere().setFromPoints([...low, ...high])
+  };
+}
+
+// Closest point of the tile's region and height range to a geodetic position, in the three world frame.
+export function closestPointInTile(geo: GeoCoordinator, bounds: GlobeTileBounds, position: LonLatHeight): Vec3 {
+  const centerLon = (bounds.west + bounds.east) * 0.5;
+  const halfSpan = (bounds.east - bounds.west) * 0.5;
+  const dLon = ((((position.lon - centerLon) % 360) + 540) % 360) - 180;
+  const lon = centerLon + Math.max(-halfSpan, Math.min(halfSpan, dLon));
+  const lat = Math.max(bounds.south, Math.min(bounds.north, position.lat));
+  const height = Math.max(bounds.minHeight, Math.min(bounds.maxHeight, position.height));
+  return geo.wgs84ToThree(lat, lon, height);
+}
+
+// Horizon test against the WGS84 ellipsoid in scaled space, where the ellipsoid becomes the unit sphere.
+// The three frame keeps the polar axis on Y, so its radii are (a, b, a).
+export class EllipsoidOccluder {
+  private readonly _radii: THREE.Vector3;
+  private readonly _cameraScaled = new THREE.Vector3();
+  private readonly _tmp = new THREE.Vector3();
+  private readonly _tmpDirection = new THREE.Vector3();
+  private _horizonDistanceSq = 0;
+
+  constructor(metersPerUnit: number) {
+    this._radii = new THREE.Vector3(WGS84_A, WGS84_B, WGS84_A).divideScalar(metersPerUnit);
+  }
+
+  setCamera(cameraWorld: Vec3): void {
+    this._cameraScaled.set(cameraWorld.x, cameraWorld.y, cameraWorld.z).divide(this._radii);
+    this._horizonDistanceSq = this._cameraScaled.lengthSq() - 1;
+  }
+
+  // A scaled-space point along `direction` that is only hidden when every one of `points` is hidden, or
+  // null when the points span too much of the ellipsoid for such a point to exist.
+  horizonCullingPoint(points: readonly Vec3[], direction: Vec3): THREE.Vector3 | null {
+    const scaledDirection = this._tmpDirection.set(direction.x, direction.y, direction.z).divide(this._radii);
+    if (scaledDirection.lengthSq() === 0) return null;
+    scaledDirection.normalize();
+
+    let maxMagnitude = 0;
+    for (const point of points) {
+      const scaled = this._tmp.set(point.x, point.y, point.z).divide(this._radii);
+      // Points below the ellipsoid are treated as lying on it.
+      const magnitude = Math.max(1, scaled.length());
+      scaled.normalize();
+      const cosAlpha = scaled.dot(scaledDirection);
+      const sinAlpha = scaled.cross(scaledDirection).length();
+      const cosBeta = 1 / magnitude;
+      const sinBeta = Math.sqrt(magnitude * magnitude - 1) * cosBeta;
+      const denominator = cosAlpha * cosBeta - sinAlpha * sinBeta;
+      if (denominator <= 0) return null;
+      maxMagnitude = Math.max(maxMagnitude, 1 / denominator);
+    }
+    return maxMagnitude > 0 ? scaledDirection.clone().multiplyScalar(maxMagnitude) : null;
+  }
+
+  isScaledPointVisible(scaledPoint: THREE.Vector3): boolean {
+    if (this._horizonDistanceSq <= 0) return true;
+    const vt = this._tmp.copy(scaledPoint).sub(this._cameraScaled);
+    const vtDotVc = -vt.dot(this._cameraScaled);
+    if (vtDotVc <= this._horizonDistanceSq) return true;
+    return (vtDotVc * vtDotVc) / vt.lengthSq() <= this._horizonDistanceSq;
+  }
+}
+
+// Nearest intersection of a ray with the WGS84 ellipsoid in the three world frame, or null on a miss.
+export function intersectEllipsoid(origin: Vec3, direction: Vec3, metersPerUnit: number): Vec3 | null {
+  const a = WGS84_A / metersPerUnit;
+  const b = WGS84_B / metersPerUnit;
+  const ox = origin.x / a;
+  const oy = origin.y / b;
+  const oz = origin.z / a;
+  const dx = direction.x / a;
+  const dy = direction.y / b;
+  const dz = direction.z / a;
+  const qa = dx * dx + dy * dy + dz * dz;
+  const qb = 2 * (ox * dx + oy * dy + oz * dz);
+  const qc = ox * ox + oy * oy + oz * oz - 1;
+  const discriminant = qb * qb - 4 * qa * qc;
+  if (qa === 0 || discriminant < 0) return null;
+
+  const sqrtDiscriminant = Math.sqrt(discriminant);
+  const near = (-qb - sqrtDiscriminant) / (2 * qa);
+  const far = (-qb + sqrtDiscriminant) / (2 * qa);
+  const t = near >= 0 ? near : far;
+  if (t < 0) return null;
+  return { x: origin.x + direction.x * t, y: origin.y + direction.y * t, z: origin.z + direction.z * t };
+}
@@ -57,6 +57,7 @@ export class ToolManager {
   private readonly _toolStyles = new Map<string, HTMLStyleElement>();
   private readonly _toolButtons = new Map<BuiltinToolId, HTMLButtonElement>();
   private readonly _toolStates = new Map<BuiltinToolId, boolean>();
+  private readonly _toolStateListeners = new Set<(id: BuiltinToolId, active: boolean) => void>();
 
   private _toolbarIconsEl: HTMLElement | null = null;
   private _popupTitleEl: HTMLElement | null = null;
@@ -135,6 +136,26 @@ export class ToolManager {
     this.onToolIconClick(id);
   }
 
+  isToolActive(id: BuiltinToolId): boolean {
+    return this._toolStates.get(id) === true;
+  }
+
+  setToolActive(id: BuiltinToolId, active: boolean): void {
+    if ((this._toolStates.get(id) ?? false) === active) return;
+    this._toolStates.set(id, active);
+    this.syncToolIconStates();
+    for (const listener of this._toolStateListeners) {
+      listener(id, active);
+    }
+  }
+
+  onToolStateChange(listener: (id: BuiltinToolId, active: boolean) => void): () => void {
+    this._toolStateListeners.add(listener);
+    return () => {
+      this._toolStateListeners.delete(listener);
+    };
+  }
+
   createPanel(id: string, options?: ToolPanelOptions): HTMLElement {
     this.assertMissing(id);
 
@@ -240,6 +261,7 @@ export class ToolManager {
       }
     }
     this._toolStyles.clear();
+    this._toolStateListeners.clear();
   }
 
   private onToolIconClick(id: BuiltinToolId): void {
@@ -250,8 +272,7 @@ export class ToolManager {
     if (!module.hasPanel) {
       const currentActive = this._toolStates.get(id) ?? false;
       const setActive = (active: boolean) => {
-        this._toolStates.set(id, active);
-        this.syncToolIconStates();
+        this.setToolActive(id, active);
       };
 
       if (module.onTrigger) {
@@ -1,5 +1,6 @@
 import { axisInfoToolModule } from './axis';
 import { debugToolModule } from './debug';
+import { imageryLayerToolModule } from './layers';
 import { markerAnimationToolModule } from './markerAnimation';
 import { surveyToolModule } from './survey';
 import { terrainToolModule } from './terrain';
@@ -10,5 +11,6 @@ export const builtinToolModules: readonly ToolModule[] = [
   terrainToolModule,
   axisInfoToolModule,
   surveyToolModule,
-  markerAnimationToolModule
+  markerAnimationToolModule,
+  imageryLayerToolModule
 ];
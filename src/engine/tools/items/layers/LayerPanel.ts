@@ -0,0 +1,218 @@
+import type {
+  PlanarImageryLayerChange,
+  PlanarImageryLayerInfo,
+  PlanarImageryLayers
+} from '../../../validation/PlanarImageryLayers';
+import type { ResolvedImageryAdjustments } from '../../../validation/PlanarImageryMaterial';
+
+type AdjustmentSlider = {
+  key: 'brightness' | 'contrast' | 'saturation' | 'gamma' | 'hue';
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+};
+
+const ADJUSTMENT_SLIDERS: readonly AdjustmentSlider[] = [
+  { key: 'brightness', label: 'Brightness', min: 0, max: 2, step: 0.05 },
+  { key: 'contrast', label: 'Contrast', min: 0, max: 2, step: 0.05 },
+  { key: 'saturation', label: 'Saturation', min: 0, max: 2, step: 0.05 },
+  { key: 'gamma', label: 'Gamma', min: 0.2, max: 3, step: 0.05 },
+  { key: 'hue', label: 'Hue', min: -180, max: 180, step: 1 }
+];
+
+export class LayerPanel {
+  private readonly _root: HTMLElement;
+  private readonly _statusEl: HTMLElement | null;
+  private readonly _listEl: HTMLElement | null;
+  private readonly _cleanups: Array<() => void> = [];
+
+  constructor(root: HTMLElement, layers: PlanarImageryLayers | null) {
+    this._root = root;
+    this._statusEl = root.querySelector('[data-role="status"]');
+    this._listEl = root.querySelector('[data-role="layers"]');
+
+    if (!layers) {
+      this.setStatus('Imagery layers need the planar scene.', true);
+      for (const element of root.querySelectorAll<HTMLButtonElement | HTMLInputElement>('button, input')) {
+        element.disabled = true;
+      }
+      return;
+    }
+
+    this.render(layers);
+    this._cleanups.push(layers.onChange((change) => this.onLayersChange(layers, change)));
+    this.mountAddForm(layers);
+  }
+
+  dispose(): void {
+    for (const cleanup of this._cleanups) cleanup();
+    this._cleanups.length = 0;
+  }
+
+  // Opacity and visibility edits update the existing row so a slider keeps its drag.
+  private onLayersChange(layers: PlanarImageryLayers, change: PlanarImageryLayerChange): void {
+    const info = change.type === 'update' ? change.layers.find((layer) => layer.id === change.layerId) : null;
+    const item = this._listEl?.querySelector<HTMLElement>(`[data-layer="${CSS.escape(change.layerId)}"]`);
+    if (!info || !item) {
+      this.render(layers);
+      return;
+    }
+    const visible = item.querySelector<HTMLInputElement>('[data-field="visible"]');
+    const opacity = item.querySelector<HTMLInputElement>('[data-field="opacity"]');
+    if (visible) visible.checked = info.visible;
+    if (opacity) opacity.value = String(Math.round(info.opacity * 100));
+    syncAdjustments(item, info.adjustments);
+  }
+
+  private render(layers: PlanarImageryLayers): void {
+    if (!this._listEl) return;
+    const infos = layers.layers;
+    // Listed top first, like the stack reads on screen.
+    this._listEl.replaceChildren(...infos.reverse().map((info) => this.createLayerItem(layers, info, infos.length)));
+  }
+
+  private createLayerItem(layers: PlanarImageryLayers, info: PlanarImageryLayerInfo, count: number): HTMLElement {
+    const item = document.createElement('li');
+    item.className = 'sag-layers-item';
+    item.dataset.layer = info.id;
+
+    const visible = document.createElement('input');
+    visible.type = 'checkbox';
+    visible.checked = info.visible;
+    visible.dataset.field = 'visible';
+    visible.title = 'Visible';
+    visible.addEventListener('change', () => layers.setVisible(info.id, visible.checked));
+
+    const name = document.createElement('span');
+    name.className = 'sag-layers-name';
+    name.textContent = info.name;
+    name.title = `${info.name} (z${info.minZoom}-${info.maxZoom})`;
+
+    const actions = document.createElement('div');
+    actions.className = 'sag-layers-actions';
+    actions.append(
+      createButton('▲', 'Move up', info.index >= count - 1, () => layers.move(info.id, info.index + 1)),
+      createButton('▼', 'Move down', info.index <= 0, () => layers.move(info.id, info.index - 1)),
+      createButton('✕', 'Remove', false, () => {
+        layers.remove(info.id);
+        this.setStatus(`Removed ${info.name}.`);
+      })
+    );
+
+    const opacityRow = document.createElement('label');
+    opacityRow.className = 'sag-layers-slider';
+    const opacityLabel = document.createElement('span');
+    opacityLabel.textContent = 'Opacity';
+    const opacity = document.createElement('input');
+    opacity.type = 'range';
+    opacity.min = '0';
+    opacity.max = '100';
+    opacity.value = String(Math.round(info.opacity * 100));
+    opacity.dataset.field = 'opacity';
+    opacity.addEventListener('input', () => layers.setOpacity(info.id, Number(opacity.value) / 100));
+    opacityRow.append(opacityLabel, opacity);
+
+    item.append(visible, name, actions, opacityRow, this.createAdjustments(layers, info));
+    return item;
+  }
+
+  private createAdjustments(layers: PlanarImageryLayers, info: PlanarImageryLayerInfo): HTMLElement {
+    const details = document.createElement('details');
+    details.className = 'sag-layers-adjustments';
+    const summary = document.createElement('summary');
+    summary.textContent = 'Adjust colours';
+    details.append(summary);
+
+    for (const slider of ADJUSTMENT_SLIDERS) {
+      const row = document.createElement('label');
+      row.className = 'sag-layers-slider';
+      const label = document.createElement('span');
+      label.textContent = slider.label;
+      const input = document.createElement('input');
+      input.type = 'range';
+      input.min = String(slider.min);
+      input.max = String(slider.max);
+      input.step = String(slider.step);
+      input.dataset.adjustment = slider.key;
+      input.addEventListener('input', () => layers.setAdjustments(info.id, { [slider.key]: Number(input.value) }));
+      row.append(label, input);
+      details.append(row);
+    }
+
+    const nightRow = document.createElement('label');
+    nightRow.className = 'sag-layers-slider';
+    const night = document.createElement('input');
+    night.type = 'checkbox';
+    night.dataset.adjustment = 'invert';
+    night.addEventListener('change', () => layers.setAdjustments(info.id, { invert: night.checked }));
+    const nightLabel = document.createElement('span');
+    nightLabel.textContent = 'Night mode';
+    nightRow.append(night, nightLabel);
+
+    const reset = createButton('Reset', 'Reset colour adjustments', false, () =>
+      layers.setAdjustments(info.id, { brightness: 1, contrast: 1, saturation: 1, gamma: 1, hue: 0, invert: false })
+    );
+    details.append(nightRow, reset);
+    syncAdjustments(details, info.adjustments);
+    return details;
+  }
+
+  private mountAddForm(layers: PlanarImageryLayers): void {
+    const nameInput = this._root.querySelector<HTMLInputElement>('[data-field="name"]');
+    const urlInput = this._root.querySelector<HTMLInputElement>('[data-field="urlTemplate"]');
+    const addButton = this._root.querySelector<HTMLButtonElement>('[data-action="add"]');
+    if (!urlInput || !addButton) return;
+
+    const add = () => {
+      const urlTemplate = urlInput.value.trim();
+      if (!urlTemplate) {
+        this.setStatus('Enter a tile URL template with {z}, {x} and {y}.', true);
+        return;
+      }
+      if (!/\{z\}/.test(urlTemplate) || !/\{x\}/.test(urlTemplate) || !/\{y\}/.test(urlTemplate)) {
+        this.setStatus('The URL template needs {z}, {x} and {y}.', true);
+        return;
+      }
+      const name = nameInput?.value.trim() || undefined;
+      const info = layers.add({ name, urlTemplate });
+      urlInput.value = '';
+      if (nameInput) nameInput.value = '';
+      this.setStatus(`Added ${info.name}.`);
+    };
+    this.listen(addButton, 'click', add);
+    this.listen(urlInput, 'keydown', (event) => {
+      if ((event as KeyboardEvent).key === 'Enter') add();
+    });
+  }
+
+  private setStatus(text: string, isError = false): void {
+    if (!this._statusEl) return;
+    this._statusEl.textContent = text;
+    this._statusEl.classList.toggle('is-error', isError);
+  }
+
+  private listen(target: EventTarget, type: string, handler: (event: Event) => void): void {
+    target.addEventListener(type, handler);
+    this._cleanups.push(() => target.removeEventListener(type, handler));
+  }
+}
+
+function syncAdjustments(root: HTMLElement, adjustments: ResolvedImageryAdjustments): void {
+  for (const input of root.querySelectorAll<HTMLInputElement>('[data-adjustment]')) {
+    const key = input.dataset.adjustment as keyof ResolvedImageryAdjustments;
+    const value = adjustments[key];
+    if (typeof value === 'boolean') input.checked = value;
+    else if (typeof value === 'number') input.value = String(value);
+  }
+}
+
+function createButton(text: string, title: string, disabled: boolean, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = text;
+  button.title = title;
+  button.disabled = disabled;
+  button.addEventListener('click', onClick);
+  return button;
+}
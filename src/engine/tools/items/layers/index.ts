@@ -0,0 +1,24 @@
+import panelHtml from './LayerTool.html?raw';
+import panelCss from './LayerTool.css?raw';
+import { createIconDataUrl } from '../icon';
+import { LayerPanel } from './LayerPanel';
+import type { ToolModule } from '../../types';
+import type { PlanarImageryLayers } from '../../../validation/PlanarImageryLayers';
+
+export function createImageryLayerToolModule(layers: PlanarImageryLayers | null): ToolModule {
+  return {
+    id: 'imagery-layers',
+    label: 'Layers',
+    order: 5,
+    iconUrl: createIconDataUrl('LY', '#0f766e'),
+    hasPanel: true,
+    panelHtml,
+    panelCss,
+    onMount: (root) => {
+      const panel = new LayerPanel(root, layers);
+      return () => panel.dispose();
+    }
+  };
+}
+
+export const imageryLayerToolModule: ToolModule = createImageryLayerToolModule(null);
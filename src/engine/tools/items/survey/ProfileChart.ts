@@ -0,0 +1,167 @@
+import type { TerrainProfile } from '../../../validation/PlanarProfile';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const WIDTH = 296;
+const HEIGHT = 140;
+const PAD_LEFT = 40;
+const PAD_RIGHT = 8;
+const PAD_TOP = 8;
+const PAD_BOTTOM = 20;
+
+// Height-over-distance chart drawn into an inline <svg>. Hovering reports the nearest sample index.
+export class ProfileChart {
+  private readonly _svg: SVGSVGElement;
+  private readonly _onHover: (index: number | null) => void;
+  private readonly _onPointerMove: (event: PointerEvent) => void;
+  private readonly _onPointerLeave: () => void;
+  private _profile: TerrainProfile | null = null;
+  private _cursor: SVGGElement | null = null;
+
+  constructor(svg: SVGSVGElement, onHover: (index: number | null) => void) {
+    this._svg = svg;
+    this._onHover = onHover;
+    svg.setAttribute('viewBox', `0 0 ${WIDTH} ${HEIGHT}`);
+
+    this._onPointerMove = (event) => this.handlePointerMove(event);
+    this._onPointerLeave = () => {
+      this.showCursor(null);
+      this._onHover(null);
+    };
+    svg.addEventListener('pointermove', this._onPointerMove);
+    svg.addEventListener('pointerleave', this._onPointerLeave);
+  }
+
+  render(profile: TerrainProfile | null): void {
+    this._profile = profile;
+    this._svg.replaceChildren();
+    this._cursor = null;
+    this._svg.toggleAttribute('hidden', !profile);
+    if (!profile) return;
+
+    const first = profile.points[0];
+    const last = profile.points[profile.points.length - 1];
+    if (!first || !last) return;
+
+    const line = profile.points
+      .map((point, index) => {
+        const command = index === 0 ? 'M' : 'L';
+        return `${command}${this.toX(point.distance).toFixed(1)},${this.toY(point.height).toFixed(1)}`;
+      })
+      .join(' ');
+    const baseY = HEIGHT - PAD_BOTTOM;
+    const startX = this.toX(first.distance).toFixed(1);
+    const endX = this.toX(last.distance).toFixed(1);
+    const area = `${line} L${endX},${baseY} L${startX},${baseY} Z`;
+
+    this._svg.append(
+      createSvg('path', { d: area, class: 'sag-profile-area' }),
+      createSvg('path', { d: line, class: 'sag-profile-line' }),
+      createSvg('line', { x1: PAD_LEFT, y1: PAD_TOP, x2: PAD_LEFT, y2: baseY, class: 'sag-profile-axis' }),
+      createSvg('line', { x1: PAD_LEFT, y1: baseY, x2: WIDTH - PAD_RIGHT, y2: baseY, class: 'sag-profile-axis' }),
+      createText(`${profile.maxHeight.toFixed(1)} m`, PAD_LEFT - 4, PAD_TOP + 8, 'end'),
+      createText(`${profile.minHeight.toFixed(1)} m`, PAD_LEFT - 4, baseY, 'end'),
+      createText('0 m', PAD_LEFT, HEIGHT - 6, 'start'),
+      createText(`${profile.length.toFixed(1)} m`, WIDTH - PAD_RIGHT, HEIGHT - 6, 'end')
+    );
+
+    const cursor = createSvg('g', { class: 'sag-profile-cursor' }) as SVGGElement;
+    cursor.append(
+      createSvg('line', { y1: PAD_TOP, y2: baseY }),
+      createSvg('circle', { r: 3.5 }),
+      createText('', 0, PAD_TOP + 8, 'start')
+    );
+    cursor.setAttribute('visibility', 'hidden');
+    this._svg.append(cursor);
+    this._cursor = cursor;
+  }
+
+  dispose(): void {
+    this._svg.removeEventListener('pointermove', this._onPointerMove);
+    this._svg.removeEventListener('pointerleave', this._onPointerLeave);
+  }
+
+  private handlePointerMove(event: PointerEvent): void {
+    const profile = this._profile;
+    const rect = this._svg.getBoundingClientRect();
+    if (!profile || rect.width <= 0) return;
+
+    const chartX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const first = profile.points[0]?.distance ?? 0;
+    const distance = first + ((chartX - PAD_LEFT) / (WIDTH - PAD_LEFT - PAD_RIGHT)) * profile.length;
+    const index = nearestIndex(profile, distance);
+    this.showCursor(index);
+    this._onHover(index);
+  }
+
+  private showCursor(index: number | null): void {
+    const cursor = this._cursor;
+    const point = index === null ? undefined : this._profile?.points[index];
+    if (!cursor) return;
+    if (!point) {
+      cursor.setAttribute('visibility', 'hidden');
+      return;
+    }
+
+    const x = this.toX(point.distance);
+    const [guide, dot, label] = cursor.children;
+    guide?.setAttribute('x1', String(x));
+    guide?.setAttribute('x2', String(x));
+    dot?.setAttribute('cx', String(x));
+    dot?.setAttribute('cy', String(this.toY(point.height)));
+    if (label) {
+      const flip = x > WIDTH / 2;
+      label.setAttribute('x', String(flip ? x - 4 : x + 4));
+      label.setAttribute('text-anchor', flip ? 'end' : 'start');
+      label.textContent = [
+        `${point.distance.toFixed(1)} m`,
+        `${point.height.toFixed(1)} m`,
+        `${point.slopeDeg.toFixed(1)}°`
+      ].join(' · ');
+    }
+    cursor.setAttribute('visibility', 'visible');
+  }
+
+  private toX(distance: number): number {
+    const profile = this._profile;
+    const first = profile?.points[0]?.distance ?? 0;
+    const length = profile?.length ?? 0;
+    const t = length > 0 ? (distance - first) / length : 0;
+    return PAD_LEFT + t * (WIDTH - PAD_LEFT - PAD_RIGHT);
+  }
+
+  private toY(height: number): number {
+    const profile = this._profile;
+    if (!profile) return HEIGHT - PAD_BOTTOM;
+    const span = profile.maxHeight - profile.minHeight;
+    const t = span > 0 ? (height - profile.minHeight) / span : 0.5;
+    return HEIGHT - PAD_BOTTOM - t * (HEIGHT - PAD_TOP - PAD_BOTTOM);
+  }
+}
+
+function nearestIndex(profile: TerrainProfile, distance: number): number {
+  const points = profile.points;
+  let lo = 0;
+  let hi = points.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if ((points[mid]?.distance ?? 0) < distance) lo = mid;
+    else hi = mid;
+  }
+  const before = points[lo]?.distance ?? 0;
+  const after = points[hi]?.distance ?? 0;
+  return Math.abs(distance - before) <= Math.abs(after - distance) ? lo : hi;
+}
+
+function createSvg(tag: string, attributes: Record<string, string | number>): SVGElement {
+  const element = document.createElementNS(SVG_NS, tag);
+  for (const [name, value] of Object.entries(attributes)) {
+    element.setAttribute(name, String(value));
+  }
+  return element;
+}
+
+function createText(text: string, x: number, y: number, anchor: 'start' | 'end'): SVGElement {
+  const element = createSvg('text', { x, y, 'text-anchor': anchor, class: 'sag-profile-label' });
+  element.textContent = text;
+  return element;
+}
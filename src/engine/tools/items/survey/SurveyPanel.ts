@@ -0,0 +1,551 @@
+import { IMG } from '../../../../assets/img/urls';
+import { formatCoordinate, formatDdm, formatDms, formatMgrs, parseCoordinate } from '../../../../geo/coordinateFormat';
+import type { VerticalDatum } from '../../../../geo/geoid';
+import type { CutFillResult } from '../../../validation/PlanarCutFill';
+import { formatArea, formatLength } from '../../../validation/PlanarMeasureGraphic';
+import {
+  terrainProfileToCsv,
+  terrainProfileToJson,
+  type TerrainProfile
+} from '../../../validation/PlanarProfile';
+import type {
+  AreaMeasurement,
+  PathMeasureMode,
+  PathMeasurement,
+  PlanarSurvey
+} from '../../../validation/PlanarSurvey';
+import type { SurveyPoint } from '../../../validation/PlanarSurveyPoints';
+import { ProfileChart } from './ProfileChart';
+
+type SurveyMode = 'point' | PathMeasureMode | 'area' | 'cutFill' | 'profile';
+
+const MODE_ICONS: Record<SurveyMode, string> = {
+  point: IMG.measure.point,
+  distance: IMG.measure.distance,
+  path: IMG.measure.multiDistance,
+  area: IMG.measure.area,
+  cutFill: IMG.measure.cutFill,
+  profile: IMG.measure.profile
+};
+
+const DATUM_LABELS: Record<VerticalDatum, string> = {
+  orthometric: 'orthometric',
+  ellipsoidal: 'ellipsoidal'
+};
+
+export class SurveyPanel {
+  private readonly _root: HTMLElement;
+  private readonly _survey: PlanarSurvey | null;
+  private readonly _statusEl: HTMLElement | null;
+  private readonly _cleanups: Array<() => void> = [];
+  // Re-renders the height readouts when the panel-wide datum changes.
+  private readonly _datumRenders: Array<() => void> = [];
+  private _mode: SurveyMode | null = null;
+  private _heightDatum: VerticalDatum = 'orthometric';
+
+  constructor(root: HTMLElement, survey: PlanarSurvey | null) {
+    this._root = root;
+    this._survey = survey;
+    this._statusEl = root.querySelector('[data-role="status"]');
+
+    for (const icon of root.querySelectorAll<HTMLImageElement>('[data-icon]')) {
+      const url = MODE_ICONS[icon.dataset.icon as SurveyMode];
+      if (url) icon.src = url;
+    }
+    for (const button of root.querySelectorAll<HTMLButtonElement>('[data-mode]')) {
+      this.listen(button, 'click', () => this.setMode(button.dataset.mode as SurveyMode));
+    }
+    this.setMode('point');
+
+    if (!survey) {
+      this.setStatus('Survey tools need the planar scene.', true);
+      for (const button of root.querySelectorAll<HTMLButtonElement>('button')) {
+        button.disabled = true;
+      }
+      return;
+    }
+
+    this.mountHeightDatum(survey);
+    this.mountPoints(survey);
+    this.mountPathMeasure(survey, 'distance');
+    this.mountPathMeasure(survey, 'path');
+    this.mountAreaMeasure(survey);
+    this.mountCutFill(survey);
+    this.mountProfile(survey);
+  }
+
+  dispose(): void {
+    this._survey?.cancelDrawing();
+    for (const cleanup of this._cleanups) cleanup();
+    this._cleanups.length = 0;
+  }
+
+  private setMode(mode: SurveyMode): void {
+    if (this._mode === mode) return;
+    this._survey?.cancelDrawing();
+    this._mode = mode;
+    for (const button of this._root.querySelectorAll<HTMLButtonElement>('[data-mode]')) {
+      button.classList.toggle('is-active', button.dataset.mode === mode);
+    }
+    for (const pane of this._root.querySelectorAll<HTMLElement>('[data-pane]')) {
+      pane.hidden = pane.dataset.pane !== mode;
+    }
+    this.setStatus('');
+  }
+
+  private mountHeightDatum(survey: PlanarSurvey): void {
+    const select = this._root.querySelector<HTMLSelectElement>('[data-field="heightDatum"]');
+    this._heightDatum = survey.heightDatum;
+    if (!select) return;
+    select.value = this._heightDatum;
+    this.listen(select, 'change', () => {
+      this._heightDatum = select.value as VerticalDatum;
+      for (const render of this._datumRenders) render();
+      const missing = this._heightDatum !== survey.heightDatum && !survey.convertsHeights;
+      this.setStatus(
+        missing ? `Terrain heights are ${DATUM_LABELS[survey.heightDatum]}; load a geoid to convert them.` : '',
+        missing
+      );
+    });
+  }
+
+  private mountPoints(survey: PlanarSurvey): void {
+    const pane = this._root.querySelector<HTMLElement>('[data-pane="point"]');
+    if (!pane) return;
+    const listEl = pane.querySelector<HTMLElement>('[data-role="points"]');
+    const pickButton = pane.querySelector<HTMLButtonElement>('[data-action="pick"]');
+    const clearButton = pane.querySelector<HTMLButtonElement>('[data-action="clear"]');
+    const coordinateInput = pane.querySelector<HTMLInputElement>('[data-field="coordinate"]');
+    const addButton = pane.querySelector<HTMLButtonElement>('[data-action="add"]');
+
+    const render = () => {
+      if (!listEl) return;
+      listEl.replaceChildren(...survey.points.reverse().map((point) => this.createPointItem(survey, point)));
+    };
+    render();
+    this._datumRenders.push(render);
+
+    if (pickButton) {
+      this.listen(pickButton, 'click', () => {
+        this.setStatus('Click the map to drop points, Escape to stop.');
+        survey.startPointPicking({
+          onPick: () => render(),
+          onCancel: () => this.setStatus('')
+        });
+      });
+    }
+
+    // Pasted heights are read in the panel's datum; without one the terrain height is used.
+    const addTyped = () => {
+      if (!coordinateInput?.value.trim()) return;
+      try {
+        const parsed = parseCoordinate(coordinateInput.value);
+        let height: number | undefined;
+        if (parsed.height !== undefined) {
+          const converted = survey.convertHeight(
+            parsed.lon,
+            parsed.lat,
+            parsed.height,
+            survey.heightDatum,
+            this._heightDatum
+          );
+          if (converted === null) throw new Error('Converting the height needs a geoid.');
+          height = converted;
+        }
+        survey.addPoint({ lon: parsed.lon, lat: parsed.lat, height });
+        coordinateInput.value = '';
+        render();
+        this.setStatus(
+          parsed.swapped
+            ? `Read as latitude, longitude: ${formatCoordinate(parsed.lon, parsed.lat, 'decimal')}`
+            : `Added ${formatCoordinate(parsed.lon, parsed.lat, 'decimal')}`
+        );
+      } catch (error) {
+        this.setStatus(error instanceof Error ? error.message : String(error), true);
+      }
+    };
+    if (addButton) this.listen(addButton, 'click', addTyped);
+    if (coordinateInput) {
+      this.listen(coordinateInput, 'keydown', (event) => {
+        if ((event as KeyboardEvent).key === 'Enter') addTyped();
+      });
+    }
+
+    if (clearButton) {
+      this.listen(clearButton, 'click', () => {
+        survey.cancelDrawing();
+        survey.clearPoints();
+        render();
+        this.setStatus('');
+      });
+    }
+  }
+
+  private createPointItem(survey: PlanarSurvey, point: SurveyPoint): HTMLElement {
+    const item = document.createElement('li');
+    item.className = 'sag-survey-point';
+    const title = document.createElement('span');
+    title.className = 'sag-survey-point-title';
+    title.textContent = point.id;
+    item.append(title);
+
+    const height = survey.convertHeight(point.lon, point.lat, point.height, this._heightDatum);
+    const readouts: Array<[string, string]> = [
+      ['Decimal', `${point.lon.toFixed(7)}, ${point.lat.toFixed(7)}`],
+      [
+        'Height',
+        height === null ? 'Needs a geoid' : `${height.toFixed(2)} m ${DATUM_LABELS[this._heightDatum]}`
+      ],
+      ['DMS', `${formatDms(point.lat, 'lat')} ${formatDms(point.lon, 'lon')}`],
+      ['DDM', `${formatDdm(point.lat, 'lat')} ${formatDdm(point.lon, 'lon')}`],
+      ['MGRS', point.lat >= -80 && point.lat < 84 ? formatMgrs(point.lon, point.lat) : 'Polar region'],
+      ['Mercator', `${point.mercator.x.toFixed(2)}, ${point.mercator.y.toFixed(2)}`],
+      ['ENU', point.enu ? formatVec3(point.enu) : 'No ENU origin'],
+      ['World', formatVec3(point.world)]
+    ];
+    for (const [label, value] of readouts) {
+      const row = document.createElement('div');
+      row.className = 'sag-survey-readout';
+      const name = document.createElement('span');
+      name.textContent = label;
+      const text = document.createElement('code');
+      text.textContent = value;
+      const copy = document.createElement('button');
+      copy.type = 'button';
+      copy.textContent = 'Copy';
+      copy.addEventListener('click', () => this.copyText(value));
+      row.append(name, text, copy);
+      item.append(row);
+    }
+    return item;
+  }
+
+  private copyText(text: string): void {
+    if (typeof navigator === 'undefined' || !navigator.clipboard) {
+      this.setStatus('Clipboard is not available.', true);
+      return;
+    }
+    navigator.clipboard
+      .writeText(text)
+      .then(() => this.setStatus('Copied to clipboard.'))
+      .catch(() => this.setStatus('Clipboard write was blocked.', true));
+  }
+
+  private mountPathMeasure(survey: PlanarSurvey, mode: PathMeasureMode): void {
+    const pane = this._root.querySelector<HTMLElement>(`[data-pane="${mode}"]`);
+    if (!pane) return;
+    const resultEl = pane.querySelector<HTMLElement>('[data-role="result"]');
+    const drawButton = pane.querySelector<HTMLButtonElement>('[data-action="draw"]');
+    const clearButton = pane.querySelector<HTMLButtonElement>('[data-action="clear"]');
+
+    const render = (measurement: PathMeasurement | null) => {
+      if (!resultEl) return;
+      resultEl.innerHTML = '';
+      if (!measurement) return;
+      const rows: Array<[string, string]> = measurement.segments.map((segment, index) => [
+        measurement.segments.length > 1 ? `Segment ${index + 1}` : 'Length',
+        formatLength(segment.distance)
+      ]);
+      if (mode === 'path') rows.push(['Total', formatLength(measurement.totalLength)]);
+      const first = measurement.segments[0];
+      if (mode === 'distance' && first) {
+        rows.push(['Azimuth', `${first.initialAzimuth.toFixed(4)}°`]);
+        rows.push(['Final azimuth', `${first.finalAzimuth.toFixed(4)}°`]);
+      }
+      appendRows(resultEl, rows);
+    };
+
+    if (drawButton) {
+      this.listen(drawButton, 'click', () => {
+        this.setStatus(
+          mode === 'distance'
+            ? 'Click the start and end points, right-click to undo.'
+            : 'Click to add vertices, double-click to finish, right-click to undo.'
+        );
+        survey.startPathMeasure({
+          mode,
+          onChange: render,
+          onFinish: (measurement) => {
+            render(measurement);
+            this.setStatus('');
+          },
+          onCancel: () => {
+            render(null);
+            this.setStatus('Measurement cancelled.');
+          }
+        });
+      });
+    }
+
+    if (clearButton) {
+      this.listen(clearButton, 'click', () => {
+        survey.cancelDrawing();
+        survey.clearMeasurements(mode);
+        render(null);
+        this.setStatus('');
+      });
+    }
+  }
+
+  private mountAreaMeasure(survey: PlanarSurvey): void {
+    const pane = this._root.querySelector<HTMLElement>('[data-pane="area"]');
+    if (!pane) return;
+    const resultEl = pane.querySelector<HTMLElement>('[data-role="result"]');
+    const drawButton = pane.querySelector<HTMLButtonElement>('[data-action="draw"]');
+    const clearButton = pane.querySelector<HTMLButtonElement>('[data-action="clear"]');
+
+    const render = (measurement: AreaMeasurement | null) => {
+      if (!resultEl) return;
+      resultEl.innerHTML = '';
+      if (!measurement) return;
+      appendRows(resultEl, [
+        ['Area', formatArea(measurement.area)],
+        ['Perimeter', formatLength(measurement.perimeter)],
+        ['Surface area', measurement.surfaceArea === null ? 'Needs terrain' : formatArea(measurement.surfaceArea)],
+        ['Centroid', `${measurement.centroid.lon.toFixed(6)}, ${measurement.centroid.lat.toFixed(6)}`]
+      ]);
+    };
+
+    if (drawButton) {
+      this.listen(drawButton, 'click', () => {
+        this.setStatus('Click to add vertices, double-click to finish, right-click to undo.');
+        survey.startAreaMeasure({
+          onChange: render,
+          onFinish: (measurement) => {
+            render(measurement);
+            this.setStatus('');
+          },
+          onCancel: () => {
+            render(null);
+            this.setStatus('Measurement cancelled.');
+          },
+          onError: (error) => {
+            render(null);
+            this.setStatus(error.message, true);
+          }
+        });
+      });
+    }
+
+    if (clearButton) {
+      this.listen(clearButton, 'click', () => {
+        survey.cancelDrawing();
+        survey.clearMeasurements('area');
+        render(null);
+        this.setStatus('');
+      });
+    }
+  }
+
+  private mountCutFill(survey: PlanarSurvey): void {
+    const pane = this._root.querySelector<HTMLElement>('[data-pane="cutFill"]');
+    if (!pane) return;
+    const designInput = pane.querySelector<HTMLInputElement>('[data-field="designHeight"]');
+    const spacingInput = pane.querySelector<HTMLInputElement>('[data-field="gridSpacing"]');
+    const resultEl = pane.querySelector<HTMLElement>('[data-role="result"]');
+    const drawButton = pane.querySelector<HTMLButtonElement>('[data-action="draw"]');
+    const clearButton = pane.querySelector<HTMLButtonElement>('[data-action="clear"]');
+
+    const render = (result: CutFillResult | null) => {
+      if (!resultEl) return;
+      resultEl.innerHTML = '';
+      if (!result) return;
+      appendRows(resultEl, [
+        ['Area', `${formatNumber(result.area)} m²`],
+        ['Cut', `${formatNumber(result.cutVolume)} m³`],
+        ['Fill', `${formatNumber(result.fillVolume)} m³`],
+        ['Net (cut - fill)', `${formatNumber(result.netVolume)} m³`],
+        ['Max cut depth', `${formatNumber(result.maxCutDepth)} m`],
+        ['Max fill depth', `${formatNumber(result.maxFillDepth)} m`],
+        ['Grid', `${formatNumber(result.gridSpacingMeters)} m, ${result.cellCount} cells`]
+      ]);
+      if (result.skippedCellCount > 0) {
+        appendRows(resultEl, [['No data', `${result.skippedCellCount} cells`]]);
+      }
+    };
+    render(survey.lastCutFill);
+
+    if (!survey.terrainAvailable) {
+      if (drawButton) drawButton.disabled = true;
+    }
+
+    if (drawButton) {
+      this.listen(drawButton, 'click', () => {
+        this.setStatus('Click to add vertices, double-click to finish, right-click to undo.');
+        survey.startDrawing({
+          closed: true,
+          onCancel: () => this.setStatus('Drawing cancelled.'),
+          onFinish: (vertices) => {
+            if (vertices.length < 3) {
+              this.setStatus('A cut/fill polygon needs at least 3 vertices.', true);
+              return;
+            }
+            this.setStatus('Computing…');
+            survey
+              .computeCutFill({
+                polygon: vertices.map((vertex) => ({ lon: vertex.lon, lat: vertex.lat })),
+                design: { type: 'flat', height: Number(designInput?.value ?? 0) },
+                gridSpacingMeters: Number(spacingInput?.value ?? 1)
+              })
+              .then((result) => {
+                render(result);
+                this.setStatus('');
+              })
+              .catch((error: unknown) => {
+                this.setStatus(error instanceof Error ? error.message : String(error), true);
+              });
+          }
+        });
+      });
+    }
+
+    if (clearButton) {
+      this.listen(clearButton, 'click', () => {
+        survey.cancelDrawing();
+        survey.clearCutFill();
+        render(null);
+        this.setStatus('');
+      });
+    }
+  }
+
+  private mountProfile(survey: PlanarSurvey): void {
+    const pane = this._root.querySelector<HTMLElement>('[data-pane="profile"]');
+    if (!pane) return;
+    const spacingInput = pane.querySelector<HTMLInputElement>('[data-field="sampleSpacing"]');
+    const chartEl = pane.querySelector<SVGSVGElement>('[data-role="chart"]');
+    const resultEl = pane.querySelector<HTMLElement>('[data-role="result"]');
+    const drawButton = pane.querySelector<HTMLButtonElement>('[data-action="draw"]');
+    const clearButton = pane.querySelector<HTMLButtonElement>('[data-action="clear"]');
+    const csvButton = pane.querySelector<HTMLButtonElement>('[data-action="exportCsv"]');
+    const jsonButton = pane.querySelector<HTMLButtonElement>('[data-action="exportJson"]');
+
+    const chart = chartEl ? new ProfileChart(chartEl, (index) => survey.setProfileMarker(index)) : null;
+    if (chart) this._cleanups.push(() => chart.dispose());
+
+    // The survey keeps the profile in the terrain datum; the chart, stats and exports follow the panel's.
+    const displayed = (): TerrainProfile | null => {
+      const profile = survey.lastProfile;
+      return profile ? survey.profileInDatum(profile, this._heightDatum) : null;
+    };
+
+    const render = () => {
+      const profile = displayed();
+      chart?.render(profile);
+      if (csvButton) csvButton.disabled = !profile;
+      if (jsonButton) jsonButton.disabled = !profile;
+      if (!resultEl) return;
+      resultEl.innerHTML = '';
+      if (!profile) {
+        if (survey.lastProfile) appendRows(resultEl, [['Heights', 'Needs a geoid']]);
+        return;
+      }
+      appendRows(resultEl, [
+        ['Heights', DATUM_LABELS[this._heightDatum]],
+        ['Length', `${formatNumber(profile.length)} m`],
+        ['Min height', `${formatNumber(profile.minHeight)} m`],
+        ['Max height', `${formatNumber(profile.maxHeight)} m`],
+        ['Mean height', `${formatNumber(profile.meanHeight)} m`],
+        ['Max slope', `${formatNumber(profile.maxSlopeDeg)}°`],
+        ['Ascent / descent', `${formatNumber(profile.totalAscent)} / ${formatNumber(profile.totalDescent)} m`],
+        ['Samples', String(profile.points.length)]
+      ]);
+    };
+    render();
+    this._datumRenders.push(render);
+
+    if (!survey.terrainAvailable) {
+      if (drawButton) drawButton.disabled = true;
+    }
+
+    if (drawButton) {
+      this.listen(drawButton, 'click', () => {
+        this.setStatus('Click to add vertices, double-click to finish, right-click to undo.');
+        survey.startDrawing({
+          closed: false,
+          onCancel: () => this.setStatus('Drawing cancelled.'),
+          onFinish: (vertices) => {
+            if (vertices.length < 2) {
+              this.setStatus('A profile line needs at least 2 vertices.', true);
+              return;
+            }
+            this.setStatus('Sampling…');
+            survey
+              .computeProfile({
+                path: vertices.map((vertex) => ({ lon: vertex.lon, lat: vertex.lat })),
+                spacingMeters: Number(spacingInput?.value ?? 10)
+              })
+              .then(() => {
+                render();
+                this.setStatus('');
+              })
+              .catch((error: unknown) => {
+                this.setStatus(error instanceof Error ? error.message : String(error), true);
+              });
+          }
+        });
+      });
+    }
+
+    if (clearButton) {
+      this.listen(clearButton, 'click', () => {
+        survey.cancelDrawing();
+        survey.clearProfile();
+        render();
+        this.setStatus('');
+      });
+    }
+
+    if (csvButton) {
+      this.listen(csvButton, 'click', () => {
+        const profile = displayed();
+        if (profile) downloadText('terrain-profile.csv', 'text/csv', terrainProfileToCsv(profile));
+      });
+    }
+
+    if (jsonButton) {
+      this.listen(jsonButton, 'click', () => {
+        const profile = displayed();
+        if (profile) downloadText('terrain-profile.json', 'application/json', terrainProfileToJson(profile));
+      });
+    }
+  }
+
+  private setStatus(text: string, isError = false): void {
+    if (!this._statusEl) return;
+    this._statusEl.textContent = text;
+    this._statusEl.classList.toggle('is-error', isError);
+  }
+
+  private listen(target: EventTarget, type: string, handler: (event: Event) => void): void {
+    target.addEventListener(type, handler);
+    this._cleanups.push(() => target.removeEventListener(type, handler));
+  }
+}
+
+function appendRows(list: HTMLElement, rows: ReadonlyArray<readonly [string, string]>): void {
+  for (const [label, value] of rows) {
+    const dt = document.createElement('dt');
+    dt.textContent = label;
+    const dd = document.createElement('dd');
+    dd.textContent = value;
+    list.append(dt, dd);
+  }
+}
+
+function formatVec3(value: { x: number; y: number; z: number }): string {
+  return `${value.x.toFixed(3)}, ${value.y.toFixed(3)}, ${value.z.toFixed(3)}`;
+}
+
+function downloadText(fileName: string, mimeType: string, text: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
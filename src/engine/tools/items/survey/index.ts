@@ -1,14 +1,24 @@
 import panelHtml from './SurveyTool.html?raw';
 import panelCss from './SurveyTool.css?raw';
 import { createIconDataUrl } from '../icon';
+import { SurveyPanel } from './SurveyPanel';
 import type { ToolModule } from '../../types';
+import type { PlanarSurvey } from '../../../validation/PlanarSurvey';
 
-export const surveyToolModule: ToolModule = {
-  id: 'survey-tools',
-  label: 'Survey',
-  order: 3,
-  iconUrl: createIconDataUrl('SV', '#92400e'),
-  hasPanel: true,
-  panelHtml,
-  panelCss
-};
+export function createSurveyToolModule(survey: PlanarSurvey | null): ToolModule {
+  return {
+    id: 'survey-tools',
+    label: 'Survey',
+    order: 3,
+    iconUrl: createIconDataUrl('SV', '#92400e'),
+    hasPanel: true,
+    panelHtml,
+    panelCss,
+    onMount: (root) => {
+      const panel = new SurveyPanel(root, survey);
+      return () => panel.dispose();
+    }
+  };
+}
+
+export const surveyToolModule: ToolModule = createSurveyToolModule(null);
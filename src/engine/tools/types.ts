@@ -34,7 +34,8 @@ export type BuiltinToolId =
   | 'terrain-toggle'
   | 'axis-info'
   | 'survey-tools'
-  | 'marker-animation-tools';
+  | 'marker-animation-tools'
+  | 'imagery-layers';
 
 export type ToolTriggerContext = {
   root: HTMLElement;
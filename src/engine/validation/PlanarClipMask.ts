@@ -0,0 +1,226 @@
+import * as THREE from 'three';
+
+export type ClipPoint = { x: number; y: number };
+
+export type ClipMode = 'inside' | 'outside';
+
+// Keeps the half-space where dot(normal, p - point) >= 0, like THREE.Plane clipping.
+export type ClipPlane = {
+  normal: { x: number; y: number; z: number };
+  point: { x: number; y: number; z: number };
+};
+
+type ClipRing = {
+  mode: ClipMode;
+  points: readonly ClipPoint[];
+};
+
+type AttachedMaterial = {
+  offset: { value: THREE.Vector2 };
+  originX: number;
+  originY: number;
+};
+
+const MAX_CLIP_VERTICES = 256;
+const MAX_CLIP_RINGS = 16;
+const MAX_CLIP_PLANES = 8;
+
+const CLIP_VERTEX_PARS = /* glsl */ `
+uniform vec2 uClipOffset;
+varying vec3 vClipXYZ;
+`;
+
+const CLIP_FRAGMENT_PARS = /* glsl */ `
+uniform vec2 uClipVertices[${MAX_CLIP_VERTICES}];
+uniform vec3 uClipRings[${MAX_CLIP_RINGS}];
+uniform int uClipRingCount;
+uniform vec4 uClipPlanes[${MAX_CLIP_PLANES}];
+uniform int uClipPlaneCount;
+varying vec3 vClipXYZ;
+
+bool sagInsideClipRing(vec2 p, int start, int count) {
+  bool inside = false;
+  for (int i = 0; i < ${MAX_CLIP_VERTICES}; i++) {
+    if (i >= count) break;
+    vec2 a = uClipVertices[start + i];
+    vec2 b = uClipVertices[start + (i == 0 ? count - 1 : i - 1)];
+    if ((a.y > p.y) != (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+bool sagClipped(vec3 p) {
+  bool hasKeepRing = false;
+  bool insideKeepRing = false;
+  for (int r = 0; r < ${MAX_CLIP_RINGS}; r++) {
+    if (r >= uClipRingCount) break;
+    vec3 ring = uClipRings[r];
+    bool inside = sagInsideClipRing(p.xy, int(ring.x), int(ring.y));
+    if (ring.z > 0.5) {
+      hasKeepRing = true;
+      insideKeepRing = insideKeepRing || inside;
+    } else if (inside) {
+      return true;
+    }
+  }
+  if (hasKeepRing && !insideKeepRing) return true;
+  for (int i = 0; i < ${MAX_CLIP_PLANES}; i++) {
+    if (i >= uClipPlaneCount) break;
+    vec4 plane = uClipPlanes[i];
+    if (dot(plane.xyz, p) + plane.w < 0.0) return true;
+  }
+  return false;
+}
+`;
+
+// Discards fragments of attached tile materials inside any 'inside' ring, outside every 'outside' ring,
+// or behind any plane. Geometry is stored relative to an anchor so the shader never sees raw
+// Mercator-sized coordinates, and it works in mesh-local space so a rebased render origin does not matter.
+export class PlanarClipMask {
+  private readonly _rings = new Map<string, ClipRing>();
+  private readonly _materials = new Map<THREE.Material, AttachedMaterial>();
+  private readonly _vertices = { value: createVectorArray(MAX_CLIP_VERTICES) };
+  private readonly _ringRanges = { value: Array.from({ length: MAX_CLIP_RINGS }, () => new THREE.Vector3()) };
+  private readonly _ringCount = { value: 0 };
+  private readonly _planeValues = { value: Array.from({ length: MAX_CLIP_PLANES }, () => new THREE.Vector4()) };
+  private readonly _planeCount = { value: 0 };
+  private _planes: ClipPlane[] = [];
+  private _anchor: ClipPoint | null = null;
+
+  get ringCount(): number {
+    return this._rings.size;
+  }
+
+  get planeCount(): number {
+    return this._planes.length;
+  }
+
+  setRing(id: string, ring: readonly ClipPoint[], mode: ClipMode = 'inside'): void {
+    if (ring.length < 3) {
+      throw new Error(`Clip ring "${id}" needs at least 3 vertices.`);
+    }
+    // Clip polygons and excavations share one uniform budget; a ring that does not fit is refused here rather
+    // than silently dropped from the shader.
+    const ringCount = this._rings.size + (this._rings.has(id) ? 0 : 1);
+    if (ringCount > MAX_CLIP_RINGS) {
+      throw new Error(`Clip ring "${id}" does not fit: at most ${MAX_CLIP_RINGS} clip rings are supported.`);
+    }
+    let vertexCount = ring.length;
+    for (const [otherId, other] of this._rings) {
+      if (otherId !== id) vertexCount += other.points.length;
+    }
+    if (vertexCount > MAX_CLIP_VERTICES) {
+      throw new Error(
+        `Clip ring "${id}" does not fit: all clip rings together would have ${vertexCount} vertices; ` +
+          `at most ${MAX_CLIP_VERTICES} are supported.`
+      );
+    }
+    this._rings.set(id, { mode, points: ring.map((point) => ({ x: point.x, y: point.y })) });
+    this.syncUniforms();
+  }
+
+  setPlanes(planes: readonly ClipPlane[]): void {
+    if (planes.length > MAX_CLIP_PLANES) {
+      throw new Error(`At most ${MAX_CLIP_PLANES} clip planes are supported, got ${planes.length}.`);
+    }
+    this._planes = planes.map((plane) => {
+      const length = Math.hypot(plane.normal.x, plane.normal.y, plane.normal.z);
+      if (!Number.isFinite(length) || length <= 0) {
+        throw new Error('Clip plane normal must be a non-zero vector.');
+      }
+      return {
+        normal: { x: plane.normal.x / length, y: plane.normal.y / length, z: plane.normal.z / length },
+        point: { ...plane.point }
+      };
+    });
+    this.syncUniforms();
+  }
+
+  removeRing(id: string): boolean {
+    const removed = this._rings.delete(id);
+    if (removed) this.syncUniforms();
+    return removed;
+  }
+
+  attach(material: THREE.Material, originX: number, originY: number): void {
+    if (this._materials.has(material)) return;
+
+    const anchor = this._anchor ?? { x: 0, y: 0 };
+    const offset = { value: new THREE.Vector2(originX - anchor.x, originY - anchor.y) };
+    this._materials.set(material, { offset, originX, originY });
+
+    material.onBeforeCompile = (shader) => {
+      shader.uniforms.uClipOffset = offset;
+      shader.uniforms.uClipVertices = this._vertices;
+      shader.uniforms.uClipRings = this._ringRanges;
+      shader.uniforms.uClipRingCount = this._ringCount;
+      shader.uniforms.uClipPlanes = this._planeValues;
+      shader.uniforms.uClipPlaneCount = this._planeCount;
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `#include <common>\n${CLIP_VERTEX_PARS}`)
+        .replace('#include <project_vertex>', '#include <project_vertex>\n  vClipXYZ = vec3(transformed.xy + uClipOffset, transformed.z);');
+      shader.fragmentShader = shader.fragmentShader
+        .replace('#include <common>', `#include <common>\n${CLIP_FRAGMENT_PARS}`)
+        .replace('#include <clipping_planes_fragment>', '#include <clipping_planes_fragment>\n  if (sagClipped(vClipXYZ)) discard;');
+    };
+    material.customProgramCacheKey = () => 'sag-planar-clip';
+    material.needsUpdate = true;
+  }
+
+  detach(material: THREE.Material): void {
+    if (!this._materials.delete(material)) return;
+    material.onBeforeCompile = THREE.Material.prototype.onBeforeCompile;
+    material.customProgramCacheKey = THREE.Material.prototype.customProgramCacheKey;
+    material.needsUpdate = true;
+  }
+
+  dispose(): void {
+    this._rings.clear();
+    this._planes = [];
+    this._materials.clear();
+    this.syncUniforms();
+  }
+
+  private syncUniforms(): void {
+    const rings = [...this._rings.values()];
+    const first = rings[0]?.points[0] ?? this._planes[0]?.point;
+    if (!first) {
+      this.setAnchor(null);
+    } else if (!this._anchor) {
+      this.setAnchor({ x: first.x, y: first.y });
+    }
+
+    const anchor = this._anchor ?? { x: 0, y: 0 };
+    let cursor = 0;
+    let ringCount = 0;
+    for (const ring of rings) {
+      this._ringRanges.value[ringCount]?.set(cursor, ring.points.length, ring.mode === 'outside' ? 1 : 0);
+      for (const point of ring.points) {
+        this._vertices.value[cursor]?.set(point.x - anchor.x, point.y - anchor.y);
+        cursor += 1;
+      }
+      ringCount += 1;
+    }
+    this._ringCount.value = ringCount;
+
+    this._planes.forEach((plane, index) => {
+      const { normal, point } = plane;
+      const constant = -(normal.x * (point.x - anchor.x) + normal.y * (point.y - anchor.y) + normal.z * point.z);
+      this._planeValues.value[index]?.set(normal.x, normal.y, normal.z, constant);
+    });
+    this._planeCount.value = this._planes.length;
+  }
+
+  private setAnchor(anchor: ClipPoint | null): void {
+    this._anchor = anchor;
+    for (const record of this._materials.values()) {
+      record.offset.value.set(record.originX - (anchor?.x ?? 0), record.originY - (anchor?.y ?? 0));
+    }
+  }
+}
+
+function createVectorArray(length: number): THREE.Vector2[] {
+  return Array.from({ length }, () => new THREE.Vector2());
+}
@@ -0,0 +1,217 @@
+import * as THREE from 'three';
+import type { ClipMode, ClipPlane, ClipPoint, PlanarClipMask } from './PlanarClipMask';
+import type { PlanarElevationSampler } from './PlanarTerrainLayer';
+
+export type PlanarClipPolygonOptions = {
+  id?: string;
+  polygon: ReadonlyArray<{ lon: number; lat: number }>;
+  mode?: ClipMode;
+  highlightEdge?: boolean;
+  edgeColor?: number;
+};
+
+export type PlanarClipPolygonInfo = {
+  id: string;
+  polygon: ReadonlyArray<{ lon: number; lat: number }>;
+  mode: ClipMode;
+  highlightEdge: boolean;
+};
+
+// Normal is east/north/up. Terrain and imagery on the negative side of the plane are hidden.
+export type PlanarClipPlaneOptions = {
+  normal: { x: number; y: number; z: number };
+  point: { lon: number; lat: number; height: number };
+};
+
+type ClipPolygon = {
+  info: PlanarClipPolygonInfo;
+  ring: ClipPoint[];
+  edge: THREE.LineLoop<THREE.BufferGeometry, THREE.LineBasicMaterial> | null;
+};
+
+type ClippingContext = {
+  lonLatToWorldXY: (lon: number, lat: number) => { x: number; y: number };
+  heightToWorldZ: (heightMeters: number) => number;
+  metersPerUnit: () => number;
+};
+
+const DEFAULT_EDGE_COLOR = 0xfacc15;
+const EDGE_SPACING_METERS = 2;
+const MAX_EDGE_SAMPLES = 4096;
+const EDGE_LIFT_METERS = 0.3;
+const RING_ID_PREFIX = 'clip:';
+
+// User-facing clipping on top of the shared clip mask used by terrain and imagery tiles.
+export class PlanarClipping {
+  private readonly _root = new THREE.Group();
+  private readonly _mask: PlanarClipMask;
+  private readonly _context: ClippingContext;
+  private readonly _polygons = new Map<string, ClipPolygon>();
+  private _planes: PlanarClipPlaneOptions[] = [];
+  private _sampler: PlanarElevationSampler | null = null;
+  private _edgeVersion = Number.NaN;
+  private _idCounter = 0;
+
+  constructor(mask: PlanarClipMask, context: ClippingContext) {
+    this._mask = mask;
+    this._context = context;
+  }
+
+  get object3d(): THREE.Object3D {
+    return this._root;
+  }
+
+  get polygons(): PlanarClipPolygonInfo[] {
+    return [...this._polygons.values()].map((polygon) => ({ ...polygon.info }));
+  }
+
+  get planes(): PlanarClipPlaneOptions[] {
+    return this._planes.map((plane) => ({ normal: { ...plane.normal }, point: { ...plane.point } }));
+  }
+
+  setElevationSampler(sampler: PlanarElevationSampler | null): void {
+    if (this._sampler === sampler) return;
+    this._sampler = sampler;
+    this._edgeVersion = Number.NaN;
+  }
+
+  addPolygon(options: PlanarClipPolygonOptions): PlanarClipPolygonInfo {
+    const id = options.id ?? `clip-${++this._idCounter}`;
+    if (this._polygons.has(id)) {
+      throw new Error(`Clip polygon "${id}" already exists.`);
+    }
+
+    const ring = options.polygon.map((point) => {
+      if (!Number.isFinite(point.lon) || !Number.isFinite(point.lat)) {
+        throw new Error(`Invalid clip polygon vertex: ${point.lon},${point.lat}`);
+      }
+      return this._context.lonLatToWorldXY(point.lon, point.lat);
+    });
+    const mode = options.mode ?? 'inside';
+    this._mask.setRing(RING_ID_PREFIX + id, ring, mode);
+
+    const highlightEdge = options.highlightEdge ?? false;
+    let edge: ClipPolygon['edge'] = null;
+    if (highlightEdge) {
+      edge = new THREE.LineLoop(
+        new THREE.BufferGeometry(),
+        new THREE.LineBasicMaterial({ color: options.edgeColor ?? DEFAULT_EDGE_COLOR })
+      );
+      edge.renderOrder = 30;
+      this._root.add(edge);
+    }
+
+    const polygon: ClipPolygon = {
+      info: {
+        id,
+        polygon: options.polygon.map((point) => ({ lon: point.lon, lat: point.lat })),
+        mode,
+        highlightEdge
+      },
+      ring,
+      edge
+    };
+    this._polygons.set(id, polygon);
+    this.rebuildEdge(polygon);
+    return { ...polygon.info };
+  }
+
+  removePolygon(id: string): boolean {
+    const polygon = this._polygons.get(id);
+    if (!polygon) return false;
+    this._mask.removeRing(RING_ID_PREFIX + id);
+    disposeEdge(polygon.edge);
+    this._polygons.delete(id);
+    return true;
+  }
+
+  setPlanes(planes: readonly PlanarClipPlaneOptions[]): void {
+    const maskPlanes: ClipPlane[] = planes.map((plane) => {
+      const { lon, lat, height } = plane.point;
+      if (!Number.isFinite(lon) || !Number.isFinite(lat) || !Number.isFinite(height)) {
+        throw new Error(`Invalid clip plane point: ${lon},${lat},${height}`);
+      }
+      const xy = this._context.lonLatToWorldXY(lon, lat);
+      // World axes are Mercator-stretched horizontally and exaggerated vertically; rescale the
+      // normal so the plane keeps its real-world orientation.
+      const groundScale = Math.cos((lat * Math.PI) / 180);
+      const zScale = this._context.heightToWorldZ(1) * this._context.metersPerUnit();
+      return {
+        normal: {
+          x: plane.normal.x * groundScale,
+          y: plane.normal.y * groundScale,
+          z: plane.normal.z / (zScale || 1)
+        },
+        point: { x: xy.x, y: xy.y, z: this._context.heightToWorldZ(height) }
+      };
+    });
+    this._mask.setPlanes(maskPlanes);
+    this._planes = planes.map((plane) => ({ normal: { ...plane.normal }, point: { ...plane.point } }));
+  }
+
+  clear(): void {
+    for (const id of [...this._polygons.keys()]) {
+      this.removePolygon(id);
+    }
+    this.setPlanes([]);
+  }
+
+  update(): void {
+    const version = this._sampler?.version ?? -1;
+    if (version === this._edgeVersion) return;
+    this._edgeVersion = version;
+    for (const polygon of this._polygons.values()) {
+      this.rebuildEdge(polygon);
+    }
+  }
+
+  dispose(): void {
+    this.clear();
+    this._root.removeFromParent();
+  }
+
+  // Edges are resampled along the ring so the line follows the terrain instead of cutting through it.
+  private rebuildEdge(polygon: ClipPolygon): void {
+    const edge = polygon.edge;
+    if (!edge) return;
+
+    const ring = polygon.ring;
+    const anchor = ring[0] ?? { x: 0, y: 0 };
+    let perimeter = 0;
+    for (let i = 0; i < ring.length; i += 1) {
+      const a = ring[i];
+      const b = ring[(i + 1) % ring.length];
+      if (a && b) perimeter += Math.hypot(b.x - a.x, b.y - a.y);
+    }
+    const step = Math.max(EDGE_SPACING_METERS / this._context.metersPerUnit(), perimeter / MAX_EDGE_SAMPLES);
+    const lift = this._context.heightToWorldZ(EDGE_LIFT_METERS);
+
+    const positions: number[] = [];
+    for (let i = 0; i < ring.length; i += 1) {
+      const a = ring[i];
+      const b = ring[(i + 1) % ring.length];
+      if (!a || !b) continue;
+      const count = this._sampler ? Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / step)) : 1;
+      for (let k = 0; k < count; k += 1) {
+        const t = k / count;
+        const x = a.x + (b.x - a.x) * t;
+        const y = a.y + (b.y - a.y) * t;
+        positions.push(x - anchor.x, y - anchor.y, (this._sampler?.sampleWorldZ(x, y) ?? 0) + lift);
+      }
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.computeBoundingSphere();
+    edge.geometry.dispose();
+    edge.geometry = geometry;
+    edge.position.set(anchor.x, anchor.y, 0);
+  }
+}
+
+function disposeEdge(edge: ClipPolygon['edge']): void {
+  if (!edge) return;
+  edge.removeFromParent();
+  edge.geometry.dispose();
+  edge.material.dispose();
+}
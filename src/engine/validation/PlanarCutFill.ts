@@ -0,0 +1,255 @@
+import * as THREE from 'three';
+import type { ClipPoint } from './PlanarClipMask';
+import type { PlanarDemPatch, PlanarDemPatchOptions } from './PlanarDemPatch';
+import { pointInRing } from './PlanarExcavation';
+import type { PlanarElevationSampler } from './PlanarTerrainLayer';
+import type { ViewportWorldBounds } from './PlanarTileMath';
+
+export type CutFillDesign = { type: 'flat'; height: number } | { type: 'dem'; dem: PlanarDemPatchOptions };
+
+export type CutFillOptions = {
+  polygon: ReadonlyArray<{ lon: number; lat: number }>;
+  design: CutFillDesign;
+  gridSpacingMeters?: number;
+  maxCells?: number;
+  showOverlay?: boolean;
+};
+
+// Volumes are cubic meters and areas square meters. Net is cut minus fill, so a positive value means surplus soil.
+export type CutFillResult = {
+  cutVolume: number;
+  fillVolume: number;
+  netVolume: number;
+  area: number;
+  cutArea: number;
+  fillArea: number;
+  gridSpacingMeters: number;
+  cellCount: number;
+  skippedCellCount: number;
+  maxCutDepth: number;
+  maxFillDepth: number;
+  grid: CutFillGrid;
+};
+
+// Ground minus design per cell, row-major from the north-west corner; NaN outside the polygon or where unsampled.
+export type CutFillGrid = {
+  columns: number;
+  rows: number;
+  bounds: ViewportWorldBounds;
+  deltas: Float32Array;
+};
+
+type CutFillContext = {
+  metersPerUnit: number;
+  ring: readonly ClipPoint[];
+  centerLat: number;
+  sampleGround: (x: number, y: number) => number | null;
+  sampleDesign: (x: number, y: number) => number | null;
+};
+
+const DEFAULT_GRID_SPACING_METERS = 1;
+const DEFAULT_MAX_CELLS = 250_000;
+const OVERLAY_MAX_SEGMENTS = 128;
+const OVERLAY_LIFT_METERS = 0.15;
+const OVERLAY_OPACITY = 0.6;
+
+export function computeCutFill(
+  context: CutFillContext,
+  options: Pick<CutFillOptions, 'gridSpacingMeters' | 'maxCells'>
+): CutFillResult {
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  for (const point of context.ring) {
+    bounds.minX = Math.min(bounds.minX, point.x);
+    bounds.minY = Math.min(bounds.minY, point.y);
+    bounds.maxX = Math.max(bounds.maxX, point.x);
+    bounds.maxY = Math.max(bounds.maxY, point.y);
+  }
+
+  // Web Mercator stretches ground distances by sec(lat); cells are square on the ground.
+  const groundPerUnit = context.metersPerUnit * Math.cos((context.centerLat * Math.PI) / 180);
+  const widthMeters = (bounds.maxX - bounds.minX) * groundPerUnit;
+  const heightMeters = (bounds.maxY - bounds.minY) * groundPerUnit;
+  const maxCells = Math.max(1, Math.floor(options.maxCells ?? DEFAULT_MAX_CELLS));
+  const requested = options.gridSpacingMeters ?? DEFAULT_GRID_SPACING_METERS;
+  if (!Number.isFinite(requested) || requested <= 0) {
+    throw new Error(`Invalid cut/fill grid spacing: ${requested}`);
+  }
+  const spacing = Math.max(requested, Math.sqrt((widthMeters * heightMeters) / maxCells));
+  const step = spacing / groundPerUnit;
+  const columns = Math.max(1, Math.ceil((bounds.maxX - bounds.minX) / step));
+  const rows = Math.max(1, Math.ceil((bounds.maxY - bounds.minY) / step));
+  const cellArea = spacing * spacing;
+
+  const deltas = new Float32Array(columns * rows).fill(Number.NaN);
+  let cutVolume = 0;
+  let fillVolume = 0;
+  let cutCells = 0;
+  let fillCells = 0;
+  let cellCount = 0;
+  let skippedCellCount = 0;
+  let maxCutDepth = 0;
+  let maxFillDepth = 0;
+
+  for (let row = 0; row < rows; row += 1) {
+    const y = bounds.minY + (rows - row - 0.5) * step;
+    for (let column = 0; column < columns; column += 1) {
+      const x = bounds.minX + (column + 0.5) * step;
+      if (!pointInRing(context.ring, x, y)) continue;
+      cellCount += 1;
+
+      const ground = context.sampleGround(x, y);
+      const design = context.sampleDesign(x, y);
+      if (ground === null || design === null) {
+        skippedCellCount += 1;
+        continue;
+      }
+
+      const delta = ground - design;
+      deltas[row * columns + column] = delta;
+      if (delta > 0) {
+        cutVolume += delta * cellArea;
+        cutCells += 1;
+        maxCutDepth = Math.max(maxCutDepth, delta);
+      } else if (delta < 0) {
+        fillVolume -= delta * cellArea;
+        fillCells += 1;
+        maxFillDepth = Math.max(maxFillDepth, -delta);
+      }
+    }
+  }
+
+  return {
+    cutVolume,
+    fillVolume,
+    netVolume: cutVolume - fillVolume,
+    area: (cellCount - skippedCellCount) * cellArea,
+    cutArea: cutCells * cellArea,
+    fillArea: fillCells * cellArea,
+    gridSpacingMeters: spacing,
+    cellCount,
+    skippedCellCount,
+    maxCutDepth,
+    maxFillDepth,
+    grid: {
+      columns,
+      rows,
+      bounds: {
+        minX: bounds.minX,
+        minY: bounds.maxY - rows * step,
+        maxX: bounds.minX + columns * step,
+        maxY: bounds.maxY
+      },
+      deltas
+    }
+  };
+}
+
+export function createDesignSampler(
+  design: CutFillDesign,
+  createPatch: (options: PlanarDemPatchOptions) => PlanarDemPatch
+): (x: number, y: number) => number | null {
+  if (design.type === 'flat') {
+    if (!Number.isFinite(design.height)) {
+      throw new Error(`Invalid cut/fill design height: ${design.height}`);
+    }
+    const height = design.height;
+    return () => height;
+  }
+  const patch = createPatch(design.dem);
+  return (x, y) => patch.sampleAtWorldXY(x, y);
+}
+
+// Red where ground is above the design (cut), blue where it is below (fill). Stronger colour means deeper.
+export class PlanarCutFillOverlay {
+  private readonly _mesh: THREE.Mesh<THREE.BufferGeometry, THREE.MeshBasicMaterial>;
+  private readonly _grid: CutFillGrid;
+  private readonly _heightToWorldZ: (heightMeters: number) => number;
+  private _drapeVersion = Number.NaN;
+
+  constructor(grid: CutFillGrid, heightToWorldZ: (heightMeters: number) => number) {
+    this._grid = grid;
+    this._heightToWorldZ = heightToWorldZ;
+    const texture = createDeltaTexture(grid);
+    this._mesh = new THREE.Mesh(
+      new THREE.BufferGeometry(),
+      new THREE.MeshBasicMaterial({
+        map: texture,
+        transparent: true,
+        opacity: OVERLAY_OPACITY,
+        depthWrite: false,
+        side: THREE.DoubleSide
+      })
+    );
+    this._mesh.renderOrder = 25;
+    const { minX, minY, maxX, maxY } = grid.bounds;
+    this._mesh.position.set((minX + maxX) * 0.5, (minY + maxY) * 0.5, 0);
+  }
+
+  get object3d(): THREE.Object3D {
+    return this._mesh;
+  }
+
+  drape(sampler: PlanarElevationSampler | null): void {
+    const version = sampler?.version ?? -1;
+    if (version === this._drapeVersion) return;
+    this._drapeVersion = version;
+
+    const { minX, minY, maxX, maxY } = this._grid.bounds;
+    const width = maxX - minX;
+    const height = maxY - minY;
+    const segmentsX = Math.min(OVERLAY_MAX_SEGMENTS, this._grid.columns);
+    const segmentsY = Math.min(OVERLAY_MAX_SEGMENTS, this._grid.rows);
+    const geometry = new THREE.PlaneGeometry(width, height, segmentsX, segmentsY);
+    const positions = geometry.getAttribute('position');
+    const lift = this._heightToWorldZ(OVERLAY_LIFT_METERS);
+    const centerX = this._mesh.position.x;
+    const centerY = this._mesh.position.y;
+    for (let i = 0; i < positions.count; i += 1) {
+      const z = sampler?.sampleWorldZ(centerX + positions.getX(i), centerY + positions.getY(i)) ?? 0;
+      positions.setZ(i, z + lift);
+    }
+    positions.needsUpdate = true;
+    geometry.computeBoundingSphere();
+
+    this._mesh.geometry.dispose();
+    this._mesh.geometry = geometry;
+  }
+
+  dispose(): void {
+    this._mesh.removeFromParent();
+    this._mesh.geometry.dispose();
+    this._mesh.material.map?.dispose();
+    this._mesh.material.dispose();
+  }
+}
+
+function createDeltaTexture(grid: CutFillGrid): THREE.DataTexture {
+  let maxAbs = 0;
+  for (const delta of grid.deltas) {
+    if (!Number.isNaN(delta)) maxAbs = Math.max(maxAbs, Math.abs(delta));
+  }
+
+  const data = new Uint8Array(grid.columns * grid.rows * 4);
+  for (let row = 0; row < grid.rows; row += 1) {
+    for (let column = 0; column < grid.columns; column += 1) {
+      const delta = grid.deltas[row * grid.columns + column] ?? Number.NaN;
+      // DataTexture rows start at the bottom, the grid starts at the north edge.
+      const offset = ((grid.rows - 1 - row) * grid.columns + column) * 4;
+      if (Number.isNaN(delta)) continue;
+      const t = maxAbs > 0 ? Math.min(1, Math.abs(delta) / maxAbs) : 0;
+      const shade = Math.round(220 * (1 - t));
+      if (delta >= 0) {
+        data.set([255, shade, shade, 255], offset);
+      } else {
+        data.set([shade, shade, 255, 255], offset);
+      }
+    }
+  }
+
+  const texture = new THREE.DataTexture(data, grid.columns, grid.rows, THREE.RGBAFormat);
+  texture.magFilter = THREE.NearestFilter;
+  texture.minFilter = THREE.NearestFilter;
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.needsUpdate = true;
+  return texture;
+}
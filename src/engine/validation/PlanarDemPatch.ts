@@ -0,0 +1,251 @@
+import { crsRegistry, crsToLonLat, lonLatToCrs, type CrsDefinition, type CrsInput } from '../../geo/crs';
+import { clampNumber, type ViewportWorldBounds } from './PlanarTileMath';
+
+export type DemPatchCrs = 'EPSG:4326' | 'EPSG:3857';
+
+export type PlanarDemPatchOptions = {
+  id?: string;
+  width: number;
+  height: number;
+  heights: ArrayLike<number>;
+  bbox: { west: number; south: number; east: number; north: number };
+  // Any CRS known to the registry; bbox values are in its units (degrees or metres).
+  crs?: DemPatchCrs | CrsInput;
+  noDataValue?: number;
+  heightOffset?: number;
+  blendMeters?: number;
+};
+
+export type PlanarDemPatchInfo = {
+  id: string;
+  width: number;
+  height: number;
+  bbox: { west: number; south: number; east: number; north: number };
+  crs: string;
+  cellSizeMeters: number;
+  minHeight: number;
+  maxHeight: number;
+  blendMeters: number;
+};
+
+type PatchProjector = {
+  metersPerUnit: number;
+  worldXYToLonLat: (x: number, y: number) => { lon: number; lat: number };
+  worldXYToMercator: (x: number, y: number) => { x: number; y: number };
+  lonLatToWorldXY: (lon: number, lat: number) => { x: number; y: number };
+  mercatorToWorldXY: (x: number, y: number) => { x: number; y: number };
+};
+
+const DEFAULT_BLEND_CELLS = 8;
+const BOUNDARY_SAMPLES = 8;
+const UV_EPSILON = 1e-9;
+
+// A regular height grid that replaces the base terrain inside its bbox. Cells are area-registered:
+// the bbox is the outer edge of the grid and samples sit at cell centres. Heights blend into the
+// surrounding surface over `blendMeters` inside the footprint so the seam follows the base terrain.
+export class PlanarDemPatch {
+  readonly id: string;
+  readonly bounds: ViewportWorldBounds;
+
+  private readonly _projector: PatchProjector;
+  private readonly _width: number;
+  private readonly _height: number;
+  private readonly _heights: Float32Array;
+  private readonly _bbox: PlanarDemPatchInfo['bbox'];
+  private readonly _crs: CrsDefinition;
+  private readonly _widthMeters: number;
+  private readonly _heightMeters: number;
+  private readonly _cellSizeMeters: number;
+  private readonly _blendMeters: number;
+  private readonly _detailSpacing: number;
+  private readonly _minHeight: number;
+  private readonly _maxHeight: number;
+
+  constructor(id: string, options: PlanarDemPatchOptions, projector: PatchProjector) {
+    const width = Math.floor(options.width);
+    const height = Math.floor(options.height);
+    if (width < 2 || height < 2) {
+      throw new Error(`DEM patch "${id}" needs at least 2x2 cells, got ${options.width}x${options.height}.`);
+    }
+    if (options.heights.length !== width * height) {
+      throw new Error(
+        `DEM patch "${id}" expects ${width * height} heights for a ${width}x${height} grid, got ${options.heights.length}.`
+      );
+    }
+    const crs = crsRegistry.resolve(options.crs ?? 'EPSG:4326');
+    const { west, south, east, north } = options.bbox;
+    if (![west, south, east, north].every(Number.isFinite) || east <= west || north <= south) {
+      throw new Error(`Invalid DEM patch bbox: ${west},${south},${east},${north}`);
+    }
+
+    this.id = id;
+    this._projector = projector;
+    this._width = width;
+    this._height = height;
+    this._crs = crs;
+    this._bbox = { west, south, east, north };
+
+    const offset = options.heightOffset ?? 0;
+    const noData = options.noDataValue;
+    this._heights = new Float32Array(width * height);
+    let minHeight = Number.POSITIVE_INFINITY;
+    let maxHeight = Number.NEGATIVE_INFINITY;
+    for (let i = 0; i < this._heights.length; i += 1) {
+      const raw = options.heights[i] ?? Number.NaN;
+      const value = raw === noData || !Number.isFinite(raw) ? Number.NaN : raw + offset;
+      this._heights[i] = value;
+      if (value < minHeight) minHeight = value;
+      if (value > maxHeight) maxHeight = value;
+    }
+    if (!Number.isFinite(minHeight)) {
+      throw new Error(`DEM patch "${id}" has no valid heights.`);
+    }
+    this._minHeight = minHeight;
+    this._maxHeight = maxHeight;
+
+    this.bounds = this.projectBounds();
+    const { minX, minY, maxX, maxY } = this.bounds;
+
+    const centerLat = projector.worldXYToLonLat((minX + maxX) * 0.5, (minY + maxY) * 0.5).lat;
+    // Web Mercator stretches ground distances by sec(lat).
+    const groundScale = Math.cos((centerLat * Math.PI) / 180);
+    if (crs.projection.type === 'tmerc') {
+      // Projected metres; the grid may be rotated against the world axes, so use the bbox itself.
+      this._widthMeters = east - west;
+      this._heightMeters = north - south;
+    } else {
+      this._widthMeters = (maxX - minX) * projector.metersPerUnit * groundScale;
+      this._heightMeters = (maxY - minY) * projector.metersPerUnit * groundScale;
+    }
+    this._cellSizeMeters = Math.min(this._widthMeters / width, this._heightMeters / height);
+    this._blendMeters = Math.max(0, options.blendMeters ?? this._cellSizeMeters * DEFAULT_BLEND_CELLS);
+    this._detailSpacing = this._cellSizeMeters / groundScale / projector.metersPerUnit;
+  }
+
+  get info(): PlanarDemPatchInfo {
+    return {
+      id: this.id,
+      width: this._width,
+      height: this._height,
+      bbox: { ...this._bbox },
+      crs: this._crs.code,
+      cellSizeMeters: this._cellSizeMeters,
+      minHeight: this._minHeight,
+      maxHeight: this._maxHeight,
+      blendMeters: this._blendMeters
+    };
+  }
+
+  get cellSizeMeters(): number {
+    return this._cellSizeMeters;
+  }
+
+  // Grid spacing in world units, used to refine tile meshes that overlap the patch.
+  get detailSpacing(): number {
+    return this._detailSpacing;
+  }
+
+  contains(x: number, y: number): boolean {
+    const { minX, minY, maxX, maxY } = this.bounds;
+    return x >= minX && x <= maxX && y >= minY && y <= maxY;
+  }
+
+  sampleAtWorldXY(x: number, y: number): number | null {
+    if (!this.contains(x, y)) return null;
+    const uv = this.worldToUv(x, y);
+    return insideUv(uv) ? this.sampleGrid(uv.u, uv.v) : null;
+  }
+
+  apply(x: number, y: number, baseHeight: number): number {
+    if (!this.contains(x, y)) return baseHeight;
+
+    const uv = this.worldToUv(x, y);
+    if (!insideUv(uv)) return baseHeight;
+    const patchHeight = this.sampleGrid(uv.u, uv.v);
+    if (patchHeight === null) return baseHeight;
+    if (this._blendMeters <= 0) return patchHeight;
+
+    const inset = Math.min(
+      Math.min(uv.u, 1 - uv.u) * this._widthMeters,
+      Math.min(uv.v, 1 - uv.v) * this._heightMeters
+    );
+    const t = clampNumber(inset / this._blendMeters, 0, 1);
+    const weight = t * t * (3 - 2 * t);
+    return baseHeight + (patchHeight - baseHeight) * weight;
+  }
+
+  private worldToUv(x: number, y: number): { u: number; v: number } {
+    const { west, south, east, north } = this._bbox;
+    const native = this.worldToCrs(x, y);
+    return { u: (native.x - west) / (east - west), v: (north - native.y) / (north - south) };
+  }
+
+  private worldToCrs(x: number, y: number): { x: number; y: number } {
+    const projection = this._crs.projection;
+    if (projection.type === 'webmercator') return this._projector.worldXYToMercator(x, y);
+    const lonLat = this._projector.worldXYToLonLat(x, y);
+    if (projection.type === 'longlat') return { x: lonLat.lon, y: lonLat.lat };
+    return lonLatToCrs(this._crs, lonLat.lon, lonLat.lat);
+  }
+
+  private crsToWorld(x: number, y: number): { x: number; y: number } {
+    if (this._crs.projection.type === 'webmercator') return this._projector.mercatorToWorldXY(x, y);
+    const lonLat = crsToLonLat(this._crs, x, y);
+    return this._projector.lonLatToWorldXY(lonLat.lon, lonLat.lat);
+  }
+
+  // Projected grids are not axis-aligned in the world frame, so the bounds enclose sampled edge points.
+  private projectBounds(): ViewportWorldBounds {
+    const { west, south, east, north } = this._bbox;
+    const samples = this._crs.projection.type === 'tmerc' ? BOUNDARY_SAMPLES : 1;
+    const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    for (let i = 0; i <= samples; i += 1) {
+      const t = i / samples;
+      const x = west + (east - west) * t;
+      const y = south + (north - south) * t;
+      for (const point of [
+        this.crsToWorld(x, south),
+        this.crsToWorld(x, north),
+        this.crsToWorld(west, y),
+        this.crsToWorld(east, y)
+      ]) {
+        bounds.minX = Math.min(bounds.minX, point.x);
+        bounds.minY = Math.min(bounds.minY, point.y);
+        bounds.maxX = Math.max(bounds.maxX, point.x);
+        bounds.maxY = Math.max(bounds.maxY, point.y);
+      }
+    }
+    return bounds;
+  }
+
+  // Bilinear sample that ignores no-data cells; null when none of the four neighbours is valid.
+  private sampleGrid(u: number, v: number): number | null {
+    const px = clampNumber(u * this._width - 0.5, 0, this._width - 1);
+    const py = clampNumber(v * this._height - 0.5, 0, this._height - 1);
+    const x0 = Math.floor(px);
+    const y0 = Math.floor(py);
+    const x1 = Math.min(x0 + 1, this._width - 1);
+    const y1 = Math.min(y0 + 1, this._height - 1);
+    const fx = px - x0;
+    const fy = py - y0;
+
+    let sum = 0;
+    let weightSum = 0;
+    for (const [gx, gy, w] of [
+      [x0, y0, (1 - fx) * (1 - fy)],
+      [x1, y0, fx * (1 - fy)],
+      [x0, y1, (1 - fx) * fy],
+      [x1, y1, fx * fy]
+    ] as const) {
+      const value = this._heights[gy * this._width + gx] ?? Number.NaN;
+      if (Number.isNaN(value) || w <= 0) continue;
+      sum += value * w;
+      weightSum += w;
+    }
+    return weightSum > 0 ? sum / weightSum : null;
+  }
+}
+
+function insideUv(uv: { u: number; v: number }): boolean {
+  return uv.u >= -UV_EPSILON && uv.u <= 1 + UV_EPSILON && uv.v >= -UV_EPSILON && uv.v <= 1 + UV_EPSILON;
+}
@@ -0,0 +1,198 @@
+import * as THREE from 'three';
+
+export type DrawVertex = {
+  x: number;
+  y: number;
+  z: number;
+  lon: number;
+  lat: number;
+  height: number;
+};
+
+export type PlanarDrawOptions = {
+  closed?: boolean;
+  maxPoints?: number;
+  color?: number;
+  onChange?: (vertices: readonly DrawVertex[], cursor: DrawVertex | null) => void;
+  onFinish?: (vertices: readonly DrawVertex[]) => void;
+  onCancel?: () => void;
+};
+
+type DrawContext = {
+  domElement: HTMLElement;
+  pick: (clientX: number, clientY: number) => DrawVertex | null;
+};
+
+const CLICK_TOLERANCE_PX = 5;
+const DEFAULT_COLOR = 0x38bdf8;
+
+// Click adds a vertex, double-click or Enter finishes, right-click undoes the last vertex and Escape cancels.
+// Drags are left to the camera controller.
+export class PlanarDrawSession {
+  private readonly _context: DrawContext;
+  private readonly _options: PlanarDrawOptions;
+  private readonly _root = new THREE.Group();
+  private readonly _line: THREE.Line<THREE.BufferGeometry, THREE.LineBasicMaterial>;
+  private readonly _points: THREE.Points<THREE.BufferGeometry, THREE.PointsMaterial>;
+  private readonly _vertices: DrawVertex[] = [];
+  private readonly _onPointerDown: (event: PointerEvent) => void;
+  private readonly _onPointerUp: (event: PointerEvent) => void;
+  private readonly _onPointerMove: (event: PointerEvent) => void;
+  private readonly _onDoubleClick: (event: MouseEvent) => void;
+  private readonly _onContextMenu: (event: MouseEvent) => void;
+  private readonly _onKeyDown: (event: KeyboardEvent) => void;
+  private _cursor: DrawVertex | null = null;
+  private _downAt: { x: number; y: number } | null = null;
+  private _active = true;
+
+  constructor(context: DrawContext, options: PlanarDrawOptions) {
+    this._context = context;
+    this._options = options;
+
+    const color = options.color ?? DEFAULT_COLOR;
+    this._line = new THREE.Line(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true })
+    );
+    this._points = new THREE.Points(
+      new THREE.BufferGeometry(),
+      new THREE.PointsMaterial({ color, size: 8, sizeAttenuation: false, depthTest: false, transparent: true })
+    );
+    this._line.renderOrder = 40;
+    this._points.renderOrder = 41;
+    this._root.add(this._line, this._points);
+
+    this._onPointerDown = (event) => {
+      if (event.button === 0) this._downAt = { x: event.clientX, y: event.clientY };
+    };
+    this._onPointerUp = (event) => this.handlePointerUp(event);
+    this._onPointerMove = (event) => this.handlePointerMove(event);
+    this._onDoubleClick = (event) => {
+      event.preventDefault();
+      this.finish();
+    };
+    this._onContextMenu = (event) => {
+      event.preventDefault();
+      this.undo();
+    };
+    this._onKeyDown = (event) => {
+      if (event.key === 'Escape') this.cancel();
+      else if (event.key === 'Enter') this.finish();
+    };
+
+    const element = context.domElement;
+    element.addEventListener('pointerdown', this._onPointerDown);
+    element.addEventListener('pointerup', this._onPointerUp);
+    element.addEventListener('pointermove', this._onPointerMove);
+    element.addEventListener('dblclick', this._onDoubleClick);
+    element.addEventListener('contextmenu', this._onContextMenu);
+    window.addEventListener('keydown', this._onKeyDown);
+  }
+
+  get object3d(): THREE.Object3D {
+    return this._root;
+  }
+
+  get active(): boolean {
+    return this._active;
+  }
+
+  get vertices(): readonly DrawVertex[] {
+    return this._vertices;
+  }
+
+  undo(): void {
+    if (!this._active || this._vertices.length === 0) return;
+    this._vertices.pop();
+    this.refresh();
+  }
+
+  finish(): void {
+    if (!this._active) return;
+    // The two clicks of a double-click each added a vertex at the same spot.
+    const last = this._vertices[this._vertices.length - 1];
+    const previous = this._vertices[this._vertices.length - 2];
+    if (last && previous && Math.hypot(last.x - previous.x, last.y - previous.y) < 1e-9) {
+      this._vertices.pop();
+    }
+    const vertices = [...this._vertices];
+    this.dispose();
+    this._options.onFinish?.(vertices);
+  }
+
+  cancel(): void {
+    if (!this._active) return;
+    this.dispose();
+    this._options.onCancel?.();
+  }
+
+  dispose(): void {
+    if (!this._active) return;
+    this._active = false;
+
+    const element = this._context.domElement;
+    element.removeEventListener('pointerdown', this._onPointerDown);
+    element.removeEventListener('pointerup', this._onPointerUp);
+    element.removeEventListener('pointermove', this._onPointerMove);
+    element.removeEventListener('dblclick', this._onDoubleClick);
+    element.removeEventListener('contextmenu', this._onContextMenu);
+    window.removeEventListener('keydown', this._onKeyDown);
+
+    this._root.removeFromParent();
+    this._line.geometry.dispose();
+    this._line.material.dispose();
+    this._points.geometry.dispose();
+    this._points.material.dispose();
+  }
+
+  private handlePointerUp(event: PointerEvent): void {
+    const down = this._downAt;
+    this._downAt = null;
+    if (event.button !== 0 || !down) return;
+    if (Math.hypot(event.clientX - down.x, event.clientY - down.y) > CLICK_TOLERANCE_PX) return;
+
+    const vertex = this._context.pick(event.clientX, event.clientY);
+    if (!vertex) return;
+    this._vertices.push(vertex);
+    this.refresh();
+
+    const maxPoints = this._options.maxPoints ?? Number.POSITIVE_INFINITY;
+    if (this._vertices.length >= maxPoints) this.finish();
+  }
+
+  private handlePointerMove(event: PointerEvent): void {
+    if (this._vertices.length === 0 || event.buttons !== 0) return;
+    this._cursor = this._context.pick(event.clientX, event.clientY);
+    this.refresh();
+  }
+
+  private refresh(): void {
+    const path = this._cursor ? [...this._vertices, this._cursor] : [...this._vertices];
+    const first = this._options.closed && path.length > 2 ? path[0] : undefined;
+    if (first) path.push(first);
+
+    // Positions are stored relative to the first vertex to keep float32 precision.
+    const anchor = this._vertices[0] ?? { x: 0, y: 0, z: 0 };
+    this._root.position.set(anchor.x, anchor.y, 0);
+    this._line.geometry.dispose();
+    this._line.geometry = createGeometry(path, anchor);
+    this._points.geometry.dispose();
+    this._points.geometry = createGeometry(this._vertices, anchor);
+
+    this._options.onChange?.(this._vertices, this._cursor);
+  }
+}
+
+function createGeometry(
+  vertices: readonly DrawVertex[],
+  anchor: { x: number; y: number }
+): THREE.BufferGeometry {
+  const positions = new Float32Array(vertices.length * 3);
+  vertices.forEach((vertex, index) => {
+    positions.set([vertex.x - anchor.x, vertex.y - anchor.y, vertex.z], index * 3);
+  });
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.computeBoundingSphere();
+  return geometry;
+}
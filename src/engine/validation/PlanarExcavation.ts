@@ -0,0 +1,297 @@
+import * as THREE from 'three';
+import type { ClipPoint } from './PlanarClipMask';
+
+export type PlanarExcavationOptions = {
+  id?: string;
+  polygon: ReadonlyArray<{ lon: number; lat: number }>;
+  depth: number;
+  floorHeight?: number;
+  floorTextureUrl?: string;
+  wallTextureUrl?: string;
+  textureRepeatMeters?: number;
+  wallSpacingMeters?: number;
+};
+
+export type PlanarExcavationInfo = {
+  id: string;
+  polygon: ReadonlyArray<{ lon: number; lat: number }>;
+  depth: number;
+  floorHeight: number;
+};
+
+type SurfaceContext = {
+  metersPerUnit: number;
+  heightToWorldZ: (heightMeters: number) => number;
+  sampleWorldZ: (x: number, y: number) => number;
+};
+
+const DEFAULT_TEXTURE_REPEAT_METERS = 8;
+const DEFAULT_WALL_SPACING_METERS = 2;
+const MAX_WALL_SAMPLES = 4096;
+const WALL_TOP_LIFT_METERS = 0.05;
+const FLOOR_LIFT_METERS = 0.02;
+
+export class PlanarExcavation {
+  readonly id: string;
+  readonly polygon: ReadonlyArray<{ lon: number; lat: number }>;
+  readonly ring: readonly ClipPoint[];
+  readonly depth: number;
+
+  private readonly _root = new THREE.Group();
+  private readonly _anchor: ClipPoint;
+  private readonly _explicitFloorHeight: number | null;
+  private readonly _textureRepeatMeters: number;
+  private readonly _wallSpacingMeters: number;
+  private readonly _floorTexture: THREE.Texture | null;
+  private readonly _wallTexture: THREE.Texture | null;
+  private readonly _floor: THREE.Mesh<THREE.BufferGeometry, THREE.MeshLambertMaterial>;
+  private readonly _walls: THREE.Mesh<THREE.BufferGeometry, THREE.MeshLambertMaterial>;
+  private _floorHeight = 0;
+
+  constructor(id: string, ring: readonly ClipPoint[], options: PlanarExcavationOptions) {
+    if (!Number.isFinite(options.depth) || options.depth <= 0) {
+      throw new Error(`Invalid excavation depth: ${options.depth}`);
+    }
+    if (options.floorHeight !== undefined && !Number.isFinite(options.floorHeight)) {
+      throw new Error(`Invalid excavation floorHeight: ${options.floorHeight}`);
+    }
+
+    this.id = id;
+    this.polygon = options.polygon.map((point) => ({ lon: point.lon, lat: point.lat }));
+    this.ring = toCounterClockwise(ring);
+    this.depth = options.depth;
+    this._explicitFloorHeight = options.floorHeight ?? null;
+    this._textureRepeatMeters = Math.max(0.1, options.textureRepeatMeters ?? DEFAULT_TEXTURE_REPEAT_METERS);
+    this._wallSpacingMeters = Math.max(0.1, options.wallSpacingMeters ?? DEFAULT_WALL_SPACING_METERS);
+
+    let sumX = 0;
+    let sumY = 0;
+    for (const point of this.ring) {
+      sumX += point.x;
+      sumY += point.y;
+    }
+    this._anchor = { x: sumX / this.ring.length, y: sumY / this.ring.length };
+
+    this._floorTexture = loadTexture(options.floorTextureUrl, '#6b4f34', '#4a3522');
+    this._wallTexture = loadTexture(options.wallTextureUrl, '#8a6a48', '#5c4430');
+    this._floor = new THREE.Mesh(
+      new THREE.BufferGeometry(),
+      new THREE.MeshLambertMaterial({ color: 0xffffff, map: this._floorTexture, side: THREE.DoubleSide })
+    );
+    this._walls = new THREE.Mesh(
+      new THREE.BufferGeometry(),
+      new THREE.MeshLambertMaterial({ color: 0xffffff, map: this._wallTexture, side: THREE.DoubleSide })
+    );
+    this._floor.renderOrder = 1;
+    this._walls.renderOrder = 1;
+    this._root.position.set(this._anchor.x, this._anchor.y, 0);
+    this._root.add(this._floor, this._walls);
+  }
+
+  get object3d(): THREE.Object3D {
+    return this._root;
+  }
+
+  get floorHeight(): number {
+    return this._floorHeight;
+  }
+
+  get info(): PlanarExcavationInfo {
+    return { id: this.id, polygon: this.polygon, depth: this.depth, floorHeight: this._floorHeight };
+  }
+
+  containsWorldXY(x: number, y: number): boolean {
+    return pointInRing(this.ring, x, y);
+  }
+
+  rebuild(surface: SurfaceContext): void {
+    const boundary = this.sampleBoundary(surface);
+    const unitZ = surface.heightToWorldZ(1);
+
+    let floorZ: number;
+    if (this._explicitFloorHeight !== null) {
+      floorZ = surface.heightToWorldZ(this._explicitFloorHeight);
+    } else {
+      let minTop = Number.POSITIVE_INFINITY;
+      for (const point of boundary) minTop = Math.min(minTop, point.z);
+      floorZ = (Number.isFinite(minTop) ? minTop : 0) - surface.heightToWorldZ(this.depth);
+    }
+    this._floorHeight = unitZ > 0 ? floorZ / unitZ : 0;
+
+    this.rebuildWalls(boundary, floorZ, surface);
+    this.rebuildFloor(floorZ + surface.heightToWorldZ(FLOOR_LIFT_METERS), surface);
+  }
+
+  dispose(): void {
+    this._root.removeFromParent();
+    this._floor.geometry.dispose();
+    this._floor.material.dispose();
+    this._walls.geometry.dispose();
+    this._walls.material.dispose();
+    this._floorTexture?.dispose();
+    this._wallTexture?.dispose();
+  }
+
+  private sampleBoundary(surface: SurfaceContext): Array<{ x: number; y: number; z: number; along: number }> {
+    const spacing = this._wallSpacingMeters / surface.metersPerUnit;
+    let perimeter = 0;
+    for (let i = 0; i < this.ring.length; i += 1) {
+      const a = this.ring[i];
+      const b = this.ring[(i + 1) % this.ring.length];
+      if (a && b) perimeter += Math.hypot(b.x - a.x, b.y - a.y);
+    }
+    const step = Math.max(spacing, perimeter / MAX_WALL_SAMPLES);
+    const lift = surface.heightToWorldZ(WALL_TOP_LIFT_METERS);
+
+    const out: Array<{ x: number; y: number; z: number; along: number }> = [];
+    let along = 0;
+    for (let i = 0; i <= this.ring.length; i += 1) {
+      const a = this.ring[i % this.ring.length];
+      const b = this.ring[(i + 1) % this.ring.length];
+      if (!a || !b) continue;
+      if (i === this.ring.length) {
+        out.push({ x: a.x, y: a.y, z: surface.sampleWorldZ(a.x, a.y) + lift, along });
+        break;
+      }
+      const length = Math.hypot(b.x - a.x, b.y - a.y);
+      const count = Math.max(1, Math.ceil(length / step));
+      for (let k = 0; k < count; k += 1) {
+        const t = k / count;
+        const x = a.x + (b.x - a.x) * t;
+        const y = a.y + (b.y - a.y) * t;
+        out.push({ x, y, z: surface.sampleWorldZ(x, y) + lift, along: along + length * t });
+      }
+      along += length;
+    }
+    return out;
+  }
+
+  private rebuildWalls(
+    boundary: ReadonlyArray<{ x: number; y: number; z: number; along: number }>,
+    floorZ: number,
+    surface: SurfaceContext
+  ): void {
+    const repeat = this._textureRepeatMeters / surface.metersPerUnit;
+    const metersPerZ = 1 / Math.max(1e-9, surface.heightToWorldZ(1));
+    const positions = new Float32Array(boundary.length * 2 * 3);
+    const uvs = new Float32Array(boundary.length * 2 * 2);
+    const indices: number[] = [];
+
+    for (let i = 0; i < boundary.length; i += 1) {
+      const point = boundary[i];
+      if (!point) continue;
+      const top = Math.max(point.z, floorZ);
+      const x = point.x - this._anchor.x;
+      const y = point.y - this._anchor.y;
+      positions.set([x, y, top, x, y, floorZ], i * 6);
+      const v = ((top - floorZ) * metersPerZ) / this._textureRepeatMeters;
+      uvs.set([point.along / repeat, v, point.along / repeat, 0], i * 4);
+      if (i > 0) {
+        const a = (i - 1) * 2;
+        const b = i * 2;
+        indices.push(a, a + 1, b, b, a + 1, b + 1);
+      }
+    }
+
+    replaceGeometry(this._walls, positions, uvs, indices);
+  }
+
+  private rebuildFloor(floorZ: number, surface: SurfaceContext): void {
+    const repeat = this._textureRepeatMeters / surface.metersPerUnit;
+    const contour = this.ring.map((point) => new THREE.Vector2(point.x - this._anchor.x, point.y - this._anchor.y));
+    const faces = THREE.ShapeUtils.triangulateShape(contour, []);
+    const positions = new Float32Array(contour.length * 3);
+    const uvs = new Float32Array(contour.length * 2);
+
+    for (let i = 0; i < contour.length; i += 1) {
+      const point = contour[i];
+      if (!point) continue;
+      positions.set([point.x, point.y, floorZ], i * 3);
+      uvs.set([point.x / repeat, point.y / repeat], i * 2);
+    }
+
+    replaceGeometry(this._floor, positions, uvs, faces.flat());
+  }
+}
+
+export function pointInRing(ring: readonly ClipPoint[], x: number, y: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i, i += 1) {
+    const a = ring[i];
+    const b = ring[j];
+    if (!a || !b) continue;
+    if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function toCounterClockwise(ring: readonly ClipPoint[]): ClipPoint[] {
+  const out = ring.map((point) => ({ x: point.x, y: point.y }));
+  const first = out[0];
+  const last = out[out.length - 1];
+  if (out.length > 3 && first && last && first.x === last.x && first.y === last.y) {
+    out.pop();
+  }
+  if (out.length < 3) {
+    throw new Error('Excavation polygon needs at least 3 distinct vertices.');
+  }
+  return THREE.ShapeUtils.isClockWise(out.map((point) => new THREE.Vector2(point.x, point.y)))
+    ? out.reverse()
+    : out;
+}
+
+function replaceGeometry(
+  mesh: THREE.Mesh<THREE.BufferGeometry, THREE.MeshLambertMaterial>,
+  positions: Float32Array,
+  uvs: Float32Array,
+  indices: number[]
+): void {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  geometry.computeBoundingSphere();
+  mesh.geometry.dispose();
+  mesh.geometry = geometry;
+}
+
+function loadTexture(url: string | undefined, base: string, grain: string): THREE.Texture | null {
+  let texture: THREE.Texture | null = null;
+  if (url) {
+    texture = new THREE.TextureLoader().load(url);
+  } else if (typeof document !== 'undefined') {
+    texture = createSoilTexture(base, grain);
+  }
+  if (!texture) return null;
+
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+}
+
+function createSoilTexture(base: string, grain: string): THREE.Texture | null {
+  const size = 128;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  context.fillStyle = base;
+  context.fillRect(0, 0, size, size);
+  context.fillStyle = grain;
+  // Deterministic speckle so every pit looks the same across reloads.
+  let seed = 1;
+  for (let i = 0; i < 900; i += 1) {
+    seed = (seed * 16807) % 2147483647;
+    const x = seed % size;
+    seed = (seed * 16807) % 2147483647;
+    const y = seed % size;
+    context.fillRect(x, y, 2, 2);
+  }
+  return new THREE.CanvasTexture(canvas);
+}
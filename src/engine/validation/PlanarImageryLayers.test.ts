@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { GeoCoordinator } from '../../geo/coords';
+import { PlanarImageryLayers } from './PlanarImageryLayers';
+
+function createLayers(ids: readonly string[]): PlanarImageryLayers {
+  const layers = new PlanarImageryLayers(new GeoCoordinator(), {
+    originLon: 116.391,
+    originLat: 39.907,
+    maxAnisotropy: 1
+  });
+  for (const id of ids) layers.add({ id, urlTemplate: `https://tiles.example.com/${id}/{z}/{x}/{y}.png` });
+  return layers;
+}
+
+function order(layers: PlanarImageryLayers): string[] {
+  return layers.layers.map((layer) => layer.id);
+}
+
+describe('PlanarImageryLayers', () => {
+  it('inserts and moves layers at clamped stack positions', () => {
+    const layers = createLayers(['a', 'b']);
+    expect(layers.add({ id: 'c', index: 0 }).index).toBe(0);
+    expect(layers.add({ id: 'd', index: 99 }).index).toBe(3);
+    expect(order(layers)).toEqual(['c', 'a', 'b', 'd']);
+
+    layers.move('c', 2.7);
+    expect(order(layers)).toEqual(['a', 'b', 'c', 'd']);
+    layers.move('d', -5);
+    expect(order(layers)).toEqual(['d', 'a', 'b', 'c']);
+    layers.dispose();
+  });
+
+  it('rejects non-finite indices instead of inserting at the bottom', () => {
+    const layers = createLayers(['a', 'b']);
+    expect(() => layers.add({ id: 'c', index: Number.NaN })).toThrow(/finite/);
+    expect(layers.get('c')).toBeNull();
+    expect(() => layers.move('b', Number.NaN)).toThrow(/finite/);
+    expect(() => layers.move('b', Number.POSITIVE_INFINITY)).toThrow(/finite/);
+    expect(order(layers)).toEqual(['a', 'b']);
+    layers.dispose();
+  });
+});
@@ -0,0 +1,292 @@
+import * as THREE from 'three';
+import type { GeoCoordinator, Vec3 } from '../../geo/coords';
+import type { PlanarClipMask } from './PlanarClipMask';
+import type { ImageryAdjustments, ResolvedImageryAdjustments } from './PlanarImageryMaterial';
+import {
+  PlanarMapTileLayer,
+  type GroundFootprint,
+  type ImageryBounds,
+  type PlanarMapTileLayerOptions
+} from './PlanarMapTileLayer';
+import type { PlanarElevationSampler } from './PlanarTerrainLayer';
+import {
+  fetchWmsFeatureInfo,
+  isWmsTileSource,
+  type WmsFeatureInfo,
+  type WmsFeatureInfoOptions
+} from './PlanarWmsSource';
+
+export type PlanarImageryLayerOptions = Omit<PlanarMapTileLayerOptions, 'enabled' | 'originLon' | 'originLat'> & {
+  id?: string;
+  name?: string;
+  visible?: boolean;
+  // Stack position counted from the bottom; appended on top when omitted.
+  index?: number;
+};
+
+export type PlanarImageryLayerInfo = {
+  id: string;
+  name: string;
+  index: number;
+  visible: boolean;
+  opacity: number;
+  minZoom: number;
+  maxZoom: number;
+  bounds: ImageryBounds | null;
+  adjustments: ResolvedImageryAdjustments;
+};
+
+export type PlanarImageryLayerChange = {
+  type: 'add' | 'remove' | 'update' | 'reorder';
+  layerId: string;
+  layers: PlanarImageryLayerInfo[];
+};
+
+export type PlanarFeatureInfoOptions = WmsFeatureInfoOptions & {
+  // Layers to ask; defaults to every visible WMS layer.
+  layerIds?: readonly string[];
+};
+
+export type PlanarFeatureInfo = {
+  layerId: string;
+  name: string;
+  response: WmsFeatureInfo;
+};
+
+type ImageryLayer = {
+  id: string;
+  name: string;
+  tiles: PlanarMapTileLayer;
+};
+
+type ImageryLayersContext = {
+  originLon: number;
+  originLat: number;
+  maxAnisotropy: number;
+};
+
+// Imagery layers stacked over the same planar frame, drawn bottom to top in list order.
+export class PlanarImageryLayers {
+  private readonly _root = new THREE.Group();
+  private readonly _geo: GeoCoordinator;
+  private readonly _context: ImageryLayersContext;
+  private readonly _listeners = new Set<(change: PlanarImageryLayerChange) => void>();
+  private _layers: ImageryLayer[] = [];
+  private _sampler: PlanarElevationSampler | null = null;
+  private _clipMask: PlanarClipMask | null = null;
+  private _idCounter = 0;
+
+  constructor(geo: GeoCoordinator, context: ImageryLayersContext) {
+    this._geo = geo;
+    this._context = context;
+  }
+
+  get object3d(): THREE.Object3D {
+    return this._root;
+  }
+
+  // Bottom to top.
+  get layers(): PlanarImageryLayerInfo[] {
+    return this._layers.map((layer, index) => layerInfo(layer, index));
+  }
+
+  get(id: string): PlanarImageryLayerInfo | null {
+    const index = this.indexOf(id);
+    const layer = this._layers[index];
+    return layer ? layerInfo(layer, index) : null;
+  }
+
+  tileLayer(id: string): PlanarMapTileLayer | null {
+    return this._layers[this.indexOf(id)]?.tiles ?? null;
+  }
+
+  onChange(listener: (change: PlanarImageryLayerChange) => void): () => void {
+    this._listeners.add(listener);
+    return () => {
+      this._listeners.delete(listener);
+    };
+  }
+
+  add(options?: PlanarImageryLayerOptions): PlanarImageryLayerInfo {
+    const id = options?.id ?? `layer-${++this._idCounter}`;
+    if (this.indexOf(id) >= 0) {
+      throw new Error(`Imagery layer "${id}" already exists.`);
+    }
+    const index = clampIndex(options?.index ?? this._layers.length, this._layers.length);
+
+    const tiles = new PlanarMapTileLayer(this._geo, {
+      maxAnisotropy: this._context.maxAnisotropy,
+      debugOverlay: false,
+      ...options,
+      originLon: this._context.originLon,
+      originLat: this._context.originLat
+    });
+    tiles.setVisible(options?.visible ?? true);
+    tiles.setElevationSampler(this._sampler);
+    tiles.setClipMask(this._clipMask);
+    this._root.add(tiles.object3d);
+
+    const layer: ImageryLayer = { id, name: options?.name ?? id, tiles };
+    this._layers.splice(index, 0, layer);
+    this.applyRenderIndices();
+    this.emit('add', id);
+    return layerInfo(layer, index);
+  }
+
+  remove(id: string): boolean {
+    const index = this.indexOf(id);
+    const layer = this._layers[index];
+    if (!layer) return false;
+    this._layers.splice(index, 1);
+    this._root.remove(layer.tiles.object3d);
+    layer.tiles.dispose();
+    this.applyRenderIndices();
+    this.emit('remove', id);
+    return true;
+  }
+
+  setVisible(id: string, visible: boolean): void {
+    this.requireLayer(id).tiles.setVisible(visible);
+    this.emit('update', id);
+  }
+
+  setOpacity(id: string, opacity: number): void {
+    this.requireLayer(id).tiles.setOpacity(opacity);
+    this.emit('update', id);
+  }
+
+  setZoomRange(id: string, minZoom: number, maxZoom: number): void {
+    this.requireLayer(id).tiles.setZoomRange(minZoom, maxZoom);
+    this.emit('update', id);
+  }
+
+  setBounds(id: string, bounds: ImageryBounds | null): void {
+    this.requireLayer(id).tiles.setBounds(bounds);
+    this.emit('update', id);
+  }
+
+  setAdjustments(id: string, adjustments: ImageryAdjustments): void {
+    this.requireLayer(id).tiles.setAdjustments(adjustments);
+    this.emit('update', id);
+  }
+
+  // Moves the layer to `index` counted from the bottom.
+  move(id: string, index: number): void {
+    const layer = this.requireLayer(id);
+    const from = this._layers.indexOf(layer);
+    const to = clampIndex(index, this._layers.length - 1);
+    if (from === to) return;
+    this._layers.splice(from, 1);
+    this._layers.splice(to, 0, layer);
+    this.applyRenderIndices();
+    this.emit('reorder', id);
+  }
+
+  worldXYToLonLat(x: number, y: number): { lon: number; lat: number } {
+    const origin = this._geo.lonLatToWebMercator(this._context.originLon, this._context.originLat);
+    const metersPerUnit = this._geo.metersPerUnit;
+    return this._geo.webMercatorToLonLat(origin.x + x * metersPerUnit, origin.y + y * metersPerUnit);
+  }
+
+  lonLatToWorldXY(lon: number, lat: number): { x: number; y: number } {
+    const origin = this._geo.lonLatToWebMercator(this._context.originLon, this._context.originLat);
+    const mercator = this._geo.lonLatToWebMercator(lon, lat);
+    return {
+      x: (mercator.x - origin.x) / this._geo.metersPerUnit,
+      y: (mercator.y - origin.y) / this._geo.metersPerUnit
+    };
+  }
+
+  // Asks the WMS layers drawn at the location, top first, through the tiles currently selected there.
+  queryFeatureInfo(lon: number, lat: number, options?: PlanarFeatureInfoOptions): Promise<PlanarFeatureInfo[]> {
+    const xy = this.lonLatToWorldXY(lon, lat);
+    const requests: Array<{ layer: ImageryLayer; url: string }> = [];
+    for (const layer of [...this._layers].reverse()) {
+      const source = layer.tiles.source;
+      if (!isWmsTileSource(source) || !layer.tiles.visible) continue;
+      if (options?.layerIds && !options.layerIds.includes(layer.id)) continue;
+      const hit = layer.tiles.tileAtWorldXY(xy.x, xy.y);
+      if (hit) requests.push({ layer, url: source.getFeatureInfoUrl(hit.tileId, hit.u, hit.v, options) });
+    }
+    return Promise.all(
+      requests.map(async ({ layer, url }) => ({
+        layerId: layer.id,
+        name: layer.name,
+        response: await fetchWmsFeatureInfo(url)
+      }))
+    );
+  }
+
+  setElevationSampler(sampler: PlanarElevationSampler | null): void {
+    this._sampler = sampler;
+    for (const layer of this._layers) layer.tiles.setElevationSampler(sampler);
+  }
+
+  setClipMask(mask: PlanarClipMask | null): void {
+    this._clipMask = mask;
+    for (const layer of this._layers) layer.tiles.setClipMask(mask);
+  }
+
+  update(
+    camera: THREE.PerspectiveCamera,
+    cameraWorld: Vec3,
+    viewportHeight: number,
+    footprint: GroundFootprint | null
+  ): void {
+    for (const layer of this._layers) layer.tiles.update(camera, cameraWorld, viewportHeight, footprint);
+  }
+
+  dispose(): void {
+    for (const layer of this._layers) {
+      this._root.remove(layer.tiles.object3d);
+      layer.tiles.dispose();
+    }
+    this._layers = [];
+    this._listeners.clear();
+  }
+
+  private indexOf(id: string): number {
+    return this._layers.findIndex((layer) => layer.id === id);
+  }
+
+  private requireLayer(id: string): ImageryLayer {
+    const layer = this._layers[this.indexOf(id)];
+    if (!layer) {
+      throw new Error(`Imagery layer "${id}" does not exist.`);
+    }
+    return layer;
+  }
+
+  private applyRenderIndices(): void {
+    this._layers.forEach((layer, index) => layer.tiles.setRenderIndex(index));
+  }
+
+  private emit(type: PlanarImageryLayerChange['type'], layerId: string): void {
+    if (this._listeners.size === 0) return;
+    const change: PlanarImageryLayerChange = { type, layerId, layers: this.layers };
+    for (const listener of this._listeners) listener(change);
+  }
+}
+
+function layerInfo(layer: ImageryLayer, index: number): PlanarImageryLayerInfo {
+  const { tiles } = layer;
+  return {
+    id: layer.id,
+    name: layer.name,
+    index,
+    visible: tiles.visible,
+    opacity: tiles.opacity,
+    minZoom: tiles.minZoom,
+    maxZoom: tiles.maxZoom,
+    bounds: tiles.bounds,
+    adjustments: tiles.adjustments
+  };
+}
+
+function clampIndex(index: number, max: number): number {
+  // NaN would survive the clamp, and splice() reads it as 0.
+  if (!Number.isFinite(index)) {
+    throw new Error(`Imagery layer index must be a finite number: ${index}`);
+  }
+  return Math.max(0, Math.min(max, Math.floor(index)));
+}
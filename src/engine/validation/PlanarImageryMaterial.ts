@@ -0,0 +1,196 @@
+import * as THREE from 'three';
+
+// Neutral values leave the imagery untouched. Colour values are in sRGB, as the imagery is authored.
+export type ImageryAdjustments = {
+  // Multiplies the colour.
+  brightness?: number;
+  // Scales the distance from mid grey.
+  contrast?: number;
+  // 0 is greyscale, above 1 oversaturates.
+  saturation?: number;
+  gamma?: number;
+  // Hue rotation in degrees.
+  hue?: number;
+  // Night mode: inverts the lightness while keeping the hues.
+  invert?: boolean;
+  // Texels close to this colour become transparent, e.g. the white background of a thematic map.
+  colorToAlpha?: THREE.ColorRepresentation | null;
+  // Largest RGB distance, from 0 to 1, that still counts as the key colour.
+  colorToAlphaThreshold?: number;
+};
+
+export type ResolvedImageryAdjustments = {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  gamma: number;
+  hue: number;
+  invert: boolean;
+  colorToAlpha: string | null;
+  colorToAlphaThreshold: number;
+};
+
+const DEFAULT_COLOR_TO_ALPHA_THRESHOLD = 0.004;
+
+const VERTEX_SHADER = /* glsl */ `
+#include <common>
+#include <clipping_planes_pars_vertex>
+varying vec2 vUv;
+
+void main() {
+  vUv = uv;
+  #include <begin_vertex>
+  #include <project_vertex>
+  #include <clipping_planes_vertex>
+}
+`;
+
+const FRAGMENT_SHADER = /* glsl */ `
+#include <common>
+#include <clipping_planes_pars_fragment>
+uniform sampler2D uMap;
+uniform float uHasMap;
+uniform float uOpacity;
+uniform float uBrightness;
+uniform float uContrast;
+uniform float uSaturation;
+uniform float uGamma;
+uniform float uHue;
+uniform float uInvert;
+uniform vec3 uColorToAlpha;
+uniform float uColorToAlphaThreshold;
+varying vec2 vUv;
+
+// Rotation around the grey axis in YIQ space.
+vec3 sagRotateHue(vec3 rgb, float angle) {
+  const mat3 toYiq = mat3(0.299, 0.596, 0.211, 0.587, -0.274, -0.523, 0.114, -0.322, 0.312);
+  const mat3 toRgb = mat3(1.0, 1.0, 1.0, 0.956, -0.272, -1.106, 0.621, -0.647, 1.703);
+  vec3 yiq = toYiq * rgb;
+  float s = sin(angle);
+  float c = cos(angle);
+  yiq.yz = vec2(yiq.y * c - yiq.z * s, yiq.y * s + yiq.z * c);
+  return toRgb * yiq;
+}
+
+void main() {
+  #include <clipping_planes_fragment>
+  vec4 texel = uHasMap > 0.5 ? texture2D(uMap, vUv) : vec4(1.0);
+  // Textures are decoded to linear on sampling; the adjustments work on the authored sRGB values.
+  vec3 color = sRGBTransferOETF(vec4(texel.rgb, 1.0)).rgb;
+  float alpha = texel.a * uOpacity;
+  if (uColorToAlphaThreshold >= 0.0 && distance(color, uColorToAlpha) <= uColorToAlphaThreshold) alpha = 0.0;
+
+  if (uInvert > 0.5) color = sagRotateHue(1.0 - color, PI);
+  color *= uBrightness;
+  color = (color - 0.5) * uContrast + 0.5;
+  if (uHue != 0.0) color = sagRotateHue(color, uHue);
+  color = mix(vec3(dot(color, vec3(0.2126, 0.7152, 0.0722))), color, uSaturation);
+  color = pow(clamp(color, 0.0, 1.0), vec3(1.0 / uGamma));
+
+  gl_FragColor = vec4(sRGBTransferEOTF(vec4(color, 1.0)).rgb, alpha);
+  #include <colorspace_fragment>
+}
+`;
+
+// Uniform values shared by every tile of a layer, so a change reaches all tiles without recompiling.
+export class ImageryAdjustmentUniforms {
+  readonly brightness = { value: 1 };
+  readonly contrast = { value: 1 };
+  readonly saturation = { value: 1 };
+  readonly gamma = { value: 1 };
+  readonly hue = { value: 0 };
+  readonly invert = { value: 0 };
+  readonly colorToAlpha = { value: new THREE.Vector3() };
+  readonly colorToAlphaThreshold = { value: -1 };
+  private _values: ResolvedImageryAdjustments = {
+    brightness: 1,
+    contrast: 1,
+    saturation: 1,
+    gamma: 1,
+    hue: 0,
+    invert: false,
+    colorToAlpha: null,
+    colorToAlphaThreshold: DEFAULT_COLOR_TO_ALPHA_THRESHOLD
+  };
+
+  get values(): ResolvedImageryAdjustments {
+    return { ...this._values };
+  }
+
+  // Texels can turn transparent, so the tiles need blending even at full opacity.
+  get keysAlpha(): boolean {
+    return this._values.colorToAlpha !== null;
+  }
+
+  // Omitted fields keep their current value.
+  set(adjustments: ImageryAdjustments): void {
+    const next = { ...this._values };
+    if (adjustments.brightness !== undefined) next.brightness = Math.max(0, finiteOr(adjustments.brightness, 1));
+    if (adjustments.contrast !== undefined) next.contrast = Math.max(0, finiteOr(adjustments.contrast, 1));
+    if (adjustments.saturation !== undefined) next.saturation = Math.max(0, finiteOr(adjustments.saturation, 1));
+    if (adjustments.gamma !== undefined) next.gamma = Math.max(0.01, finiteOr(adjustments.gamma, 1));
+    if (adjustments.hue !== undefined) next.hue = finiteOr(adjustments.hue, 0);
+    if (adjustments.invert !== undefined) next.invert = adjustments.invert;
+    if (adjustments.colorToAlpha !== undefined) {
+      next.colorToAlpha =
+        adjustments.colorToAlpha === null ? null : `#${new THREE.Color(adjustments.colorToAlpha).getHexString()}`;
+    }
+    if (adjustments.colorToAlphaThreshold !== undefined) {
+      next.colorToAlphaThreshold = Math.max(0, Math.min(1, finiteOr(adjustments.colorToAlphaThreshold, 0)));
+    }
+    this._values = next;
+
+    this.brightness.value = next.brightness;
+    this.contrast.value = next.contrast;
+    this.saturation.value = next.saturation;
+    this.gamma.value = next.gamma;
+    this.hue.value = (next.hue * Math.PI) / 180;
+    this.invert.value = next.invert ? 1 : 0;
+    if (next.colorToAlpha) {
+      const rgb = new THREE.Color(next.colorToAlpha).getRGB({ r: 0, g: 0, b: 0 }, THREE.SRGBColorSpace);
+      this.colorToAlpha.value.set(rgb.r, rgb.g, rgb.b);
+    }
+    this.colorToAlphaThreshold.value = next.colorToAlpha ? next.colorToAlphaThreshold : -1;
+  }
+}
+
+// Unlit tile material that applies the layer's colour adjustments. It keeps the chunk includes the clip
+// mask patches, and reads `map` and `opacity` like the basic material it replaces.
+export class PlanarImageryMaterial extends THREE.ShaderMaterial {
+  map: THREE.Texture | null = null;
+
+  constructor(adjustments: ImageryAdjustmentUniforms) {
+    super({
+      uniforms: {
+        uMap: { value: null },
+        uHasMap: { value: 0 },
+        uOpacity: { value: 1 },
+        uBrightness: adjustments.brightness,
+        uContrast: adjustments.contrast,
+        uSaturation: adjustments.saturation,
+        uGamma: adjustments.gamma,
+        uHue: adjustments.hue,
+        uInvert: adjustments.invert,
+        uColorToAlpha: adjustments.colorToAlpha,
+        uColorToAlphaThreshold: adjustments.colorToAlphaThreshold
+      },
+      vertexShader: VERTEX_SHADER,
+      fragmentShader: FRAGMENT_SHADER,
+      transparent: true,
+      depthWrite: false,
+      depthTest: true
+    });
+    this.clipping = true;
+  }
+
+  override onBeforeRender(): void {
+    const uniforms = this.uniforms;
+    if (uniforms.uMap) uniforms.uMap.value = this.map;
+    if (uniforms.uHasMap) uniforms.uHasMap.value = this.map ? 1 : 0;
+    if (uniforms.uOpacity) uniforms.uOpacity.value = this.opacity;
+  }
+}
+
+function finiteOr(value: number, fallback: number): number {
+  return Number.isFinite(value) ? value : fallback;
+}
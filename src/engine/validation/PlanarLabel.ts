@@ -0,0 +1,85 @@
+import * as THREE from 'three';
+
+export type LabelStyle = {
+  color?: string;
+  background?: string;
+  fontSizePx?: number;
+};
+
+// Sprites are not size-attenuated, so scale is a fraction of the viewport; this maps canvas pixels to it.
+const PIXEL_TO_SCALE = 0.0011;
+const PADDING_PX = 4;
+
+export function createLabelSprite(lines: readonly string[], style?: LabelStyle): THREE.Sprite {
+  const material = new THREE.SpriteMaterial({
+    depthTest: false,
+    depthWrite: false,
+    transparent: true,
+    sizeAttenuation: false
+  });
+  const sprite = new THREE.Sprite(material);
+  sprite.renderOrder = 50;
+  setLabelText(sprite, lines, style);
+  return sprite;
+}
+
+export function setLabelText(sprite: THREE.Sprite, lines: readonly string[], style?: LabelStyle): void {
+  if (typeof document === 'undefined') return;
+  const fontSize = style?.fontSizePx ?? 12;
+  const ratio = 2;
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const font = `${fontSize * ratio}px sans-serif`;
+  context.font = font;
+  const lineHeight = fontSize * 1.3 * ratio;
+  const width = Math.max(1, ...lines.map((line) => context.measureText(line).width));
+  canvas.width = Math.ceil(width + PADDING_PX * 2 * ratio);
+  canvas.height = Math.ceil(lines.length * lineHeight + PADDING_PX * 2 * ratio);
+
+  context.fillStyle = style?.background ?? 'rgba(15, 23, 42, 0.78)';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.font = font;
+  context.textBaseline = 'top';
+  context.fillStyle = style?.color ?? '#e2e8f0';
+  lines.forEach((line, index) => {
+    context.fillText(line, PADDING_PX * ratio, PADDING_PX * ratio + index * lineHeight + fontSize * 0.15 * ratio);
+  });
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  sprite.material.map?.dispose();
+  sprite.material.map = texture;
+  sprite.material.needsUpdate = true;
+  sprite.scale.set((canvas.width / ratio) * PIXEL_TO_SCALE, (canvas.height / ratio) * PIXEL_TO_SCALE, 1);
+}
+
+export function disposeLabelSprite(sprite: THREE.Sprite): void {
+  sprite.removeFromParent();
+  sprite.material.map?.dispose();
+  sprite.material.dispose();
+}
+
+export function createIconSprite(texture: THREE.Texture, sizePx = 28): THREE.Sprite {
+  const sprite = new THREE.Sprite(
+    new THREE.SpriteMaterial({
+      map: texture,
+      depthTest: false,
+      depthWrite: false,
+      transparent: true,
+      sizeAttenuation: false
+    })
+  );
+  // Pin images point at their bottom centre.
+  sprite.center.set(0.5, 0);
+  sprite.scale.set(sizePx * PIXEL_TO_SCALE, sizePx * PIXEL_TO_SCALE, 1);
+  sprite.renderOrder = 49;
+  return sprite;
+}
+
+export function loadIconTexture(url: string): THREE.Texture {
+  const texture = new THREE.TextureLoader().load(url);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+}
@@ -1,34 +1,104 @@
 ﻿import * as THREE from 'three';
-import type { GeoCoordinator } from '../../geo/coords';
+import type { GeoCoordinator, MapDatum, Vec3 } from '../../geo/coords';
+import type { CrsInput } from '../../geo/crs';
+import { TileScheduler, type TileLoadState } from '../TileScheduler';
+import type { PlanarClipMask } from './PlanarClipMask';
+import {
+  ImageryAdjustmentUniforms,
+  PlanarImageryMaterial,
+  type ImageryAdjustments,
+  type ResolvedImageryAdjustments
+} from './PlanarImageryMaterial';
+import type { PlanarElevationSampler } from './PlanarTerrainLayer';
+import {
+  clampRegionToMercator,
+  createXyzTileSource,
+  tileRegion,
+  type PlanarTileSource,
+  type TileRegion
+} from './PlanarTileSource';
+import {
+  assertWebMercatorTileCrs,
+  boundsIntersect,
+  childTileIds,
+  clampInt,
+  clampNumber,
+  footprintIntersectsBounds,
+  normalizeSubdomains,
+  nowMs,
+  refineGridSegments,
+  tileBoundsInWorld,
+  tileKey,
+  tileRectInWorld,
+  wrapInt,
+  type GroundFootprint,
+  type TileId,
+  type ViewportWorldBounds
+} from './PlanarTileMath';
+
+export type { GroundFootprint, ViewportWorldBounds } from './PlanarTileMath';
+
+// WGS84 degrees.
+export type ImageryBounds = {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+};
 
 export type PlanarMapTileLayerOptions = {
   enabled?: boolean;
   originLon?: number;
   originLat?: number;
+  // The layer is hidden where the view needs coarser tiles than minZoom; beyond maxZoom tiles are stretched.
   minZoom?: number;
   maxZoom?: number;
-  tileRadius?: number;
-  maxDynamicTileRadius?: number;
+  // Tiles outside these limits are never requested.
+  bounds?: ImageryBounds;
+  // Pixel size of the imagery tiles; one texel is the geometric error of a tile.
+  tileSize?: number;
+  // A tile is split into its children while its texels cover more screen pixels than this.
+  maximumScreenSpaceError?: number;
+  // Upper bound on selected tiles; the farthest ones are dropped first.
+  maxTiles?: number;
   opacity?: number;
+  // Blends the imagery's alpha channel, as overlays such as labels need. By default a layer blends while it
+  // is stacked over another one (render index above 0), so only the bottom layer paints the ground opaquely.
+  transparent?: boolean;
+  adjustments?: ImageryAdjustments;
   zOffset?: number;
+  // Tile pyramid and request URLs, e.g. a WMTS source; replaces urlTemplate, yType and subdomains.
+  source?: PlanarTileSource;
   urlTemplate?: string;
   yType?: 'xyz' | 'tms';
   subdomains?: readonly string[] | string;
+  crs?: CrsInput;
+  // Datum the tile imagery is georeferenced in; non-WGS84 tiles are shifted onto the WGS84 world frame.
+  datum?: MapDatum;
   maxAnisotropy?: number;
   maxConcurrentRequests?: number;
   maxCachedTiles?: number;
   retainFrames?: number;
   retryLimit?: number;
   updateThrottleMs?: number;
-  zoomThrottleMs?: number;
-  immediateTileShift?: number;
-  lodLevels?: readonly TileLodLevel[];
   debugOverlay?: boolean;
   enableProgressiveBlend?: boolean;
   fadeDurationMs?: number;
   maxParentSearchDepth?: number;
+  terrainSegments?: number;
+  /** @deprecated Ignored; tiles are selected by maximumScreenSpaceError over the camera's ground footprint. */
+  tileRadius?: number;
+  /** @deprecated Ignored; use maxTiles to bound the selection. */
+  maxDynamicTileRadius?: number;
+  /** @deprecated Ignored; updateThrottleMs covers zoom changes too. */
+  zoomThrottleMs?: number;
+  /** @deprecated Ignored; the selection follows the camera without a recentring threshold. */
+  immediateTileShift?: number;
+  /** @deprecated Ignored; zoom varies per tile with its screen-space error. */
+  lodLevels?: readonly TileLodLevel[];
 };
 
+/** @deprecated Only kept so PlanarMapTileLayerOptions.lodLevels still type-checks; the layer ignores it. */
 export type TileLodLevel = {
   zoom: number;
   maxTiles?: number;
@@ -38,43 +108,27 @@ export type TileLodLevel = {
   immediateTileShift?: number;
 };
 
-export type ViewportWorldBounds = {
-  minX: number;
-  minY: number;
-  maxX: number;
-  maxY: number;
-};
-
 export type PlanarMapTileDebugInfo = {
   enabled: boolean;
+  // Finest zoom among the selected tiles.
   zoom: number;
-  centerX: number;
-  centerY: number;
   tileCount: number;
-  tileRadius: number;
   queuedCount: number;
   loadingCount: number;
   readyCount: number;
   errorCount: number;
   requestedCount: number;
   renderedCount: number;
+  culledCount: number;
   renderedZoomStats: ReadonlyArray<{ zoom: number; count: number }>;
 };
 
-type TileId = {
-  x: number;
-  y: number;
-  z: number;
-};
-
-type TileState = 'idle' | 'queued' | 'loading' | 'ready' | 'error';
-
 type ActiveTile = {
   tileId: TileId;
-  mesh: THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial>;
+  mesh: THREE.Mesh<THREE.PlaneGeometry, PlanarImageryMaterial>;
   texture: THREE.Texture | null;
   key: string;
-  state: TileState;
+  state: TileLoadState;
   attempts: number;
   priority: number;
   lastWantedFrame: number;
@@ -82,6 +136,10 @@ type ActiveTile = {
   currentOpacity: number;
   targetOpacity: number;
   lastFadeUpdateMs: number;
+  drapeVersion: number;
+  // Keys of the coarser-or-equal neighbours the draped edges were stitched to.
+  drapeNeighbours: string;
+  drapeNeighboursVersion: number;
 };
 
 type DesiredTile = {
@@ -91,19 +149,20 @@ type DesiredTile = {
   tileRect?: { centerX: number; centerY: number; width: number; height: number };
 };
 
-type LayerViewState = {
-  zoom: number;
-  centerX: number;
-  centerY: number;
-  tileRadius: number;
-  stateKey: string;
-  viewportBounds: ViewportWorldBounds | null;
+type DrapeNeighbours = {
+  north: TileId | null;
+  east: TileId | null;
+  south: TileId | null;
+  west: TileId | null;
 };
 
 const DEFAULT_URL_TEMPLATE = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
-const DEFAULT_SUBDOMAINS = ['a', 'b', 'c'];
-const WEB_MERCATOR_HALF_WORLD = Math.PI * 6378137;
-const WEB_MERCATOR_WORLD_SIZE = WEB_MERCATOR_HALF_WORLD * 2;
+const FLAT_DRAPE_VERSION = -1;
+const STALE_DRAPE_VERSION = -2;
+const MAX_DRAPES_PER_FRAME = 8;
+const MAX_DRAPE_SEGMENTS = 128;
+const MIN_SSE_DISTANCE = 1e-3;
+const GEOGRAPHIC_TILE_SEGMENTS = 16;
 
 export function getZoomLevelByDistance(distanceMeters: number): number {
   const d = Math.max(0, Number(distanceMeters) || 0);
@@ -136,59 +195,59 @@ export class PlanarMapTileLayer {
   private readonly _root = new THREE.Group();
   private readonly _geo: GeoCoordinator;
   private readonly _originMercator: { x: number; y: number };
-  private readonly _minZoom: number;
-  private readonly _maxZoom: number;
-  private readonly _tileRadius: number;
-  private readonly _maxDynamicTileRadius: number;
-  private readonly _opacity: number;
+  private readonly _tileSize: number;
+  private readonly _maximumScreenSpaceError: number;
+  private readonly _maxTiles: number;
+  private readonly _transparent: boolean | null;
+  private readonly _adjustments = new ImageryAdjustmentUniforms();
   private readonly _zOffset: number;
-  private readonly _urlTemplate: string;
-  private readonly _yType: 'xyz' | 'tms';
-  private readonly _subdomains: readonly string[];
+  private readonly _source: PlanarTileSource;
+  private readonly _datum: MapDatum;
   private readonly _maxAnisotropy: number;
   private readonly _enabled: boolean;
-  private readonly _maxConcurrentRequests: number;
-  private readonly _maxCachedTiles: number;
   private readonly _retainFrames: number;
-  private readonly _retryLimit: number;
   private readonly _updateThrottleMs: number;
-  private readonly _zoomThrottleMs: number;
-  private readonly _immediateTileShift: number;
-  private readonly _lodLevels: readonly TileLodLevel[];
   private readonly _debugOverlay: boolean;
   private readonly _enableProgressiveBlend: boolean;
   private readonly _fadeDurationMs: number;
   private readonly _maxParentSearchDepth: number;
+  private readonly _terrainSegments: number;
   private readonly _debugRoot = new THREE.Group();
   private _viewportOverlay: THREE.LineLoop<THREE.BufferGeometry, THREE.LineBasicMaterial> | null = null;
   private _tileOverlay: THREE.LineSegments<THREE.BufferGeometry, THREE.LineBasicMaterial> | null = null;
   private readonly _textureLoader = new THREE.TextureLoader();
 
   private readonly _tiles = new Map<string, ActiveTile>();
-  private readonly _queuedKeys = new Set<string>();
-
+  private readonly _scheduler: TileScheduler<ActiveTile>;
+
+  private _minZoom: number;
+  private _maxZoom: number;
+  private _opacity: number;
+  private _bounds: ImageryBounds | null;
+  private _worldBounds: ViewportWorldBounds | null;
+  private _visible = true;
+  private _renderIndex = 0;
   private _frame = 0;
-  private _stateKey = '';
-  private _inflightCount = 0;
-  private _loadQueue: string[] = [];
+  private _viewKey = '';
   private _lastLayoutUpdateMs = 0;
-  private _pendingViewState: LayerViewState | null = null;
-  private _appliedViewState: LayerViewState | null = null;
   private _activeDesiredTiles: DesiredTile[] = [];
+  private _visibleKeys = new Set<string>();
+  private _visibleVersion = 0;
   private _requestedCount = 0;
+  private _culledCount = 0;
+  private _elevation: PlanarElevationSampler | null = null;
+  private _clipMask: PlanarClipMask | null = null;
   private _debugInfo: PlanarMapTileDebugInfo = {
     enabled: false,
     zoom: 0,
-    centerX: 0,
-    centerY: 0,
     tileCount: 0,
-    tileRadius: 0,
     queuedCount: 0,
     loadingCount: 0,
     readyCount: 0,
     errorCount: 0,
     requestedCount: 0,
     renderedCount: 0,
+    culledCount: 0,
     renderedZoomStats: []
   };
 
@@ -200,42 +259,56 @@ export class PlanarMapTileLayer {
     this._originMercator = this._geo.lonLatToWebMercator(originLon, originLat);
     this._minZoom = clampInt(options?.minZoom ?? 0, 0, 22);
     this._maxZoom = clampInt(options?.maxZoom ?? 18, 0, 22);
-    this._tileRadius = Math.max(0, Math.floor(options?.tileRadius ?? 2));
-    this._maxDynamicTileRadius = Math.max(this._tileRadius, Math.floor(options?.maxDynamicTileRadius ?? 10));
+    this._source =
+      options?.source ??
+      createXyzTileSource({
+        urlTemplate: options?.urlTemplate ?? DEFAULT_URL_TEMPLATE,
+        yType: options?.yType,
+        subdomains: normalizeSubdomains(options?.subdomains)
+      });
+    this._tileSize = Math.max(1, options?.tileSize ?? this._source.tileSize ?? 256);
+    this._maximumScreenSpaceError = Math.max(0.1, options?.maximumScreenSpaceError ?? 2);
+    this._maxTiles = Math.max(16, Math.floor(options?.maxTiles ?? 400));
     this._opacity = clampNumber(options?.opacity ?? 1, 0, 1);
+    this._transparent = options?.transparent ?? null;
+    if (options?.adjustments) this._adjustments.set(options.adjustments);
+    this._bounds = options?.bounds ? { ...options.bounds } : null;
+    this._worldBounds = this._bounds ? this.boundsToWorld(this._bounds) : null;
     this._zOffset = options?.zOffset ?? -0.35;
-    this._urlTemplate = options?.urlTemplate ?? DEFAULT_URL_TEMPLATE;
-    this._yType = options?.yType ?? 'xyz';
-    this._subdomains = normalizeSubdomains(options?.subdomains);
+    if (!options?.source) assertWebMercatorTileCrs(options?.crs, 'Map tile layer');
+    this._datum = options?.datum ?? 'WGS84';
     this._maxAnisotropy = Math.max(1, Math.floor(options?.maxAnisotropy ?? 1));
-    this._maxConcurrentRequests = Math.max(1, Math.floor(options?.maxConcurrentRequests ?? 8));
-    this._maxCachedTiles = Math.max(16, Math.floor(options?.maxCachedTiles ?? 600));
     this._retainFrames = Math.max(0, Math.floor(options?.retainFrames ?? 90));
-    this._retryLimit = Math.max(0, Math.floor(options?.retryLimit ?? 2));
-    this._updateThrottleMs = Math.max(16, Math.floor(options?.updateThrottleMs ?? 80));
-    this._zoomThrottleMs = Math.max(this._updateThrottleMs, Math.floor(options?.zoomThrottleMs ?? 140));
-    this._immediateTileShift = Math.max(1, Math.floor(options?.immediateTileShift ?? 2));
-    this._lodLevels = normalizeLodLevels(options?.lodLevels);
+    this._scheduler = new TileScheduler({
+      tiles: this._tiles,
+      maxConcurrentRequests: Math.max(1, Math.floor(options?.maxConcurrentRequests ?? 8)),
+      maxCachedTiles: Math.max(16, Math.floor(options?.maxCachedTiles ?? 600)),
+      retryLimit: Math.max(0, Math.floor(options?.retryLimit ?? 2)),
+      retainFrames: this._retainFrames,
+      compare: (a, b) => a.priority - b.priority,
+      load: (tile, isCurrent) => this.loadTile(tile, isCurrent),
+      dispose: (tile) => this.disposeTile(tile.key, tile)
+    });
+    this._updateThrottleMs = Math.max(0, Math.floor(options?.updateThrottleMs ?? 80));
     this._debugOverlay = options?.debugOverlay ?? true;
     this._enableProgressiveBlend = options?.enableProgressiveBlend ?? true;
     this._fadeDurationMs = Math.max(30, Math.floor(options?.fadeDurationMs ?? 180));
     this._maxParentSearchDepth = Math.max(1, Math.floor(options?.maxParentSearchDepth ?? 6));
+    this._terrainSegments = clampInt(options?.terrainSegments ?? 16, 1, MAX_DRAPE_SEGMENTS);
 
     this._textureLoader.setCrossOrigin('anonymous');
 
     this._debugInfo = {
       enabled: this._enabled,
       zoom: this._minZoom,
-      centerX: 0,
-      centerY: 0,
       tileCount: 0,
-      tileRadius: this._tileRadius,
       queuedCount: 0,
       loadingCount: 0,
       readyCount: 0,
       errorCount: 0,
       requestedCount: 0,
       renderedCount: 0,
+      culledCount: 0,
       renderedZoomStats: []
     };
 
@@ -254,113 +327,223 @@ export class PlanarMapTileLayer {
     };
   }
 
+  get datum(): MapDatum {
+    return this._datum;
+  }
+
+  get visible(): boolean {
+    return this._visible;
+  }
+
+  get opacity(): number {
+    return this._opacity;
+  }
+
+  get minZoom(): number {
+    return this._minZoom;
+  }
+
+  get maxZoom(): number {
+    return this._maxZoom;
+  }
+
+  get bounds(): ImageryBounds | null {
+    return this._bounds ? { ...this._bounds } : null;
+  }
+
+  get source(): PlanarTileSource {
+    return this._source;
+  }
+
+  get adjustments(): ResolvedImageryAdjustments {
+    return this._adjustments.values;
+  }
+
+  setVisible(visible: boolean): void {
+    if (this._visible === visible) return;
+    this._visible = visible;
+    this._root.visible = visible;
+    this._viewKey = '';
+  }
+
+  setOpacity(opacity: number): void {
+    this._opacity = clampNumber(opacity, 0, 1);
+    for (const tile of this._tiles.values()) {
+      tile.currentOpacity = Math.min(tile.currentOpacity, this._opacity);
+    }
+  }
+
+  setZoomRange(minZoom: number, maxZoom: number): void {
+    this._minZoom = clampInt(Math.min(minZoom, maxZoom), 0, 22);
+    this._maxZoom = clampInt(Math.max(minZoom, maxZoom), 0, 22);
+    this._viewKey = '';
+  }
+
+  // Applied through shared uniforms, so loaded tiles change on the next frame without reloading.
+  setAdjustments(adjustments: ImageryAdjustments): void {
+    this._adjustments.set(adjustments);
+  }
+
+  setBounds(bounds: ImageryBounds | null): void {
+    this._bounds = bounds ? { ...bounds } : null;
+    this._worldBounds = this._bounds ? this.boundsToWorld(this._bounds) : null;
+    this._viewKey = '';
+  }
+
+  // Position in a stack of layers; higher indices draw over lower ones whatever their zoom.
+  setRenderIndex(index: number): void {
+    if (this._renderIndex === index) return;
+    this._renderIndex = index;
+    for (const tile of this._tiles.values()) {
+      this.applyRenderIndex(tile);
+    }
+  }
+
   worldXYToLonLat(x: number, y: number): { lon: number; lat: number } {
     const mercatorX = this._originMercator.x + x * this._geo.metersPerUnit;
     const mercatorY = this._originMercator.y + y * this._geo.metersPerUnit;
     return this._geo.webMercatorToLonLat(mercatorX, mercatorY);
   }
 
-  update(
-    focusX: number,
-    focusY: number,
-    cameraHeight: number,
-    viewRadiusWorld?: number,
-    viewportBounds?: ViewportWorldBounds | null
-  ): void {
-    if (!this._enabled) return;
+  lonLatToWorldXY(lon: number, lat: number): { x: number; y: number } {
+    const mercator = this._geo.lonLatToWebMercator(lon, lat);
+    return {
+      x: (mercator.x - this._originMercator.x) / this._geo.metersPerUnit,
+      y: (mercator.y - this._originMercator.y) / this._geo.metersPerUnit
+    };
+  }
 
-    this._frame += 1;
+  // Selected tile under a planar point and the point's place in it, u east and v south across the tile, for
+  // per-tile queries such as WMS GetFeatureInfo.
+  tileAtWorldXY(x: number, y: number): { tileId: TileId; u: number; v: number } | null {
+    for (const desired of this._activeDesiredTiles) {
+      const rect = this.tileRect(desired.tileId);
+      const u = (x - rect.centerX) / rect.width + 0.5;
+      const v = 0.5 - (y - rect.centerY) / rect.height;
+      if (!(u >= 0 && u < 1 && v >= 0 && v < 1)) continue;
+      if (this._source.projection === 'mercator') return { tileId: desired.tileId, u, v };
+
+      // Geographic rows are linear in latitude rather than in planar y.
+      const region = tileRegion(this._source, desired.tileId);
+      const flat = this.regionRect(region);
+      const lat = this.worldXYToLonLat(flat.centerX, flat.centerY + y - rect.centerY).lat;
+      const latV = (region.north - lat) / (region.north - region.south);
+      return { tileId: desired.tileId, u, v: Math.min(1, Math.max(0, latV)) };
+    }
+    return null;
+  }
 
-    const focusMercator = {
-      x: this._originMercator.x + focusX * this._geo.metersPerUnit,
-      y: this._originMercator.y + focusY * this._geo.metersPerUnit
-    };
-    const focusLonLat = this._geo.webMercatorToLonLat(focusMercator.x, focusMercator.y);
-    const zoom = this.pickZoom(cameraHeight);
-    const centerTile = this._geo.lonLatToTile(focusLonLat.lon, focusLonLat.lat, zoom);
-    const effectiveRadius = this.resolveTileRadius(zoom, centerTile, viewRadiusWorld);
-    const safeViewport = sanitizeViewportBounds(viewportBounds ?? null);
-    const viewportKey = this.buildViewportStateKey(safeViewport, zoom);
-    const nextViewState: LayerViewState = {
-      zoom,
-      centerX: centerTile.x,
-      centerY: centerTile.y,
-      tileRadius: effectiveRadius,
-      stateKey: `${zoom}|${centerTile.x}|${centerTile.y}|${effectiveRadius}|${viewportKey}`,
-      viewportBounds: safeViewport
-    };
+  setElevationSampler(sampler: PlanarElevationSampler | null): void {
+    if (this._elevation === sampler) return;
+    this._elevation = sampler;
+    for (const tile of this._tiles.values()) {
+      tile.drapeVersion = STALE_DRAPE_VERSION;
+    }
+  }
 
-    const now = nowMs();
-    let applyState = nextViewState;
-    if (nextViewState.stateKey !== this._stateKey && !this.shouldApplyNow(nextViewState, now)) {
-      this._pendingViewState = nextViewState;
-      applyState = this._appliedViewState ?? nextViewState;
-    } else if (this._pendingViewState) {
-      applyState = this._pendingViewState;
-      this._pendingViewState = null;
+  setClipMask(mask: PlanarClipMask | null): void {
+    if (this._clipMask === mask) return;
+    for (const tile of this._tiles.values()) {
+      this._clipMask?.detach(tile.mesh.material);
+      mask?.attach(tile.mesh.material, tile.mesh.position.x, tile.mesh.position.y);
     }
+    this._clipMask = mask;
+  }
 
-    if (applyState.stateKey !== this._stateKey) {
-      this.applyViewState(applyState);
+  // Each tile is refined until its texels are small enough on screen at the tile's own distance, so a
+  // tilted view mixes fine tiles near the camera with coarse ones towards the horizon. `cameraWorld` and
+  // `footprint` are in the world frame of the tile bounds, not the render frame `camera` is placed in.
+  update(
+    camera: THREE.PerspectiveCamera,
+    cameraWorld: Vec3,
+    viewportHeight: number,
+    footprint: GroundFootprint | null
+  ): void {
+    if (!this._enabled || !this._visible) return;
+
+    this._frame += 1;
+    const now = nowMs();
+    // The world position is part of the key because moving the render origin shifts the footprint without
+    // changing the camera's matrix.
+    const cameraKey = `${cameraWorld.x},${cameraWorld.y},${cameraWorld.z}`;
+    const viewKey = footprint
+      ? `${cameraKey}|${camera.matrixWorld.elements.join(',')}|${camera.fov}|${viewportHeight}`
+      : 'none';
+    const throttled = this._viewKey !== '' && now - this._lastLayoutUpdateMs < this._updateThrottleMs;
+    if (viewKey !== this._viewKey && !throttled) {
+      this.applyDesiredTiles(this.selectTiles(camera, cameraWorld, viewportHeight, footprint), footprint);
+      this._viewKey = viewKey;
       this._lastLayoutUpdateMs = now;
-      this._appliedViewState = applyState;
     }
 
-    this.processLoadQueue();
+    this._scheduler.processQueue();
     this.updateProgressiveVisibility(now);
-    this.refreshDebugInfo(
-      this._appliedViewState?.zoom ?? zoom,
-      this._appliedViewState?.centerX ?? centerTile.x,
-      this._appliedViewState?.centerY ?? centerTile.y,
-      this._appliedViewState?.tileRadius ?? effectiveRadius
-    );
+    this.updateDrapes();
+    this.refreshDebugInfo();
   }
 
   dispose(): void {
-    this._loadQueue = [];
-    this._queuedKeys.clear();
+    this._scheduler.clear();
     for (const [key, tile] of this._tiles) {
       this.disposeTile(key, tile);
     }
     this._tiles.clear();
-    this._stateKey = '';
-    this._pendingViewState = null;
-    this._appliedViewState = null;
+    this._viewKey = '';
     this._activeDesiredTiles = [];
+    this._visibleKeys.clear();
     this._requestedCount = 0;
     this.clearDebugOverlays();
   }
 
-  private shouldApplyNow(next: LayerViewState, nowMsValue: number): boolean {
-    if (this._stateKey.length === 0 || this._appliedViewState === null) {
-      return true;
-    }
+  private selectTiles(
+    camera: THREE.PerspectiveCamera,
+    eye: Vec3,
+    viewportHeight: number,
+    footprint: GroundFootprint | null
+  ): DesiredTile[] {
+    this._culledCount = 0;
+    if (!footprint) return [];
+
+    const sseFactor = Math.max(1, viewportHeight) / (2 * Math.tan((camera.fov * Math.PI) / 360));
+    const source = this._source;
+    const maxZoom = Math.min(this._maxZoom, source.maxZoom);
+    const selected: DesiredTile[] = [];
+    const visit = (tileId: TileId) => {
+      const rect = this.tileRect(tileId);
+      const bounds = tileBoundsInWorld(rect);
+      const outside = this._worldBounds !== null && !boundsIntersect(this._worldBounds, bounds);
+      const missing = tileId.z >= source.minZoom && !source.hasTile(tileId);
+      if (outside || missing || rect.height <= 0 || !footprintIntersectsBounds(footprint, bounds)) {
+        this._culledCount += 1;
+        return;
+      }
 
-    const current = this._appliedViewState;
-    const elapsed = nowMsValue - this._lastLayoutUpdateMs;
-    const centerShift = Math.abs(next.centerX - current.centerX) + Math.abs(next.centerY - current.centerY);
-    const zoomShift = Math.abs(next.zoom - current.zoom);
-    const radiusShift = Math.abs(next.tileRadius - current.tileRadius);
-    const lod = this.getLodLevel(next.zoom);
-    const updateThrottleMs = Math.max(16, Math.floor(lod?.updateThrottleMs ?? this._updateThrottleMs));
-    const zoomThrottleMs = Math.max(updateThrottleMs, Math.floor(lod?.zoomThrottleMs ?? this._zoomThrottleMs));
-    const immediateTileShift = Math.max(1, Math.floor(lod?.immediateTileShift ?? this._immediateTileShift));
-
-    if (centerShift >= immediateTileShift) return true;
-    if (zoomShift >= 2) return true;
-    if (zoomShift >= 1 || radiusShift >= 1) {
-      return elapsed >= zoomThrottleMs;
+      const dx = Math.max(bounds.minX - eye.x, 0, eye.x - bounds.maxX);
+      const dy = Math.max(bounds.minY - eye.y, 0, eye.y - bounds.maxY);
+      const distance = Math.max(MIN_SSE_DISTANCE, Math.hypot(dx, dy, eye.z - this._zOffset));
+      const screenSpaceError = ((rect.width / this._tileSize) * sseFactor) / distance;
+      const refine = tileId.z < source.minZoom || screenSpaceError > this._maximumScreenSpaceError;
+      if (tileId.z < maxZoom && refine) {
+        for (const child of childTileIds(tileId)) visit(child);
+        return;
+      }
+      if (tileId.z < this._minZoom || tileId.z < source.minZoom) return;
+      selected.push({
+        tileId,
+        key: tileKey(tileId),
+        priority: distance,
+        tileRect: this._debugOverlay ? rect : undefined
+      });
+    };
+    for (let y = 0; y < source.rootRows; y += 1) {
+      for (let x = 0; x < source.rootColumns; x += 1) visit({ x, y, z: 0 });
     }
-    return elapsed >= updateThrottleMs;
+
+    selected.sort((a, b) => a.priority - b.priority);
+    return selected.length > this._maxTiles ? selected.slice(0, this._maxTiles) : selected;
   }
 
-  private applyViewState(state: LayerViewState): void {
-    const desiredTiles = this.collectDesiredTiles(
-      { x: state.centerX, y: state.centerY },
-      state.zoom,
-      state.tileRadius,
-      state.viewportBounds
-    );
+  private applyDesiredTiles(desiredTiles: DesiredTile[], footprint: GroundFootprint | null): void {
     this._requestedCount = desiredTiles.length;
     this._activeDesiredTiles = desiredTiles;
     const wantedKeys = new Set<string>();
@@ -376,12 +559,7 @@ export class PlanarMapTileLayer {
       tile.priority = desired.priority;
       tile.lastWantedFrame = this._frame;
       tile.lastTouchedFrame = this._frame;
-
-      if (tile.state === 'idle') {
-        this.enqueueTileLoad(tile.key);
-      } else if (tile.state === 'error' && tile.attempts <= this._retryLimit) {
-        this.enqueueTileLoad(tile.key);
-      }
+      this._scheduler.request(tile);
     }
 
     for (const tile of this._tiles.values()) {
@@ -392,30 +570,34 @@ export class PlanarMapTileLayer {
       }
     }
 
-    this._stateKey = state.stateKey;
-    this.updateDebugOverlays(state.viewportBounds, state.zoom, desiredTiles);
-    this.evictTiles(wantedKeys);
+    this.updateDebugOverlays(footprint, desiredTiles);
+    this._scheduler.evict(this._frame, (tile) => wantedKeys.has(tile.key));
   }
 
   private updateProgressiveVisibility(now: number): void {
-    const visibleKeys = new Set<string>();
+    const candidates = new Map<string, ActiveTile>();
     const touchedAncestorKeys = new Set<string>();
 
     for (const desired of this._activeDesiredTiles) {
       const current = this._tiles.get(desired.key);
       if (!current) continue;
 
-      if (current.state === 'ready') {
-        visibleKeys.add(current.key);
-        current.lastWantedFrame = this._frame;
-        continue;
+      const shown = current.state === 'ready' ? current : this.findReadyAncestor(desired.tileId, touchedAncestorKeys);
+      if (shown) {
+        candidates.set(shown.key, shown);
+        shown.lastWantedFrame = this._frame;
       }
+    }
 
-      const fallback = this.findReadyAncestor(desired.tileId, touchedAncestorKeys);
-      if (fallback) {
-        visibleKeys.add(fallback.key);
-        fallback.lastWantedFrame = this._frame;
-      }
+    // An ancestor standing in for a missing tile covers its whole area, so its ready descendants are hidden
+    // rather than drawn on top of it.
+    const visibleKeys = new Set<string>();
+    for (const tile of candidates.values()) {
+      if (!this.hasAncestorIn(tile.tileId, candidates)) visibleKeys.add(tile.key);
+    }
+    if (!sameKeys(visibleKeys, this._visibleKeys)) {
+      this._visibleKeys = visibleKeys;
+      this._visibleVersion += 1;
     }
 
     for (const tile of this._tiles.values()) {
@@ -426,13 +608,140 @@ export class PlanarMapTileLayer {
     }
   }
 
+  private updateDrapes(): void {
+    const targetVersion = this._elevation ? this._elevation.version : FLAT_DRAPE_VERSION;
+    let budget = MAX_DRAPES_PER_FRAME;
+
+    for (const tile of this._tiles.values()) {
+      if (budget <= 0) break;
+      if (!tile.mesh.visible) continue;
+      if (this._elevation && tile.drapeNeighboursVersion !== this._visibleVersion) {
+        tile.drapeNeighboursVersion = this._visibleVersion;
+        const neighbours = drapeNeighboursKey(this.drapeNeighbours(tile.tileId));
+        if (neighbours !== tile.drapeNeighbours) tile.drapeVersion = STALE_DRAPE_VERSION;
+      }
+      if (tile.drapeVersion === targetVersion) continue;
+      this.drapeTile(tile, targetVersion);
+      budget -= 1;
+    }
+  }
+
+  private drapeTile(tile: ActiveTile, version: number): void {
+    const rect = this.tileRect(tile.tileId);
+    const sampler = this._elevation;
+    const segments = this.drapeSegments(rect);
+    const geometry = this.tileGeometry(tile.tileId, rect.width, rect.height, segments);
+
+    if (sampler) {
+      const positions = geometry.getAttribute('position');
+      const heights = new Float32Array(positions.count);
+      for (let i = 0; i < positions.count; i += 1) {
+        heights[i] = sampler.sampleWorldZ(rect.centerX + positions.getX(i), rect.centerY + positions.getY(i)) ?? 0;
+      }
+
+      // Border vertices the neighbour does not have are moved onto its straight edges, whatever its zoom,
+      // so the two meshes meet without cracks.
+      const neighbours = this.drapeNeighbours(tile.tileId);
+      const side = segments + 1;
+      const stitch = (neighbour: TileId | null, alongX: boolean, indexAt: (k: number) => number) => {
+        if (!neighbour) return;
+        const neighbourRect = this.tileRect(neighbour);
+        const spacing = (alongX ? neighbourRect.width : neighbourRect.height) / this.drapeSegments(neighbourRect);
+        if (spacing <= ((alongX ? rect.width : rect.height) / segments) * (1 + 1e-9)) return;
+        const start = alongX
+          ? neighbourRect.centerX - neighbourRect.width * 0.5
+          : neighbourRect.centerY - neighbourRect.height * 0.5;
+        for (let k = 0; k <= segments; k += 1) {
+          const i = indexAt(k);
+          const x = rect.centerX + positions.getX(i);
+          const y = rect.centerY + positions.getY(i);
+          const cell = ((alongX ? x : y) - start) / spacing;
+          const index = Math.floor(cell + 1e-6);
+          const fraction = cell - index;
+          if (fraction < 1e-6) continue;
+          const a = start + index * spacing;
+          const ha = (alongX ? sampler.sampleWorldZ(a, y) : sampler.sampleWorldZ(x, a)) ?? 0;
+          const hb = (alongX ? sampler.sampleWorldZ(a + spacing, y) : sampler.sampleWorldZ(x, a + spacing)) ?? 0;
+          heights[i] = ha + (hb - ha) * fraction;
+        }
+      };
+      stitch(neighbours.north, true, (k) => k);
+      stitch(neighbours.south, true, (k) => segments * side + k);
+      stitch(neighbours.west, false, (k) => k * side);
+      stitch(neighbours.east, false, (k) => k * side + segments);
+
+      for (let i = 0; i < positions.count; i += 1) {
+        positions.setZ(i, heights[i] ?? 0);
+      }
+      positions.needsUpdate = true;
+      geometry.computeBoundingSphere();
+      tile.drapeNeighbours = drapeNeighboursKey(neighbours);
+    }
+
+    tile.mesh.geometry.dispose();
+    tile.mesh.geometry = geometry;
+    // Draped tiles must occlude each other across ridges; flat tiles rely on render order alone.
+    tile.mesh.material.depthWrite = sampler !== null;
+    tile.drapeVersion = version;
+  }
+
+  private drapeSegments(rect: { centerX: number; centerY: number; width: number; height: number }): number {
+    const sampler = this._elevation;
+    if (!sampler) return this.minTileSegments();
+    const segments = refineGridSegments(
+      this._terrainSegments,
+      rect.width,
+      sampler.detailSpacingIn(tileBoundsInWorld(rect)),
+      MAX_DRAPE_SEGMENTS
+    );
+    return Math.max(segments, this.minTileSegments());
+  }
+
+  private minTileSegments(): number {
+    return this._source.projection === 'geographic' ? GEOGRAPHIC_TILE_SEGMENTS : 1;
+  }
+
+  // The visible tile across each edge when it is as coarse as this tile or coarser; finer neighbours stitch
+  // themselves to this tile instead.
+  private drapeNeighbours(tileId: TileId): DrapeNeighbours {
+    const columns = this._source.rootColumns * 2 ** tileId.z;
+    const rows = this._source.rootRows * 2 ** tileId.z;
+    const find = (x: number, y: number): TileId | null => {
+      if (y < 0 || y >= rows) return null;
+      let id: TileId = { x: wrapInt(x, columns), y, z: tileId.z };
+      for (;;) {
+        if (this._visibleKeys.has(tileKey(id))) return id;
+        if (id.z <= 0) return null;
+        id = { x: Math.floor(id.x / 2), y: Math.floor(id.y / 2), z: id.z - 1 };
+      }
+    };
+    return {
+      north: find(tileId.x, tileId.y - 1),
+      east: find(tileId.x + 1, tileId.y),
+      south: find(tileId.x, tileId.y + 1),
+      west: find(tileId.x - 1, tileId.y)
+    };
+  }
+
+  private hasAncestorIn(tileId: TileId, tiles: ReadonlyMap<string, ActiveTile>): boolean {
+    let { x, y, z } = tileId;
+    while (z > 0) {
+      x = Math.floor(x / 2);
+      y = Math.floor(y / 2);
+      z -= 1;
+      if (tiles.has(`${z}/${x}/${y}`)) return true;
+    }
+    return false;
+  }
+
   private findReadyAncestor(tileId: TileId, touched: Set<string>): ActiveTile | null {
     let x = tileId.x;
     let y = tileId.y;
     let z = tileId.z;
     let bestReady: ActiveTile | null = null;
 
-    for (let i = 0; i < this._maxParentSearchDepth && z > this._minZoom; i += 1) {
+    const minZoom = Math.max(this._minZoom, this._source.minZoom);
+    for (let i = 0; i < this._maxParentSearchDepth && z > minZoom; i += 1) {
       x = Math.floor(x / 2);
       y = Math.floor(y / 2);
       z -= 1;
@@ -448,11 +757,7 @@ export class PlanarMapTileLayer {
         touched.add(key);
         parent.lastWantedFrame = this._frame;
         parent.lastTouchedFrame = this._frame;
-        if (parent.state === 'idle') {
-          this.enqueueTileLoad(parent.key);
-        } else if (parent.state === 'error' && parent.attempts <= this._retryLimit) {
-          this.enqueueTileLoad(parent.key);
-        }
+        this._scheduler.request(parent);
       }
 
       if (parent.state === 'ready') {
@@ -468,8 +773,8 @@ export class PlanarMapTileLayer {
     if (!this._enableProgressiveBlend) {
       const visible = tile.targetOpacity > 0.001;
       tile.currentOpacity = visible ? this._opacity : 0;
-      tile.mesh.material.opacity = 1;
-      tile.mesh.material.transparent = false;
+      tile.mesh.material.opacity = this._opacity;
+      tile.mesh.material.transparent = this.blends(this._opacity);
       tile.mesh.visible = visible;
       tile.lastFadeUpdateMs = now;
       return;
@@ -488,227 +793,29 @@ export class PlanarMapTileLayer {
 
     tile.currentOpacity = clampNumber(tile.currentOpacity, 0, this._opacity);
     tile.mesh.material.opacity = tile.currentOpacity;
-    tile.mesh.material.transparent = tile.currentOpacity < 0.999;
+    tile.mesh.material.transparent = this.blends(tile.currentOpacity);
     tile.mesh.visible = tile.currentOpacity > 0.001;
   }
 
-  private pickZoom(cameraHeight: number): number {
-    const byDistance = getZoomLevelByDistance(cameraHeight);
-    return clampInt(byDistance, this._minZoom, this._maxZoom);
-  }
-
-  private resolveTileRadius(zoom: number, centerTile: { x: number; y: number }, viewRadiusWorld?: number): number {
-    const n = 2 ** zoom;
-
-    if (n <= 8) {
-      return Math.max(this._tileRadius, Math.ceil(n / 2));
-    }
-
-    let radius = this._tileRadius;
-    if (viewRadiusWorld !== undefined && Number.isFinite(viewRadiusWorld) && viewRadiusWorld > 0) {
-      const sampleRect = tileRectInWorld(
-        this._geo,
-        { x: centerTile.x, y: centerTile.y, z: zoom },
-        this._originMercator.x,
-        this._originMercator.y
-      );
-      const tileSize = Math.max(1e-3, Math.min(sampleRect.width, sampleRect.height));
-      const needed = Math.ceil(viewRadiusWorld / tileSize) + 1;
-      radius = Math.max(radius, needed);
-    }
-
-    return clampInt(radius, this._tileRadius, this._maxDynamicTileRadius);
-  }
-
-  private collectDesiredTiles(
-    centerTile: { x: number; y: number },
-    zoom: number,
-    radius: number,
-    viewportBounds: ViewportWorldBounds | null
-  ): DesiredTile[] {
-    const lod = this.getLodLevel(zoom);
-    const marginTiles = Math.max(0, Math.floor(lod?.marginTiles ?? 1));
-    const maxTiles = Math.max(16, Math.floor(lod?.maxTiles ?? this.defaultMaxTilesByZoom(zoom)));
-
-    const byViewport = viewportBounds
-      ? this.collectDesiredTilesByViewport(centerTile, zoom, viewportBounds, marginTiles)
-      : [];
-    const list = byViewport.length > 0 ? byViewport : this.collectDesiredTilesByRadius(centerTile, zoom, radius);
-
-    list.sort((a, b) => a.priority - b.priority);
-    if (list.length > maxTiles) {
-      return list.slice(0, maxTiles);
-    }
-    return list;
-  }
-
-  private collectDesiredTilesByRadius(
-    centerTile: { x: number; y: number },
-    zoom: number,
-    radius: number
-  ): DesiredTile[] {
-    const list: DesiredTile[] = [];
-    const n = 2 ** zoom;
-
-    for (let dy = -radius; dy <= radius; dy += 1) {
-      for (let dx = -radius; dx <= radius; dx += 1) {
-        const tileY = centerTile.y + dy;
-        if (tileY < 0 || tileY >= n) continue;
-        const tileX = wrapInt(centerTile.x + dx, n);
-        const tileId: TileId = { x: tileX, y: tileY, z: zoom };
-        const priority = shortestTileDx(centerTile.x, tileX, n) ** 2 + dy * dy;
-        list.push({
-          tileId,
-          key: `${zoom}/${tileX}/${tileY}`,
-          priority,
-          tileRect: this._debugOverlay
-            ? tileRectInWorld(this._geo, tileId, this._originMercator.x, this._originMercator.y)
-            : undefined
-        });
-      }
-    }
-
-    return list;
-  }
-
-  private collectDesiredTilesByViewport(
-    centerTile: { x: number; y: number },
-    zoom: number,
-    viewportBounds: ViewportWorldBounds,
-    marginTiles: number
-  ): DesiredTile[] {
-    const mercMinX = this._originMercator.x + viewportBounds.minX * this._geo.metersPerUnit;
-    const mercMaxX = this._originMercator.x + viewportBounds.maxX * this._geo.metersPerUnit;
-    const mercMinY = this._originMercator.y + viewportBounds.minY * this._geo.metersPerUnit;
-    const mercMaxY = this._originMercator.y + viewportBounds.maxY * this._geo.metersPerUnit;
-
-    const tileRange = mercatorBoundsToTileRange(
-      Math.min(mercMinX, mercMaxX),
-      Math.min(mercMinY, mercMaxY),
-      Math.max(mercMinX, mercMaxX),
-      Math.max(mercMinY, mercMaxY),
-      zoom,
-      marginTiles
-    );
-    if (!tileRange) return [];
-
-    const list: DesiredTile[] = [];
-    const seen = new Set<string>();
-    const n = 2 ** zoom;
-
-    const width = tileRange.maxXRaw - tileRange.minXRaw + 1;
-    if (width >= n) {
-      for (let tileY = tileRange.minY; tileY <= tileRange.maxY; tileY += 1) {
-        for (let tileX = 0; tileX < n; tileX += 1) {
-          const key = `${zoom}/${tileX}/${tileY}`;
-          const dx = shortestTileDx(centerTile.x, tileX, n);
-          const dy = tileY - centerTile.y;
-          const tileId: TileId = { x: tileX, y: tileY, z: zoom };
-          list.push({
-            tileId,
-            key,
-            priority: dx * dx + dy * dy,
-            tileRect: this._debugOverlay
-              ? tileRectInWorld(this._geo, tileId, this._originMercator.x, this._originMercator.y)
-              : undefined
-          });
-        }
-      }
-      return list;
-    }
-
-    for (let rawY = tileRange.minY; rawY <= tileRange.maxY; rawY += 1) {
-      if (rawY < 0 || rawY >= n) continue;
-      for (let rawX = tileRange.minXRaw; rawX <= tileRange.maxXRaw; rawX += 1) {
-        const tileX = wrapInt(rawX, n);
-        const key = `${zoom}/${tileX}/${rawY}`;
-        if (seen.has(key)) continue;
-        seen.add(key);
-        const dx = shortestTileDx(centerTile.x, tileX, n);
-        const dy = rawY - centerTile.y;
-        const tileId: TileId = { x: tileX, y: rawY, z: zoom };
-        list.push({
-          tileId,
-          key,
-          priority: dx * dx + dy * dy,
-          tileRect: this._debugOverlay
-            ? tileRectInWorld(this._geo, tileId, this._originMercator.x, this._originMercator.y)
-            : undefined
-        });
-      }
-    }
-
-    return list;
-  }
-
-  private getLodLevel(zoom: number): TileLodLevel | undefined {
-    for (const level of this._lodLevels) {
-      if (level.zoom === zoom) return level;
-    }
-    return undefined;
-  }
-
-  private defaultMaxTilesByZoom(zoom: number): number {
-    if (zoom >= 18) return 64;
-    if (zoom >= 16) return 81;
-    if (zoom >= 14) return 100;
-    if (zoom >= 12) return 121;
-    if (zoom >= 10) return 144;
-    if (zoom >= 8) return 196;
-    if (zoom >= 6) return 256;
-    if (zoom >= 4) return 324;
-    return 400;
-  }
-
-  private buildViewportStateKey(viewportBounds: ViewportWorldBounds | null, zoom: number): string {
-    if (!viewportBounds) return 'none';
-    const mercMinX = this._originMercator.x + viewportBounds.minX * this._geo.metersPerUnit;
-    const mercMaxX = this._originMercator.x + viewportBounds.maxX * this._geo.metersPerUnit;
-    const mercMinY = this._originMercator.y + viewportBounds.minY * this._geo.metersPerUnit;
-    const mercMaxY = this._originMercator.y + viewportBounds.maxY * this._geo.metersPerUnit;
-    const range = mercatorBoundsToTileRange(
-      Math.min(mercMinX, mercMaxX),
-      Math.min(mercMinY, mercMaxY),
-      Math.max(mercMinX, mercMaxX),
-      Math.max(mercMinY, mercMaxY),
-      zoom,
-      0
-    );
-    if (!range) return 'none';
-    return `${range.minXRaw}:${range.maxXRaw}:${range.minY}:${range.maxY}`;
-  }
-
-  private updateDebugOverlays(
-    viewportBounds: ViewportWorldBounds | null,
-    zoom: number,
-    desiredTiles: readonly DesiredTile[]
-  ): void {
+  private updateDebugOverlays(footprint: GroundFootprint | null, desiredTiles: readonly DesiredTile[]): void {
     if (!this._debugOverlay) {
       this.clearDebugOverlays();
       return;
     }
 
     const z = this._zOffset + 0.8;
-    if (viewportBounds) {
-      const viewportPositions = new Float32Array([
-        viewportBounds.minX,
-        viewportBounds.minY,
-        z,
-        viewportBounds.maxX,
-        viewportBounds.minY,
-        z,
-        viewportBounds.maxX,
-        viewportBounds.maxY,
-        z,
-        viewportBounds.minX,
-        viewportBounds.maxY,
-        z
-      ]);
+    if (footprint) {
+      const footprintPositions = new Float32Array(footprint.polygon.length * 3);
+      footprint.polygon.forEach((point, i) => {
+        footprintPositions[i * 3] = point.x;
+        footprintPositions[i * 3 + 1] = point.y;
+        footprintPositions[i * 3 + 2] = z;
+      });
 
       this._viewportOverlay = upsertLineLoop(
         this._debugRoot,
         this._viewportOverlay,
-        viewportPositions,
+        footprintPositions,
         0xef4444,
         0.95,
         60
@@ -725,15 +832,21 @@ export class PlanarMapTileLayer {
     }
 
     const tileSegments = new Float32Array(desiredTiles.length * 8 * 3);
+    const tileColors = new Float32Array(desiredTiles.length * 8 * 3);
+    const color = new THREE.Color();
     let cursor = 0;
     for (const desired of desiredTiles) {
-      const rect =
-        desired.tileRect ??
-        tileRectInWorld(this._geo, desired.tileId, this._originMercator.x, this._originMercator.y);
+      const rect = desired.tileRect ?? this.tileRect(desired.tileId);
       const minX = rect.centerX - rect.width * 0.5;
       const maxX = rect.centerX + rect.width * 0.5;
       const minY = rect.centerY - rect.height * 0.5;
       const maxY = rect.centerY + rect.height * 0.5;
+      color.setHex(this.colorByZoom(desired.tileId.z));
+      for (let i = 0; i < 8; i += 1) {
+        tileColors[cursor + i * 3] = color.r;
+        tileColors[cursor + i * 3 + 1] = color.g;
+        tileColors[cursor + i * 3 + 2] = color.b;
+      }
 
       tileSegments[cursor++] = minX;
       tileSegments[cursor++] = minY;
@@ -764,12 +877,11 @@ export class PlanarMapTileLayer {
       tileSegments[cursor++] = z;
     }
 
-    const tileColor = this.colorByZoom(zoom);
     this._tileOverlay = upsertLineSegments(
       this._debugRoot,
       this._tileOverlay,
       tileSegments,
-      tileColor,
+      tileColors,
       0.55,
       59
     );
@@ -805,25 +917,65 @@ export class PlanarMapTileLayer {
     line.material.dispose();
   }
 
+  private tileRect(tileId: TileId): { centerX: number; centerY: number; width: number; height: number } {
+    const rect =
+      this._source.projection === 'mercator'
+        ? tileRectInWorld(this._geo, tileId, this._originMercator.x, this._originMercator.y)
+        : this.regionRect(tileRegion(this._source, tileId));
+    if (this._datum === 'WGS84' || rect.height <= 0) return rect;
+    // The datum offset varies slowly, so shifting each tile by the offset at its center is enough.
+    const tileLonLat = this.worldXYToLonLat(rect.centerX, rect.centerY);
+    const wgs = this._geo.convertDatum(tileLonLat.lon, tileLonLat.lat, this._datum, 'WGS84');
+    const center = this.lonLatToWorldXY(wgs.lon, wgs.lat);
+    return { ...rect, centerX: center.x, centerY: center.y };
+  }
+
+  // Geographic tiles are stretched onto Mercator rows; rows beyond the Mercator limit get an empty rect.
+  private regionRect(region: TileRegion): { centerX: number; centerY: number; width: number; height: number } {
+    const clamped = clampRegionToMercator(region);
+    if (!clamped) return { centerX: 0, centerY: 0, width: 0, height: 0 };
+    const southWest = this.lonLatToWorldXY(clamped.west, clamped.south);
+    const northEast = this.lonLatToWorldXY(clamped.east, clamped.north);
+    return {
+      centerX: (southWest.x + northEast.x) * 0.5,
+      centerY: (southWest.y + northEast.y) * 0.5,
+      width: northEast.x - southWest.x,
+      height: northEast.y - southWest.y
+    };
+  }
+
+  // Texture rows of geographic tiles are linear in latitude; the vertex rows carry that mapping across
+  // the Mercator stretch.
+  private tileGeometry(tileId: TileId, width: number, height: number, segments: number): THREE.PlaneGeometry {
+    const geometry = new THREE.PlaneGeometry(width, height, segments, segments);
+    if (this._source.projection === 'mercator') return geometry;
+
+    const region = tileRegion(this._source, tileId);
+    const rect = this.regionRect(region);
+    const uvs = geometry.getAttribute('uv');
+    const positions = geometry.getAttribute('position');
+    for (let i = 0; i < positions.count; i += 1) {
+      const { lat } = this.worldXYToLonLat(rect.centerX, rect.centerY + positions.getY(i));
+      uvs.setY(i, (lat - region.south) / (region.north - region.south));
+    }
+    uvs.needsUpdate = true;
+    return geometry;
+  }
+
   private createTileShell(tileId: TileId, key: string): ActiveTile {
-    const tileRect = tileRectInWorld(this._geo, tileId, this._originMercator.x, this._originMercator.y);
-    const geometry = new THREE.PlaneGeometry(tileRect.width, tileRect.height, 1, 1);
-    const material = new THREE.MeshBasicMaterial({
-      color: 0xffffff,
-      transparent: true,
-      opacity: 0,
-      depthWrite: false,
-      depthTest: true
-    });
+    const tileRect = this.tileRect(tileId);
+    const geometry = this.tileGeometry(tileId, tileRect.width, tileRect.height, this.minTileSegments());
+    const material = new PlanarImageryMaterial(this._adjustments);
+    material.opacity = 0;
     const mesh = new THREE.Mesh(geometry, material);
-    mesh.position.set(tileRect.centerX, tileRect.centerY, this._zOffset + tileId.z * 0.001);
-    mesh.renderOrder = 2 + tileId.z;
+    mesh.position.set(tileRect.centerX, tileRect.centerY, 0);
     mesh.frustumCulled = false;
     mesh.visible = false;
+    this._clipMask?.attach(material, tileRect.centerX, tileRect.centerY);
 
     this._root.add(mesh);
 
-    return {
+    const tile: ActiveTile = {
       tileId,
       mesh,
       texture: null,
@@ -835,140 +987,64 @@ export class PlanarMapTileLayer {
       lastTouchedFrame: this._frame,
       currentOpacity: 0,
       targetOpacity: 0,
-      lastFadeUpdateMs: nowMs()
+      lastFadeUpdateMs: nowMs(),
+      drapeVersion: FLAT_DRAPE_VERSION,
+      drapeNeighbours: '',
+      drapeNeighboursVersion: -1
     };
+    this.applyRenderIndex(tile);
+    return tile;
   }
 
-  private enqueueTileLoad(key: string): void {
-    const tile = this._tiles.get(key);
-    if (!tile) return;
-    if (tile.state === 'loading' || tile.state === 'queued' || tile.state === 'ready') return;
-
-    tile.state = 'queued';
-    if (!this._queuedKeys.has(key)) {
-      this._queuedKeys.add(key);
-      this._loadQueue.push(key);
-    }
+  // Flat tiles do not write depth and stack by render order alone; draped overlays also need a depth
+  // offset to win over the identical surface of the layers below.
+  private applyRenderIndex(tile: ActiveTile): void {
+    const { z } = tile.tileId;
+    tile.mesh.position.z = this._zOffset + this._renderIndex * 0.05 + z * 0.001;
+    tile.mesh.renderOrder = 2 + this._renderIndex + z / 32;
+    tile.mesh.material.polygonOffset = this._renderIndex > 0;
+    tile.mesh.material.polygonOffsetFactor = -this._renderIndex;
+    tile.mesh.material.polygonOffsetUnits = -4 * this._renderIndex;
+    tile.mesh.material.transparent = this.blends(tile.mesh.material.opacity);
   }
 
-  private processLoadQueue(): void {
-    while (this._inflightCount < this._maxConcurrentRequests && this._loadQueue.length > 0) {
-      const nextIndex = this.pickBestQueueIndex();
-      const key = this._loadQueue.splice(nextIndex, 1)[0];
-      if (!key) break;
-      this._queuedKeys.delete(key);
-
-      const tile = this._tiles.get(key);
-      if (!tile || tile.state !== 'queued') continue;
-      this.startTileLoad(tile);
-    }
-  }
-
-  private pickBestQueueIndex(): number {
-    let bestIndex = 0;
-    let bestPriority = Number.POSITIVE_INFINITY;
-
-    for (let i = 0; i < this._loadQueue.length; i += 1) {
-      const key = this._loadQueue[i];
-      if (!key) continue;
-      const tile = this._tiles.get(key);
-      if (!tile) continue;
-      if (tile.priority < bestPriority) {
-        bestPriority = tile.priority;
-        bestIndex = i;
-      }
-    }
-
-    return bestIndex;
+  private blends(opacity: number): boolean {
+    const transparent = this._transparent ?? this._renderIndex > 0;
+    return transparent || this._adjustments.keysAlpha || opacity < 0.999;
   }
 
-  private startTileLoad(tile: ActiveTile): void {
-    tile.state = 'loading';
-    tile.attempts += 1;
-    const attempt = tile.attempts;
-    this._inflightCount += 1;
-
-    const url = this.buildUrl(tile.tileId);
-    this._textureLoader.load(
-      url,
-      (texture) => {
-        this._inflightCount = Math.max(0, this._inflightCount - 1);
-
-        const current = this._tiles.get(tile.key);
-        if (!current || current.attempts !== attempt) {
-          texture.dispose();
-          this.processLoadQueue();
-          return;
-        }
-
-        texture.generateMipmaps = true;
-        texture.minFilter = THREE.LinearMipmapLinearFilter;
-        texture.magFilter = THREE.LinearFilter;
-        texture.anisotropy = this._maxAnisotropy;
-        texture.colorSpace = THREE.SRGBColorSpace;
-
-        current.texture?.dispose();
-        current.texture = texture;
-        current.mesh.material.map = texture;
-        current.mesh.material.color.setHex(0xffffff);
-        current.mesh.material.needsUpdate = true;
-        current.state = 'ready';
-
-        this.processLoadQueue();
-      },
-      undefined,
-      () => {
-        this._inflightCount = Math.max(0, this._inflightCount - 1);
-
-        const current = this._tiles.get(tile.key);
-        if (!current || current.attempts !== attempt) {
-          this.processLoadQueue();
-          return;
-        }
-
-        current.state = 'error';
-        if (current.attempts <= this._retryLimit) {
-          current.state = 'idle';
-          this.enqueueTileLoad(current.key);
-        }
-
-        this.processLoadQueue();
-      }
-    );
+  private boundsToWorld(bounds: ImageryBounds): ViewportWorldBounds {
+    const southWest = this.lonLatToWorldXY(bounds.west, bounds.south);
+    const northEast = this.lonLatToWorldXY(bounds.east, bounds.north);
+    return {
+      minX: Math.min(southWest.x, northEast.x),
+      minY: Math.min(southWest.y, northEast.y),
+      maxX: Math.max(southWest.x, northEast.x),
+      maxY: Math.max(southWest.y, northEast.y)
+    };
   }
 
-  private evictTiles(wantedKeys: Set<string>): void {
-    const staleKeys: string[] = [];
-
-    for (const [key, tile] of this._tiles) {
-      const age = this._frame - tile.lastWantedFrame;
-      if (wantedKeys.has(key)) continue;
-      if (tile.state === 'loading') continue;
-      if (age > this._retainFrames) {
-        staleKeys.push(key);
+  private loadTile(tile: ActiveTile, isCurrent: () => boolean): Promise<void> {
+    return this._textureLoader.loadAsync(this._source.tileUrl(tile.tileId)).then((texture) => {
+      if (!isCurrent()) {
+        texture.dispose();
+        return;
       }
-    }
-
-    for (const key of staleKeys) {
-      const tile = this._tiles.get(key);
-      if (!tile) continue;
-      this.disposeTile(key, tile);
-    }
 
-    if (this._tiles.size <= this._maxCachedTiles) return;
+      texture.generateMipmaps = true;
+      texture.minFilter = THREE.LinearMipmapLinearFilter;
+      texture.magFilter = THREE.LinearFilter;
+      texture.anisotropy = this._maxAnisotropy;
+      texture.colorSpace = THREE.SRGBColorSpace;
 
-    const evictCandidates = [...this._tiles.values()]
-      .filter((tile) => !wantedKeys.has(tile.key) && tile.state !== 'loading')
-      .sort((a, b) => a.lastTouchedFrame - b.lastTouchedFrame || b.priority - a.priority);
-
-    for (const tile of evictCandidates) {
-      if (this._tiles.size <= this._maxCachedTiles) break;
-      this.disposeTile(tile.key, tile);
-    }
+      tile.texture?.dispose();
+      tile.texture = texture;
+      tile.mesh.material.map = texture;
+    });
   }
 
   private disposeTile(key: string, tile: ActiveTile): void {
-    this._queuedKeys.delete(key);
+    this._clipMask?.detach(tile.mesh.material);
     this._root.remove(tile.mesh);
     tile.mesh.geometry.dispose();
     tile.mesh.material.dispose();
@@ -976,7 +1052,7 @@ export class PlanarMapTileLayer {
     this._tiles.delete(key);
   }
 
-  private refreshDebugInfo(zoom: number, centerX: number, centerY: number, tileRadius: number): void {
+  private refreshDebugInfo(): void {
     let loadingCount = 0;
     let readyCount = 0;
     let errorCount = 0;
@@ -997,158 +1073,39 @@ export class PlanarMapTileLayer {
       .sort((a, b) => b[0] - a[0])
       .map(([zoomLevel, count]) => ({ zoom: zoomLevel, count }));
 
+    let zoom = this._minZoom;
+    for (const desired of this._activeDesiredTiles) {
+      zoom = Math.max(zoom, desired.tileId.z);
+    }
+
     this._debugInfo = {
       enabled: this._enabled,
       zoom,
-      centerX,
-      centerY,
       tileCount: this._tiles.size,
-      tileRadius,
-      queuedCount: this._loadQueue.length,
+      queuedCount: this._scheduler.queuedCount,
       loadingCount,
       readyCount,
       errorCount,
       requestedCount: this._requestedCount,
       renderedCount,
+      culledCount: this._culledCount,
       renderedZoomStats: renderedZoomStatsList
     };
   }
-
-  private buildUrl(tileId: TileId): string {
-    const n = 2 ** tileId.z;
-    const y = this._yType === 'tms' ? n - 1 - tileId.y : tileId.y;
-    const subdomain = this.pickSubdomain(tileId);
-    return this._urlTemplate
-      .replace('{z}', String(tileId.z))
-      .replace('{x}', String(tileId.x))
-      .replace('{y}', String(y))
-      .replace('{s}', subdomain);
-  }
-
-  private pickSubdomain(tileId: TileId): string {
-    if (this._subdomains.length === 0) {
-      return '';
-    }
-    const idx = Math.abs(tileId.x + tileId.y + tileId.z) % this._subdomains.length;
-    return this._subdomains[idx] ?? '';
-  }
-}
-
-function tileRectInWorld(
-  geo: GeoCoordinator,
-  tileId: TileId,
-  originMercatorX: number,
-  originMercatorY: number
-): { centerX: number; centerY: number; width: number; height: number } {
-  const nw = geo.tileToLonLat(tileId.x, tileId.y, tileId.z);
-  const se = geo.tileToLonLat(tileId.x + 1, tileId.y + 1, tileId.z);
-
-  const minMercator = geo.lonLatToWebMercator(nw.lon, se.lat);
-  const maxMercator = geo.lonLatToWebMercator(se.lon, nw.lat);
-
-  const widthMeters = Math.abs(maxMercator.x - minMercator.x);
-  const heightMeters = Math.abs(maxMercator.y - minMercator.y);
-  const centerMercatorX = (minMercator.x + maxMercator.x) * 0.5;
-  const centerMercatorY = (minMercator.y + maxMercator.y) * 0.5;
-
-  return {
-    centerX: (centerMercatorX - originMercatorX) / geo.metersPerUnit,
-    centerY: (centerMercatorY - originMercatorY) / geo.metersPerUnit,
-    width: widthMeters / geo.metersPerUnit,
-    height: heightMeters / geo.metersPerUnit
-  };
-}
-
-function tileKey(tileId: TileId): string {
-  return `${tileId.z}/${tileId.x}/${tileId.y}`;
-}
-
-function wrapInt(value: number, range: number): number {
-  return ((value % range) + range) % range;
-}
-
-function clampInt(value: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, Math.round(value)));
-}
-
-function clampNumber(value: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, value));
-}
-
-function shortestTileDx(centerX: number, tileX: number, n: number): number {
-  const raw = Math.abs(tileX - centerX);
-  return Math.min(raw, n - raw);
 }
 
-function sanitizeViewportBounds(bounds: ViewportWorldBounds | null): ViewportWorldBounds | null {
-  if (!bounds) return null;
-  if (
-    !Number.isFinite(bounds.minX) ||
-    !Number.isFinite(bounds.minY) ||
-    !Number.isFinite(bounds.maxX) ||
-    !Number.isFinite(bounds.maxY)
-  ) {
-    return null;
-  }
-  if (bounds.maxX <= bounds.minX || bounds.maxY <= bounds.minY) {
-    return null;
+function sameKeys(a: ReadonlySet<string>, b: ReadonlySet<string>): boolean {
+  if (a.size !== b.size) return false;
+  for (const key of a) {
+    if (!b.has(key)) return false;
   }
-  return bounds;
-}
-
-function normalizeLodLevels(levels: readonly TileLodLevel[] | undefined): readonly TileLodLevel[] {
-  if (!levels || levels.length === 0) return [];
-  const out = levels
-    .filter((level) => Number.isInteger(level.zoom) && level.zoom >= 0 && level.zoom <= 22)
-    .map((level) => ({
-      zoom: Math.floor(level.zoom),
-      maxTiles: level.maxTiles,
-      marginTiles: level.marginTiles,
-      updateThrottleMs: level.updateThrottleMs,
-      zoomThrottleMs: level.zoomThrottleMs,
-      immediateTileShift: level.immediateTileShift
-    }));
-  out.sort((a, b) => b.zoom - a.zoom);
-  return out;
+  return true;
 }
 
-function mercatorBoundsToTileRange(
-  minMercatorX: number,
-  minMercatorY: number,
-  maxMercatorX: number,
-  maxMercatorY: number,
-  zoom: number,
-  marginTiles: number
-): { minXRaw: number; maxXRaw: number; minY: number; maxY: number } | null {
-  if (
-    !Number.isFinite(minMercatorX) ||
-    !Number.isFinite(minMercatorY) ||
-    !Number.isFinite(maxMercatorX) ||
-    !Number.isFinite(maxMercatorY)
-  ) {
-    return null;
-  }
-
-  const n = 2 ** zoom;
-  const tileSize = WEB_MERCATOR_WORLD_SIZE / n;
-  const clampedMinY = Math.max(-WEB_MERCATOR_HALF_WORLD, Math.min(WEB_MERCATOR_HALF_WORLD, minMercatorY));
-  const clampedMaxY = Math.max(-WEB_MERCATOR_HALF_WORLD, Math.min(WEB_MERCATOR_HALF_WORLD, maxMercatorY));
-
-  const minXRaw = Math.floor((minMercatorX + WEB_MERCATOR_HALF_WORLD) / tileSize) - marginTiles;
-  const maxXRaw = Math.floor((maxMercatorX + WEB_MERCATOR_HALF_WORLD) / tileSize) + marginTiles;
-  const minY = clampInt(
-    Math.floor((WEB_MERCATOR_HALF_WORLD - clampedMaxY) / tileSize) - marginTiles,
-    0,
-    n - 1
-  );
-  const maxY = clampInt(
-    Math.floor((WEB_MERCATOR_HALF_WORLD - clampedMinY) / tileSize) + marginTiles,
-    0,
-    n - 1
-  );
-
-  if (maxY < minY) return null;
-  return { minXRaw, maxXRaw, minY, maxY };
+function drapeNeighboursKey(neighbours: DrapeNeighbours): string {
+  return [neighbours.north, neighbours.east, neighbours.south, neighbours.west]
+    .map((tileId) => (tileId ? tileKey(tileId) : '-'))
+    .join('|');
 }
 
 function upsertLineLoop(
@@ -1192,15 +1149,17 @@ function upsertLineSegments(
   root: THREE.Group,
   existing: THREE.LineSegments<THREE.BufferGeometry, THREE.LineBasicMaterial> | null,
   positions: Float32Array,
-  color: number,
+  colors: Float32Array,
   opacity: number,
   renderOrder: number
 ): THREE.LineSegments<THREE.BufferGeometry, THREE.LineBasicMaterial> {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+
   if (!existing) {
-    const geometry = new THREE.BufferGeometry();
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
     const material = new THREE.LineBasicMaterial({
-      color,
+      vertexColors: true,
       transparent: opacity < 0.999,
       opacity,
       depthWrite: false,
@@ -1214,57 +1173,10 @@ function upsertLineSegments(
   }
 
   existing.geometry.dispose();
-  const geometry = new THREE.BufferGeometry();
-  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
   existing.geometry = geometry;
-  existing.material.color.setHex(color);
   existing.material.opacity = opacity;
   existing.material.transparent = opacity < 0.999;
   existing.renderOrder = renderOrder;
   existing.visible = true;
   return existing;
 }
-
-function nowMs(): number {
-  if (typeof performance !== 'undefined' && typeof performance.now === 'function') {
-    return performance.now();
-  }
-  return Date.now();
-}
-
-function normalizeSubdomains(input: readonly string[] | string | undefined): readonly string[] {
-  if (Array.isArray(input)) {
-    const out = input.map((x) => String(x).trim()).filter((x) => x.length > 0);
-    return out.length > 0 ? out : DEFAULT_SUBDOMAINS;
-  }
-
-  if (typeof input === 'string') {
-    const trimmed = input.trim();
-    if (trimmed.length === 0) {
-      return DEFAULT_SUBDOMAINS;
-    }
-    const rangeMatch = /^(\d+)\s*-\s*(\d+)$/.exec(trimmed);
-    if (rangeMatch) {
-      const start = Number(rangeMatch[1]);
-      const end = Number(rangeMatch[2]);
-      if (Number.isInteger(start) && Number.isInteger(end) && end >= start) {
-        const out: string[] = [];
-        for (let i = start; i <= end; i += 1) out.push(String(i));
-        return out.length > 0 ? out : DEFAULT_SUBDOMAINS;
-      }
-    }
-    const split = trimmed
-      .split(',')
-      .map((x) => x.trim())
-      .filter((x) => x.length > 0);
-    if (split.length > 0) {
-      return split;
-    }
-    if (trimmed.length > 1) {
-      return trimmed.split('');
-    }
-    return [trimmed];
-  }
-
-  return DEFAULT_SUBDOMAINS;
-}
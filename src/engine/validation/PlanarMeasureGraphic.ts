@@ -0,0 +1,134 @@
+import * as THREE from 'three';
+import type { Vec3 } from '../../geo/coords';
+import { createIconSprite, createLabelSprite, disposeLabelSprite } from './PlanarLabel';
+
+export type MeasureLabel = { position: Vec3; lines: readonly string[] };
+
+export type MeasureGraphicSpec = {
+  points: readonly Vec3[];
+  closed?: boolean;
+  fill?: boolean;
+  labels?: readonly MeasureLabel[];
+  endpoints?: boolean;
+};
+
+export type MeasureIcons = {
+  start: THREE.Texture;
+  end: THREE.Texture;
+};
+
+const LINE_COLOR = 0x38bdf8;
+const FILL_OPACITY = 0.25;
+
+// Line, text labels and start/end pins for one measurement. Positions are world coordinates.
+export class PlanarMeasureGraphic {
+  private readonly _root = new THREE.Group();
+  private readonly _line: THREE.Line<THREE.BufferGeometry, THREE.LineBasicMaterial>;
+  private readonly _fill: THREE.Mesh<THREE.BufferGeometry, THREE.MeshBasicMaterial>;
+  private readonly _startPin: THREE.Sprite;
+  private readonly _endPin: THREE.Sprite;
+  private _labels: THREE.Sprite[] = [];
+
+  constructor(icons: MeasureIcons, color = LINE_COLOR) {
+    this._line = new THREE.Line(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true })
+    );
+    this._line.renderOrder = 40;
+    this._fill = new THREE.Mesh(
+      new THREE.BufferGeometry(),
+      new THREE.MeshBasicMaterial({
+        color,
+        transparent: true,
+        opacity: FILL_OPACITY,
+        depthTest: false,
+        depthWrite: false,
+        side: THREE.DoubleSide
+      })
+    );
+    this._fill.renderOrder = 39;
+    this._fill.visible = false;
+    this._startPin = createIconSprite(icons.start);
+    this._endPin = createIconSprite(icons.end);
+    this._startPin.visible = false;
+    this._endPin.visible = false;
+    this._root.add(this._fill, this._line, this._startPin, this._endPin);
+  }
+
+  get object3d(): THREE.Object3D {
+    return this._root;
+  }
+
+  update(spec: MeasureGraphicSpec): void {
+    const anchor = spec.points[0] ?? { x: 0, y: 0, z: 0 };
+    // Positions are stored relative to the first vertex to keep float32 precision.
+    this._root.position.set(anchor.x, anchor.y, 0);
+
+    const path = spec.closed && spec.points.length > 2 ? [...spec.points, anchor] : spec.points;
+    const positions = new Float32Array(path.length * 3);
+    path.forEach((point, index) => {
+      positions.set([point.x - anchor.x, point.y - anchor.y, point.z], index * 3);
+    });
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.computeBoundingSphere();
+    this._line.geometry.dispose();
+    this._line.geometry = geometry;
+
+    this._fill.geometry.dispose();
+    this._fill.geometry = spec.fill ? createFillGeometry(spec.points, anchor) : new THREE.BufferGeometry();
+    this._fill.visible = spec.fill === true && spec.points.length > 2;
+
+    const first = spec.points[0];
+    const last = spec.points[spec.points.length - 1];
+    this.placePin(this._startPin, spec.endpoints ? first : undefined, anchor);
+    this.placePin(this._endPin, spec.endpoints && spec.points.length > 1 ? last : undefined, anchor);
+
+    for (const label of this._labels) disposeLabelSprite(label);
+    this._labels = (spec.labels ?? []).map((label) => {
+      const sprite = createLabelSprite(label.lines);
+      sprite.position.set(label.position.x - anchor.x, label.position.y - anchor.y, label.position.z);
+      this._root.add(sprite);
+      return sprite;
+    });
+  }
+
+  dispose(): void {
+    this._root.removeFromParent();
+    this._line.geometry.dispose();
+    this._line.material.dispose();
+    this._fill.geometry.dispose();
+    this._fill.material.dispose();
+    this._startPin.material.dispose();
+    this._endPin.material.dispose();
+    for (const label of this._labels) disposeLabelSprite(label);
+    this._labels = [];
+  }
+
+  private placePin(pin: THREE.Sprite, point: Vec3 | undefined, anchor: Vec3): void {
+    pin.visible = point !== undefined;
+    if (point) pin.position.set(point.x - anchor.x, point.y - anchor.y, point.z);
+  }
+}
+
+function createFillGeometry(points: readonly Vec3[], anchor: Vec3): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  if (points.length < 3) return geometry;
+  const contour = points.map((point) => new THREE.Vector2(point.x - anchor.x, point.y - anchor.y));
+  const positions = new Float32Array(points.length * 3);
+  points.forEach((point, index) => {
+    positions.set([point.x - anchor.x, point.y - anchor.y, point.z], index * 3);
+  });
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setIndex(THREE.ShapeUtils.triangulateShape(contour, []).flat());
+  geometry.computeBoundingSphere();
+  return geometry;
+}
+
+export function formatLength(meters: number): string {
+  return meters < 1000 ? `${meters.toFixed(2)} m` : `${(meters / 1000).toFixed(3)} km`;
+}
+
+export function formatArea(squareMeters: number): string {
+  return squareMeters < 1_000_000 ? `${squareMeters.toFixed(2)} m²` : `${(squareMeters / 1_000_000).toFixed(4)} km²`;
+}
@@ -0,0 +1,185 @@
+import * as THREE from 'three';
+import type { ElevationPathSample } from './PlanarTerrainLayer';
+
+export type TerrainProfileOptions = {
+  path: ReadonlyArray<{ lon: number; lat: number }>;
+  spacingMeters?: number;
+  maxSamples?: number;
+  showLine?: boolean;
+};
+
+// Slope is the grade from the previous sample in degrees, positive uphill; the first point has 0.
+export type TerrainProfilePoint = {
+  distance: number;
+  lon: number;
+  lat: number;
+  height: number;
+  slopeDeg: number;
+};
+
+export type TerrainProfile = {
+  points: TerrainProfilePoint[];
+  length: number;
+  minHeight: number;
+  maxHeight: number;
+  meanHeight: number;
+  maxSlopeDeg: number;
+  totalAscent: number;
+  totalDescent: number;
+};
+
+type ProfileLineContext = {
+  lonLatToWorldXY: (lon: number, lat: number) => { x: number; y: number };
+  heightToWorldZ: (heightMeters: number) => number;
+};
+
+const LINE_COLOR = 0xfacc15;
+const MARKER_COLOR = 0xf97316;
+const LINE_LIFT_METERS = 0.5;
+
+export function buildTerrainProfile(
+  samples: ReadonlyArray<Pick<ElevationPathSample, 'distance' | 'lon' | 'lat' | 'height'>>
+): TerrainProfile {
+  const points: TerrainProfilePoint[] = [];
+  let minHeight = Number.POSITIVE_INFINITY;
+  let maxHeight = Number.NEGATIVE_INFINITY;
+  let maxSlopeDeg = 0;
+  let totalAscent = 0;
+  let totalDescent = 0;
+  let weightedSum = 0;
+
+  for (const sample of samples) {
+    const previous = points[points.length - 1];
+    let slopeDeg = 0;
+    if (previous) {
+      const run = sample.distance - previous.distance;
+      const rise = sample.height - previous.height;
+      slopeDeg = run > 0 ? (Math.atan2(rise, run) * 180) / Math.PI : 0;
+      if (rise > 0) totalAscent += rise;
+      else totalDescent -= rise;
+      // Trapezoid rule so uneven spacing (dropped no-data samples) does not skew the mean.
+      weightedSum += ((sample.height + previous.height) / 2) * run;
+    }
+    minHeight = Math.min(minHeight, sample.height);
+    maxHeight = Math.max(maxHeight, sample.height);
+    maxSlopeDeg = Math.max(maxSlopeDeg, Math.abs(slopeDeg));
+    points.push({ distance: sample.distance, lon: sample.lon, lat: sample.lat, height: sample.height, slopeDeg });
+  }
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (!first || !last) {
+    throw new Error('Profile has no elevation samples; the terrain may not cover the path.');
+  }
+  const length = last.distance - first.distance;
+
+  return {
+    points,
+    length,
+    minHeight,
+    maxHeight,
+    meanHeight: length > 0 ? weightedSum / length : first.height,
+    maxSlopeDeg,
+    totalAscent,
+    totalDescent
+  };
+}
+
+export function terrainProfileToCsv(profile: TerrainProfile): string {
+  const rows = ['distance_m,lon,lat,height_m,slope_deg'];
+  for (const point of profile.points) {
+    rows.push(
+      [
+        point.distance.toFixed(3),
+        point.lon.toFixed(8),
+        point.lat.toFixed(8),
+        point.height.toFixed(3),
+        point.slopeDeg.toFixed(3)
+      ].join(',')
+    );
+  }
+  return `${rows.join('\n')}\n`;
+}
+
+export function terrainProfileToJson(profile: TerrainProfile): string {
+  return JSON.stringify(profile, null, 2);
+}
+
+// The sampled profile line in the scene, with a marker the chart moves on hover.
+export class PlanarProfileLine {
+  private readonly _root = new THREE.Group();
+  private readonly _line: THREE.Line<THREE.BufferGeometry, THREE.LineBasicMaterial>;
+  private readonly _marker: THREE.Points<THREE.BufferGeometry, THREE.PointsMaterial>;
+  private readonly _positions: Float32Array;
+
+  constructor(profile: TerrainProfile, context: ProfileLineContext) {
+    const lift = context.heightToWorldZ(LINE_LIFT_METERS);
+    const world = profile.points.map((point) => ({
+      ...context.lonLatToWorldXY(point.lon, point.lat),
+      z: context.heightToWorldZ(point.height) + lift
+    }));
+
+    // Positions are stored relative to the first sample to keep float32 precision.
+    const anchor = world[0] ?? { x: 0, y: 0, z: 0 };
+    this._root.position.set(anchor.x, anchor.y, 0);
+    this._positions = new Float32Array(world.length * 3);
+    world.forEach((point, index) => {
+      this._positions.set([point.x - anchor.x, point.y - anchor.y, point.z], index * 3);
+    });
+
+    const lineGeometry = new THREE.BufferGeometry();
+    lineGeometry.setAttribute('position', new THREE.BufferAttribute(this._positions, 3));
+    lineGeometry.computeBoundingSphere();
+    this._line = new THREE.Line(
+      lineGeometry,
+      new THREE.LineBasicMaterial({ color: LINE_COLOR, depthTest: false, transparent: true })
+    );
+    this._line.renderOrder = 40;
+
+    const markerGeometry = new THREE.BufferGeometry();
+    markerGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(3), 3));
+    this._marker = new THREE.Points(
+      markerGeometry,
+      new THREE.PointsMaterial({
+        color: MARKER_COLOR,
+        size: 12,
+        sizeAttenuation: false,
+        depthTest: false,
+        transparent: true
+      })
+    );
+    this._marker.renderOrder = 41;
+    this._marker.visible = false;
+    this._marker.frustumCulled = false;
+
+    this._root.add(this._line, this._marker);
+  }
+
+  get object3d(): THREE.Object3D {
+    return this._root;
+  }
+
+  setMarker(index: number | null): void {
+    if (index === null || index < 0 || index * 3 >= this._positions.length) {
+      this._marker.visible = false;
+      return;
+    }
+    const position = this._marker.geometry.getAttribute('position');
+    position.setXYZ(
+      0,
+      this._positions[index * 3] ?? 0,
+      this._positions[index * 3 + 1] ?? 0,
+      this._positions[index * 3 + 2] ?? 0
+    );
+    position.needsUpdate = true;
+    this._marker.visible = true;
+  }
+
+  dispose(): void {
+    this._root.removeFromParent();
+    this._line.geometry.dispose();
+    this._line.material.dispose();
+    this._marker.geometry.dispose();
+    this._marker.material.dispose();
+  }
+}
@@ -0,0 +1,654 @@
+import * as THREE from 'three';
+import { IMG } from '../../assets/img/urls';
+import { measureGeodesicPolygon } from '../../geo/area';
+import type { GeoCoordinator, LonLatHeight, Vec3 } from '../../geo/coords';
+import { geodesicInverse, type GeodesicInverseResult } from '../../geo/geodesic';
+import { ellipsoidalToOrthometric, orthometricToEllipsoidal, type VerticalDatum } from '../../geo/geoid';
+import {
+  PlanarCutFillOverlay,
+  computeCutFill,
+  createDesignSampler,
+  type CutFillOptions,
+  type CutFillResult
+} from './PlanarCutFill';
+import { pointInRing } from './PlanarExcavation';
+import { PlanarDrawSession, type DrawVertex, type PlanarDrawOptions } from './PlanarDrawSession';
+import { loadIconTexture } from './PlanarLabel';
+import {
+  PlanarMeasureGraphic,
+  formatArea,
+  formatLength,
+  type MeasureGraphicSpec,
+  type MeasureIcons,
+  type MeasureLabel
+} from './PlanarMeasureGraphic';
+import {
+  PlanarProfileLine,
+  buildTerrainProfile,
+  type TerrainProfile,
+  type TerrainProfileOptions
+} from './PlanarProfile';
+import { PlanarSurveyPoints, type SurveyPoint } from './PlanarSurveyPoints';
+import type { PlanarTerrainLayer } from './PlanarTerrainLayer';
+
+export type SurveyPointInput = {
+  id?: string;
+  lon: number;
+  lat: number;
+  height?: number;
+};
+
+export type SurveyPointPickingOptions = {
+  onPick?: (point: SurveyPoint) => void;
+  onCancel?: () => void;
+};
+
+export type PathMeasureMode = 'distance' | 'path';
+
+// Segment lengths are WGS84 geodesic distances in meters; heights only place the graphics.
+export type PathMeasurement = {
+  id: string;
+  mode: PathMeasureMode;
+  points: LonLatHeight[];
+  segments: GeodesicInverseResult[];
+  totalLength: number;
+};
+
+// Area is on the WGS84 ellipsoid; surfaceArea follows the loaded terrain and is null without it.
+export type AreaMeasurement = {
+  id: string;
+  mode: 'area';
+  points: LonLatHeight[];
+  area: number;
+  perimeter: number;
+  surfaceArea: number | null;
+  centroid: { lon: number; lat: number };
+};
+
+export type SurveyMeasurement = PathMeasurement | AreaMeasurement;
+
+export type PathMeasureInput = {
+  id?: string;
+  mode?: PathMeasureMode;
+  path: ReadonlyArray<{ lon: number; lat: number; height?: number }>;
+};
+
+export type PathMeasureOptions = {
+  mode?: PathMeasureMode;
+  onChange?: (measurement: PathMeasurement | null) => void;
+  onFinish?: (measurement: PathMeasurement) => void;
+  onCancel?: () => void;
+  onError?: (error: Error) => void;
+};
+
+export type AreaMeasureInput = {
+  id?: string;
+  polygon: ReadonlyArray<{ lon: number; lat: number; height?: number }>;
+};
+
+export type AreaMeasureOptions = {
+  onChange?: (measurement: AreaMeasurement | null) => void;
+  onFinish?: (measurement: AreaMeasurement) => void;
+  onCancel?: () => void;
+  onError?: (error: Error) => void;
+};
+
+type SurveyContext = {
+  geo: GeoCoordinator;
+  domElement: HTMLElement;
+  pickSurface: (clientX: number, clientY: number) => Vec3 | null;
+  worldXYToLonLat: (x: number, y: number) => { lon: number; lat: number };
+  lonLatToWorldXY: (lon: number, lat: number) => { x: number; y: number };
+  terrain: PlanarTerrainLayer | null;
+  metersPerUnit: () => number;
+};
+
+const AREA_COLOR = 0x22c55e;
+const SURFACE_GRID_CELLS = 128;
+
+// Measurement and analysis graphics for the planar scene. The Survey tool panel drives it,
+// and every computation is also available programmatically through Engine.
+export class PlanarSurvey {
+  private readonly _context: SurveyContext;
+  private readonly _root = new THREE.Group();
+  private readonly _points = new PlanarSurveyPoints(IMG.point.point);
+  private readonly _measureIcons: MeasureIcons = {
+    start: loadIconTexture(IMG.point.start),
+    end: loadIconTexture(IMG.point.end)
+  };
+  private readonly _measurements = new Map<string, { measurement: SurveyMeasurement; graphic: PlanarMeasureGraphic }>();
+  private _drawSession: PlanarDrawSession | null = null;
+  private _cutFillOverlay: PlanarCutFillOverlay | null = null;
+  private _lastCutFill: CutFillResult | null = null;
+  private _profileLine: PlanarProfileLine | null = null;
+  private _lastProfile: TerrainProfile | null = null;
+  private _pointSequence = 0;
+  private _measurementSequence = 0;
+
+  constructor(context: SurveyContext) {
+    this._context = context;
+    this._root.add(this._points.object3d);
+  }
+
+  get object3d(): THREE.Object3D {
+    return this._root;
+  }
+
+  get terrainAvailable(): boolean {
+    return this._context.terrain !== null;
+  }
+
+  get drawing(): boolean {
+    return this._drawSession?.active ?? false;
+  }
+
+  get lastCutFill(): CutFillResult | null {
+    return this._lastCutFill;
+  }
+
+  get lastProfile(): TerrainProfile | null {
+    return this._lastProfile;
+  }
+
+  // Datum of every height the survey stores: the terrain's, or orthometric when there is none.
+  get heightDatum(): VerticalDatum {
+    return this._context.terrain?.verticalDatum ?? 'orthometric';
+  }
+
+  get convertsHeights(): boolean {
+    return this._context.geo.geoid !== null;
+  }
+
+  // Null when the GeoCoordinator has no geoid or the point is outside its coverage.
+  convertHeight(
+    lon: number,
+    lat: number,
+    height: number,
+    to: VerticalDatum,
+    from: VerticalDatum = this.heightDatum
+  ): number | null {
+    if (to === from) return height;
+    const undulation = this._context.geo.geoid?.undulation(lon, lat) ?? null;
+    if (undulation === null) return null;
+    return to === 'ellipsoidal'
+      ? orthometricToEllipsoidal(height, undulation)
+      : ellipsoidalToOrthometric(height, undulation);
+  }
+
+  // The same profile with heights, slopes and statistics in another datum, or null without a geoid.
+  profileInDatum(profile: TerrainProfile, to: VerticalDatum): TerrainProfile | null {
+    if (to === this.heightDatum) return profile;
+    const samples = [];
+    for (const point of profile.points) {
+      const height = this.convertHeight(point.lon, point.lat, point.height, to);
+      if (height === null) return null;
+      samples.push({ ...point, height });
+    }
+    return buildTerrainProfile(samples);
+  }
+
+  get points(): SurveyPoint[] {
+    return this._points.list();
+  }
+
+  get measurements(): SurveyMeasurement[] {
+    return [...this._measurements.values()].map((entry) => entry.measurement);
+  }
+
+  heightToWorldZ(heightMeters: number): number {
+    const terrain = this._context.terrain;
+    return terrain ? terrain.heightToWorldZ(heightMeters) : heightMeters / this._context.metersPerUnit();
+  }
+
+  pickVertex(clientX: number, clientY: number): DrawVertex | null {
+    const point = this._context.pickSurface(clientX, clientY);
+    if (!point) return null;
+    const lonLat = this._context.worldXYToLonLat(point.x, point.y);
+    const unitZ = this.heightToWorldZ(1);
+    return { ...point, lon: lonLat.lon, lat: lonLat.lat, height: unitZ > 0 ? point.z / unitZ : 0 };
+  }
+
+  startDrawing(options: PlanarDrawOptions): void {
+    this.cancelDrawing();
+    const session = new PlanarDrawSession(
+      {
+        domElement: this._context.domElement,
+        pick: (clientX, clientY) => this.pickVertex(clientX, clientY)
+      },
+      options
+    );
+    this._drawSession = session;
+    this._root.add(session.object3d);
+  }
+
+  cancelDrawing(): void {
+    this._drawSession?.cancel();
+    this._drawSession = null;
+  }
+
+  // Each click drops a point until Escape cancels picking.
+  startPointPicking(options?: SurveyPointPickingOptions): void {
+    this.startDrawing({
+      maxPoints: 1,
+      onFinish: (vertices) => {
+        const vertex = vertices[0];
+        if (vertex) {
+          const point = this.addPoint({ lon: vertex.lon, lat: vertex.lat, height: vertex.height });
+          options?.onPick?.(point);
+        }
+        this.startPointPicking(options);
+      },
+      onCancel: options?.onCancel
+    });
+  }
+
+  addPoint(input: SurveyPointInput): SurveyPoint {
+    if (!Number.isFinite(input.lon) || !Number.isFinite(input.lat)) {
+      throw new Error(`Invalid survey point: ${input.lon},${input.lat}`);
+    }
+    if (input.id !== undefined && this._points.has(input.id)) {
+      throw new Error(`Survey point "${input.id}" already exists.`);
+    }
+
+    const { geo, terrain } = this._context;
+    const xy = this._context.lonLatToWorldXY(input.lon, input.lat);
+    const height = input.height ?? terrain?.sampleGroundHeightAtWorldXY(xy.x, xy.y) ?? 0;
+    // ENU is relative to the ellipsoid; without a geoid the stored height is the best available.
+    const ellipsoidalHeight = this.convertHeight(input.lon, input.lat, height, 'ellipsoidal') ?? height;
+    let id = input.id;
+    while (id === undefined || this._points.has(id)) {
+      this._pointSequence += 1;
+      id = `point-${this._pointSequence}`;
+    }
+
+    const point: SurveyPoint = {
+      id,
+      lon: input.lon,
+      lat: input.lat,
+      height,
+      mercator: geo.lonLatToWebMercator(input.lon, input.lat),
+      enu: geo.enuOrigin ? geo.wgs84ToEnu(input.lat, input.lon, ellipsoidalHeight, geo.enuOrigin) : null,
+      world: { x: xy.x, y: xy.y, z: this.heightToWorldZ(height) }
+    };
+    this._points.add(point);
+    return point;
+  }
+
+  removePoint(id: string): boolean {
+    return this._points.remove(id);
+  }
+
+  clearPoints(): void {
+    this._points.clear();
+  }
+
+  // 'distance' finishes on the second click; 'path' runs until double-click or Enter.
+  startPathMeasure(options?: PathMeasureOptions): void {
+    const mode = options?.mode ?? 'path';
+    const preview = new PlanarMeasureGraphic(this._measureIcons);
+    this._root.add(preview.object3d);
+
+    this.startDrawing({
+      maxPoints: mode === 'distance' ? 2 : undefined,
+      onChange: (vertices, cursor) => {
+        const path = cursor ? [...vertices, cursor] : [...vertices];
+        let measurement: PathMeasurement | null = null;
+        try {
+          measurement = path.length > 1 ? this.buildPathMeasurement('preview', mode, path) : null;
+        } catch {
+          // The preview just drops its labels; a failure is reported when the path is finished.
+        }
+        preview.update(this.pathGraphicSpec(path, measurement));
+        options?.onChange?.(measurement);
+      },
+      onFinish: (vertices) => {
+        preview.dispose();
+        if (vertices.length < 2) {
+          options?.onCancel?.();
+          return;
+        }
+        try {
+          options?.onFinish?.(this.measurePath({ mode, path: vertices }));
+        } catch (error) {
+          if (!options?.onError) throw error;
+          options.onError(error instanceof Error ? error : new Error(String(error)));
+        }
+      },
+      onCancel: () => {
+        preview.dispose();
+        options?.onCancel?.();
+      }
+    });
+  }
+
+  measurePath(input: PathMeasureInput): PathMeasurement {
+    if (input.path.length < 2) {
+      throw new Error('Path measurement needs at least 2 vertices.');
+    }
+    const id = this.nextMeasurementId(input.id);
+    const path = input.path.map((point) => this.toDrawVertex(point));
+    const measurement = this.buildPathMeasurement(id, input.mode ?? 'path', path);
+    const graphic = new PlanarMeasureGraphic(this._measureIcons);
+    graphic.update(this.pathGraphicSpec(path, measurement));
+    this._root.add(graphic.object3d);
+    this._measurements.set(id, { measurement, graphic });
+    return measurement;
+  }
+
+  startAreaMeasure(options?: AreaMeasureOptions): void {
+    const preview = new PlanarMeasureGraphic(this._measureIcons, AREA_COLOR);
+    this._root.add(preview.object3d);
+
+    this.startDrawing({
+      closed: true,
+      onChange: (vertices, cursor) => {
+        const ring = cursor ? [...vertices, cursor] : [...vertices];
+        let measurement: AreaMeasurement | null = null;
+        try {
+          measurement = ring.length > 2 ? this.buildAreaMeasurement('preview', ring) : null;
+        } catch {
+          // A crossing rubber band is expected mid-draw; it is reported when the polygon is finished.
+        }
+        preview.update(this.areaGraphicSpec(ring, measurement));
+        options?.onChange?.(measurement);
+      },
+      onFinish: (vertices) => {
+        preview.dispose();
+        if (vertices.length < 3) {
+          options?.onCancel?.();
+          return;
+        }
+        try {
+          options?.onFinish?.(this.measureArea({ polygon: vertices }));
+        } catch (error) {
+          if (!options?.onError) throw error;
+          options.onError(error instanceof Error ? error : new Error(String(error)));
+        }
+      },
+      onCancel: () => {
+        preview.dispose();
+        options?.onCancel?.();
+      }
+    });
+  }
+
+  measureArea(input: AreaMeasureInput): AreaMeasurement {
+    if (input.polygon.length < 3) {
+      throw new Error('Area measurement needs at least 3 vertices.');
+    }
+    const ring = input.polygon.map((point) => this.toDrawVertex(point));
+    // Validate the polygon before an id is taken.
+    const measurement = { ...this.buildAreaMeasurement('', ring), id: this.nextMeasurementId(input.id) };
+    const graphic = new PlanarMeasureGraphic(this._measureIcons, AREA_COLOR);
+    graphic.update(this.areaGraphicSpec(ring, measurement));
+    this._root.add(graphic.object3d);
+    this._measurements.set(measurement.id, { measurement, graphic });
+    return measurement;
+  }
+
+  removeMeasurement(id: string): boolean {
+    const entry = this._measurements.get(id);
+    if (!entry) return false;
+    entry.graphic.dispose();
+    this._measurements.delete(id);
+    return true;
+  }
+
+  // Removes every measurement, or only those of one mode.
+  clearMeasurements(mode?: SurveyMeasurement['mode']): void {
+    for (const [id, entry] of [...this._measurements]) {
+      if (mode === undefined || entry.measurement.mode === mode) this.removeMeasurement(id);
+    }
+  }
+
+  async computeCutFill(options: CutFillOptions): Promise<CutFillResult> {
+    const terrain = this._context.terrain;
+    if (!terrain) {
+      throw new Error('Cut/fill analysis needs the terrain layer.');
+    }
+    if (options.polygon.length < 3) {
+      throw new Error('Cut/fill polygon needs at least 3 vertices.');
+    }
+
+    const ring = options.polygon.map((point) => {
+      if (!Number.isFinite(point.lon) || !Number.isFinite(point.lat)) {
+        throw new Error(`Invalid cut/fill vertex: ${point.lon},${point.lat}`);
+      }
+      return this._context.lonLatToWorldXY(point.lon, point.lat);
+    });
+    const sampleDesign = createDesignSampler(options.design, (dem) => terrain.createDemPatch('cut-fill-design', dem));
+
+    const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    for (const point of ring) {
+      bounds.minX = Math.min(bounds.minX, point.x);
+      bounds.minY = Math.min(bounds.minY, point.y);
+      bounds.maxX = Math.max(bounds.maxX, point.x);
+      bounds.maxY = Math.max(bounds.maxY, point.y);
+    }
+    await terrain.prefetchArea(bounds);
+
+    let centerLat = 0;
+    for (const point of options.polygon) centerLat += point.lat;
+    centerLat /= options.polygon.length;
+
+    const result = computeCutFill(
+      {
+        metersPerUnit: this._context.metersPerUnit(),
+        ring,
+        centerLat,
+        sampleGround: (x, y) => terrain.sampleGroundHeightAtWorldXY(x, y),
+        sampleDesign
+      },
+      options
+    );
+
+    this.clearCutFill();
+    this._lastCutFill = result;
+    if (options.showOverlay ?? true) {
+      this._cutFillOverlay = new PlanarCutFillOverlay(result.grid, (heightMeters) => this.heightToWorldZ(heightMeters));
+      this._cutFillOverlay.drape(terrain.enabled ? terrain : null);
+      this._root.add(this._cutFillOverlay.object3d);
+    }
+    return result;
+  }
+
+  clearCutFill(): void {
+    this._cutFillOverlay?.dispose();
+    this._cutFillOverlay = null;
+    this._lastCutFill = null;
+  }
+
+  async computeProfile(options: TerrainProfileOptions): Promise<TerrainProfile> {
+    const terrain = this._context.terrain;
+    if (!terrain) {
+      throw new Error('Profile analysis needs the terrain layer.');
+    }
+    if (options.path.length < 2) {
+      throw new Error('Profile path needs at least 2 vertices.');
+    }
+
+    const samples = await terrain.queryElevationAlong(options.path, {
+      spacingMeters: options.spacingMeters,
+      maxSamples: options.maxSamples
+    });
+    const profile = buildTerrainProfile(samples);
+
+    this.clearProfile();
+    this._lastProfile = profile;
+    if (options.showLine ?? true) {
+      this._profileLine = new PlanarProfileLine(profile, {
+        lonLatToWorldXY: this._context.lonLatToWorldXY,
+        heightToWorldZ: (heightMeters) => this.heightToWorldZ(heightMeters)
+      });
+      this._root.add(this._profileLine.object3d);
+    }
+    return profile;
+  }
+
+  // Index into lastProfile.points, or null to hide the marker.
+  setProfileMarker(index: number | null): void {
+    this._profileLine?.setMarker(index);
+  }
+
+  clearProfile(): void {
+    this._profileLine?.dispose();
+    this._profileLine = null;
+    this._lastProfile = null;
+  }
+
+  private toDrawVertex(point: { lon: number; lat: number; height?: number }): DrawVertex {
+    if (!Number.isFinite(point.lon) || !Number.isFinite(point.lat)) {
+      throw new Error(`Invalid measurement vertex: ${point.lon},${point.lat}`);
+    }
+    const xy = this._context.lonLatToWorldXY(point.lon, point.lat);
+    const height = point.height ?? this._context.terrain?.sampleGroundHeightAtWorldXY(xy.x, xy.y) ?? 0;
+    return { x: xy.x, y: xy.y, z: this.heightToWorldZ(height), lon: point.lon, lat: point.lat, height };
+  }
+
+  private nextMeasurementId(requested: string | undefined): string {
+    if (requested !== undefined && this._measurements.has(requested)) {
+      throw new Error(`Measurement "${requested}" already exists.`);
+    }
+    let id = requested;
+    while (id === undefined || this._measurements.has(id)) {
+      this._measurementSequence += 1;
+      id = `measure-${this._measurementSequence}`;
+    }
+    return id;
+  }
+
+  private buildAreaMeasurement(id: string, ring: readonly DrawVertex[]): AreaMeasurement {
+    const polygon = measureGeodesicPolygon(ring);
+    const ratio = this.surfaceAreaRatio(ring, polygon.centroid.lat);
+    return {
+      id,
+      mode: 'area',
+      points: ring.map((vertex) => ({ lon: vertex.lon, lat: vertex.lat, height: vertex.height })),
+      area: polygon.area,
+      perimeter: polygon.perimeter,
+      surfaceArea: ratio === null ? null : polygon.area * ratio,
+      centroid: polygon.centroid
+    };
+  }
+
+  // Ratio of draped to flat area over a grid of terrain samples inside the ring, or null without terrain.
+  private surfaceAreaRatio(ring: readonly DrawVertex[], centerLat: number): number | null {
+    const terrain = this._context.terrain;
+    if (!terrain?.enabled) return null;
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const point of ring) {
+      minX = Math.min(minX, point.x);
+      minY = Math.min(minY, point.y);
+      maxX = Math.max(maxX, point.x);
+      maxY = Math.max(maxY, point.y);
+    }
+    const step = Math.max(maxX - minX, maxY - minY) / SURFACE_GRID_CELLS;
+    if (!(step > 0)) return null;
+    const columns = Math.ceil((maxX - minX) / step);
+    const rows = Math.ceil((maxY - minY) / step);
+    const cellMeters = step * this._context.metersPerUnit() * Math.cos((centerLat * Math.PI) / 180);
+
+    const heights = new Float64Array((columns + 1) * (rows + 1));
+    for (let row = 0; row <= rows; row += 1) {
+      for (let column = 0; column <= columns; column += 1) {
+        const height = terrain.sampleGroundHeightAtWorldXY(minX + column * step, minY + row * step);
+        heights[row * (columns + 1) + column] = height ?? Number.NaN;
+      }
+    }
+
+    let flat = 0;
+    let draped = 0;
+    for (let row = 0; row < rows; row += 1) {
+      for (let column = 0; column < columns; column += 1) {
+        if (!pointInRing(ring, minX + (column + 0.5) * step, minY + (row + 0.5) * step)) continue;
+        const h00 = heights[row * (columns + 1) + column] ?? Number.NaN;
+        const h10 = heights[row * (columns + 1) + column + 1] ?? Number.NaN;
+        const h01 = heights[(row + 1) * (columns + 1) + column] ?? Number.NaN;
+        const h11 = heights[(row + 1) * (columns + 1) + column + 1] ?? Number.NaN;
+        if (Number.isNaN(h00) || Number.isNaN(h10) || Number.isNaN(h01) || Number.isNaN(h11)) continue;
+        flat += cellMeters * cellMeters;
+        draped += triangleArea(cellMeters, h10 - h00, h01 - h00) + triangleArea(cellMeters, h01 - h11, h10 - h11);
+      }
+    }
+    return flat > 0 ? draped / flat : null;
+  }
+
+  private areaGraphicSpec(ring: readonly DrawVertex[], measurement: AreaMeasurement | null): MeasureGraphicSpec {
+    const labels: MeasureLabel[] = [];
+    if (measurement) {
+      const center = this.toDrawVertex(measurement.centroid);
+      const lines = [formatArea(measurement.area), `Perimeter ${formatLength(measurement.perimeter)}`];
+      if (measurement.surfaceArea !== null) lines.push(`Surface ${formatArea(measurement.surfaceArea)}`);
+      labels.push({ position: center, lines });
+    }
+    return { points: ring, closed: true, fill: true, labels };
+  }
+
+  private buildPathMeasurement(id: string, mode: PathMeasureMode, path: readonly DrawVertex[]): PathMeasurement {
+    const segments: GeodesicInverseResult[] = [];
+    let totalLength = 0;
+    for (let i = 1; i < path.length; i += 1) {
+      const from = path[i - 1];
+      const to = path[i];
+      if (!from || !to) continue;
+      const segment = geodesicInverse(from, to);
+      segments.push(segment);
+      totalLength += segment.distance;
+    }
+    return {
+      id,
+      mode,
+      points: path.map((vertex) => ({ lon: vertex.lon, lat: vertex.lat, height: vertex.height })),
+      segments,
+      totalLength
+    };
+  }
+
+  private pathGraphicSpec(path: readonly DrawVertex[], measurement: PathMeasurement | null): MeasureGraphicSpec {
+    const labels: MeasureLabel[] = [];
+    let travelled = 0;
+    measurement?.segments.forEach((segment, index) => {
+      const from = path[index];
+      const to = path[index + 1];
+      if (!from || !to) return;
+      travelled += segment.distance;
+      const lines = [formatLength(segment.distance)];
+      if (measurement.mode === 'distance') lines.push(`Az ${segment.initialAzimuth.toFixed(2)}°`);
+      labels.push({
+        position: { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2, z: (from.z + to.z) / 2 },
+        lines
+      });
+      // Running totals at each path vertex; the last one doubles as the total.
+      if (measurement.mode === 'path' && measurement.segments.length > 1) {
+        const isLast = index === measurement.segments.length - 1;
+        labels.push({ position: to, lines: [`${isLast ? 'Total' : 'Σ'} ${formatLength(travelled)}`] });
+      }
+    });
+    return { points: path, labels, endpoints: true };
+  }
+
+  update(): void {
+    const terrain = this._context.terrain;
+    this._cutFillOverlay?.drape(terrain?.enabled ? terrain : null);
+  }
+
+  dispose(): void {
+    this.cancelDrawing();
+    this.clearCutFill();
+    this.clearProfile();
+    this._points.dispose();
+    this.clearMeasurements();
+    this._measureIcons.start.dispose();
+    this._measureIcons.end.dispose();
+    this._root.removeFromParent();
+  }
+}
+
+// Area of the right triangle spanning a square cell corner, with height rises a and b along its legs.
+function triangleArea(cellMeters: number, a: number, b: number): number {
+  return 0.5 * cellMeters * Math.sqrt(a * a + b * b + cellMeters * cellMeters);
+}
@@ -0,0 +1,88 @@
+import * as THREE from 'three';
+import type { Vec3 } from '../../geo/coords';
+import {
+  createIconSprite,
+  createLabelSprite,
+  disposeLabelSprite,
+  loadIconTexture
+} from './PlanarLabel';
+
+// `enu` is null until GeoCoordinator has an ENU origin; `world` is the planar three.js frame before the render origin.
+export type SurveyPoint = {
+  id: string;
+  lon: number;
+  lat: number;
+  height: number;
+  mercator: { x: number; y: number };
+  enu: Vec3 | null;
+  world: Vec3;
+};
+
+type PointMarker = {
+  point: SurveyPoint;
+  group: THREE.Group;
+  icon: THREE.Sprite;
+  label: THREE.Sprite;
+};
+
+export class PlanarSurveyPoints {
+  private readonly _root = new THREE.Group();
+  private readonly _markers = new Map<string, PointMarker>();
+  private readonly _texture: THREE.Texture;
+
+  constructor(iconUrl: string) {
+    this._texture = loadIconTexture(iconUrl);
+  }
+
+  get object3d(): THREE.Object3D {
+    return this._root;
+  }
+
+  get size(): number {
+    return this._markers.size;
+  }
+
+  has(id: string): boolean {
+    return this._markers.has(id);
+  }
+
+  list(): SurveyPoint[] {
+    return [...this._markers.values()].map((marker) => marker.point);
+  }
+
+  add(point: SurveyPoint): void {
+    this.remove(point.id);
+    const group = new THREE.Group();
+    group.position.set(point.world.x, point.world.y, point.world.z);
+    const icon = createIconSprite(this._texture);
+    const label = createLabelSprite([
+      `${point.lon.toFixed(6)}, ${point.lat.toFixed(6)}`,
+      `H ${point.height.toFixed(2)} m`
+    ]);
+    // Sit the label just above the pin.
+    label.center.set(0.5, -icon.scale.y / label.scale.y - 0.1);
+    group.add(icon, label);
+    this._root.add(group);
+    this._markers.set(point.id, { point, group, icon, label });
+  }
+
+  remove(id: string): boolean {
+    const marker = this._markers.get(id);
+    if (!marker) return false;
+    marker.group.removeFromParent();
+    marker.icon.material.dispose();
+    disposeLabelSprite(marker.label);
+    this._markers.delete(id);
+    return true;
+  }
+
+  clear(): void {
+    for (const id of [...this._markers.keys()]) this.remove(id);
+  }
+
+  dispose(): void {
+    this.clear();
+    this._texture.dispose();
+    this._root.removeFromParent();
+  }
+}
@@ -0,0 +1,1203 @@
+import * as THREE from 'three';
+import type { GeoCoordinator } from '../../geo/coords';
+import type { CrsInput } from '../../geo/crs';
+import { densifyGeodesic, geodesicDistance } from '../../geo/geodesic';
+import type { VerticalDatum } from '../../geo/geoid';
+import { TileScheduler, type TileLoadState } from '../TileScheduler';
+import { PlanarClipMask } from './PlanarClipMask';
+import { PlanarDemPatch, type PlanarDemPatchInfo, type PlanarDemPatchOptions } from './PlanarDemPatch';
+import { PlanarExcavation, type PlanarExcavationInfo, type PlanarExcavationOptions } from './PlanarExcavation';
+import { getZoomLevelByDistance } from './PlanarMapTileLayer';
+import {
+  PlanarTerrainModifierStack,
+  parseTerrainModifierDocument,
+  type TerrainModifier,
+  type TerrainModifierDocument
+} from './PlanarTerrainModifiers';
+import {
+  assertWebMercatorTileCrs,
+  boundsIntersect,
+  clampInt,
+  clampNumber,
+  mercatorBoundsToTileRange,
+  mercatorToTileFraction,
+  normalizeSubdomains,
+  nowMs,
+  refineGridSegments,
+  sanitizeViewportBounds,
+  shortestTileDx,
+  stitchGridEdges,
+  tileBoundsInWorld,
+  tileKey,
+  tileRectInWorld,
+  wrapInt,
+  type GridEdgeSegments,
+  type TileId,
+  type ViewportWorldBounds
+} from './PlanarTileMath';
+
+export type TerrainEncoding = 'mapbox' | 'terrarium';
+
+export type TerrainSurfaceMode = 'shaded' | 'hidden';
+
+export type PlanarTerrainLayerOptions = {
+  enabled?: boolean;
+  // In the planar validation scene this is only used without a base map; otherwise the base map's origin wins.
+  originLon?: number;
+  originLat?: number;
+  urlTemplate?: string;
+  encoding?: TerrainEncoding;
+  // Datum of the DEM heights; Terrarium and Mapbox terrain are orthometric (EGM96 mean sea level).
+  verticalDatum?: VerticalDatum;
+  yType?: 'xyz' | 'tms';
+  subdomains?: readonly string[] | string;
+  crs?: CrsInput;
+  minZoom?: number;
+  maxZoom?: number;
+  zoomOffset?: number;
+  tileSegments?: number;
+  exaggeration?: number;
+  skirtDepth?: number;
+  surface?: TerrainSurfaceMode;
+  color?: number;
+  maxConcurrentRequests?: number;
+  maxCachedTiles?: number;
+  maxTiles?: number;
+  marginTiles?: number;
+  tileRadius?: number;
+  retainFrames?: number;
+  retryLimit?: number;
+  maxParentSearchDepth?: number;
+};
+
+export type TerrainTileData = {
+  tileId: TileId;
+  width: number;
+  height: number;
+  heights: Float32Array;
+  minHeight: number;
+  maxHeight: number;
+};
+
+export type PlanarElevationSampler = {
+  readonly version: number;
+  sampleWorldZ(x: number, y: number): number | null;
+  detailSpacingIn(bounds: ViewportWorldBounds): number | null;
+};
+
+export type ElevationSample = {
+  lon: number;
+  lat: number;
+  height: number;
+  verticalDatum: VerticalDatum;
+  zoom: number;
+  resolutionMeters: number;
+  source: 'cache' | 'network';
+};
+
+export type ElevationPathSample = ElevationSample & {
+  distance: number;
+};
+
+// Converting to a datum other than the DEM's needs a geoid on the GeoCoordinator.
+export type ElevationQueryOptions = {
+  verticalDatum?: VerticalDatum;
+};
+
+export type ElevationPathOptions = ElevationQueryOptions & {
+  spacingMeters?: number;
+  maxSamples?: number;
+};
+
+export type PlanarTerrainDebugInfo = {
+  enabled: boolean;
+  zoom: number;
+  tileCount: number;
+  queuedCount: number;
+  loadingCount: number;
+  readyCount: number;
+  errorCount: number;
+  requestedCount: number;
+  renderedCount: number;
+};
+
+type TerrainTile = {
+  tileId: TileId;
+  key: string;
+  state: TileLoadState;
+  attempts: number;
+  priority: number;
+  lastWantedFrame: number;
+  lastTouchedFrame: number;
+  data: TerrainTileData | null;
+  mesh: THREE.Mesh<THREE.BufferGeometry, THREE.MeshLambertMaterial> | null;
+};
+
+type DesiredTerrainTile = {
+  tileId: TileId;
+  key: string;
+  priority: number;
+};
+
+const EDIT_REBUILD_THROTTLE_MS = 200;
+const MAX_TILE_SEGMENTS = 256;
+const DEFAULT_PATH_SPACING_METERS = 30;
+const DEFAULT_PATH_MAX_SAMPLES = 2048;
+const DEFAULT_URL_TEMPLATE = 'https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png';
+
+export class PlanarTerrainLayer implements PlanarElevationSampler {
+  private readonly _root = new THREE.Group();
+  private readonly _tileRoot = new THREE.Group();
+  private readonly _editRoot = new THREE.Group();
+  private readonly _clipMask = new PlanarClipMask();
+  private readonly _geo: GeoCoordinator;
+  private readonly _originMercator: { x: number; y: number };
+  private readonly _urlTemplate: string;
+  private readonly _encoding: TerrainEncoding;
+  private readonly _verticalDatum: VerticalDatum;
+  private readonly _yType: 'xyz' | 'tms';
+  private readonly _subdomains: readonly string[];
+  private readonly _minZoom: number;
+  private readonly _maxZoom: number;
+  private readonly _zoomOffset: number;
+  private readonly _tileSegments: number;
+  private readonly _exaggeration: number;
+  private readonly _skirtDepth: number;
+  private readonly _color: number;
+  private readonly _maxTiles: number;
+  private readonly _marginTiles: number;
+  private readonly _tileRadius: number;
+  private readonly _maxParentSearchDepth: number;
+  private readonly _imageLoader = new THREE.ImageLoader();
+
+  private readonly _tiles = new Map<string, TerrainTile>();
+  private readonly _scheduler: TileScheduler<TerrainTile>;
+  private readonly _pendingFetches = new Map<string, Promise<TerrainTileData | null>>();
+  private readonly _excavations = new Map<string, PlanarExcavation>();
+  private readonly _patches = new Map<string, PlanarDemPatch>();
+
+  private _modifiers: PlanarTerrainModifierStack;
+  private _enabled: boolean;
+  private _surface: TerrainSurfaceMode;
+  private _decodeCanvas: HTMLCanvasElement | null = null;
+  private _frame = 0;
+  private _stateKey = '';
+  private _zoom = 0;
+  private _version = 0;
+  private _activeDesiredTiles: DesiredTerrainTile[] = [];
+  private _editIdCounter = 0;
+  private _editVersion = -1;
+  private _lastEditRebuildMs = 0;
+  private _debugInfo: PlanarTerrainDebugInfo;
+
+  constructor(geo: GeoCoordinator, options?: PlanarTerrainLayerOptions) {
+    this._geo = geo;
+    this._enabled = options?.enabled ?? true;
+    this._originMercator = this._geo.lonLatToWebMercator(options?.originLon ?? 0, options?.originLat ?? 0);
+    this._urlTemplate = options?.urlTemplate ?? DEFAULT_URL_TEMPLATE;
+    this._encoding = options?.encoding ?? (options?.urlTemplate === undefined ? 'terrarium' : 'mapbox');
+    this._verticalDatum = options?.verticalDatum ?? 'orthometric';
+    this._yType = options?.yType ?? 'xyz';
+    this._subdomains = normalizeSubdomains(options?.subdomains);
+    assertWebMercatorTileCrs(options?.crs, 'Terrain layer');
+    this._minZoom = clampInt(options?.minZoom ?? 0, 0, 22);
+    this._maxZoom = clampInt(options?.maxZoom ?? 15, this._minZoom, 22);
+    this._zoomOffset = Math.max(0, Math.floor(options?.zoomOffset ?? 2));
+    this._tileSegments = clampInt(options?.tileSegments ?? 32, 2, 256);
+    this._exaggeration = options?.exaggeration ?? 1;
+    this._skirtDepth = Math.max(0, options?.skirtDepth ?? 50);
+    this._surface = options?.surface ?? 'shaded';
+    this._color = options?.color ?? 0x9ca3af;
+    this._maxTiles = Math.max(4, Math.floor(options?.maxTiles ?? 64));
+    this._marginTiles = Math.max(0, Math.floor(options?.marginTiles ?? 1));
+    this._tileRadius = Math.max(0, Math.floor(options?.tileRadius ?? 2));
+    this._maxParentSearchDepth = Math.max(1, Math.floor(options?.maxParentSearchDepth ?? 6));
+
+    if (!Number.isFinite(this._exaggeration) || this._exaggeration <= 0) {
+      throw new Error(`Invalid terrain exaggeration: ${this._exaggeration}`);
+    }
+
+    this._scheduler = new TileScheduler({
+      tiles: this._tiles,
+      maxConcurrentRequests: Math.max(1, Math.floor(options?.maxConcurrentRequests ?? 6)),
+      maxCachedTiles: Math.max(16, Math.floor(options?.maxCachedTiles ?? 256)),
+      retryLimit: Math.max(0, Math.floor(options?.retryLimit ?? 2)),
+      retainFrames: Math.max(0, Math.floor(options?.retainFrames ?? 90)),
+      compare: (a, b) => a.priority - b.priority,
+      load: (tile, isCurrent) => this.loadTile(tile, isCurrent),
+      dispose: (tile) => this.disposeTile(tile.key, tile)
+    });
+    this._modifiers = this.createModifierStack();
+    this._imageLoader.setCrossOrigin('anonymous');
+    this._tileRoot.visible = this._enabled;
+    this._root.add(this._tileRoot, this._editRoot);
+    this._debugInfo = {
+      enabled: this._enabled,
+      zoom: this._minZoom,
+      tileCount: 0,
+      queuedCount: 0,
+      loadingCount: 0,
+      readyCount: 0,
+      errorCount: 0,
+      requestedCount: 0,
+      renderedCount: 0
+    };
+  }
+
+  get object3d(): THREE.Object3D {
+    return this._root;
+  }
+
+  get enabled(): boolean {
+    return this._enabled;
+  }
+
+  get version(): number {
+    return this._version;
+  }
+
+  get verticalDatum(): VerticalDatum {
+    return this._verticalDatum;
+  }
+
+  get surface(): TerrainSurfaceMode {
+    return this._surface;
+  }
+
+  get debugInfo(): PlanarTerrainDebugInfo {
+    return { ...this._debugInfo };
+  }
+
+  get clipMask(): PlanarClipMask {
+    return this._clipMask;
+  }
+
+  get excavations(): PlanarExcavationInfo[] {
+    return [...this._excavations.values()].map((excavation) => excavation.info);
+  }
+
+  get demPatches(): PlanarDemPatchInfo[] {
+    return [...this._patches.values()].map((patch) => patch.info);
+  }
+
+  get modifiers(): TerrainModifier[] {
+    return this._modifiers.list();
+  }
+
+  setEnabled(enabled: boolean): void {
+    if (this._enabled === enabled) return;
+    this._enabled = enabled;
+    this._tileRoot.visible = enabled;
+    this._stateKey = '';
+    this._version += 1;
+    this._debugInfo = { ...this._debugInfo, enabled };
+  }
+
+  setSurface(surface: TerrainSurfaceMode): void {
+    this._surface = surface;
+  }
+
+  heightToWorldZ(heightMeters: number): number {
+    return (heightMeters * this._exaggeration) / this._geo.metersPerUnit;
+  }
+
+  worldXYToLonLat(x: number, y: number): { lon: number; lat: number } {
+    return this._geo.webMercatorToLonLat(
+      this._originMercator.x + x * this._geo.metersPerUnit,
+      this._originMercator.y + y * this._geo.metersPerUnit
+    );
+  }
+
+  lonLatToWorldXY(lon: number, lat: number): { x: number; y: number } {
+    const mercator = this._geo.lonLatToWebMercator(lon, lat);
+    return {
+      x: (mercator.x - this._originMercator.x) / this._geo.metersPerUnit,
+      y: (mercator.y - this._originMercator.y) / this._geo.metersPerUnit
+    };
+  }
+
+  sampleHeightAtWorldXY(x: number, y: number): number | null {
+    const base = this.sampleBaseHeightAtWorldXY(x, y);
+    return base === null ? null : this.surfaceHeight(x, y, base);
+  }
+
+  // Like sampleHeightAtWorldXY, but also lowered to the floor of any excavation.
+  sampleGroundHeightAtWorldXY(x: number, y: number): number | null {
+    const base = this.sampleBaseHeightAtWorldXY(x, y);
+    return base === null ? null : this.editedHeight(x, y, base);
+  }
+
+  // Loads the finest tiles that cover the area, stepping up zoom levels until at most `maxTiles` are needed.
+  async prefetchArea(bounds: ViewportWorldBounds, maxTiles = 64): Promise<void> {
+    const mpu = this._geo.metersPerUnit;
+    for (let z = this._maxZoom; z >= this._minZoom; z -= 1) {
+      const range = mercatorBoundsToTileRange(
+        this._originMercator.x + bounds.minX * mpu,
+        this._originMercator.y + bounds.minY * mpu,
+        this._originMercator.x + bounds.maxX * mpu,
+        this._originMercator.y + bounds.maxY * mpu,
+        z,
+        0
+      );
+      if (!range) return;
+      const count = (range.maxXRaw - range.minXRaw + 1) * (range.maxY - range.minY + 1);
+      if (count > maxTiles) continue;
+
+      const n = 2 ** z;
+      const requests: Promise<TerrainTileData | null>[] = [];
+      for (let tileY = Math.max(0, range.minY); tileY <= Math.min(n - 1, range.maxY); tileY += 1) {
+        for (let rawX = range.minXRaw; rawX <= range.maxXRaw; rawX += 1) {
+          requests.push(this.fetchTileData({ x: wrapInt(rawX, n), y: tileY, z }));
+        }
+      }
+      await Promise.all(requests);
+      return;
+    }
+  }
+
+  sampleWorldZ(x: number, y: number): number | null {
+    if (!this._enabled) return null;
+    const height = this.sampleHeightAtWorldXY(x, y);
+    return height === null ? null : this.heightToWorldZ(height);
+  }
+
+  detailSpacingIn(bounds: ViewportWorldBounds): number | null {
+    let spacing: number | null = null;
+    for (const patch of this._patches.values()) {
+      if (!boundsIntersect(bounds, patch.bounds)) continue;
+      spacing = spacing === null ? patch.detailSpacing : Math.min(spacing, patch.detailSpacing);
+    }
+    return spacing;
+  }
+
+  addDemPatch(options: PlanarDemPatchOptions): PlanarDemPatchInfo {
+    const id = options.id ?? `dem-patch-${++this._editIdCounter}`;
+    if (this._patches.has(id)) {
+      throw new Error(`DEM patch "${id}" already exists.`);
+    }
+
+    const patch = this.createDemPatch(id, options);
+    this._patches.set(id, patch);
+    this.applySurfaceChange(patch.bounds);
+    return patch.info;
+  }
+
+  // Builds a patch in this layer's frame without registering it, e.g. for a design surface.
+  createDemPatch(id: string, options: PlanarDemPatchOptions): PlanarDemPatch {
+    return new PlanarDemPatch(id, options, {
+      metersPerUnit: this._geo.metersPerUnit,
+      worldXYToLonLat: (x, y) => this.worldXYToLonLat(x, y),
+      worldXYToMercator: (x, y) => ({
+        x: this._originMercator.x + x * this._geo.metersPerUnit,
+        y: this._originMercator.y + y * this._geo.metersPerUnit
+      }),
+      lonLatToWorldXY: (lon, lat) => this.lonLatToWorldXY(lon, lat),
+      mercatorToWorldXY: (x, y) => ({
+        x: (x - this._originMercator.x) / this._geo.metersPerUnit,
+        y: (y - this._originMercator.y) / this._geo.metersPerUnit
+      })
+    });
+  }
+
+  removeDemPatch(id: string): boolean {
+    const patch = this._patches.get(id);
+    if (!patch) return false;
+    this._patches.delete(id);
+    this.applySurfaceChange(patch.bounds);
+    return true;
+  }
+
+  addExcavation(options: PlanarExcavationOptions): PlanarExcavationInfo {
+    const id = options.id ?? `excavation-${++this._editIdCounter}`;
+    if (this._excavations.has(id)) {
+      throw new Error(`Excavation "${id}" already exists.`);
+    }
+
+    const ring = options.polygon.map((point) => {
+      if (!Number.isFinite(point.lon) || !Number.isFinite(point.lat)) {
+        throw new Error(`Invalid excavation vertex: ${point.lon},${point.lat}`);
+      }
+      return this.lonLatToWorldXY(point.lon, point.lat);
+    });
+    const excavation = new PlanarExcavation(id, ring, options);
+    try {
+      this._clipMask.setRing(id, excavation.ring);
+    } catch (error) {
+      excavation.dispose();
+      throw error;
+    }
+    this._excavations.set(id, excavation);
+    this._editRoot.add(excavation.object3d);
+    excavation.rebuild(this.surfaceContext());
+    return excavation.info;
+  }
+
+  removeExcavation(id: string): boolean {
+    const excavation = this._excavations.get(id);
+    if (!excavation) return false;
+    excavation.dispose();
+    this._excavations.delete(id);
+    this._clipMask.removeRing(id);
+    return true;
+  }
+
+  addModifier(modifier: TerrainModifier): TerrainModifier {
+    const result = this._modifiers.add(modifier);
+    this.applySurfaceChange(result.bounds);
+    return result.modifier;
+  }
+
+  removeModifier(id: string): boolean {
+    const bounds = this._modifiers.remove(id);
+    if (!bounds) return false;
+    this.applySurfaceChange(bounds);
+    return true;
+  }
+
+  clearModifiers(): void {
+    const bounds = this._modifiers.clear();
+    if (bounds) this.applySurfaceChange(bounds);
+  }
+
+  exportModifiers(): TerrainModifierDocument {
+    return this._modifiers.toJSON();
+  }
+
+  // Loads a saved site design. The whole document is validated before the current stack is touched.
+  importModifiers(input: TerrainModifierDocument | string, options?: { append?: boolean }): TerrainModifier[] {
+    const parsed = parseTerrainModifierDocument(input);
+    const staged = this.createModifierStack();
+    if (options?.append) {
+      for (const modifier of this._modifiers.list()) staged.add(modifier);
+    }
+    for (const modifier of parsed.modifiers) staged.add(modifier);
+
+    this._modifiers = staged;
+    this.applySurfaceChange(null);
+    return staged.list();
+  }
+
+  sampleElevation(lon: number, lat: number, options?: ElevationQueryOptions): ElevationSample | null {
+    for (let z = this._maxZoom; z >= this._minZoom; z -= 1) {
+      const tileId = this.tileAt(lon, lat, z);
+      const data = this._tiles.get(tileKey(tileId))?.data;
+      if (data) return this.inDatum(this.buildSample(lon, lat, data, 'cache'), options);
+    }
+    return null;
+  }
+
+  async queryElevation(lon: number, lat: number, options?: ElevationQueryOptions): Promise<ElevationSample | null> {
+    const cached = this.sampleElevation(lon, lat, options);
+    if (cached && cached.zoom === this._maxZoom) return cached;
+
+    const data = await this.fetchTileData(this.tileAt(lon, lat, this._maxZoom));
+    if (!data) return cached;
+    return this.inDatum(this.buildSample(lon, lat, data, 'network'), options);
+  }
+
+  async queryElevations(
+    points: ReadonlyArray<{ lon: number; lat: number }>,
+    options?: ElevationQueryOptions
+  ): Promise<Array<ElevationSample | null>> {
+    const missing = new Map<string, TileId>();
+    for (const point of points) {
+      const tileId = this.tileAt(point.lon, point.lat, this._maxZoom);
+      const key = tileKey(tileId);
+      if (!this._tiles.get(key)?.data) missing.set(key, tileId);
+    }
+
+    const fetched = new Map<string, TerrainTileData>();
+    const results = await Promise.all([...missing.values()].map((tileId) => this.fetchTileData(tileId)));
+    for (const data of results) {
+      if (data) fetched.set(tileKey(data.tileId), data);
+    }
+
+    return points.map((point) => {
+      const data = fetched.get(tileKey(this.tileAt(point.lon, point.lat, this._maxZoom)));
+      return data
+        ? this.inDatum(this.buildSample(point.lon, point.lat, data, 'network'), options)
+        : this.sampleElevation(point.lon, point.lat, options);
+    });
+  }
+
+  async queryElevationAlong(
+    path: ReadonlyArray<{ lon: number; lat: number }>,
+    options?: ElevationPathOptions
+  ): Promise<ElevationPathSample[]> {
+    const spacing = Math.max(0.01, options?.spacingMeters ?? DEFAULT_PATH_SPACING_METERS);
+    const maxSamples = Math.max(2, Math.floor(options?.maxSamples ?? DEFAULT_PATH_MAX_SAMPLES));
+    const points = this.densifyPath(path, spacing, maxSamples);
+    const samples = await this.queryElevations(points, options);
+
+    const out: ElevationPathSample[] = [];
+    for (let i = 0; i < points.length; i += 1) {
+      const sample = samples[i];
+      const point = points[i];
+      if (!sample || !point) continue;
+      out.push({ ...sample, distance: point.distance });
+    }
+    return out;
+  }
+
+  update(focusX: number, focusY: number, cameraHeight: number, viewportBounds?: ViewportWorldBounds | null): void {
+    this.refreshEdits();
+    if (!this._enabled) return;
+
+    this._frame += 1;
+    const zoom = this.pickZoom(cameraHeight);
+    const focusLonLat = this._geo.webMercatorToLonLat(
+      this._originMercator.x + focusX * this._geo.metersPerUnit,
+      this._originMercator.y + focusY * this._geo.metersPerUnit
+    );
+    const centerTile = this._geo.lonLatToTile(focusLonLat.lon, focusLonLat.lat, zoom);
+    const range = this.viewportToTileRange(sanitizeViewportBounds(viewportBounds ?? null), zoom);
+    const rangeKey = range ? `${range.minXRaw}:${range.maxXRaw}:${range.minY}:${range.maxY}` : 'none';
+    const stateKey = `${zoom}|${centerTile.x}|${centerTile.y}|${rangeKey}`;
+
+    if (stateKey !== this._stateKey) {
+      this._zoom = zoom;
+      this.applyDesiredTiles(this.collectDesiredTiles(centerTile, zoom, range));
+      this._stateKey = stateKey;
+    }
+
+    this._scheduler.processQueue();
+    this.updateVisibility();
+    this.refreshDebugInfo();
+  }
+
+  dispose(): void {
+    this._scheduler.clear();
+    for (const [key, tile] of this._tiles) {
+      this.disposeTile(key, tile);
+    }
+    this._tiles.clear();
+    for (const excavation of this._excavations.values()) {
+      excavation.dispose();
+    }
+    this._excavations.clear();
+    this._clipMask.dispose();
+    this._activeDesiredTiles = [];
+    this._stateKey = '';
+  }
+
+  private refreshEdits(): void {
+    if (this._excavations.size === 0 || this._editVersion === this._version) return;
+    const now = nowMs();
+    if (now - this._lastEditRebuildMs < EDIT_REBUILD_THROTTLE_MS) return;
+
+    const surface = this.surfaceContext();
+    for (const excavation of this._excavations.values()) {
+      excavation.rebuild(surface);
+    }
+    this._editVersion = this._version;
+    this._lastEditRebuildMs = now;
+  }
+
+  private surfaceContext(): {
+    metersPerUnit: number;
+    heightToWorldZ: (heightMeters: number) => number;
+    sampleWorldZ: (x: number, y: number) => number;
+  } {
+    return {
+      metersPerUnit: this._geo.metersPerUnit,
+      heightToWorldZ: (heightMeters) => this.heightToWorldZ(heightMeters),
+      sampleWorldZ: (x, y) => this.sampleWorldZ(x, y) ?? 0
+    };
+  }
+
+  private sampleBaseHeightAtWorldXY(x: number, y: number): number | null {
+    const mercatorX = this._originMercator.x + x * this._geo.metersPerUnit;
+    const mercatorY = this._originMercator.y + y * this._geo.metersPerUnit;
+
+    for (let z = this._maxZoom; z >= this._minZoom; z -= 1) {
+      const n = 2 ** z;
+      const frac = mercatorToTileFraction(mercatorX, mercatorY, z);
+      const tileY = Math.floor(frac.y);
+      if (tileY < 0 || tileY >= n) return null;
+      const rawX = Math.floor(frac.x);
+      const tile = this._tiles.get(tileKey({ x: wrapInt(rawX, n), y: tileY, z }));
+      if (!tile?.data) continue;
+      return sampleTileData(tile.data, frac.x - rawX, frac.y - tileY);
+    }
+
+    return null;
+  }
+
+  private createModifierStack(): PlanarTerrainModifierStack {
+    return new PlanarTerrainModifierStack({
+      lonLatToWorldXY: (lon, lat) => this.lonLatToWorldXY(lon, lat),
+      metersPerUnit: () => this._geo.metersPerUnit
+    });
+  }
+
+  // Null bounds rebuilds every cached tile. Neighbours are included so their stitched edges follow the new grid.
+  private applySurfaceChange(bounds: ViewportWorldBounds | null): void {
+    for (const tile of this._tiles.values()) {
+      if (!tile.mesh || !tile.data) continue;
+      if (bounds) {
+        const rect = tileRectInWorld(this._geo, tile.tileId, this._originMercator.x, this._originMercator.y);
+        const tileBounds = tileBoundsInWorld({ ...rect, width: rect.width * 3, height: rect.height * 3 });
+        if (!boundsIntersect(bounds, tileBounds)) continue;
+      }
+      this.buildTileMesh(tile);
+    }
+    this._version += 1;
+  }
+
+  // Base terrain -> DEM patches in insertion order -> modifier stack.
+  private surfaceHeight(x: number, y: number, baseHeight: number): number {
+    let out = baseHeight;
+    for (const patch of this._patches.values()) {
+      out = patch.apply(x, y, out);
+    }
+    return this._modifiers.apply(x, y, out);
+  }
+
+  private editedHeight(x: number, y: number, height: number): number {
+    let out = this.surfaceHeight(x, y, height);
+    for (const excavation of this._excavations.values()) {
+      if (excavation.containsWorldXY(x, y)) {
+        out = Math.min(out, excavation.floorHeight);
+      }
+    }
+    return out;
+  }
+
+  private tileAt(lon: number, lat: number, zoom: number): TileId {
+    const n = 2 ** zoom;
+    const tile = this._geo.lonLatToTile(lon, lat, zoom);
+    return { x: wrapInt(tile.x, n), y: clampInt(tile.y, 0, n - 1), z: zoom };
+  }
+
+  private buildSample(
+    lon: number,
+    lat: number,
+    data: TerrainTileData,
+    source: ElevationSample['source']
+  ): ElevationSample {
+    const { x, y, z } = data.tileId;
+    const nw = this._geo.tileToLonLat(x, y, z);
+    const se = this._geo.tileToLonLat(x + 1, y + 1, z);
+    const minMercator = this._geo.lonLatToWebMercator(nw.lon, se.lat);
+    const maxMercator = this._geo.lonLatToWebMercator(se.lon, nw.lat);
+    const point = this._geo.lonLatToWebMercator(lon, lat);
+    const u = (point.x - minMercator.x) / (maxMercator.x - minMercator.x);
+    const v = (maxMercator.y - point.y) / (maxMercator.y - minMercator.y);
+    const tileWidthMeters = (maxMercator.x - minMercator.x) * Math.cos((lat * Math.PI) / 180);
+    const world = this.lonLatToWorldXY(lon, lat);
+    const height = sampleTileData(data, clampNumber(u, 0, 1), clampNumber(v, 0, 1));
+    let resolutionMeters = tileWidthMeters / data.width;
+    for (const patch of this._patches.values()) {
+      if (patch.contains(world.x, world.y)) resolutionMeters = Math.min(resolutionMeters, patch.cellSizeMeters);
+    }
+
+    return {
+      lon,
+      lat,
+      height: this.editedHeight(world.x, world.y, height),
+      verticalDatum: this._verticalDatum,
+      zoom: z,
+      resolutionMeters,
+      source
+    };
+  }
+
+  private inDatum(sample: ElevationSample, options?: ElevationQueryOptions): ElevationSample {
+    const target = options?.verticalDatum;
+    if (!target || target === sample.verticalDatum) return sample;
+    return {
+      ...sample,
+      height: this._geo.convertHeight(sample.lon, sample.lat, sample.height, sample.verticalDatum, target),
+      verticalDatum: target
+    };
+  }
+
+  // Samples follow the WGS84 geodesic of each segment, so lengths are true ground distances and a segment
+  // crossing the antimeridian takes the short way round.
+  private densifyPath(
+    path: ReadonlyArray<{ lon: number; lat: number }>,
+    spacingMeters: number,
+    maxSamples: number
+  ): Array<{ lon: number; lat: number; distance: number }> {
+    const first = path[0];
+    if (!first) return [];
+
+    const segmentLengths: number[] = [];
+    let totalLength = 0;
+    for (let i = 1; i < path.length; i += 1) {
+      const a = path[i - 1];
+      const b = path[i];
+      if (!a || !b) continue;
+      const length = geodesicDistance(a, b);
+      segmentLengths.push(length);
+      totalLength += length;
+    }
+
+    const step = Math.max(spacingMeters, totalLength / (maxSamples - 1));
+    const out = [{ lon: first.lon, lat: first.lat, distance: 0 }];
+    let travelled = 0;
+    for (let i = 1; i < path.length; i += 1) {
+      const a = path[i - 1];
+      const b = path[i];
+      const length = segmentLengths[i - 1] ?? 0;
+      if (!a || !b) continue;
+      const count = Math.max(1, Math.ceil(length / step));
+      const points = densifyGeodesic(a, b, count + 1);
+      for (let k = 1; k <= count; k += 1) {
+        const point = points[k];
+        if (!point) continue;
+        out.push({ lon: point.lon, lat: point.lat, distance: travelled + (length * k) / count });
+      }
+      travelled += length;
+    }
+    return out;
+  }
+
+  private fetchTileData(tileId: TileId): Promise<TerrainTileData | null> {
+    const key = tileKey(tileId);
+    const cached = this._tiles.get(key)?.data;
+    if (cached) return Promise.resolve(cached);
+
+    const pending = this._pendingFetches.get(key);
+    if (pending) return pending;
+
+    const request = this._imageLoader
+      .loadAsync(this.buildUrl(tileId))
+      .then((image) => {
+        const data = this.decodeImage(tileId, image);
+        if (data) this.adoptTileData(tileId, data);
+        return data;
+      })
+      .catch(() => null)
+      .finally(() => {
+        this._pendingFetches.delete(key);
+      });
+    this._pendingFetches.set(key, request);
+    return request;
+  }
+
+  private adoptTileData(tileId: TileId, data: TerrainTileData): void {
+    const tile = this.ensureTile(tileId, tileKey(tileId));
+    if (tile.state === 'ready') return;
+    this._scheduler.cancel(tile);
+    tile.data = data;
+    tile.state = 'ready';
+    tile.lastWantedFrame = this._frame;
+    tile.lastTouchedFrame = this._frame;
+    this.buildTileMesh(tile);
+    this._version += 1;
+  }
+
+  private pickZoom(cameraHeight: number): number {
+    return clampInt(getZoomLevelByDistance(cameraHeight) - this._zoomOffset, this._minZoom, this._maxZoom);
+  }
+
+  private viewportToTileRange(
+    viewportBounds: ViewportWorldBounds | null,
+    zoom: number
+  ): { minXRaw: number; maxXRaw: number; minY: number; maxY: number } | null {
+    if (!viewportBounds) return null;
+    return mercatorBoundsToTileRange(
+      this._originMercator.x + viewportBounds.minX * this._geo.metersPerUnit,
+      this._originMercator.y + viewportBounds.minY * this._geo.metersPerUnit,
+      this._originMercator.x + viewportBounds.maxX * this._geo.metersPerUnit,
+      this._originMercator.y + viewportBounds.maxY * this._geo.metersPerUnit,
+      zoom,
+      this._marginTiles
+    );
+  }
+
+  private collectDesiredTiles(
+    centerTile: { x: number; y: number },
+    zoom: number,
+    range: { minXRaw: number; maxXRaw: number; minY: number; maxY: number } | null
+  ): DesiredTerrainTile[] {
+    const n = 2 ** zoom;
+    const minXRaw = range ? range.minXRaw : centerTile.x - this._tileRadius;
+    const maxXRaw = range ? Math.min(range.maxXRaw, range.minXRaw + n - 1) : centerTile.x + this._tileRadius;
+    const minY = range ? range.minY : centerTile.y - this._tileRadius;
+    const maxY = range ? range.maxY : centerTile.y + this._tileRadius;
+
+    const list: DesiredTerrainTile[] = [];
+    const seen = new Set<string>();
+    for (let tileY = Math.max(0, minY); tileY <= Math.min(n - 1, maxY); tileY += 1) {
+      for (let rawX = minXRaw; rawX <= maxXRaw; rawX += 1) {
+        const tileId: TileId = { x: wrapInt(rawX, n), y: tileY, z: zoom };
+        const key = tileKey(tileId);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const dx = shortestTileDx(centerTile.x, tileId.x, n);
+        const dy = tileY - centerTile.y;
+        list.push({ tileId, key, priority: dx * dx + dy * dy });
+      }
+    }
+
+    list.sort((a, b) => a.priority - b.priority);
+    return list.length > this._maxTiles ? list.slice(0, this._maxTiles) : list;
+  }
+
+  private applyDesiredTiles(desiredTiles: DesiredTerrainTile[]): void {
+    this._activeDesiredTiles = desiredTiles;
+    const wantedKeys = new Set<string>();
+
+    for (const desired of desiredTiles) {
+      wantedKeys.add(desired.key);
+      const tile = this.ensureTile(desired.tileId, desired.key);
+      tile.priority = desired.priority;
+      tile.lastWantedFrame = this._frame;
+      tile.lastTouchedFrame = this._frame;
+      this._scheduler.request(tile);
+    }
+
+    this._scheduler.evict(this._frame, (tile) => wantedKeys.has(tile.key));
+  }
+
+  private updateVisibility(): void {
+    const visibleKeys = new Set<string>();
+    const touchedAncestorKeys = new Set<string>();
+
+    for (const desired of this._activeDesiredTiles) {
+      const current = this._tiles.get(desired.key);
+      if (!current) continue;
+
+      if (current.state === 'ready') {
+        visibleKeys.add(current.key);
+        current.lastWantedFrame = this._frame;
+        continue;
+      }
+
+      const fallback = this.findReadyAncestor(desired.tileId, touchedAncestorKeys);
+      if (fallback) {
+        visibleKeys.add(fallback.key);
+        fallback.lastWantedFrame = this._frame;
+      }
+    }
+
+    const showSurface = this._surface === 'shaded';
+    for (const tile of this._tiles.values()) {
+      if (!tile.mesh) continue;
+      tile.mesh.visible = showSurface && visibleKeys.has(tile.key);
+    }
+  }
+
+  private findReadyAncestor(tileId: TileId, touched: Set<string>): TerrainTile | null {
+    let x = tileId.x;
+    let y = tileId.y;
+    let z = tileId.z;
+
+    for (let i = 0; i < this._maxParentSearchDepth && z > this._minZoom; i += 1) {
+      x = Math.floor(x / 2);
+      y = Math.floor(y / 2);
+      z -= 1;
+
+      const key = tileKey({ x, y, z });
+      const parent = this.ensureTile({ x, y, z }, key);
+      if (!touched.has(key)) {
+        touched.add(key);
+        parent.lastWantedFrame = this._frame;
+        parent.lastTouchedFrame = this._frame;
+        this._scheduler.request(parent);
+      }
+
+      if (parent.state === 'ready') {
+        return parent;
+      }
+    }
+
+    return null;
+  }
+
+  private ensureTile(tileId: TileId, key: string): TerrainTile {
+    let tile = this._tiles.get(key);
+    if (!tile) {
+      tile = {
+        tileId,
+        key,
+        state: 'idle',
+        attempts: 0,
+        priority: Number.POSITIVE_INFINITY,
+        lastWantedFrame: -1,
+        lastTouchedFrame: this._frame,
+        data: null,
+        mesh: null
+      };
+      this._tiles.set(key, tile);
+    }
+    return tile;
+  }
+
+  private loadTile(tile: TerrainTile, isCurrent: () => boolean): Promise<void> {
+    return this._imageLoader.loadAsync(this.buildUrl(tile.tileId)).then((image) => {
+      if (!isCurrent()) return;
+      const data = this.decodeImage(tile.tileId, image);
+      if (!data) throw new Error(`Failed to decode terrain tile ${tile.key}`);
+      tile.data = data;
+      this.buildTileMesh(tile);
+      this._version += 1;
+    });
+  }
+
+  private decodeImage(tileId: TileId, image: HTMLImageElement): TerrainTileData | null {
+    if (typeof document === 'undefined') return null;
+    if (!this._decodeCanvas) {
+      this._decodeCanvas = document.createElement('canvas');
+    }
+    return decodeTerrainImage(this._decodeCanvas, tileId, image, this._encoding);
+  }
+
+  private buildTileMesh(tile: TerrainTile): void {
+    const data = tile.data;
+    if (!data) return;
+
+    const rect = tileRectInWorld(this._geo, tile.tileId, this._originMercator.x, this._originMercator.y);
+    const segmentsAt = (dx: number, dy: number) =>
+      refineGridSegments(
+        this._tileSegments,
+        rect.width,
+        this.detailSpacingIn(
+          tileBoundsInWorld({ ...rect, centerX: rect.centerX + dx * rect.width, centerY: rect.centerY + dy * rect.height })
+        ),
+        MAX_TILE_SEGMENTS
+      );
+    const geometry = createTerrainGeometry(
+      rect.width,
+      rect.height,
+      segmentsAt(0, 0),
+      { north: segmentsAt(0, 1), east: segmentsAt(1, 0), south: segmentsAt(0, -1), west: segmentsAt(-1, 0) },
+      this.heightToWorldZ(this._skirtDepth),
+      (u, v) =>
+        this.heightToWorldZ(
+          this.surfaceHeight(
+            rect.centerX + (u - 0.5) * rect.width,
+            rect.centerY + (0.5 - v) * rect.height,
+            sampleTileData(data, u, v)
+          )
+        )
+    );
+
+    if (tile.mesh) {
+      tile.mesh.geometry.dispose();
+      tile.mesh.geometry = geometry;
+      return;
+    }
+
+    // Coarser tiles are pushed further back so a ready child wins where both are drawn.
+    const depthBias = 1 + (this._maxZoom - tile.tileId.z);
+    const material = new THREE.MeshLambertMaterial({
+      color: this._color,
+      side: THREE.DoubleSide,
+      polygonOffset: true,
+      polygonOffsetFactor: depthBias,
+      polygonOffsetUnits: depthBias
+    });
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.position.set(rect.centerX, rect.centerY, 0);
+    mesh.renderOrder = 1;
+    mesh.visible = false;
+    tile.mesh = mesh;
+    this._clipMask.attach(material, rect.centerX, rect.centerY);
+    this._tileRoot.add(mesh);
+  }
+
+  private disposeTile(key: string, tile: TerrainTile): void {
+    if (tile.mesh) {
+      this._clipMask.detach(tile.mesh.material);
+      this._tileRoot.remove(tile.mesh);
+      tile.mesh.geometry.dispose();
+      tile.mesh.material.dispose();
+      tile.mesh = null;
+    }
+    if (tile.data) {
+      this._version += 1;
+    }
+    this._tiles.delete(key);
+  }
+
+  private refreshDebugInfo(): void {
+    let loadingCount = 0;
+    let readyCount = 0;
+    let errorCount = 0;
+    let renderedCount = 0;
+
+    for (const tile of this._tiles.values()) {
+      if (tile.state === 'loading') loadingCount += 1;
+      if (tile.state === 'ready') readyCount += 1;
+      if (tile.state === 'error') errorCount += 1;
+      if (tile.mesh?.visible) renderedCount += 1;
+    }
+
+    this._debugInfo = {
+      enabled: this._enabled,
+      zoom: this._zoom,
+      tileCount: this._tiles.size,
+      queuedCount: this._scheduler.queuedCount,
+      loadingCount,
+      readyCount,
+      errorCount,
+      requestedCount: this._activeDesiredTiles.length,
+      renderedCount
+    };
+  }
+
+  private buildUrl(tileId: TileId): string {
+    const n = 2 ** tileId.z;
+    const y = this._yType === 'tms' ? n - 1 - tileId.y : tileId.y;
+    const subdomain =
+      this._subdomains.length > 0
+        ? this._subdomains[Math.abs(tileId.x + tileId.y + tileId.z) % this._subdomains.length] ?? ''
+        : '';
+    return this._urlTemplate
+      .replace('{z}', String(tileId.z))
+      .replace('{x}', String(tileId.x))
+      .replace('{y}', String(y))
+      .replace('{s}', subdomain);
+  }
+}
+
+export function decodeElevation(encoding: TerrainEncoding, r: number, g: number, b: number): number {
+  if (encoding === 'terrarium') {
+    return r * 256 + g + b / 256 - 32768;
+  }
+  return -10000 + (r * 65536 + g * 256 + b) * 0.1;
+}
+
+export function decodeTerrainImage(
+  canvas: HTMLCanvasElement,
+  tileId: TileId,
+  image: HTMLImageElement,
+  encoding: TerrainEncoding
+): TerrainTileData | null {
+  const width = image.naturalWidth || image.width;
+  const height = image.naturalHeight || image.height;
+  if (width <= 0 || height <= 0) return null;
+
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+
+  context.clearRect(0, 0, width, height);
+  context.drawImage(image, 0, 0);
+  const pixels = context.getImageData(0, 0, width, height).data;
+  const heights = new Float32Array(width * height);
+  let minHeight = Number.POSITIVE_INFINITY;
+  let maxHeight = Number.NEGATIVE_INFINITY;
+
+  for (let i = 0; i < heights.length; i += 1) {
+    const r = pixels[i * 4] ?? 0;
+    const g = pixels[i * 4 + 1] ?? 0;
+    const b = pixels[i * 4 + 2] ?? 0;
+    const value = decodeElevation(encoding, r, g, b);
+    heights[i] = value;
+    if (value < minHeight) minHeight = value;
+    if (value > maxHeight) maxHeight = value;
+  }
+
+  return { tileId, width, height, heights, minHeight, maxHeight };
+}
+
+// u runs west to east and v north to south across the tile, both in [0, 1].
+export function sampleTileData(data: TerrainTileData, u: number, v: number): number {
+  const px = clampNumber(u * data.width - 0.5, 0, data.width - 1);
+  const py = clampNumber(v * data.height - 0.5, 0, data.height - 1);
+  const x0 = Math.floor(px);
+  const y0 = Math.floor(py);
+  const x1 = Math.min(x0 + 1, data.width - 1);
+  const y1 = Math.min(y0 + 1, data.height - 1);
+  const fx = px - x0;
+  const fy = py - y0;
+
+  const h00 = data.heights[y0 * data.width + x0] ?? 0;
+  const h10 = data.heights[y0 * data.width + x1] ?? 0;
+  const h01 = data.heights[y1 * data.width + x0] ?? 0;
+  const h11 = data.heights[y1 * data.width + x1] ?? 0;
+  const top = h00 + (h10 - h00) * fx;
+  const bottom = h01 + (h11 - h01) * fx;
+  return top + (bottom - top) * fy;
+}
+
+function createTerrainGeometry(
+  width: number,
+  height: number,
+  segments: number,
+  edges: GridEdgeSegments,
+  skirtDepth: number,
+  sampleZ: (u: number, v: number) => number
+): THREE.BufferGeometry {
+  const side = segments + 1;
+  const gridCount = side * side;
+  const heights = new Float32Array(gridCount);
+  for (let j = 0; j < side; j += 1) {
+    for (let i = 0; i < side; i += 1) {
+      heights[j * side + i] = sampleZ(i / segments, j / segments);
+    }
+  }
+  stitchGridEdges(heights, segments, edges);
+
+  const ringCount = segments * 8;
+  const positions = new Float32Array((gridCount + ringCount) * 3);
+  const uvs = new Float32Array((gridCount + ringCount) * 2);
+  const indices: number[] = [];
+
+  for (let j = 0; j < side; j += 1) {
+    const v = j / segments;
+    for (let i = 0; i < side; i += 1) {
+      const u = i / segments;
+      const index = j * side + i;
+      positions[index * 3] = (u - 0.5) * width;
+      positions[index * 3 + 1] = (0.5 - v) * height;
+      positions[index * 3 + 2] = heights[index] ?? 0;
+      uvs[index * 2] = u;
+      uvs[index * 2 + 1] = 1 - v;
+    }
+  }
+
+  for (let j = 0; j < segments; j += 1) {
+    for (let i = 0; i < segments; i += 1) {
+      const a = j * side + i;
+      const b = a + 1;
+      const c = a + side;
+      const d = c + 1;
+      indices.push(a, c, b, b, c, d);
+    }
+  }
+
+  // Skirts hang below the tile border and hide cracks against neighbours at other zoom levels.
+  // They use their own copies of the border vertices so the skirt faces do not bend the surface normals.
+  const ring: number[] = [];
+  for (let i = 0; i < segments; i += 1) ring.push(i);
+  for (let j = 0; j < segments; j += 1) ring.push(j * side + segments);
+  for (let i = segments; i > 0; i -= 1) ring.push(segments * side + i);
+  for (let j = segments; j > 0; j -= 1) ring.push(j * side);
+
+  for (let k = 0; k < ring.length; k += 1) {
+    const source = ring[k] ?? 0;
+    const top = gridCount + k * 2;
+    const bottom = top + 1;
+    for (const [target, drop] of [
+      [top, 0],
+      [bottom, skirtDepth]
+    ] as const) {
+      positions[target * 3] = positions[source * 3] ?? 0;
+      positions[target * 3 + 1] = positions[source * 3 + 1] ?? 0;
+      positions[target * 3 + 2] = (positions[source * 3 + 2] ?? 0) - drop;
+      uvs[target * 2] = uvs[source * 2] ?? 0;
+      uvs[target * 2 + 1] = uvs[source * 2 + 1] ?? 0;
+    }
+  }
+
+  for (let k = 0; k < ring.length; k += 1) {
+    const next = (k + 1) % ring.length;
+    const top0 = gridCount + k * 2;
+    const top1 = gridCount + next * 2;
+    indices.push(top0, top0 + 1, top1, top1, top0 + 1, top1 + 1);
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  geometry.computeBoundingSphere();
+  return geometry;
+}
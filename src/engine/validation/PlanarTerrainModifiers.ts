@@ -0,0 +1,283 @@
+import { crsRegistry, crsToLonLat, type CrsDefinition } from '../../geo/crs';
+import type { ClipPoint } from './PlanarClipMask';
+import { pointInRing } from './PlanarExcavation';
+import { unionBounds, type ViewportWorldBounds } from './PlanarTileMath';
+
+type LonLat = { lon: number; lat: number };
+
+type TerrainModifierBase = {
+  id?: string;
+  polygon: ReadonlyArray<LonLat>;
+  featherMeters?: number;
+  order?: number;
+};
+
+export type FlattenTerrainModifier = TerrainModifierBase & {
+  type: 'flatten';
+  height: number;
+};
+
+export type RaiseTerrainModifier = TerrainModifierBase & {
+  type: 'raise';
+  offset: number;
+};
+
+export type SlopeTerrainModifier = TerrainModifierBase & {
+  type: 'slope';
+  start: LonLat & { height: number };
+  end: LonLat & { height: number };
+};
+
+export type TerrainModifier = FlattenTerrainModifier | RaiseTerrainModifier | SlopeTerrainModifier;
+
+// With a projected `crs`, vertices may be written as { x, y } (or easting/northing in lon/lat);
+// parsing converts them to WGS84 lon/lat and drops the field.
+export type TerrainModifierDocument = {
+  version: 1;
+  crs?: string;
+  modifiers: TerrainModifier[];
+};
+
+type CompiledModifier = {
+  spec: TerrainModifier & { id: string; order: number };
+  sequence: number;
+  ring: ClipPoint[];
+  bounds: ViewportWorldBounds;
+  feather: number;
+  target: (x: number, y: number, height: number) => number;
+};
+
+type WorldProjector = {
+  lonLatToWorldXY: (lon: number, lat: number) => { x: number; y: number };
+  metersPerUnit: () => number;
+};
+
+const DOCUMENT_VERSION = 1;
+
+// Ordered list of polygon height edits. Lower `order` runs first; ties keep insertion order.
+export class PlanarTerrainModifierStack {
+  private readonly _projector: WorldProjector;
+  private readonly _modifiers = new Map<string, CompiledModifier>();
+  private _sorted: CompiledModifier[] = [];
+  private _idCounter = 0;
+  private _sequence = 0;
+
+  constructor(projector: WorldProjector) {
+    this._projector = projector;
+  }
+
+  get size(): number {
+    return this._modifiers.size;
+  }
+
+  list(): TerrainModifier[] {
+    return this._sorted.map((modifier) => cloneModifier(modifier.spec));
+  }
+
+  add(spec: TerrainModifier): { modifier: TerrainModifier; bounds: ViewportWorldBounds } {
+    const id = spec.id ?? `${spec.type}-${++this._idCounter}`;
+    const previous = this._modifiers.get(id);
+    const compiled = this.compile({ ...cloneModifier(spec), id, order: spec.order ?? this._sequence });
+    this._modifiers.set(id, compiled);
+    this.resort();
+
+    return {
+      modifier: cloneModifier(compiled.spec),
+      bounds: previous ? unionBounds(previous.bounds, compiled.bounds) : compiled.bounds
+    };
+  }
+
+  remove(id: string): ViewportWorldBounds | null {
+    const modifier = this._modifiers.get(id);
+    if (!modifier) return null;
+    this._modifiers.delete(id);
+    this.resort();
+    return modifier.bounds;
+  }
+
+  clear(): ViewportWorldBounds | null {
+    let bounds: ViewportWorldBounds | null = null;
+    for (const modifier of this._modifiers.values()) {
+      bounds = bounds ? unionBounds(bounds, modifier.bounds) : modifier.bounds;
+    }
+    this._modifiers.clear();
+    this._sorted = [];
+    return bounds;
+  }
+
+  toJSON(): TerrainModifierDocument {
+    return { version: DOCUMENT_VERSION, modifiers: this.list() };
+  }
+
+  apply(x: number, y: number, height: number): number {
+    let out = height;
+    for (const modifier of this._sorted) {
+      const { bounds, feather } = modifier;
+      if (x < bounds.minX || x > bounds.maxX || y < bounds.minY || y > bounds.maxY) continue;
+
+      let weight = 1;
+      if (!pointInRing(modifier.ring, x, y)) {
+        if (feather <= 0) continue;
+        const distance = distanceToRing(modifier.ring, x, y);
+        if (distance >= feather) continue;
+        const t = 1 - distance / feather;
+        weight = t * t * (3 - 2 * t);
+      }
+      out += (modifier.target(x, y, out) - out) * weight;
+    }
+    return out;
+  }
+
+  private compile(spec: TerrainModifier & { id: string; order: number }): CompiledModifier {
+    if (spec.polygon.length < 3) {
+      throw new Error(`Terrain modifier "${spec.id}" needs at least 3 polygon vertices.`);
+    }
+    const featherMeters = spec.featherMeters ?? 0;
+    if (!Number.isFinite(featherMeters) || featherMeters < 0) {
+      throw new Error(`Invalid featherMeters for terrain modifier "${spec.id}": ${featherMeters}`);
+    }
+    if (!Number.isFinite(spec.order)) {
+      throw new Error(`Invalid order for terrain modifier "${spec.id}": ${spec.order}`);
+    }
+
+    const ring = spec.polygon.map((point) => this.toWorld(point, spec.id));
+    let centroidLat = 0;
+    for (const point of spec.polygon) centroidLat += point.lat;
+    centroidLat /= spec.polygon.length;
+    // Web Mercator stretches ground distances by sec(lat); feather is given in ground meters.
+    const feather =
+      featherMeters / Math.cos((centroidLat * Math.PI) / 180) / this._projector.metersPerUnit();
+
+    const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    for (const point of ring) {
+      bounds.minX = Math.min(bounds.minX, point.x - feather);
+      bounds.minY = Math.min(bounds.minY, point.y - feather);
+      bounds.maxX = Math.max(bounds.maxX, point.x + feather);
+      bounds.maxY = Math.max(bounds.maxY, point.y + feather);
+    }
+
+    this._sequence = Math.max(this._sequence, Math.floor(spec.order)) + 1;
+    return {
+      spec,
+      sequence: this._sequence,
+      ring,
+      bounds,
+      feather,
+      target: this.buildTarget(spec)
+    };
+  }
+
+  private buildTarget(spec: TerrainModifier & { id: string }): CompiledModifier['target'] {
+    switch (spec.type) {
+      case 'flatten': {
+        assertFinite(spec.height, `flatten height of "${spec.id}"`);
+        const height = spec.height;
+        return () => height;
+      }
+      case 'raise': {
+        assertFinite(spec.offset, `raise offset of "${spec.id}"`);
+        const offset = spec.offset;
+        return (_x, _y, current) => current + offset;
+      }
+      case 'slope': {
+        assertFinite(spec.start.height, `slope start height of "${spec.id}"`);
+        assertFinite(spec.end.height, `slope end height of "${spec.id}"`);
+        const start = this.toWorld(spec.start, spec.id);
+        const end = this.toWorld(spec.end, spec.id);
+        const dx = end.x - start.x;
+        const dy = end.y - start.y;
+        const lengthSq = dx * dx + dy * dy;
+        if (lengthSq <= 0) {
+          throw new Error(`Slope modifier "${spec.id}" needs distinct start and end points.`);
+        }
+        const h0 = spec.start.height;
+        const h1 = spec.end.height;
+        return (x, y) => {
+          const t = Math.max(0, Math.min(1, ((x - start.x) * dx + (y - start.y) * dy) / lengthSq));
+          return h0 + (h1 - h0) * t;
+        };
+      }
+      default: {
+        const unknown: { type?: unknown } = spec;
+        throw new Error(`Unsupported terrain modifier type: ${String(unknown.type)}`);
+      }
+    }
+  }
+
+  private toWorld(point: LonLat, id: string): ClipPoint {
+    if (!Number.isFinite(point.lon) || !Number.isFinite(point.lat)) {
+      throw new Error(`Invalid vertex for terrain modifier "${id}": ${point.lon},${point.lat}`);
+    }
+    return this._projector.lonLatToWorldXY(point.lon, point.lat);
+  }
+
+  private resort(): void {
+    this._sorted = [...this._modifiers.values()].sort(
+      (a, b) => a.spec.order - b.spec.order || a.sequence - b.sequence
+    );
+  }
+}
+
+export function parseTerrainModifierDocument(input: TerrainModifierDocument | string): TerrainModifierDocument {
+  const parsed: unknown = typeof input === 'string' ? JSON.parse(input) : input;
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Terrain modifier document must be an object.');
+  }
+  const doc = parsed as Partial<TerrainModifierDocument>;
+  if (doc.version !== DOCUMENT_VERSION) {
+    throw new Error(`Unsupported terrain modifier document version: ${String(doc.version)}`);
+  }
+  if (!Array.isArray(doc.modifiers)) {
+    throw new Error('Terrain modifier document is missing a modifiers array.');
+  }
+  const crs = crsRegistry.resolve(doc.crs ?? 'EPSG:4326');
+  const modifiers =
+    crs.projection.type === 'longlat' ? doc.modifiers : doc.modifiers.map((spec) => reprojectModifier(spec, crs));
+  return { version: DOCUMENT_VERSION, modifiers };
+}
+
+function reprojectModifier(spec: TerrainModifier, crs: CrsDefinition): TerrainModifier {
+  const polygon = spec.polygon.map((point) => documentPointToLonLat(point, crs));
+  if (spec.type !== 'slope') return { ...spec, polygon };
+  return {
+    ...spec,
+    polygon,
+    start: { ...documentPointToLonLat(spec.start, crs), height: spec.start.height },
+    end: { ...documentPointToLonLat(spec.end, crs), height: spec.end.height }
+  };
+}
+
+function documentPointToLonLat(point: LonLat, crs: CrsDefinition): LonLat {
+  const raw = point as Partial<LonLat & { x: number; y: number }>;
+  const x = raw.x ?? raw.lon;
+  const y = raw.y ?? raw.lat;
+  if (x === undefined || y === undefined || !Number.isFinite(x) || !Number.isFinite(y)) {
+    throw new Error(`Invalid vertex in terrain modifier document: ${JSON.stringify(point)}`);
+  }
+  return crsToLonLat(crs, x, y);
+}
+
+function distanceToRing(ring: readonly ClipPoint[], x: number, y: number): number {
+  let best = Number.POSITIVE_INFINITY;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i, i += 1) {
+    const a = ring[j];
+    const b = ring[i];
+    if (!a || !b) continue;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / lengthSq)) : 0;
+    best = Math.min(best, Math.hypot(x - (a.x + dx * t), y - (a.y + dy * t)));
+  }
+  return best;
+}
+
+function cloneModifier<T extends TerrainModifier>(spec: T): T {
+  return JSON.parse(JSON.stringify(spec)) as T;
+}
+
+function assertFinite(value: number, context: string): void {
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid ${context}: ${value}`);
+  }
+}
@@ -0,0 +1,387 @@
+import * as THREE from 'three';
+import type { GeoCoordinator, Vec3 } from '../../geo/coords';
+import { crsRegistry, type CrsInput } from '../../geo/crs';
+import { WEB_MERCATOR_R } from '../../geo/ellipsoid';
+
+export type TileId = {
+  x: number;
+  y: number;
+  z: number;
+};
+
+export type ViewportWorldBounds = {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+};
+
+type WorldPoint = { x: number; y: number };
+
+// Convex outline of the ground seen by the camera, counter-clockwise in world XY.
+export type GroundFootprint = {
+  polygon: readonly WorldPoint[];
+  bounds: ViewportWorldBounds;
+};
+
+export const WEB_MERCATOR_HALF_WORLD = Math.PI * WEB_MERCATOR_R;
+export const WEB_MERCATOR_WORLD_SIZE = WEB_MERCATOR_HALF_WORLD * 2;
+
+const DEFAULT_SUBDOMAINS = ['a', 'b', 'c'];
+// Corner pairs of the frustum edges: near rectangle, far rectangle, then the four sides.
+const FRUSTUM_EDGES: ReadonlyArray<readonly [number, number]> = [
+  [0, 1],
+  [1, 2],
+  [2, 3],
+  [3, 0],
+  [4, 5],
+  [5, 6],
+  [6, 7],
+  [7, 4],
+  [0, 4],
+  [1, 5],
+  [2, 6],
+  [3, 7]
+];
+
+export function tileRectInWorld(
+  geo: GeoCoordinator,
+  tileId: TileId,
+  originMercatorX: number,
+  originMercatorY: number
+): { centerX: number; centerY: number; width: number; height: number } {
+  const nw = geo.tileToLonLat(tileId.x, tileId.y, tileId.z);
+  const se = geo.tileToLonLat(tileId.x + 1, tileId.y + 1, tileId.z);
+
+  const minMercator = geo.lonLatToWebMercator(nw.lon, se.lat);
+  const maxMercator = geo.lonLatToWebMercator(se.lon, nw.lat);
+
+  const widthMeters = Math.abs(maxMercator.x - minMercator.x);
+  const heightMeters = Math.abs(maxMercator.y - minMercator.y);
+  const centerMercatorX = (minMercator.x + maxMercator.x) * 0.5;
+  const centerMercatorY = (minMercator.y + maxMercator.y) * 0.5;
+
+  return {
+    centerX: (centerMercatorX - originMercatorX) / geo.metersPerUnit,
+    centerY: (centerMercatorY - originMercatorY) / geo.metersPerUnit,
+    width: widthMeters / geo.metersPerUnit,
+    height: heightMeters / geo.metersPerUnit
+  };
+}
+
+export function childTileIds(tileId: TileId): TileId[] {
+  const x = tileId.x * 2;
+  const y = tileId.y * 2;
+  const z = tileId.z + 1;
+  return [
+    { x, y, z },
+    { x: x + 1, y, z },
+    { x, y: y + 1, z },
+    { x: x + 1, y: y + 1, z }
+  ];
+}
+
+export function tileKey(tileId: TileId): string {
+  return `${tileId.z}/${tileId.x}/${tileId.y}`;
+}
+
+export function wrapInt(value: number, range: number): number {
+  return ((value % range) + range) % range;
+}
+
+export function clampInt(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, Math.round(value)));
+}
+
+export function clampNumber(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+export function shortestTileDx(centerX: number, tileX: number, n: number): number {
+  const raw = Math.abs(tileX - centerX);
+  return Math.min(raw, n - raw);
+}
+
+export function sanitizeViewportBounds(bounds: ViewportWorldBounds | null): ViewportWorldBounds | null {
+  if (!bounds) return null;
+  if (
+    !Number.isFinite(bounds.minX) ||
+    !Number.isFinite(bounds.minY) ||
+    !Number.isFinite(bounds.maxX) ||
+    !Number.isFinite(bounds.maxY)
+  ) {
+    return null;
+  }
+  if (bounds.maxX <= bounds.minX || bounds.maxY <= bounds.minY) {
+    return null;
+  }
+  return bounds;
+}
+
+export function mercatorBoundsToTileRange(
+  minMercatorX: number,
+  minMercatorY: number,
+  maxMercatorX: number,
+  maxMercatorY: number,
+  zoom: number,
+  marginTiles: number
+): { minXRaw: number; maxXRaw: number; minY: number; maxY: number } | null {
+  if (
+    !Number.isFinite(minMercatorX) ||
+    !Number.isFinite(minMercatorY) ||
+    !Number.isFinite(maxMercatorX) ||
+    !Number.isFinite(maxMercatorY)
+  ) {
+    return null;
+  }
+
+  const n = 2 ** zoom;
+  const tileSize = WEB_MERCATOR_WORLD_SIZE / n;
+  const clampedMinY = Math.max(-WEB_MERCATOR_HALF_WORLD, Math.min(WEB_MERCATOR_HALF_WORLD, minMercatorY));
+  const clampedMaxY = Math.max(-WEB_MERCATOR_HALF_WORLD, Math.min(WEB_MERCATOR_HALF_WORLD, maxMercatorY));
+
+  const minXRaw = Math.floor((minMercatorX + WEB_MERCATOR_HALF_WORLD) / tileSize) - marginTiles;
+  const maxXRaw = Math.floor((maxMercatorX + WEB_MERCATOR_HALF_WORLD) / tileSize) + marginTiles;
+  const minY = clampInt(
+    Math.floor((WEB_MERCATOR_HALF_WORLD - clampedMaxY) / tileSize) - marginTiles,
+    0,
+    n - 1
+  );
+  const maxY = clampInt(
+    Math.floor((WEB_MERCATOR_HALF_WORLD - clampedMinY) / tileSize) + marginTiles,
+    0,
+    n - 1
+  );
+
+  if (maxY < minY) return null;
+  return { minXRaw, maxXRaw, minY, maxY };
+}
+
+export function nowMs(): number {
+  if (typeof performance !== 'undefined' && typeof performance.now === 'function') {
+    return performance.now();
+  }
+  return Date.now();
+}
+
+// XYZ/TMS tile pyramids here are laid out on the Web Mercator grid; other tile matrix sets are rejected.
+export function assertWebMercatorTileCrs(crs: CrsInput | undefined, layerName: string): void {
+  if (crs === undefined) return;
+  const definition = crsRegistry.resolve(crs);
+  if (definition.projection.type !== 'webmercator') {
+    throw new Error(`${layerName} only supports Web Mercator (EPSG:3857) tile grids, got "${definition.code}".`);
+  }
+}
+
+export function normalizeSubdomains(input: readonly string[] | string | undefined): readonly string[] {
+  if (Array.isArray(input)) {
+    const out = input.map((x) => String(x).trim()).filter((x) => x.length > 0);
+    return out.length > 0 ? out : DEFAULT_SUBDOMAINS;
+  }
+
+  if (typeof input === 'string') {
+    const trimmed = input.trim();
+    if (trimmed.length === 0) {
+      return DEFAULT_SUBDOMAINS;
+    }
+    const rangeMatch = /^(\d+)\s*-\s*(\d+)$/.exec(trimmed);
+    if (rangeMatch) {
+      const start = Number(rangeMatch[1]);
+      const end = Number(rangeMatch[2]);
+      if (Number.isInteger(start) && Number.isInteger(end) && end >= start) {
+        const out: string[] = [];
+        for (let i = start; i <= end; i += 1) out.push(String(i));
+        return out.length > 0 ? out : DEFAULT_SUBDOMAINS;
+      }
+    }
+    const split = trimmed
+      .split(',')
+      .map((x) => x.trim())
+      .filter((x) => x.length > 0);
+    if (split.length > 0) {
+      return split;
+    }
+    if (trimmed.length > 1) {
+      return trimmed.split('');
+    }
+    return [trimmed];
+  }
+
+  return DEFAULT_SUBDOMAINS;
+}
+
+// Fractional tile coordinates: integer part is the tile index, fraction is the position inside it.
+export function mercatorToTileFraction(
+  mercatorX: number,
+  mercatorY: number,
+  zoom: number
+): { x: number; y: number } {
+  const tileSize = WEB_MERCATOR_WORLD_SIZE / 2 ** zoom;
+  return {
+    x: (mercatorX + WEB_MERCATOR_HALF_WORLD) / tileSize,
+    y: (WEB_MERCATOR_HALF_WORLD - mercatorY) / tileSize
+  };
+}
+
+export function tileBoundsInWorld(rect: {
+  centerX: number;
+  centerY: number;
+  width: number;
+  height: number;
+}): ViewportWorldBounds {
+  return {
+    minX: rect.centerX - rect.width * 0.5,
+    minY: rect.centerY - rect.height * 0.5,
+    maxX: rect.centerX + rect.width * 0.5,
+    maxY: rect.centerY + rect.height * 0.5
+  };
+}
+
+export function boundsIntersect(a: ViewportWorldBounds, b: ViewportWorldBounds): boolean {
+  return a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+}
+
+export function unionBounds(a: ViewportWorldBounds, b: ViewportWorldBounds): ViewportWorldBounds {
+  return {
+    minX: Math.min(a.minX, b.minX),
+    minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX),
+    maxY: Math.max(a.maxY, b.maxY)
+  };
+}
+
+// Doubles the grid until its spacing reaches the requested detail, so refined grids always contain the base grid.
+export function refineGridSegments(
+  baseSegments: number,
+  extent: number,
+  spacing: number | null,
+  maxSegments: number
+): number {
+  let segments = baseSegments;
+  if (spacing === null || !(spacing > 0)) return segments;
+  while (segments * 2 <= maxSegments && extent / segments > spacing) {
+    segments *= 2;
+  }
+  return segments;
+}
+
+export type GridEdgeSegments = {
+  north: number;
+  east: number;
+  south: number;
+  west: number;
+};
+
+// Heights are row-major from the north-west corner. Border vertices that a coarser neighbour does not
+// have are moved onto the neighbour's straight edge so the two meshes meet without cracks.
+export function stitchGridEdges(heights: Float32Array, segments: number, edges: GridEdgeSegments): void {
+  const side = segments + 1;
+  const stitch = (coarse: number, indexAt: (k: number) => number) => {
+    if (coarse >= segments || coarse <= 0 || segments % coarse !== 0) return;
+    const ratio = segments / coarse;
+    for (let k = 0; k <= segments; k += 1) {
+      const offset = k % ratio;
+      if (offset === 0) continue;
+      const a = heights[indexAt(k - offset)] ?? 0;
+      const b = heights[indexAt(k - offset + ratio)] ?? 0;
+      heights[indexAt(k)] = a + ((b - a) * offset) / ratio;
+    }
+  };
+
+  stitch(edges.north, (k) => k);
+  stitch(edges.south, (k) => segments * side + k);
+  stitch(edges.west, (k) => k * side);
+  stitch(edges.east, (k) => k * side + segments);
+}
+
+// The slice of the frustum by the plane z = groundZ is the convex hull of the points where the frustum edges
+// cross the plane, so tilted views reach out to the far plane instead of failing at the horizon.
+// The camera's world and projection matrices must be up to date. The camera sits in the render frame, so its
+// corners are shifted by `renderOrigin` and the footprint comes back in world units like the tile bounds.
+export function computeGroundFootprint(
+  camera: THREE.Camera,
+  renderOrigin: Vec3 = { x: 0, y: 0, z: 0 },
+  groundZ = 0
+): GroundFootprint | null {
+  const offset = new THREE.Vector3(renderOrigin.x, renderOrigin.y, renderOrigin.z);
+  const corners: THREE.Vector3[] = [];
+  for (const ndcZ of [-1, 1]) {
+    for (const [ndcX, ndcY] of [
+      [-1, -1],
+      [1, -1],
+      [1, 1],
+      [-1, 1]
+    ] as const) {
+      corners.push(new THREE.Vector3(ndcX, ndcY, ndcZ).unproject(camera).add(offset));
+    }
+  }
+
+  const points: WorldPoint[] = [];
+  for (const [i, j] of FRUSTUM_EDGES) {
+    const a = corners[i];
+    const b = corners[j];
+    if (!a || !b) continue;
+    const da = a.z - groundZ;
+    const db = b.z - groundZ;
+    if (da === 0) points.push({ x: a.x, y: a.y });
+    if (da * db < 0) {
+      const t = da / (da - db);
+      points.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+    }
+  }
+
+  const polygon = convexHull(points.filter((point) => Number.isFinite(point.x) && Number.isFinite(point.y)));
+  if (polygon.length < 3) return null;
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  for (const point of polygon) {
+    bounds.minX = Math.min(bounds.minX, point.x);
+    bounds.minY = Math.min(bounds.minY, point.y);
+    bounds.maxX = Math.max(bounds.maxX, point.x);
+    bounds.maxY = Math.max(bounds.maxY, point.y);
+  }
+  return { polygon, bounds };
+}
+
+// Separating-axis test; the inside of a counter-clockwise polygon lies left of every edge.
+export function footprintIntersectsBounds(footprint: GroundFootprint, bounds: ViewportWorldBounds): boolean {
+  if (!boundsIntersect(footprint.bounds, bounds)) return false;
+  const { polygon } = footprint;
+  for (let i = 0; i < polygon.length; i += 1) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    if (!a || !b) continue;
+    const ex = b.x - a.x;
+    const ey = b.y - a.y;
+    const rightOf = (x: number, y: number) => ex * (y - a.y) - ey * (x - a.x) < 0;
+    if (
+      rightOf(bounds.minX, bounds.minY) &&
+      rightOf(bounds.maxX, bounds.minY) &&
+      rightOf(bounds.maxX, bounds.maxY) &&
+      rightOf(bounds.minX, bounds.maxY)
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Monotone chain; returns the hull counter-clockwise without repeating the first point.
+function convexHull(points: readonly WorldPoint[]): WorldPoint[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+  const build = (list: readonly WorldPoint[]) => {
+    const chain: WorldPoint[] = [];
+    for (const point of list) {
+      while (chain.length >= 2) {
+        const o = chain[chain.length - 2];
+        const a = chain[chain.length - 1];
+        if (!o || !a || (a.x - o.x) * (point.y - o.y) - (a.y - o.y) * (point.x - o.x) > 0) break;
+        chain.pop();
+      }
+      chain.push(point);
+    }
+    chain.pop();
+    return chain;
+  };
+  return [...build(sorted), ...build([...sorted].reverse())];
+}
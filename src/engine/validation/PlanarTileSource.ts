@@ -0,0 +1,97 @@
+import { WEB_MERCATOR_MAX_LAT } from '../../geo/ellipsoid';
+import type { TileId } from './PlanarTileMath';
+
+// 'mercator' tiles split the EPSG:3857 square; 'geographic' tiles split lon/lat degrees (EPSG:4326, CGCS2000).
+export type TileGridProjection = 'mercator' | 'geographic';
+
+// A tile pyramid whose level 0 has rootColumns x rootRows tiles over the whole world, with every level
+// halving the tiles of the one above; x grows east and y grows south.
+export type PlanarTileSource = {
+  projection: TileGridProjection;
+  rootColumns: number;
+  rootRows: number;
+  // Levels the source serves; coarser views still refine down to minZoom.
+  minZoom: number;
+  maxZoom: number;
+  tileSize?: number;
+  hasTile: (tileId: TileId) => boolean;
+  tileUrl: (tileId: TileId) => string;
+};
+
+// Layout part of a source, enough to place its tiles.
+export type TileGrid = Pick<PlanarTileSource, 'projection' | 'rootColumns' | 'rootRows'>;
+
+export type XyzTileSourceOptions = {
+  urlTemplate: string;
+  yType?: 'xyz' | 'tms';
+  subdomains?: readonly string[];
+  minZoom?: number;
+  maxZoom?: number;
+};
+
+// Lon/lat extent of a tile in degrees; Mercator tiles stop at the projection's latitude limit.
+export type TileRegion = {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+};
+
+export function createXyzTileSource(options: XyzTileSourceOptions): PlanarTileSource {
+  const subdomains = options.subdomains ?? [];
+  const yType = options.yType ?? 'xyz';
+  return {
+    projection: 'mercator',
+    rootColumns: 1,
+    rootRows: 1,
+    minZoom: options.minZoom ?? 0,
+    maxZoom: options.maxZoom ?? 22,
+    hasTile: (tileId) => isTileInGrid(1, 1, tileId),
+    tileUrl: (tileId) => {
+      const y = yType === 'tms' ? 2 ** tileId.z - 1 - tileId.y : tileId.y;
+      return options.urlTemplate
+        .replace('{z}', String(tileId.z))
+        .replace('{x}', String(tileId.x))
+        .replace('{y}', String(y))
+        .replace('{s}', pickSubdomain(subdomains, tileId));
+    }
+  };
+}
+
+export function tileRegion(source: TileGrid, tileId: TileId): TileRegion {
+  const columns = source.rootColumns * 2 ** tileId.z;
+  const rows = source.rootRows * 2 ** tileId.z;
+  const west = (tileId.x / columns) * 360 - 180;
+  const east = ((tileId.x + 1) / columns) * 360 - 180;
+  if (source.projection === 'geographic') {
+    return { west, south: 90 - ((tileId.y + 1) / rows) * 180, east, north: 90 - (tileId.y / rows) * 180 };
+  }
+  const latAt = (y: number) => (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / rows))) * 180) / Math.PI;
+  return { west, south: latAt(tileId.y + 1), east, north: latAt(tileId.y) };
+}
+
+// Part of a tile that the planar Web Mercator world can show, or null for rows beyond its latitude limit.
+export function clampRegionToMercator(region: TileRegion): TileRegion | null {
+  const south = Math.max(-WEB_MERCATOR_MAX_LAT, region.south);
+  const north = Math.min(WEB_MERCATOR_MAX_LAT, region.north);
+  return north > south ? { ...region, south, north } : null;
+}
+
+export function isTileInGrid(rootColumns: number, rootRows: number, tileId: TileId): boolean {
+  const scale = 2 ** tileId.z;
+  return tileId.x >= 0 && tileId.y >= 0 && tileId.x < rootColumns * scale && tileId.y < rootRows * scale;
+}
+
+export function pickSubdomain(subdomains: readonly string[], tileId: TileId): string {
+  if (subdomains.length === 0) return '';
+  return subdomains[Math.abs(tileId.x + tileId.y + tileId.z) % subdomains.length] ?? '';
+}
+
+export function appendQuery(url: string, params: Readonly<Record<string, string>>): string {
+  const query = Object.entries(params)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+  if (!query) return url;
+  if (url.endsWith('?') || url.endsWith('&')) return url + query;
+  return `${url}${url.includes('?') ? '&' : '?'}${query}`;
+}
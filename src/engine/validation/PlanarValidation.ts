@@ -2,12 +2,17 @@ import * as THREE from 'three';
 import type { GeoCoordinator, Vec3 } from '../../geo/coords';
 import type { CameraController } from '../CameraController';
 import type { ToolManager } from '../ToolManager';
+import type { ToolModule } from '../tools/types';
+import { createImageryLayerToolModule, imageryLayerToolModule } from '../tools/items/layers';
+import { createSurveyToolModule, surveyToolModule } from '../tools/items/survey';
+import { PlanarClipMask } from './PlanarClipMask';
+import { PlanarClipping } from './PlanarClipping';
+import { PlanarImageryLayers } from './PlanarImageryLayers';
 import { PlanarLodGrid, type PlanarLodGridOptions } from './PlanarLodGrid';
-import {
-  PlanarMapTileLayer,
-  type PlanarMapTileLayerOptions,
-  type ViewportWorldBounds
-} from './PlanarMapTileLayer';
+import type { PlanarMapTileLayer, PlanarMapTileLayerOptions } from './PlanarMapTileLayer';
+import { PlanarSurvey } from './PlanarSurvey';
+import { PlanarTerrainLayer, type PlanarTerrainLayerOptions } from './PlanarTerrainLayer';
+import { computeGroundFootprint } from './PlanarTileMath';
 
 export type PlanarValidationOptions = {
   frontLonDeg?: number;
@@ -16,6 +21,7 @@ export type PlanarValidationOptions = {
   hud?: boolean;
   lodGrid?: false | PlanarLodGridOptions;
   mapTiles?: false | PlanarMapTileLayerOptions;
+  terrain?: false | PlanarTerrainLayerOptions;
 };
 
 type PlanarValidationContext = {
@@ -30,7 +36,13 @@ type PlanarValidationContext = {
 
 const DEFAULT_PLANE_SIZE = 240_000;
 const DEFAULT_TOP_VIEW_HEIGHT = 12_000;
-const MAX_VIEWPORT_EXTENT = 20_000_000;
+// The single-zoom terrain layer falls back to its tile radius for footprints larger than this.
+const MAX_TERRAIN_VIEWPORT_EXTENT = 20_000_000;
+const TERRAIN_TOOL_ID = 'terrain-toggle';
+const BASE_IMAGERY_LAYER_ID = 'base';
+const PICK_MARCH_STEPS = 256;
+const PICK_REFINE_STEPS = 24;
+const PICK_MIN_HEIGHT_METERS = -500;
 
 export class PlanarValidation {
   private readonly _renderer: THREE.WebGLRenderer;
@@ -41,14 +53,21 @@ export class PlanarValidation {
   private readonly _setRenderOrigin: (threeWorld: Vec3, keepWorldCamera?: boolean) => Vec3;
   private readonly _root = new THREE.Group();
   private readonly _lodGrid: PlanarLodGrid | null;
-  private readonly _mapTiles: PlanarMapTileLayer | null;
+  private readonly _imagery: PlanarImageryLayers;
+  private readonly _terrain: PlanarTerrainLayer | null;
+  private readonly _clipping: PlanarClipping;
+  private readonly _ownedClipMask: PlanarClipMask | null;
+  private readonly _survey: PlanarSurvey;
   private readonly _initialCameraHeight: number;
   private readonly _hudEnabled: boolean;
+  private readonly _frontLonDeg: number;
 
   private readonly _toolManager: ToolManager | null;
   private readonly _hudPanelId: string | null;
   private readonly _fpsPanelId: string | null;
   private readonly _onKeyDownBound: (event: KeyboardEvent) => void;
+  private readonly _offToolStateChange: (() => void) | null;
+  private readonly _toolModules: readonly ToolModule[];
   private readonly _tmpRayPoint = new THREE.Vector3();
   private readonly _tmpRayDir = new THREE.Vector3();
   private readonly _tmpCameraDir = new THREE.Vector3();
@@ -56,6 +75,7 @@ export class PlanarValidation {
   private _lastFpsSampleMs = 0;
   private _fpsFrames = 0;
   private _fps = 0;
+  private _active = true;
   private _disposed = false;
 
   constructor(context: PlanarValidationContext, options?: PlanarValidationOptions) {
@@ -72,7 +92,8 @@ export class PlanarValidation {
     this._fpsPanelId = 'planar-validation-fps';
     this.setupPanels();
 
-    this._geo.setFrontLonDeg(options?.frontLonDeg ?? 0);
+    this._frontLonDeg = options?.frontLonDeg ?? 0;
+    this._geo.setFrontLonDeg(this._frontLonDeg);
     this._setRenderOrigin({ x: 0, y: 0, z: 0 }, false);
 
     const planeSize = options?.planeSize ?? DEFAULT_PLANE_SIZE;
@@ -87,17 +108,73 @@ export class PlanarValidation {
       this._root.add(this._lodGrid.object3d);
     }
 
-    const anisotropy = Math.max(1, Math.min(8, this._renderer.capabilities.getMaxAnisotropy()));
-    this._mapTiles =
-      options?.mapTiles === false
+    // Terrain and every imagery layer share one planar frame: the base map's origin, or the terrain's when there
+    // is no base map. Engine.planarOrigin resolves the same point.
+    const mapTiles = options?.mapTiles;
+    const terrain = options?.terrain;
+    const origin =
+      mapTiles !== false
+        ? { lon: mapTiles?.originLon ?? 0, lat: mapTiles?.originLat ?? 0 }
+        : terrain
+          ? { lon: terrain.originLon ?? 0, lat: terrain.originLat ?? 0 }
+          : { lon: 0, lat: 0 };
+    this._terrain =
+      terrain === undefined || terrain === false
         ? null
-        : new PlanarMapTileLayer(this._geo, {
-            maxAnisotropy: anisotropy,
-            ...(options?.mapTiles ?? {})
+        : new PlanarTerrainLayer(this._geo, {
+            surface: mapTiles === false ? 'shaded' : 'hidden',
+            ...terrain,
+            originLon: origin.lon,
+            originLat: origin.lat
           });
-    if (this._mapTiles) {
-      this._root.add(this._mapTiles.object3d);
+
+    const anisotropy = Math.max(1, Math.min(8, this._renderer.capabilities.getMaxAnisotropy()));
+    this._imagery = new PlanarImageryLayers(this._geo, {
+      originLon: origin.lon,
+      originLat: origin.lat,
+      maxAnisotropy: anisotropy
+    });
+    if (mapTiles !== false) {
+      const { enabled, originLon, originLat, ...baseOptions } = mapTiles ?? {};
+      if (enabled !== false) {
+        this._imagery.add({ id: BASE_IMAGERY_LAYER_ID, name: 'Base map', debugOverlay: true, ...baseOptions });
+      }
     }
+    this._root.add(this._imagery.object3d);
+
+    // Imagery still needs a mask for user clipping when there is no terrain layer to own one.
+    const clipMask = this._terrain ? this._terrain.clipMask : new PlanarClipMask();
+    this._ownedClipMask = this._terrain ? null : clipMask;
+    this._imagery.setClipMask(clipMask);
+    this._clipping = new PlanarClipping(clipMask, {
+      lonLatToWorldXY: (lon, lat) => this.lonLatToWorldXY(lon, lat),
+      heightToWorldZ: (heightMeters) =>
+        this._terrain ? this._terrain.heightToWorldZ(heightMeters) : heightMeters / this._geo.metersPerUnit,
+      metersPerUnit: () => this._geo.metersPerUnit
+    });
+    this._root.add(this._clipping.object3d);
+
+    this._survey = new PlanarSurvey({
+      geo: this._geo,
+      domElement: this._renderer.domElement,
+      pickSurface: (clientX, clientY) => this.pickSurface(clientX, clientY),
+      worldXYToLonLat: (x, y) => this.worldXYToLonLat(x, y),
+      lonLatToWorldXY: (lon, lat) => this.lonLatToWorldXY(lon, lat),
+      terrain: this._terrain,
+      metersPerUnit: () => this._geo.metersPerUnit
+    });
+    this._root.add(this._survey.object3d);
+    this._toolModules = [createSurveyToolModule(this._survey), createImageryLayerToolModule(this._imagery)];
+    this._toolManager?.registerTools(this._toolModules);
+
+    if (this._terrain) {
+      this._root.add(this._terrain.object3d);
+      this.setTerrainEnabled(this._terrain.enabled);
+    }
+    this._offToolStateChange =
+      this._toolManager?.onToolStateChange((id, active) => {
+        if (id === TERRAIN_TOOL_ID) this.setTerrainEnabled(active);
+      }) ?? null;
 
     this._worldRoot.add(this._root);
     this.applyTopView(this._initialCameraHeight);
@@ -141,22 +218,152 @@ export class PlanarValidation {
     }
   }
 
+  get active(): boolean {
+    return this._active;
+  }
+
+  // An inactive scene keeps its layers, edits and measurements but is hidden and skips updates, handing the
+  // shared HUD, the toolbar entries and the keyboard to whatever is shown instead (the globe).
+  setActive(active: boolean): void {
+    if (this._disposed || this._active === active) return;
+    this._active = active;
+    this._root.visible = active;
+    if (!active) {
+      this._survey.cancelDrawing();
+      this._toolManager?.registerTools([surveyToolModule, imageryLayerToolModule]);
+      this.removePanels();
+      return;
+    }
+    this._geo.setFrontLonDeg(this._frontLonDeg);
+    this._setRenderOrigin({ x: 0, y: 0, z: 0 }, false);
+    this._toolManager?.registerTools(this._toolModules);
+    this.setupPanels();
+    this._lastFpsSampleMs = 0;
+  }
+
+  get terrain(): PlanarTerrainLayer | null {
+    return this._terrain;
+  }
+
+  // The base map configured by `mapTiles`, while it has not been removed from the layer stack.
+  get mapTiles(): PlanarMapTileLayer | null {
+    return this._imagery.tileLayer(BASE_IMAGERY_LAYER_ID);
+  }
+
+  get imageryLayers(): PlanarImageryLayers {
+    return this._imagery;
+  }
+
+  get clipping(): PlanarClipping {
+    return this._clipping;
+  }
+
+  get survey(): PlanarSurvey {
+    return this._survey;
+  }
+
+  setTerrainEnabled(enabled: boolean): void {
+    if (!this._terrain) return;
+    this._terrain.setEnabled(enabled);
+    this._imagery.setElevationSampler(enabled ? this._terrain : null);
+    this._clipping.setElevationSampler(enabled ? this._terrain : null);
+    this._toolManager?.setToolActive(TERRAIN_TOOL_ID, enabled);
+  }
+
+  worldXYToLonLat(x: number, y: number): { lon: number; lat: number } {
+    return this._imagery.worldXYToLonLat(x, y);
+  }
+
+  lonLatToWorldXY(lon: number, lat: number): { x: number; y: number } {
+    return this._imagery.lonLatToWorldXY(lon, lat);
+  }
+
+  // Top view `cameraHeight` metres above the point.
+  focusOn(lon: number, lat: number, cameraHeight: number): void {
+    const { x, y } = this.lonLatToWorldXY(lon, lat);
+    this._cameraController?.setTarget({ x, y, z: 0 });
+    this._camera.up.set(0, 1, 0);
+    this._camera.position.set(x, y, Math.max(cameraHeight / this._geo.metersPerUnit, 1));
+    this._camera.lookAt(x, y, 0);
+  }
+
+  pickSurface(clientX: number, clientY: number): Vec3 | null {
+    if (!this._active) return null;
+    const rect = this._renderer.domElement.getBoundingClientRect();
+    if (rect.width <= 0 || rect.height <= 0) return null;
+
+    const nx = ((clientX - rect.left) / rect.width) * 2 - 1;
+    const ny = -((clientY - rect.top) / rect.height) * 2 + 1;
+    this._tmpRayPoint.set(nx, ny, 0.5).unproject(this._camera);
+    const dir = this._tmpRayDir.copy(this._tmpRayPoint).sub(this._camera.position).normalize();
+    const origin = this._geo.renderToWorld({
+      x: this._camera.position.x,
+      y: this._camera.position.y,
+      z: this._camera.position.z
+    });
+    const at = (t: number): Vec3 => ({ x: origin.x + dir.x * t, y: origin.y + dir.y * t, z: origin.z + dir.z * t });
+
+    const terrain = this._terrain?.enabled ? this._terrain : null;
+    if (!terrain) {
+      if (dir.z > -1e-9) return null;
+      return at(-origin.z / dir.z);
+    }
+
+    const lowestZ = terrain.heightToWorldZ(PICK_MIN_HEIGHT_METERS);
+    const maxT = dir.z < -1e-9 ? (origin.z - lowestZ) / -dir.z : this._camera.far;
+    const aboveSurface = (t: number): boolean => {
+      const point = at(t);
+      return point.z > (terrain.sampleWorldZ(point.x, point.y) ?? 0);
+    };
+
+    let prevT = 0;
+    let hitT = -1;
+    for (let i = 1; i <= PICK_MARCH_STEPS; i += 1) {
+      const t = (maxT * i) / PICK_MARCH_STEPS;
+      if (!aboveSurface(t)) {
+        hitT = t;
+        break;
+      }
+      prevT = t;
+    }
+    if (hitT < 0) return null;
+
+    for (let i = 0; i < PICK_REFINE_STEPS; i += 1) {
+      const mid = (prevT + hitT) * 0.5;
+      if (aboveSurface(mid)) prevT = mid;
+      else hitT = mid;
+    }
+    const hit = at(hitT);
+    return { x: hit.x, y: hit.y, z: terrain.sampleWorldZ(hit.x, hit.y) ?? hit.z };
+  }
+
   update(cameraWorld: Vec3): void {
-    if (this._disposed) return;
+    if (this._disposed || !this._active) return;
 
     const rawFocus = this._cameraController?.target ?? { x: cameraWorld.x, y: cameraWorld.y, z: 0 };
     if (this._cameraController && Math.abs(rawFocus.z) > 1e-6) {
       this._cameraController.setTarget({ x: rawFocus.x, y: rawFocus.y, z: 0 });
     }
-    const focus = { x: rawFocus.x, y: rawFocus.y, z: 0 };
-    const cameraHeight = Math.abs(this._camera.position.z);
-    const halfHeight = cameraHeight * Math.tan((this._camera.fov * Math.PI) / 360);
-    const halfWidth = halfHeight * Math.max(1, this._camera.aspect);
-    const viewRadius = Math.max(halfWidth, halfHeight);
-    const viewportBounds = this.computeViewportBoundsOnZ0();
+    // The layers work in the world frame; the camera and its target are offset by the render origin.
+    const renderOrigin = this._geo.renderOriginThree;
+    const focus = this._cameraController
+      ? { x: rawFocus.x + renderOrigin.x, y: rawFocus.y + renderOrigin.y, z: 0 }
+      : { x: rawFocus.x, y: rawFocus.y, z: 0 };
+    const cameraHeight = Math.abs(cameraWorld.z);
+    this._camera.updateMatrixWorld();
+    const footprint = computeGroundFootprint(this._camera, renderOrigin);
+    const terrainBounds =
+      footprint &&
+      footprint.bounds.maxX - footprint.bounds.minX <= MAX_TERRAIN_VIEWPORT_EXTENT &&
+      footprint.bounds.maxY - footprint.bounds.minY <= MAX_TERRAIN_VIEWPORT_EXTENT
+        ? footprint.bounds
+        : null;
 
     this._lodGrid?.update(focus.x, focus.y, cameraHeight);
-    this._mapTiles?.update(focus.x, focus.y, cameraHeight, viewRadius, viewportBounds);
+    this._terrain?.update(focus.x, focus.y, cameraHeight, terrainBounds);
+    this._imagery.update(this._camera, cameraWorld, this._renderer.domElement.clientHeight, footprint);
+    this._clipping.update();
+    this._survey.update();
 
     this.updateFps();
     this.updateHud(cameraWorld);
@@ -170,11 +377,21 @@ export class PlanarValidation {
       window.removeEventListener('keydown', this._onKeyDownBound);
     }
 
+    this._offToolStateChange?.();
     this._lodGrid?.dispose();
-    this._mapTiles?.dispose();
+    this._clipping.dispose();
+    this._survey.dispose();
+    this._toolManager?.registerTools([surveyToolModule, imageryLayerToolModule]);
+    this._imagery.dispose();
+    this._terrain?.dispose();
+    this._ownedClipMask?.dispose();
+    this.removePanels();
+    this._worldRoot.remove(this._root);
+  }
+
+  private removePanels(): void {
     if (this._toolManager && this._hudPanelId) this._toolManager.removePanel(this._hudPanelId);
     if (this._toolManager && this._fpsPanelId) this._toolManager.removePanel(this._fpsPanelId);
-    this._worldRoot.remove(this._root);
   }
 
   private updateHud(cameraWorld: Vec3): void {
@@ -191,26 +408,27 @@ export class PlanarValidation {
       focusY: focus.y,
       activeSteps: []
     };
-    const tile = this._mapTiles?.debugInfo;
+    const tile = this.mapTiles?.debugInfo;
     this._camera.getWorldDirection(this._tmpCameraDir);
     const headingDeg = normalizeDeg((Math.atan2(this._tmpCameraDir.x, this._tmpCameraDir.y) * 180) / Math.PI);
     const pitchDeg = (Math.asin(clampNumber(this._tmpCameraDir.z, -1, 1)) * 180) / Math.PI;
     const cameraDistance = this._camera.position.distanceTo(this._tmpFocus);
-    const focusLonLat = this._mapTiles
-      ? this._mapTiles.worldXYToLonLat(focus.x, focus.y)
-      : this._geo.webMercatorToLonLat(
-          focus.x * this._geo.metersPerUnit,
-          focus.y * this._geo.metersPerUnit
-        );
+    const focusLonLat = this.worldXYToLonLat(focus.x, focus.y);
 
     const renderedLevelText =
       tile && tile.renderedZoomStats.length > 0
         ? tile.renderedZoomStats.map((item) => `z${item.zoom}:${item.count}`).join(',')
         : 'none';
 
+    const terrain = this._terrain?.debugInfo;
+    const terrainText = terrain
+      ? `terrain=${terrain.enabled ? 'on' : 'off'} terrainZoom=${terrain.zoom} req=${terrain.requestedCount} cache=${terrain.tileCount} ready=${terrain.readyCount} loading=${terrain.loadingCount} queued=${terrain.queuedCount} error=${terrain.errorCount} rendered=${terrain.renderedCount}`
+      : 'terrain=disabled';
     const tileText = tile
-      ? `tileZoom=${tile.zoom} centerTile=${tile.centerX},${tile.centerY} tileRadius=${tile.tileRadius} req=${tile.requestedCount} cache=${tile.tileCount} ready=${tile.readyCount} loading=${tile.loadingCount} queued=${tile.queuedCount} error=${tile.errorCount} rendered=${tile.renderedCount} renderedByZoom=${renderedLevelText}`
+      ? `tileZoom=${tile.zoom} culled=${tile.culledCount} req=${tile.requestedCount} cache=${tile.tileCount} ready=${tile.readyCount} loading=${tile.loadingCount} queued=${tile.queuedCount} error=${tile.errorCount} rendered=${tile.renderedCount} renderedByZoom=${renderedLevelText}`
       : 'tiles=disabled';
+    const layers = this._imagery.layers;
+    const layersText = `layers=${layers.filter((layer) => layer.visible).length}/${layers.length}`;
     const cameraText = `camPos=(${this._camera.position.x.toFixed(1)},${this._camera.position.y.toFixed(1)},${this._camera.position.z.toFixed(1)}) target=(${focus.x.toFixed(1)},${focus.y.toFixed(1)},${focus.z.toFixed(1)}) distance=${cameraDistance.toFixed(1)} dir=(${this._tmpCameraDir.x.toFixed(3)},${this._tmpCameraDir.y.toFixed(3)},${this._tmpCameraDir.z.toFixed(3)}) heading=${headingDeg.toFixed(1)} pitch=${pitchDeg.toFixed(1)} fov=${this._camera.fov.toFixed(1)} aspect=${this._camera.aspect.toFixed(3)} near=${this._camera.near.toFixed(2)} far=${this._camera.far.toFixed(0)}`;
 
     this._toolManager.setPanelLines(this._hudPanelId, [
@@ -221,12 +439,14 @@ export class PlanarValidation {
       this._lodGrid
         ? `baseStep=${lod.baseStep} activeSteps=${lod.activeSteps.join('/')}`
         : 'lodGrid=disabled',
-      tileText,
+      `${tileText} ${layersText}`,
+      terrainText,
       '+X east | +Y north | T top-view | R reset'
     ]);
   }
 
   private onKeyDown(event: KeyboardEvent): void {
+    if (!this._active) return;
     const key = event.key.toLowerCase();
     if (key === 't') {
       this.applyTopView(Math.max(4_000, Math.abs(this._camera.position.z)));
@@ -247,60 +467,6 @@ export class PlanarValidation {
     this._camera.lookAt(nextTarget.x, nextTarget.y, nextTarget.z);
   }
 
-  private computeViewportBoundsOnZ0(): ViewportWorldBounds | null {
-    const corners: readonly [number, number][] = [
-      [-1, -1],
-      [1, -1],
-      [1, 1],
-      [-1, 1]
-    ];
-
-    let minX = Number.POSITIVE_INFINITY;
-    let minY = Number.POSITIVE_INFINITY;
-    let maxX = Number.NEGATIVE_INFINITY;
-    let maxY = Number.NEGATIVE_INFINITY;
-    const origin = this._camera.position;
-
-    for (const [nx, ny] of corners) {
-      this._tmpRayPoint.set(nx, ny, 0.5).unproject(this._camera);
-      this._tmpRayDir.copy(this._tmpRayPoint).sub(origin);
-      if (Math.abs(this._tmpRayDir.z) < 1e-6) {
-        return null;
-      }
-
-      const t = -origin.z / this._tmpRayDir.z;
-      if (!Number.isFinite(t) || t <= 0) {
-        return null;
-      }
-
-      const ix = origin.x + this._tmpRayDir.x * t;
-      const iy = origin.y + this._tmpRayDir.y * t;
-      if (!Number.isFinite(ix) || !Number.isFinite(iy)) {
-        return null;
-      }
-
-      minX = Math.min(minX, ix);
-      minY = Math.min(minY, iy);
-      maxX = Math.max(maxX, ix);
-      maxY = Math.max(maxY, iy);
-    }
-
-    if (
-      !Number.isFinite(minX) ||
-      !Number.isFinite(minY) ||
-      !Number.isFinite(maxX) ||
-      !Number.isFinite(maxY)
-    ) {
-      return null;
-    }
-
-    if (maxX - minX > MAX_VIEWPORT_EXTENT || maxY - minY > MAX_VIEWPORT_EXTENT) {
-      return null;
-    }
-
-    return { minX, minY, maxX, maxY };
-  }
-
   private updateFps(): void {
     if (!this._toolManager || !this._fpsPanelId) return;
 
@@ -0,0 +1,170 @@
+import { crsRegistry, normalizeCrsCode } from '../../geo/crs';
+import { WEB_MERCATOR_HALF_WORLD, type TileId } from './PlanarTileMath';
+import {
+  appendQuery,
+  isTileInGrid,
+  pickSubdomain,
+  tileRegion,
+  type PlanarTileSource,
+  type TileGrid,
+  type TileGridProjection
+} from './PlanarTileSource';
+
+export type WmsVersion = '1.1.1' | '1.3.0';
+
+export type WmsTileSourceOptions = {
+  url: string;
+  layers: string | readonly string[];
+  // One style per layer; empty means the server default.
+  styles?: string | readonly string[];
+  version?: WmsVersion;
+  // EPSG:3857 tiles the Web Mercator square; geographic CRSs (EPSG:4326, EPSG:4490, CRS:84) tile degrees.
+  crs?: string;
+  format?: string;
+  transparent?: boolean;
+  tileSize?: number;
+  minZoom?: number;
+  maxZoom?: number;
+  // `{s}` in the url picks one of these.
+  subdomains?: readonly string[];
+  // Extra GetMap and GetFeatureInfo parameters, e.g. CQL_FILTER or an access token.
+  params?: Readonly<Record<string, string>>;
+};
+
+export type WmsFeatureInfoOptions = {
+  infoFormat?: string;
+  featureCount?: number;
+  // Defaults to the layers of the GetMap request.
+  queryLayers?: string | readonly string[];
+  params?: Readonly<Record<string, string>>;
+};
+
+// `data` is the parsed body: a JSON value, an XML Document, or the text for anything else.
+export type WmsFeatureInfo = {
+  url: string;
+  contentType: string;
+  data: unknown;
+};
+
+export type WmsTileSource = PlanarTileSource & {
+  readonly version: WmsVersion;
+  readonly crs: string;
+  getMapUrl: (tileId: TileId) => string;
+  // GetFeatureInfo for the pixel at u (east) and v (south), from 0 to 1 across the tile, so the query sees
+  // exactly the request that drew the tile.
+  getFeatureInfoUrl: (tileId: TileId, u: number, v: number, options?: WmsFeatureInfoOptions) => string;
+};
+
+const DEFAULT_INFO_FORMAT = 'application/json';
+const DEFAULT_FEATURE_COUNT = 10;
+
+export function createWmsTileSource(options: WmsTileSourceOptions): WmsTileSource {
+  const version = options.version ?? '1.3.0';
+  const layers = joinList(options.layers);
+  if (!layers) {
+    throw new Error('A WMS source needs at least one layer.');
+  }
+  const rawCrs = (options.crs ?? 'EPSG:3857').trim();
+  const crs84 = /CRS:?84$/i.test(rawCrs);
+  const crs = crs84 ? 'CRS:84' : normalizeCrsCode(rawCrs);
+  const projectionType = crs84 ? 'longlat' : crsRegistry.get(crs)?.projection.type;
+  if (projectionType !== 'webmercator' && projectionType !== 'longlat') {
+    throw new Error(`WMS CRS "${rawCrs}" is not supported; use EPSG:3857 or a geographic CRS such as EPSG:4326.`);
+  }
+  const projection: TileGridProjection = projectionType === 'webmercator' ? 'mercator' : 'geographic';
+  // WMS 1.3.0 follows the EPSG axis order, which is latitude first for geographic CRSs.
+  const latLonOrder = version === '1.3.0' && projection === 'geographic' && !crs84;
+  const tileSize = options.tileSize ?? 256;
+  const subdomains = options.subdomains ?? [];
+  const extraParams = options.params ?? {};
+
+  const grid: TileGrid = { projection, rootColumns: projection === 'mercator' ? 1 : 2, rootRows: 1 };
+  const baseParams = (tileId: TileId): Record<string, string> => ({
+    SERVICE: 'WMS',
+    VERSION: version,
+    LAYERS: layers,
+    STYLES: joinList(options.styles ?? ''),
+    FORMAT: options.format ?? 'image/png',
+    TRANSPARENT: options.transparent === false ? 'FALSE' : 'TRUE',
+    [version === '1.3.0' ? 'CRS' : 'SRS']: crs,
+    BBOX: tileBbox(grid, tileId, latLonOrder).join(','),
+    WIDTH: String(tileSize),
+    HEIGHT: String(tileSize)
+  });
+  const endpoint = (tileId: TileId) => options.url.replace('{s}', pickSubdomain(subdomains, tileId));
+  const getMapUrl = (tileId: TileId) =>
+    appendQuery(endpoint(tileId), { ...baseParams(tileId), REQUEST: 'GetMap', ...extraParams });
+
+  return {
+    ...grid,
+    minZoom: options.minZoom ?? 0,
+    maxZoom: options.maxZoom ?? 22,
+    tileSize,
+    version,
+    crs,
+    hasTile: (tileId) => isTileInGrid(grid.rootColumns, grid.rootRows, tileId),
+    tileUrl: getMapUrl,
+    getMapUrl,
+    getFeatureInfoUrl: (tileId, u, v, infoOptions) => {
+      const i = Math.min(tileSize - 1, Math.max(0, Math.floor(u * tileSize)));
+      const j = Math.min(tileSize - 1, Math.max(0, Math.floor(v * tileSize)));
+      return appendQuery(endpoint(tileId), {
+        ...baseParams(tileId),
+        REQUEST: 'GetFeatureInfo',
+        QUERY_LAYERS: joinList(infoOptions?.queryLayers ?? layers),
+        INFO_FORMAT: infoOptions?.infoFormat ?? DEFAULT_INFO_FORMAT,
+        FEATURE_COUNT: String(infoOptions?.featureCount ?? DEFAULT_FEATURE_COUNT),
+        [version === '1.3.0' ? 'I' : 'X']: String(i),
+        [version === '1.3.0' ? 'J' : 'Y']: String(j),
+        ...extraParams,
+        ...infoOptions?.params
+      });
+    }
+  };
+}
+
+export function isWmsTileSource(source: PlanarTileSource): source is WmsTileSource {
+  return 'getFeatureInfoUrl' in source && typeof source.getFeatureInfoUrl === 'function';
+}
+
+export async function fetchWmsFeatureInfo(url: string): Promise<WmsFeatureInfo> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load WMS feature info ${url}: HTTP ${response.status}`);
+  }
+  const contentType = response.headers.get('content-type') ?? '';
+  const text = await response.text();
+  return { url, contentType, data: parseFeatureInfoBody(contentType, text) };
+}
+
+// A service exception comes back with status 200, so it is raised here rather than handed out as data.
+function parseFeatureInfoBody(contentType: string, text: string): unknown {
+  const type = contentType.toLowerCase();
+  if (type.includes('json')) return JSON.parse(text);
+  if (/xml|gml/.test(type) && typeof DOMParser !== 'undefined') {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    const exception = doc.getElementsByTagNameNS('*', 'ServiceException')[0];
+    if (exception) {
+      throw new Error(`WMS service exception: ${exception.textContent?.trim() ?? ''}`);
+    }
+    return doc;
+  }
+  return text;
+}
+
+function tileBbox(grid: TileGrid, tileId: TileId, latLonOrder: boolean): number[] {
+  if (grid.projection === 'mercator') {
+    const size = (WEB_MERCATOR_HALF_WORLD * 2) / 2 ** tileId.z;
+    const minX = -WEB_MERCATOR_HALF_WORLD + tileId.x * size;
+    const maxY = WEB_MERCATOR_HALF_WORLD - tileId.y * size;
+    return [minX, maxY - size, minX + size, maxY];
+  }
+  const region = tileRegion(grid, tileId);
+  return latLonOrder
+    ? [region.south, region.west, region.north, region.east]
+    : [region.west, region.south, region.east, region.north];
+}
+
+function joinList(value: string | readonly string[]): string {
+  return typeof value === 'string' ? value : value.join(',');
+}
@@ -0,0 +1,456 @@
+import { crsRegistry } from '../../geo/crs';
+import { WEB_MERCATOR_R } from '../../geo/ellipsoid';
+import type { ImageryBounds } from './PlanarMapTileLayer';
+import { WEB_MERCATOR_HALF_WORLD, type TileId } from './PlanarTileMath';
+import { appendQuery, pickSubdomain, type PlanarTileSource, type TileGridProjection } from './PlanarTileSource';
+
+export type WmtsStyle = {
+  identifier: string;
+  title: string;
+  isDefault: boolean;
+};
+
+export type WmtsTileMatrixLimits = {
+  tileMatrix: string;
+  minTileRow: number;
+  maxTileRow: number;
+  minTileCol: number;
+  maxTileCol: number;
+};
+
+export type WmtsTileMatrixSetLink = {
+  tileMatrixSet: string;
+  limits: WmtsTileMatrixLimits[];
+};
+
+export type WmtsResourceUrl = {
+  format: string;
+  resourceType: string;
+  template: string;
+};
+
+export type WmtsDimension = {
+  identifier: string;
+  defaultValue: string | null;
+  values: string[];
+};
+
+export type WmtsLayer = {
+  identifier: string;
+  title: string;
+  abstract: string;
+  wgs84BoundingBox: ImageryBounds | null;
+  styles: WmtsStyle[];
+  formats: string[];
+  tileMatrixSetLinks: WmtsTileMatrixSetLink[];
+  resourceUrls: WmtsResourceUrl[];
+  dimensions: WmtsDimension[];
+};
+
+// topLeftCorner is always easting/longitude first, whatever the axis order of the CRS.
+export type WmtsTileMatrix = {
+  identifier: string;
+  scaleDenominator: number;
+  topLeftCorner: { x: number; y: number };
+  tileWidth: number;
+  tileHeight: number;
+  matrixWidth: number;
+  matrixHeight: number;
+};
+
+export type WmtsTileMatrixSet = {
+  identifier: string;
+  supportedCrs: string;
+  wellKnownScaleSet: string | null;
+  tileMatrices: WmtsTileMatrix[];
+};
+
+export type WmtsCapabilities = {
+  version: string;
+  title: string;
+  layers: WmtsLayer[];
+  tileMatrixSets: WmtsTileMatrixSet[];
+  // GetTile endpoints from OperationsMetadata by request encoding.
+  getTileUrls: { kvp: string | null; rest: string | null };
+};
+
+export type WmtsTileSourceOptions = {
+  layer: string;
+  // Defaults to the layer's default style.
+  style?: string;
+  // Defaults to the first format of the layer.
+  format?: string;
+  // Defaults to the first linked set that lays out as a supported tile pyramid.
+  tileMatrixSet?: string;
+  // Defaults to RESTful when the layer has a tile ResourceURL in the chosen format.
+  encoding?: 'kvp' | 'rest';
+  // Replaces the KVP endpoint or the RESTful template; `{s}` picks one of `subdomains`.
+  url?: string;
+  subdomains?: readonly string[];
+  // Values for the layer's dimensions, e.g. TIME; the advertised defaults fill the rest.
+  dimensions?: Readonly<Record<string, string>>;
+  // Extra query parameters, e.g. an access token.
+  params?: Readonly<Record<string, string>>;
+};
+
+type GridLevel = {
+  tileMatrix: string;
+  colOffset: number;
+  rowOffset: number;
+  minCol: number;
+  maxCol: number;
+  minRow: number;
+  maxRow: number;
+};
+
+type GridLayout = {
+  projection: TileGridProjection;
+  rootColumns: number;
+  rootRows: number;
+  originX: number;
+  originY: number;
+  rootSpan: number;
+  metersPerUnit: number;
+};
+
+// OGC pixel size used to relate scale denominators to ground sizes.
+const STANDARD_PIXEL_SIZE = 0.00028;
+const METERS_PER_DEGREE = (2 * Math.PI * WEB_MERCATOR_R) / 360;
+// Some servers (Tianditu) assume 96 dpi instead of the OGC pixel, which puts levels about 0.08 off the
+// quadtree; matrices further off than this are not quadtree levels.
+const LEVEL_TOLERANCE = 0.2;
+const OFFSET_TOLERANCE = 0.01;
+
+function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter((child) => child.localName === localName);
+}
+
+function childElement(parent: Element, localName: string): Element | null {
+  return childElements(parent, localName)[0] ?? null;
+}
+
+function childText(parent: Element, localName: string): string {
+  return childElement(parent, localName)?.textContent?.trim() ?? '';
+}
+
+function childNumber(parent: Element, localName: string): number {
+  const text = childText(parent, localName);
+  const value = Number(text);
+  if (text === '' || !Number.isFinite(value)) {
+    throw new Error(`WMTS capabilities: <${parent.localName}> has no valid <${localName}>.`);
+  }
+  return value;
+}
+
+function parseNumbers(text: string): number[] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter((part) => part.length > 0)
+    .map(Number);
+}
+
+function parseLayer(element: Element): WmtsLayer {
+  const bbox = childElement(element, 'WGS84BoundingBox');
+  const lower = bbox ? parseNumbers(childText(bbox, 'LowerCorner')) : [];
+  const upper = bbox ? parseNumbers(childText(bbox, 'UpperCorner')) : [];
+  const [west, south] = lower;
+  const [east, north] = upper;
+  const hasBounds = [west, south, east, north].every((value) => value !== undefined && Number.isFinite(value));
+
+  return {
+    identifier: childText(element, 'Identifier'),
+    title: childText(element, 'Title'),
+    abstract: childText(element, 'Abstract'),
+    wgs84BoundingBox: hasBounds ? { west: west ?? 0, south: south ?? 0, east: east ?? 0, north: north ?? 0 } : null,
+    styles: childElements(element, 'Style').map((style) => ({
+      identifier: childText(style, 'Identifier'),
+      title: childText(style, 'Title'),
+      isDefault: style.getAttribute('isDefault') === 'true'
+    })),
+    formats: childElements(element, 'Format').map((format) => format.textContent?.trim() ?? ''),
+    tileMatrixSetLinks: childElements(element, 'TileMatrixSetLink').map((link) => ({
+      tileMatrixSet: childText(link, 'TileMatrixSet'),
+      limits: childElements(childElement(link, 'TileMatrixSetLimits') ?? link, 'TileMatrixLimits').map((limits) => ({
+        tileMatrix: childText(limits, 'TileMatrix'),
+        minTileRow: childNumber(limits, 'MinTileRow'),
+        maxTileRow: childNumber(limits, 'MaxTileRow'),
+        minTileCol: childNumber(limits, 'MinTileCol'),
+        maxTileCol: childNumber(limits, 'MaxTileCol')
+      }))
+    })),
+    resourceUrls: childElements(element, 'ResourceURL').map((resource) => ({
+      format: resource.getAttribute('format') ?? '',
+      resourceType: resource.getAttribute('resourceType') ?? 'tile',
+      template: resource.getAttribute('template') ?? ''
+    })),
+    dimensions: childElements(element, 'Dimension').map((dimension) => ({
+      identifier: childText(dimension, 'Identifier'),
+      defaultValue: childText(dimension, 'Default') || null,
+      values: childElements(dimension, 'Value').map((value) => value.textContent?.trim() ?? '')
+    }))
+  };
+}
+
+function parseTileMatrixSet(element: Element): WmtsTileMatrixSet {
+  const supportedCrs = childText(element, 'SupportedCRS');
+  const lonLatFirst = isLonLatOrder(supportedCrs);
+  return {
+    identifier: childText(element, 'Identifier'),
+    supportedCrs,
+    wellKnownScaleSet: childText(element, 'WellKnownScaleSet') || null,
+    tileMatrices: childElements(element, 'TileMatrix').map((matrix) => {
+      const [first = Number.NaN, second = Number.NaN] = parseNumbers(childText(matrix, 'TopLeftCorner'));
+      const swap = lonLatFirst === null ? Math.abs(first) <= 90 && Math.abs(second) > 90 : !lonLatFirst;
+      return {
+        identifier: childText(matrix, 'Identifier'),
+        scaleDenominator: childNumber(matrix, 'ScaleDenominator'),
+        topLeftCorner: swap ? { x: second, y: first } : { x: first, y: second },
+        tileWidth: childNumber(matrix, 'TileWidth'),
+        tileHeight: childNumber(matrix, 'TileHeight'),
+        matrixWidth: childNumber(matrix, 'MatrixWidth'),
+        matrixHeight: childNumber(matrix, 'MatrixHeight')
+      };
+    })
+  };
+}
+
+// Geographic EPSG codes are latitude first; CRS84 and projected CRSs are easting first. Null when the
+// CRS is unknown and the corner values have to decide.
+function isLonLatOrder(crs: string): boolean | null {
+  if (/CRS:?84/i.test(crs)) return true;
+  const definition = crsRegistry.get(crs);
+  if (!definition) return null;
+  return definition.projection.type !== 'longlat';
+}
+
+function parseGetTileUrls(root: Element): WmtsCapabilities['getTileUrls'] {
+  const urls: WmtsCapabilities['getTileUrls'] = { kvp: null, rest: null };
+  const metadata = childElement(root, 'OperationsMetadata');
+  const operation = metadata
+    ? childElements(metadata, 'Operation').find((item) => item.getAttribute('name') === 'GetTile')
+    : undefined;
+  if (!operation) return urls;
+
+  for (const dcp of childElements(operation, 'DCP')) {
+    for (const get of childElements(childElement(dcp, 'HTTP') ?? dcp, 'Get')) {
+      const href = get.getAttributeNS('http://www.w3.org/1999/xlink', 'href') ?? get.getAttribute('xlink:href');
+      if (!href) continue;
+      const encodings = get.getElementsByTagNameNS('*', 'Value');
+      const values = Array.from(encodings).map((value) => value.textContent?.trim().toUpperCase() ?? '');
+      if (values.length === 0 || values.includes('KVP')) urls.kvp = urls.kvp ?? href;
+      if (values.includes('RESTFUL')) urls.rest = urls.rest ?? href;
+    }
+  }
+  return urls;
+}
+
+function gridLayout(set: WmtsTileMatrixSet): GridLayout {
+  const definition = crsRegistry.get(set.supportedCrs);
+  const type = definition?.projection.type;
+  if (type === 'webmercator') {
+    return {
+      projection: 'mercator',
+      rootColumns: 1,
+      rootRows: 1,
+      originX: -WEB_MERCATOR_HALF_WORLD,
+      originY: WEB_MERCATOR_HALF_WORLD,
+      rootSpan: WEB_MERCATOR_HALF_WORLD * 2,
+      metersPerUnit: 1
+    };
+  }
+  if (type === 'longlat') {
+    return {
+      projection: 'geographic',
+      rootColumns: 2,
+      rootRows: 1,
+      originX: -180,
+      originY: 90,
+      rootSpan: 180,
+      metersPerUnit: METERS_PER_DEGREE
+    };
+  }
+  throw new Error(
+    `WMTS tile matrix set "${set.identifier}" uses ${set.supportedCrs || 'no CRS'}; only EPSG:3857 and ` +
+      'geographic (EPSG:4326, EPSG:4490) grids are supported.'
+  );
+}
+
+// Maps the set's matrices onto quadtree levels. Matrices are matched by ground size rather than by
+// identifier, so sets that start at level 1 or use names such as "EPSG:4326:3" line up too.
+function gridLevels(set: WmtsTileMatrixSet, layout: GridLayout, limits: readonly WmtsTileMatrixLimits[]): GridLevel[] {
+  const levels: GridLevel[] = [];
+  for (const matrix of set.tileMatrices) {
+    const span = (matrix.tileWidth * matrix.scaleDenominator * STANDARD_PIXEL_SIZE) / layout.metersPerUnit;
+    const level = Math.log2(layout.rootSpan / span);
+    const z = Math.round(level);
+    if (z < 0 || Math.abs(level - z) > LEVEL_TOLERANCE || levels[z]) continue;
+
+    const tileSpan = layout.rootSpan / 2 ** z;
+    const colOffset = (matrix.topLeftCorner.x - layout.originX) / tileSpan;
+    const rowOffset = (layout.originY - matrix.topLeftCorner.y) / tileSpan;
+    if (Math.abs(colOffset - Math.round(colOffset)) > OFFSET_TOLERANCE) continue;
+    if (Math.abs(rowOffset - Math.round(rowOffset)) > OFFSET_TOLERANCE) continue;
+
+    const limit = limits.find((item) => item.tileMatrix === matrix.identifier);
+    levels[z] = {
+      tileMatrix: matrix.identifier,
+      colOffset: Math.round(colOffset),
+      rowOffset: Math.round(rowOffset),
+      minCol: limit ? limit.minTileCol : 0,
+      maxCol: limit ? limit.maxTileCol : matrix.matrixWidth - 1,
+      minRow: limit ? limit.minTileRow : 0,
+      maxRow: limit ? limit.maxTileRow : matrix.matrixHeight - 1
+    };
+  }
+  return levels;
+}
+
+export function parseWmtsCapabilities(xml: string): WmtsCapabilities {
+  if (typeof DOMParser === 'undefined') {
+    throw new Error('Parsing WMTS capabilities needs DOMParser.');
+  }
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+  if (!root || root.localName !== 'Capabilities' || doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Not a WMTS capabilities document.');
+  }
+
+  const serviceIdentification = childElement(root, 'ServiceIdentification');
+  const contents = childElement(root, 'Contents');
+  return {
+    version: root.getAttribute('version') ?? '1.0.0',
+    title: serviceIdentification ? childText(serviceIdentification, 'Title') : '',
+    layers: contents ? childElements(contents, 'Layer').map(parseLayer) : [],
+    tileMatrixSets: contents ? childElements(contents, 'TileMatrixSet').map(parseTileMatrixSet) : [],
+    getTileUrls: parseGetTileUrls(root)
+  };
+}
+
+export async function loadWmtsCapabilities(url: string): Promise<WmtsCapabilities> {
+  const requestUrl = /request=getcapabilities/i.test(url)
+    ? url
+    : appendQuery(url, { SERVICE: 'WMTS', REQUEST: 'GetCapabilities' });
+  const response = await fetch(requestUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to load WMTS capabilities ${requestUrl}: HTTP ${response.status}`);
+  }
+  return parseWmtsCapabilities(await response.text());
+}
+
+export function createWmtsTileSource(capabilities: WmtsCapabilities, options: WmtsTileSourceOptions): PlanarTileSource {
+  const layer = capabilities.layers.find((item) => item.identifier === options.layer);
+  if (!layer) {
+    throw new Error(`WMTS layer "${options.layer}" is not in the capabilities.`);
+  }
+  const style =
+    options.style ?? layer.styles.find((item) => item.isDefault)?.identifier ?? layer.styles[0]?.identifier ?? 'default';
+  const format = options.format ?? layer.formats[0] ?? 'image/png';
+
+  const candidates = options.tileMatrixSet
+    ? layer.tileMatrixSetLinks.filter((link) => link.tileMatrixSet === options.tileMatrixSet)
+    : layer.tileMatrixSetLinks;
+  if (candidates.length === 0) {
+    throw new Error(`WMTS layer "${layer.identifier}" has no tile matrix set "${options.tileMatrixSet ?? ''}".`);
+  }
+  let grid: { link: WmtsTileMatrixSetLink; layout: GridLayout; levels: GridLevel[] } | null = null;
+  let lastError: unknown = null;
+  for (const link of candidates) {
+    const set = capabilities.tileMatrixSets.find((item) => item.identifier === link.tileMatrixSet);
+    if (!set) continue;
+    try {
+      const layout = gridLayout(set);
+      const levels = gridLevels(set, layout, link.limits);
+      if (levels.some((level) => level !== undefined)) {
+        grid = { link, layout, levels };
+        break;
+      }
+      lastError = new Error(`WMTS tile matrix set "${set.identifier}" does not form a quadtree.`);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  if (!grid) {
+    throw lastError instanceof Error
+      ? lastError
+      : new Error(`WMTS layer "${layer.identifier}" links no tile matrix set in the capabilities.`);
+  }
+
+  // Levels count from the first matrix; a gap ends the pyramid.
+  const { link, layout, levels } = grid;
+  const minZoom = levels.findIndex((level) => level !== undefined);
+  let maxZoom = minZoom;
+  while (levels[maxZoom + 1]) maxZoom += 1;
+  const set = capabilities.tileMatrixSets.find((item) => item.identifier === link.tileMatrixSet);
+  const tileSize = set?.tileMatrices.find((matrix) => matrix.identifier === levels[minZoom]?.tileMatrix)?.tileWidth;
+
+  const dimensions: Record<string, string> = {};
+  for (const dimension of layer.dimensions) {
+    const value = options.dimensions?.[dimension.identifier] ?? dimension.defaultValue ?? dimension.values[0];
+    if (value !== undefined) dimensions[dimension.identifier] = value;
+  }
+  const resource = layer.resourceUrls.find((item) => item.resourceType === 'tile' && item.format === format);
+  const encoding = options.encoding ?? (resource || (options.url && options.url.includes('{')) ? 'rest' : 'kvp');
+  const endpoint =
+    options.url ?? (encoding === 'rest' ? resource?.template : capabilities.getTileUrls.kvp) ?? null;
+  if (!endpoint) {
+    throw new Error(`WMTS layer "${layer.identifier}" has no ${encoding === 'rest' ? 'RESTful' : 'KVP'} GetTile URL.`);
+  }
+  const subdomains = options.subdomains ?? [];
+  const params = options.params ?? {};
+
+  const matrixTile = (tileId: TileId) => {
+    const level = levels[tileId.z];
+    if (!level) return null;
+    const col = tileId.x - level.colOffset;
+    const row = tileId.y - level.rowOffset;
+    if (col < level.minCol || col > level.maxCol || row < level.minRow || row > level.maxRow) return null;
+    return { tileMatrix: level.tileMatrix, col, row };
+  };
+
+  return {
+    projection: layout.projection,
+    rootColumns: layout.rootColumns,
+    rootRows: layout.rootRows,
+    minZoom,
+    maxZoom,
+    tileSize,
+    hasTile: (tileId) => matrixTile(tileId) !== null,
+    tileUrl: (tileId) => {
+      const tile = matrixTile(tileId);
+      if (!tile) {
+        throw new Error(`Tile ${tileId.z}/${tileId.x}/${tileId.y} is outside WMTS layer "${layer.identifier}".`);
+      }
+      const base = endpoint.replace('{s}', pickSubdomain(subdomains, tileId));
+      if (encoding === 'kvp') {
+        return appendQuery(base, {
+          SERVICE: 'WMTS',
+          REQUEST: 'GetTile',
+          VERSION: capabilities.version,
+          LAYER: layer.identifier,
+          STYLE: style,
+          TILEMATRIXSET: link.tileMatrixSet,
+          TILEMATRIX: tile.tileMatrix,
+          TILEROW: String(tile.row),
+          TILECOL: String(tile.col),
+          FORMAT: format,
+          ...dimensions,
+          ...params
+        });
+      }
+      const values: Record<string, string> = {
+        ...dimensions,
+        style: style,
+        tilematrixset: link.tileMatrixSet,
+        tilematrix: tile.tileMatrix,
+        tilerow: String(tile.row),
+        tilecol: String(tile.col)
+      };
+      const url = base.replace(/\{([^}]+)\}/g, (match, name: string) => {
+        const key = Object.keys(values).find((item) => item.toLowerCase() === name.toLowerCase());
+        return key === undefined ? match : encodeURIComponent(values[key] ?? '');
+      });
+      return Object.keys(params).length > 0 ? appendQuery(url, params) : url;
+    }
+  };
+}
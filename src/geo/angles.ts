@@ -0,0 +1,15 @@
+export function degToRad(deg: number): number {
+  return (deg * Math.PI) / 180;
+}
+
+export function radToDeg(rad: number): number {
+  return (rad * 180) / Math.PI;
+}
+
+// Wraps to (-180, 180].
+export function normalizeLonDeg(lon: number): number {
+  let out = lon % 360;
+  if (out > 180) out -= 360;
+  if (out <= -180) out += 360;
+  return out;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { geodesicPolygonArea, geodesicPolygonPerimeter, measureGeodesicPolygon } from './area';
+
+// lon, lat rings with the perimeter and area GeographicLib's Planimeter reports for them on WGS84.
+const TRIANGLE = [
+  [100, 30],
+  [107, 30],
+  [103.5, 36]
+] as const;
+const ACROSS_ANTIMERIDIAN = [
+  [179, -10],
+  [-179, -10],
+  [-179, -8],
+  [179, -8]
+] as const;
+const NORTH_POLAR_CAP = [
+  [0, 80],
+  [90, 80],
+  [180, 80],
+  [-90, 80]
+] as const;
+// A coarse outline of Antarctica, which goes round the south pole.
+const ANTARCTICA = [
+  [-58, -63.1],
+  [-74, -72.9],
+  [-102, -71.9],
+  [-131, -74.9],
+  [-163, -74.3],
+  [163, -77.5],
+  [126, -77.4],
+  [98, -71.7],
+  [65, -65.9],
+  [37, -65.7],
+  [11, -66.6],
+  [-24, -64.1],
+  [-38, -62.6]
+] as const;
+
+const PLANIMETER = [
+  ['a 700 km triangle', TRIANGLE, 2157931.5445800424, 223190572949.0703],
+  ['a ring across the antimeridian', ACROSS_ANTIMERIDIAN, 882170.9876900637, 48648242750.42117],
+  ['a ring round the north pole', NORTH_POLAR_CAP, 6301599.963614223, 2507270031169.875],
+  ['Antarctica', ANTARCTICA, 14277201.823485306, 14705196586417.531]
+] as const;
+
+function toRing(points: readonly (readonly [number, number])[]): Array<{ lon: number; lat: number }> {
+  return points.map(([lon, lat]) => ({ lon, lat }));
+}
+
+describe('geodesicPolygonArea', () => {
+  it.each(PLANIMETER)('matches the Planimeter for %s', (_name, points, perimeter, area) => {
+    const ring = toRing(points);
+    expect(geodesicPolygonArea(ring) / area - 1).toBeCloseTo(0, 12);
+    expect(geodesicPolygonPerimeter(ring)).toBeCloseTo(perimeter, 6);
+  });
+
+  it('ignores orientation and a repeated closing vertex', () => {
+    const ring = toRing(TRIANGLE);
+    const closed = [...ring, { lon: 100, lat: 30 }];
+    expect(geodesicPolygonArea([...ring].reverse())).toBeCloseTo(geodesicPolygonArea(ring), 2);
+    expect(geodesicPolygonArea(closed)).toBe(geodesicPolygonArea(ring));
+    expect(geodesicPolygonArea(ring.slice(0, 2))).toBe(0);
+  });
+});
+
+describe('measureGeodesicPolygon', () => {
+  it('rejects self-intersecting rings', () => {
+    const bowTie = toRing([
+      [0, 0],
+      [1, 1],
+      [1, 0],
+      [0, 1]
+    ]);
+    expect(() => measureGeodesicPolygon(bowTie)).toThrow(/self-intersecting/);
+  });
+});
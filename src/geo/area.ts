@@ -0,0 +1,208 @@
+import { degToRad, normalizeLonDeg } from './angles';
+import { WGS84_A, WGS84_E2 } from './ellipsoid';
+import { geodesicDistance, geodesicEdgeArea, type GeodesicPoint } from './geodesic';
+
+export type GeodesicPolygonMeasure = {
+  area: number;
+  perimeter: number;
+  centroid: GeodesicPoint;
+};
+
+const WGS84_E = Math.sqrt(WGS84_E2);
+
+// q(φ) from Snyder, "Map Projections: A Working Manual", eq. 3-12.
+function authalicQ(sinLat: number): number {
+  const esin = WGS84_E * sinLat;
+  return (
+    (1 - WGS84_E2) * (sinLat / (1 - esin * esin) - (1 / (2 * WGS84_E)) * Math.log((1 - esin) / (1 + esin)))
+  );
+}
+
+const AUTHALIC_RADIUS = WGS84_A * Math.sqrt(authalicQ(1) / 2);
+const ELLIPSOID_AREA = 4 * Math.PI * AUTHALIC_RADIUS * AUTHALIC_RADIUS;
+
+// Unwraps longitudes around the first vertex and drops a repeated closing vertex.
+function normalizeRing(ring: readonly GeodesicPoint[]): GeodesicPoint[] {
+  const first = ring[0];
+  if (!first) return [];
+  const out: GeodesicPoint[] = [];
+  for (const point of ring) {
+    if (!Number.isFinite(point.lon) || !Number.isFinite(point.lat) || point.lat < -90 || point.lat > 90) {
+      throw new Error(`Invalid polygon vertex: ${point.lon},${point.lat}`);
+    }
+    let lon = point.lon;
+    while (lon - first.lon > 180) lon -= 360;
+    while (lon - first.lon < -180) lon += 360;
+    out.push({ lon, lat: point.lat });
+  }
+  const last = out[out.length - 1];
+  if (out.length > 1 && last && last.lon === first.lon && last.lat === first.lat) out.pop();
+  return out;
+}
+
+function toLocalPlane(ring: readonly GeodesicPoint[]): Array<{ x: number; y: number }> {
+  const first = ring[0];
+  const cosLat = Math.cos(degToRad(first?.lat ?? 0));
+  return ring.map((point) => ({ x: (point.lon - (first?.lon ?? 0)) * cosLat, y: point.lat - (first?.lat ?? 0) }));
+}
+
+function orientation(
+  a: { x: number; y: number },
+  b: { x: number; y: number },
+  c: { x: number; y: number }
+): number {
+  const value = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+  return Math.abs(value) < 1e-18 ? 0 : Math.sign(value);
+}
+
+function onSegment(a: { x: number; y: number }, b: { x: number; y: number }, p: { x: number; y: number }): boolean {
+  return (
+    Math.min(a.x, b.x) <= p.x && p.x <= Math.max(a.x, b.x) && Math.min(a.y, b.y) <= p.y && p.y <= Math.max(a.y, b.y)
+  );
+}
+
+function segmentsIntersect(
+  a: { x: number; y: number },
+  b: { x: number; y: number },
+  c: { x: number; y: number },
+  d: { x: number; y: number }
+): boolean {
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+  if (o1 !== o2 && o3 !== o4) return true;
+  if (o1 === 0 && onSegment(a, b, c)) return true;
+  if (o2 === 0 && onSegment(a, b, d)) return true;
+  if (o3 === 0 && onSegment(c, d, a)) return true;
+  if (o4 === 0 && onSegment(c, d, b)) return true;
+  return false;
+}
+
+// Returns the indices of the first pair of crossing edges (edge i runs from vertex i to i + 1), or null.
+export function findPolygonSelfIntersection(ring: readonly GeodesicPoint[]): [number, number] | null {
+  const points = toLocalPlane(normalizeRing(ring));
+  const n = points.length;
+  for (let i = 0; i < n; i += 1) {
+    const a = points[i];
+    const b = points[(i + 1) % n];
+    if (!a || !b) continue;
+    for (let j = i + 1; j < n; j += 1) {
+      // Neighbouring edges share a vertex by construction.
+      if (j === i + 1 || (i === 0 && j === n - 1)) continue;
+      const c = points[j];
+      const d = points[(j + 1) % n];
+      if (c && d && segmentsIntersect(a, b, c, d)) return [i, j];
+    }
+  }
+  return null;
+}
+
+// +1 or -1 when the shortest step from lon1 to lon2 crosses the prime meridian eastwards or westwards; 0 and
+// -0 count as east of it.
+function primeMeridianTransit(lon1: number, lon2: number): number {
+  const step = normalizeLonDeg(lon2 - lon1);
+  const from = normalizeLonDeg(lon1);
+  const to = normalizeLonDeg(lon2);
+  if (step > 0 && ((from < 0 && to >= 0) || (from > 0 && to === 0))) return 1;
+  return step < 0 && from >= 0 && to < 0 ? -1 : 0;
+}
+
+// Area of the polygon on the WGS84 ellipsoid in square meters, with geodesic edges. This is GeographicLib's
+// Planimeter: the per-edge areas of Karney's inverse solution sum to the enclosed area modulo the ellipsoid's,
+// and an odd number of prime meridian crossings means the ring goes round a pole. Accurate to round-off at any
+// size; of the two regions a ring divides the ellipsoid into, the smaller one is measured.
+export function geodesicPolygonArea(ring: readonly GeodesicPoint[]): number {
+  const points = normalizeRing(ring);
+  if (points.length < 3) return 0;
+
+  let area = 0;
+  let crossings = 0;
+  for (let i = 0; i < points.length; i += 1) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    if (!a || !b) continue;
+    area += geodesicEdgeArea(a, b);
+    crossings += primeMeridianTransit(a.lon, b.lon);
+  }
+
+  area %= ELLIPSOID_AREA;
+  if (area < -ELLIPSOID_AREA / 2) area += ELLIPSOID_AREA;
+  else if (area >= ELLIPSOID_AREA / 2) area -= ELLIPSOID_AREA;
+  if (crossings & 1) area += ((area < 0 ? 1 : -1) * ELLIPSOID_AREA) / 2;
+  if (area > ELLIPSOID_AREA / 2) area -= ELLIPSOID_AREA;
+  else if (area <= -ELLIPSOID_AREA / 2) area += ELLIPSOID_AREA;
+  return Math.abs(area);
+}
+
+export function geodesicPolygonPerimeter(ring: readonly GeodesicPoint[]): number {
+  const points = normalizeRing(ring);
+  if (points.length < 2) return 0;
+  let perimeter = 0;
+  for (let i = 0; i < points.length; i += 1) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    if (a && b) perimeter += geodesicDistance(a, b);
+  }
+  return perimeter;
+}
+
+export function polygonCentroid(ring: readonly GeodesicPoint[]): GeodesicPoint {
+  const points = normalizeRing(ring);
+  const first = points[0];
+  if (!first) {
+    throw new Error('Polygon has no vertices.');
+  }
+  const local = toLocalPlane(points);
+  const cosLat = Math.cos(degToRad(first.lat));
+
+  let twiceArea = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < local.length; i += 1) {
+    const a = local[i];
+    const b = local[(i + 1) % local.length];
+    if (!a || !b) continue;
+    const cross = a.x * b.y - b.x * a.y;
+    twiceArea += cross;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+  if (Math.abs(twiceArea) < 1e-18) {
+    // Degenerate ring: fall back to the vertex average.
+    for (const point of local) {
+      cx += point.x;
+      cy += point.y;
+    }
+    return { lon: first.lon + cx / local.length / cosLat, lat: first.lat + cy / local.length };
+  }
+  cx /= 3 * twiceArea;
+  cy /= 3 * twiceArea;
+  let lon = first.lon + cx / cosLat;
+  if (lon > 180) lon -= 360;
+  if (lon <= -180) lon += 360;
+  return { lon, lat: first.lat + cy };
+}
+
+// Validates the ring and returns area, perimeter and centroid; self-intersecting rings are rejected.
+export function measureGeodesicPolygon(ring: readonly GeodesicPoint[]): GeodesicPolygonMeasure {
+  const points = normalizeRing(ring);
+  if (points.length < 3) {
+    throw new Error('Polygon needs at least 3 distinct vertices.');
+  }
+  const crossing = findPolygonSelfIntersection(points);
+  if (crossing) {
+    throw new Error(
+      `Polygon is self-intersecting: edge ${crossing[0] + 1} crosses edge ${crossing[1] + 1}. Redraw it without crossings.`
+    );
+  }
+  const area = geodesicPolygonArea(points);
+  if (area <= 0) {
+    throw new Error('Polygon has zero area.');
+  }
+  return {
+    area,
+    perimeter: geodesicPolygonPerimeter(points),
+    centroid: polygonCentroid(points)
+  };
+}
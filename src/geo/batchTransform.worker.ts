@@ -0,0 +1,16 @@
+import { runBatchTransform, type BatchTransformRequest } from './batchTransforms';
+
+// Worker entry for BatchTransformWorker: runs one batch job per message and transfers the result back.
+self.onmessage = (event: MessageEvent<{ id: number; request: BatchTransformRequest }>) => {
+  const { id, request } = event.data;
+  try {
+    const result = runBatchTransform(request);
+    const transfer =
+      result instanceof Float32Array || result instanceof Float64Array
+        ? [result.buffer]
+        : [result.lon.buffer, result.lat.buffer, result.height.buffer];
+    self.postMessage({ id, result }, { transfer });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,219 @@
+import {
+  runBatchTransform,
+  type BatchTransformRequest,
+  type BatchTransformResult,
+  type CoordinateArray,
+  type LonLatHeightArrays,
+  type LonLatHeightOutput
+} from './batchTransforms';
+import type { GeoCoordinator, Wgs84OriginInput } from './coords';
+
+export type BatchTransformWorkerOptions = {
+  // Batches with fewer points run on the calling thread; posting them would cost more than it saves.
+  minWorkerPoints?: number;
+  // A worker already running batchTransform.worker, e.g. when the app hosts the script itself.
+  worker?: Worker;
+};
+
+type WorkerResponse = { id: number; result?: BatchTransformResult; error?: string };
+
+type PendingJob = {
+  resolve: (result: BatchTransformResult) => void;
+  reject: (error: Error) => void;
+};
+
+const DEFAULT_MIN_WORKER_POINTS = 50000;
+
+// Runs GeoCoordinator batch transforms off the main thread. The frame (metersPerUnit, axes, ENU
+// origin) is captured when a call is made, and the kernels are the ones the synchronous batch
+// methods use, so results are identical. Inputs are copied to the worker and left intact.
+export class BatchTransformWorker {
+  private readonly _geo: GeoCoordinator;
+  private readonly _minWorkerPoints: number;
+  private readonly _pending = new Map<number, PendingJob>();
+  private _worker: Worker | null;
+  private _sequence = 0;
+  private _disposed = false;
+
+  constructor(geo: GeoCoordinator, options?: BatchTransformWorkerOptions) {
+    this._geo = geo;
+    this._minWorkerPoints = Math.max(0, options?.minWorkerPoints ?? DEFAULT_MIN_WORKER_POINTS);
+    this._worker = options?.worker ?? null;
+    if (this._worker) this.attach(this._worker);
+  }
+
+  wgs84ToThree(input: LonLatHeightArrays, out?: CoordinateArray): Promise<CoordinateArray> {
+    const request: BatchTransformRequest = {
+      op: 'wgs84ToThree',
+      frame: this._geo.transformFrame(),
+      input,
+      float32: out instanceof Float32Array
+    };
+    return this.runCoordinates(request, input.lon.length, out);
+  }
+
+  threeToWgs84(three: CoordinateArray, out?: LonLatHeightOutput): Promise<LonLatHeightOutput> {
+    const request: BatchTransformRequest = { op: 'threeToWgs84', frame: this._geo.transformFrame(), values: three };
+    return this.runLonLatHeight(request, three.length / 3, out);
+  }
+
+  wgs84ToEnu(
+    input: LonLatHeightArrays,
+    originInput?: Wgs84OriginInput,
+    out?: CoordinateArray
+  ): Promise<CoordinateArray> {
+    const request: BatchTransformRequest = {
+      op: 'wgs84ToEnu',
+      frame: this._geo.transformFrame(originInput),
+      input,
+      float32: out instanceof Float32Array
+    };
+    return this.runCoordinates(request, input.lon.length, out);
+  }
+
+  enuToWgs84(
+    enu: CoordinateArray,
+    originInput?: Wgs84OriginInput,
+    out?: LonLatHeightOutput
+  ): Promise<LonLatHeightOutput> {
+    const request: BatchTransformRequest = {
+      op: 'enuToWgs84',
+      frame: this._geo.transformFrame(originInput),
+      values: enu
+    };
+    return this.runLonLatHeight(request, enu.length / 3, out);
+  }
+
+  lonLatToWebMercator(input: LonLatHeightArrays, out?: CoordinateArray): Promise<CoordinateArray> {
+    const request: BatchTransformRequest = { op: 'lonLatToWebMercator', input, float32: out instanceof Float32Array };
+    return this.runCoordinates(request, input.lon.length, out);
+  }
+
+  webMercatorToLonLat(mercator: CoordinateArray, out?: LonLatHeightOutput): Promise<LonLatHeightOutput> {
+    return this.runLonLatHeight({ op: 'webMercatorToLonLat', values: mercator }, mercator.length / 2, out);
+  }
+
+  webMercatorToWorld(
+    mercator: CoordinateArray,
+    origin: { x: number; y: number },
+    out?: CoordinateArray
+  ): Promise<CoordinateArray> {
+    const request: BatchTransformRequest = {
+      op: 'webMercatorToWorld',
+      values: mercator,
+      origin: { x: origin.x, y: origin.y },
+      metersPerUnit: this._geo.metersPerUnit,
+      float32: out instanceof Float32Array
+    };
+    return this.runCoordinates(request, mercator.length / 2, out);
+  }
+
+  worldToWebMercator(
+    world: CoordinateArray,
+    origin: { x: number; y: number },
+    out?: CoordinateArray
+  ): Promise<CoordinateArray> {
+    const request: BatchTransformRequest = {
+      op: 'worldToWebMercator',
+      values: world,
+      origin: { x: origin.x, y: origin.y },
+      metersPerUnit: this._geo.metersPerUnit,
+      float32: out instanceof Float32Array
+    };
+    return this.runCoordinates(request, world.length / 2, out);
+  }
+
+  dispose(): void {
+    if (this._disposed) return;
+    this._disposed = true;
+    this._worker?.terminate();
+    this._worker = null;
+    this.rejectAll(new Error('Batch transform worker was disposed.'));
+  }
+
+  private async runCoordinates(
+    request: BatchTransformRequest,
+    pointCount: number,
+    out?: CoordinateArray
+  ): Promise<CoordinateArray> {
+    const result = await this.run(request, pointCount);
+    if (!(result instanceof Float32Array || result instanceof Float64Array)) {
+      throw new Error(`Batch transform "${request.op}" returned lon/lat arrays instead of coordinates.`);
+    }
+    if (!out) return result;
+    if (out.length < result.length) {
+      throw new Error(`Batch output holds ${out.length} values, needs ${result.length}.`);
+    }
+    out.set(result);
+    return out;
+  }
+
+  private async runLonLatHeight(
+    request: BatchTransformRequest,
+    pointCount: number,
+    out?: LonLatHeightOutput
+  ): Promise<LonLatHeightOutput> {
+    const result = await this.run(request, pointCount);
+    if (result instanceof Float32Array || result instanceof Float64Array) {
+      throw new Error(`Batch transform "${request.op}" returned coordinates instead of lon/lat arrays.`);
+    }
+    if (!out) return result;
+    const count = result.lon.length;
+    if (out.lon.length < count || out.lat.length < count || out.height.length < count) {
+      throw new Error(`Batch output holds fewer than ${count} points.`);
+    }
+    out.lon.set(result.lon);
+    out.lat.set(result.lat);
+    out.height.set(result.height);
+    return out;
+  }
+
+  private run(request: BatchTransformRequest, pointCount: number): Promise<BatchTransformResult> {
+    if (this._disposed) {
+      return Promise.reject(new Error('Batch transform worker was disposed.'));
+    }
+    if (pointCount < this._minWorkerPoints || typeof Worker === 'undefined') {
+      try {
+        return Promise.resolve(runBatchTransform(request));
+      } catch (error) {
+        return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+
+    const worker = this.ensureWorker();
+    this._sequence += 1;
+    const id = this._sequence;
+    return new Promise<BatchTransformResult>((resolve, reject) => {
+      this._pending.set(id, { resolve, reject });
+      worker.postMessage({ id, request });
+    });
+  }
+
+  private ensureWorker(): Worker {
+    if (this._worker) return this._worker;
+    const worker = new Worker(new URL('./batchTransform.worker.ts', import.meta.url), { type: 'module' });
+    this.attach(worker);
+    this._worker = worker;
+    return worker;
+  }
+
+  private attach(worker: Worker): void {
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const { id, result, error } = event.data;
+      const job = this._pending.get(id);
+      if (!job) return;
+      this._pending.delete(id);
+      if (result) job.resolve(result);
+      else job.reject(new Error(error ?? 'Batch transform failed.'));
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      this.rejectAll(new Error(`Batch transform worker failed: ${event.message}`));
+    };
+  }
+
+  private rejectAll(error: Error): void {
+    for (const job of this._pending.values()) job.reject(error);
+    this._pending.clear();
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { GeoCoordinator, type LonLatHeight } from './coords';
+
+// Antimeridian, poles and the Mercator latitude limit, then seeded random points.
+const EDGE_POINTS: LonLatHeight[] = [
+  { lon: 180, lat: 0, height: 0 },
+  { lon: -180, lat: 0, height: 0 },
+  { lon: 179.9999999, lat: -45, height: 1200 },
+  { lon: -179.9999999, lat: 45, height: -50 },
+  { lon: 0, lat: 90, height: 0 },
+  { lon: 123.4, lat: -90, height: 10 },
+  { lon: -75, lat: 89.9999999, height: 8848 },
+  { lon: 45, lat: 85.0511287798066, height: 0 },
+  { lon: -45, lat: -86, height: 0 }
+];
+
+const POINTS = [...EDGE_POINTS, ...randomPoints(200, 20240917)];
+const ENU_ORIGIN = { lon: 179.5, lat: 64.2, height: 35 };
+
+function randomPoints(count: number, seed: number): LonLatHeight[] {
+  const random = mulberry32(seed);
+  return Array.from({ length: count }, () => ({
+    lon: random() * 360 - 180,
+    lat: random() * 180 - 90,
+    height: random() * 20000 - 2000
+  }));
+}
+
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function toArrays(points: LonLatHeight[]) {
+  return {
+    lon: Float64Array.from(points, (point) => point.lon),
+    lat: Float64Array.from(points, (point) => point.lat),
+    height: Float64Array.from(points, (point) => point.height)
+  };
+}
+
+function interleave(values: { x: number; y: number; z?: number }[], stride: 2 | 3): Float64Array {
+  const out = new Float64Array(values.length * stride);
+  values.forEach((value, i) => {
+    out[i * stride] = value.x;
+    out[i * stride + 1] = value.y;
+    if (stride === 3) out[i * stride + 2] = value.z ?? 0;
+  });
+  return out;
+}
+
+function rows(output: { lon: Float64Array; lat: Float64Array; height: Float64Array }): LonLatHeight[] {
+  return Array.from(output.lon, (lon, i) => ({ lon, lat: output.lat[i] ?? 0, height: output.height[i] ?? 0 }));
+}
+
+describe('GeoCoordinator batch transforms', () => {
+  const geo = new GeoCoordinator({ metersPerUnit: 1000, frontLonDeg: 116 });
+  const input = toArrays(POINTS);
+
+  it('matches wgs84ToThree and threeToWgs84 exactly', () => {
+    const three = POINTS.map((point) => geo.wgs84ToThree(point.lat, point.lon, point.height));
+    expect(geo.wgs84ToThreeBatch(input)).toEqual(interleave(three, 3));
+
+    const packed = interleave(three, 3);
+    const expected = three.map((point) => geo.threeToWgs84(point));
+    expect(rows(geo.threeToWgs84Batch(packed))).toEqual(expected);
+  });
+
+  it('matches wgs84ToEnu and enuToWgs84 exactly', () => {
+    const enu = POINTS.map((point) => geo.wgs84ToEnu(point.lat, point.lon, point.height, ENU_ORIGIN));
+    expect(geo.wgs84ToEnuBatch(input, ENU_ORIGIN)).toEqual(interleave(enu, 3));
+
+    const packed = interleave(enu, 3);
+    const expected = enu.map((point) => geo.enuToWgs84(point, ENU_ORIGIN));
+    expect(rows(geo.enuToWgs84Batch(packed, ENU_ORIGIN))).toEqual(expected);
+  });
+
+  it('keeps scalar ENU results right when the origin changes between calls', () => {
+    const other = { lon: -3.7, lat: 40.4, height: 650 };
+    const point = POINTS[20] ?? { lon: 0, lat: 0, height: 0 };
+    const first = geo.wgs84ToEnu(point.lat, point.lon, point.height, ENU_ORIGIN);
+    geo.wgs84ToEnu(point.lat, point.lon, point.height, other);
+    expect(geo.wgs84ToEnu(point.lat, point.lon, point.height, ENU_ORIGIN)).toEqual(first);
+  });
+
+  it('matches lonLatToWebMercator and webMercatorToLonLat exactly', () => {
+    const mercator = POINTS.map((point) => geo.lonLatToWebMercator(point.lon, point.lat));
+    expect(geo.lonLatToWebMercatorBatch(input)).toEqual(interleave(mercator, 2));
+
+    const expected = mercator.map((point) => ({ ...geo.webMercatorToLonLat(point.x, point.y), height: 0 }));
+    expect(rows(geo.webMercatorToLonLatBatch(interleave(mercator, 2)))).toEqual(expected);
+  });
+
+  it('round-trips Web Mercator through planar world units', () => {
+    const mercator = geo.lonLatToWebMercatorBatch(input);
+    const origin = geo.lonLatToWebMercator(116.39, 39.91);
+    const world = geo.webMercatorToWorldBatch(mercator, origin);
+
+    expect(world[0]).toBeCloseTo((Math.PI * 6378137 - origin.x) / 1000, 9);
+    const back = geo.worldToWebMercatorBatch(world, origin);
+    back.forEach((value, i) => expect(value).toBeCloseTo(mercator[i] ?? 0, 6));
+  });
+
+  it('rounds once into Float32Array outputs', () => {
+    const three = geo.wgs84ToThreeBatch(input);
+    expect(geo.wgs84ToThreeBatch(input, new Float32Array(three.length))).toEqual(Float32Array.from(three));
+  });
+});
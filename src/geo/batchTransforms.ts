@@ -0,0 +1,357 @@
+import { degToRad, radToDeg } from './angles';
+import type { LonLatHeight, Vec3 } from './coords';
+import { WEB_MERCATOR_MAX_LAT, WEB_MERCATOR_R, WGS84_A, WGS84_B, WGS84_E2 } from './ellipsoid';
+
+export type CoordinateArray = Float32Array | Float64Array;
+
+// Heights default to 0 when omitted; every array must hold the same number of points.
+export type LonLatHeightArrays = {
+  lon: Float64Array;
+  lat: Float64Array;
+  height?: Float64Array;
+};
+
+export type LonLatHeightOutput = {
+  lon: Float64Array;
+  lat: Float64Array;
+  height: Float64Array;
+};
+
+// Plain-data snapshot of a GeoCoordinator frame, so the same kernels run inside a worker.
+export type TransformFrame = {
+  metersPerUnit: number;
+  axisX: Vec3;
+  axisY: Vec3;
+  axisZ: Vec3;
+  enuOrigin: LonLatHeight | null;
+};
+
+// GeoCoordinator's scalar transforms call the exported kernels below, so a batch result is bit-identical
+// to the scalar one (rounded once on write for Float32Array outputs).
+
+function pointCount(input: LonLatHeightArrays): number {
+  const count = input.lon.length;
+  if (input.lat.length !== count || (input.height && input.height.length !== count)) {
+    throw new Error(
+      `Batch lon/lat/height arrays differ in length: ${count}/${input.lat.length}/${input.height?.length ?? count}`
+    );
+  }
+  return count;
+}
+
+function interleavedCount(values: CoordinateArray, stride: number): number {
+  if (values.length % stride !== 0) {
+    throw new Error(`Batch coordinate array length ${values.length} is not a multiple of ${stride}.`);
+  }
+  return values.length / stride;
+}
+
+function assertOutputLength(out: { length: number }, expected: number): void {
+  if (out.length < expected) {
+    throw new Error(`Batch output holds ${out.length} values, needs ${expected}.`);
+  }
+}
+
+function requireEnuOrigin(frame: TransformFrame): LonLatHeight {
+  if (!frame.enuOrigin) {
+    throw new Error('ENU origin is not set. Provide WGS84 origin or camera position.');
+  }
+  return frame.enuOrigin;
+}
+
+function lonLatHeightOutput(count: number, out?: LonLatHeightOutput): LonLatHeightOutput {
+  if (!out) {
+    return { lon: new Float64Array(count), lat: new Float64Array(count), height: new Float64Array(count) };
+  }
+  assertOutputLength(out.lon, count);
+  assertOutputLength(out.lat, count);
+  assertOutputLength(out.height, count);
+  return out;
+}
+
+function writeGeodetic(geodetic: Float64Array, out: LonLatHeightOutput, index: number): void {
+  out.lon[index] = geodetic[0] ?? 0;
+  out.lat[index] = geodetic[1] ?? 0;
+  out.height[index] = geodetic[2] ?? 0;
+}
+
+// Writes the ECEF position of (lat, lon, height) into out[offset..offset + 2].
+export function geodeticToEcef(lat: number, lon: number, height: number, out: CoordinateArray, offset = 0): void {
+  const latRad = degToRad(lat);
+  const lonRad = degToRad(lon);
+  const sinLat = Math.sin(latRad);
+  const cosLat = Math.cos(latRad);
+  const sinLon = Math.sin(lonRad);
+  const cosLon = Math.cos(lonRad);
+
+  const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+
+  out[offset] = (n + height) * cosLat * cosLon;
+  out[offset + 1] = (n + height) * cosLat * sinLon;
+  out[offset + 2] = (n * (1 - WGS84_E2) + height) * sinLat;
+}
+
+// Bowring's formula; writes lon and lat in degrees and the ellipsoidal height into out[offset..offset + 2].
+export function ecefToGeodetic(x: number, y: number, z: number, out: Float64Array, offset = 0): void {
+  const p = Math.sqrt(x * x + y * y);
+  const theta = Math.atan2(z * WGS84_A, p * WGS84_B);
+  const sinTheta = Math.sin(theta);
+  const cosTheta = Math.cos(theta);
+  const ePrime2 = (WGS84_A * WGS84_A - WGS84_B * WGS84_B) / (WGS84_B * WGS84_B);
+
+  const lon = Math.atan2(y, x);
+  const lat = Math.atan2(
+    z + ePrime2 * WGS84_B * sinTheta * sinTheta * sinTheta,
+    p - WGS84_E2 * WGS84_A * cosTheta * cosTheta * cosTheta
+  );
+
+  const sinLat = Math.sin(lat);
+  const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+
+  out[offset] = radToDeg(lon);
+  out[offset + 1] = radToDeg(lat);
+  out[offset + 2] = p / Math.cos(lat) - n;
+}
+
+// Origin ECEF position plus the sines and cosines of its latitude and longitude.
+export function enuBasis(origin: LonLatHeight): Float64Array {
+  const basis = new Float64Array(7);
+  geodeticToEcef(origin.lat, origin.lon, origin.height, basis);
+  const latRad = degToRad(origin.lat);
+  const lonRad = degToRad(origin.lon);
+  basis[3] = Math.sin(latRad);
+  basis[4] = Math.cos(latRad);
+  basis[5] = Math.sin(lonRad);
+  basis[6] = Math.cos(lonRad);
+  return basis;
+}
+
+// Writes east, north, up in meters into out[offset..offset + 2].
+export function ecefToEnu(
+  basis: Float64Array,
+  x: number,
+  y: number,
+  z: number,
+  out: CoordinateArray,
+  offset = 0
+): void {
+  const sinLat = basis[3] ?? 0;
+  const cosLat = basis[4] ?? 0;
+  const sinLon = basis[5] ?? 0;
+  const cosLon = basis[6] ?? 0;
+  const dx = x - (basis[0] ?? 0);
+  const dy = y - (basis[1] ?? 0);
+  const dz = z - (basis[2] ?? 0);
+  out[offset] = -sinLon * dx + cosLon * dy;
+  out[offset + 1] = -sinLat * cosLon * dx - sinLat * sinLon * dy + cosLat * dz;
+  out[offset + 2] = cosLat * cosLon * dx + cosLat * sinLon * dy + sinLat * dz;
+}
+
+// Writes the ECEF position into out[offset..offset + 2].
+export function enuToEcef(
+  basis: Float64Array,
+  east: number,
+  north: number,
+  up: number,
+  out: CoordinateArray,
+  offset = 0
+): void {
+  const sinLat = basis[3] ?? 0;
+  const cosLat = basis[4] ?? 0;
+  const sinLon = basis[5] ?? 0;
+  const cosLon = basis[6] ?? 0;
+  out[offset] = (basis[0] ?? 0) + (-sinLon * east - sinLat * cosLon * north + cosLat * cosLon * up);
+  out[offset + 1] = (basis[1] ?? 0) + (cosLon * east - sinLat * sinLon * north + cosLat * sinLon * up);
+  out[offset + 2] = (basis[2] ?? 0) + (cosLat * north + sinLat * up);
+}
+
+export function wgs84ToThreeBatch(
+  frame: TransformFrame,
+  input: LonLatHeightArrays,
+  out?: CoordinateArray
+): CoordinateArray {
+  const count = pointCount(input);
+  const target = out ?? new Float64Array(count * 3);
+  assertOutputLength(target, count * 3);
+  const { metersPerUnit, axisX, axisY, axisZ } = frame;
+  const ecef = new Float64Array(3);
+  for (let i = 0; i < count; i += 1) {
+    geodeticToEcef(input.lat[i] ?? 0, input.lon[i] ?? 0, input.height?.[i] ?? 0, ecef);
+    const x = ecef[0] ?? 0;
+    const y = ecef[1] ?? 0;
+    const z = ecef[2] ?? 0;
+    target[i * 3] = (x * axisX.x + y * axisX.y + z * axisX.z) / metersPerUnit;
+    target[i * 3 + 1] = (x * axisY.x + y * axisY.y + z * axisY.z) / metersPerUnit;
+    target[i * 3 + 2] = (x * axisZ.x + y * axisZ.y + z * axisZ.z) / metersPerUnit;
+  }
+  return target;
+}
+
+// `three` is interleaved x, y, z in three world units.
+export function threeToWgs84Batch(
+  frame: TransformFrame,
+  three: CoordinateArray,
+  out?: LonLatHeightOutput
+): LonLatHeightOutput {
+  const count = interleavedCount(three, 3);
+  const target = lonLatHeightOutput(count, out);
+  const { metersPerUnit, axisX, axisY, axisZ } = frame;
+  const geodetic = new Float64Array(3);
+  for (let i = 0; i < count; i += 1) {
+    const sx = (three[i * 3] ?? 0) * metersPerUnit;
+    const sy = (three[i * 3 + 1] ?? 0) * metersPerUnit;
+    const sz = (three[i * 3 + 2] ?? 0) * metersPerUnit;
+    ecefToGeodetic(
+      axisX.x * sx + axisY.x * sy + axisZ.x * sz,
+      axisX.y * sx + axisY.y * sy + axisZ.y * sz,
+      axisX.z * sx + axisY.z * sy + axisZ.z * sz,
+      geodetic
+    );
+    writeGeodetic(geodetic, target, i);
+  }
+  return target;
+}
+
+export function wgs84ToEnuBatch(
+  frame: TransformFrame,
+  input: LonLatHeightArrays,
+  out?: CoordinateArray
+): CoordinateArray {
+  const count = pointCount(input);
+  const target = out ?? new Float64Array(count * 3);
+  assertOutputLength(target, count * 3);
+  const basis = enuBasis(requireEnuOrigin(frame));
+  const ecef = new Float64Array(3);
+  for (let i = 0; i < count; i += 1) {
+    geodeticToEcef(input.lat[i] ?? 0, input.lon[i] ?? 0, input.height?.[i] ?? 0, ecef);
+    ecefToEnu(basis, ecef[0] ?? 0, ecef[1] ?? 0, ecef[2] ?? 0, target, i * 3);
+  }
+  return target;
+}
+
+// `enu` is interleaved east, north, up in meters.
+export function enuToWgs84Batch(
+  frame: TransformFrame,
+  enu: CoordinateArray,
+  out?: LonLatHeightOutput
+): LonLatHeightOutput {
+  const count = interleavedCount(enu, 3);
+  const target = lonLatHeightOutput(count, out);
+  const basis = enuBasis(requireEnuOrigin(frame));
+  const ecef = new Float64Array(3);
+  const geodetic = new Float64Array(3);
+  for (let i = 0; i < count; i += 1) {
+    enuToEcef(basis, enu[i * 3] ?? 0, enu[i * 3 + 1] ?? 0, enu[i * 3 + 2] ?? 0, ecef);
+    ecefToGeodetic(ecef[0] ?? 0, ecef[1] ?? 0, ecef[2] ?? 0, geodetic);
+    writeGeodetic(geodetic, target, i);
+  }
+  return target;
+}
+
+// Output is interleaved Web Mercator x, y in meters; heights are ignored.
+export function lonLatToWebMercatorBatch(input: LonLatHeightArrays, out?: CoordinateArray): CoordinateArray {
+  const count = pointCount(input);
+  const target = out ?? new Float64Array(count * 2);
+  assertOutputLength(target, count * 2);
+  for (let i = 0; i < count; i += 1) {
+    const lat = Math.max(-WEB_MERCATOR_MAX_LAT, Math.min(WEB_MERCATOR_MAX_LAT, input.lat[i] ?? 0));
+    target[i * 2] = WEB_MERCATOR_R * degToRad(input.lon[i] ?? 0);
+    target[i * 2 + 1] = WEB_MERCATOR_R * Math.log(Math.tan(Math.PI / 4 + degToRad(lat) / 2));
+  }
+  return target;
+}
+
+// Heights in the output are 0; the lon/lat arrays are what the inverse produces.
+export function webMercatorToLonLatBatch(mercator: CoordinateArray, out?: LonLatHeightOutput): LonLatHeightOutput {
+  const count = interleavedCount(mercator, 2);
+  const target = lonLatHeightOutput(count, out);
+  for (let i = 0; i < count; i += 1) {
+    const x = mercator[i * 2] ?? 0;
+    const y = mercator[i * 2 + 1] ?? 0;
+    target.lon[i] = radToDeg(x / WEB_MERCATOR_R);
+    target.lat[i] = radToDeg(2 * Math.atan(Math.exp(y / WEB_MERCATOR_R)) - Math.PI / 2);
+    target.height[i] = 0;
+  }
+  return target;
+}
+
+// Planar scene world x, y: Web Mercator relative to `origin` (the scene's origin in Mercator meters),
+// in world units.
+export function webMercatorToWorldBatch(
+  mercator: CoordinateArray,
+  origin: { x: number; y: number },
+  metersPerUnit: number,
+  out?: CoordinateArray
+): CoordinateArray {
+  const count = interleavedCount(mercator, 2);
+  const target = out ?? new Float64Array(count * 2);
+  assertOutputLength(target, count * 2);
+  for (let i = 0; i < count; i += 1) {
+    target[i * 2] = ((mercator[i * 2] ?? 0) - origin.x) / metersPerUnit;
+    target[i * 2 + 1] = ((mercator[i * 2 + 1] ?? 0) - origin.y) / metersPerUnit;
+  }
+  return target;
+}
+
+export function worldToWebMercatorBatch(
+  world: CoordinateArray,
+  origin: { x: number; y: number },
+  metersPerUnit: number,
+  out?: CoordinateArray
+): CoordinateArray {
+  const count = interleavedCount(world, 2);
+  const target = out ?? new Float64Array(count * 2);
+  assertOutputLength(target, count * 2);
+  for (let i = 0; i < count; i += 1) {
+    target[i * 2] = origin.x + (world[i * 2] ?? 0) * metersPerUnit;
+    target[i * 2 + 1] = origin.y + (world[i * 2 + 1] ?? 0) * metersPerUnit;
+  }
+  return target;
+}
+
+// A batch job as plain data, run the same way on the calling thread and in the worker.
+export type BatchTransformRequest =
+  | { op: 'wgs84ToThree' | 'wgs84ToEnu'; frame: TransformFrame; input: LonLatHeightArrays; float32: boolean }
+  | { op: 'threeToWgs84' | 'enuToWgs84'; frame: TransformFrame; values: CoordinateArray }
+  | { op: 'lonLatToWebMercator'; input: LonLatHeightArrays; float32: boolean }
+  | { op: 'webMercatorToLonLat'; values: CoordinateArray }
+  | {
+      op: 'webMercatorToWorld' | 'worldToWebMercator';
+      values: CoordinateArray;
+      origin: { x: number; y: number };
+      metersPerUnit: number;
+      float32: boolean;
+    };
+
+export type BatchTransformResult = CoordinateArray | LonLatHeightOutput;
+
+export function runBatchTransform(request: BatchTransformRequest): BatchTransformResult {
+  switch (request.op) {
+    case 'wgs84ToThree':
+    case 'wgs84ToEnu': {
+      const count = pointCount(request.input);
+      const out = request.float32 ? new Float32Array(count * 3) : new Float64Array(count * 3);
+      return request.op === 'wgs84ToThree'
+        ? wgs84ToThreeBatch(request.frame, request.input, out)
+        : wgs84ToEnuBatch(request.frame, request.input, out);
+    }
+    case 'threeToWgs84':
+      return threeToWgs84Batch(request.frame, request.values);
+    case 'enuToWgs84':
+      return enuToWgs84Batch(request.frame, request.values);
+    case 'lonLatToWebMercator': {
+      const count = pointCount(request.input);
+      const out = request.float32 ? new Float32Array(count * 2) : new Float64Array(count * 2);
+      return lonLatToWebMercatorBatch(request.input, out);
+    }
+    case 'webMercatorToLonLat':
+      return webMercatorToLonLatBatch(request.values);
+    case 'webMercatorToWorld':
+    case 'worldToWebMercator': {
+      const out = request.float32 ? new Float32Array(request.values.length) : new Float64Array(request.values.length);
+      return request.op === 'webMercatorToWorld'
+        ? webMercatorToWorldBatch(request.values, request.origin, request.metersPerUnit, out)
+        : worldToWebMercatorBatch(request.values, request.origin, request.metersPerUnit, out);
+    }
+  }
+}
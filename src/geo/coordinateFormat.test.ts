@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatCoordinate,
+  formatDdm,
+  formatDms,
+  formatMgrs,
+  formatUsng,
+  parseCoordinate,
+  parseMgrs
+} from './coordinateFormat';
+
+// lon, lat, MGRS. 33.3°N 44.4°E is the example in GeographicLib's GeoConvert manual; the grid squares of the
+// others agree with the proj4js mgrs package, with digits truncated (not rounded) to 1 m like GeoConvert does.
+const MGRS_POINTS = [
+  [44.4, 33.3, '38SMB4414084706'],
+  [-77.0353, 38.8895, '18SUJ2347806483'],
+  [151.2153, -33.8568, '56HLH3490052288'],
+  [5.3221, 60.3913, '32VKN9735300648'],
+  [-0.1276, 51.5072, '30UXC9933010142'],
+  [18.4241, -33.9249, '34HBH6188143182']
+] as const;
+
+describe('MGRS and USNG', () => {
+  it.each(MGRS_POINTS)('writes %f, %f as %s and reads it back', (lon, lat, mgrs) => {
+    expect(formatMgrs(lon, lat)).toBe(mgrs);
+    const point = parseMgrs(mgrs);
+    expect(point.lon).toBeCloseTo(lon, 4);
+    expect(point.lat).toBeCloseTo(lat, 4);
+  });
+
+  it('truncates to the requested precision and parses coarse squares to their centre', () => {
+    expect(formatMgrs(44.4, 33.3, 2)).toBe('38SMB4484');
+    expect(formatMgrs(44.4, 33.3, 0)).toBe('38SMB');
+    expect(formatUsng(44.4, 33.3, 3)).toBe('38S MB 441 847');
+
+    const centre = parseMgrs('38SMB4484');
+    const corner = parseMgrs('38SMB4400084000');
+    expect(centre.lon).toBeGreaterThan(corner.lon);
+    expect(centre.lat).toBeGreaterThan(corner.lat);
+  });
+
+  it('tells USNG from MGRS and rejects squares outside the zone', () => {
+    expect(parseCoordinate('18S UJ 23478 06483').format).toBe('usng');
+    expect(parseCoordinate('18SUJ2347806483').format).toBe('mgrs');
+    expect(() => parseMgrs('38SAB4414084706')).toThrow(/does not exist/);
+    expect(() => parseMgrs('38SMB441408470')).toThrow(/same number of digits/);
+  });
+});
+
+describe('DMS and DDM', () => {
+  it('formats the Washington Monument', () => {
+    expect(formatDms(38.8895, 'lat')).toBe('38°53′22.20″N');
+    expect(formatDms(-77.0353, 'lon', 1)).toBe('77°02′07.1″W');
+    expect(formatDdm(38.8895, 'lat')).toBe('38°53.3700′N');
+    expect(formatCoordinate(-77.0353, 38.8895, 'dms')).toBe('38°53′22.20″N 77°02′07.08″W');
+  });
+
+  it('carries rounded seconds into the minutes', () => {
+    expect(formatDms(10.9999999, 'lat')).toBe('11°00′00.00″N');
+  });
+
+  it.each([
+    ['39°54\'25.2"N 116°23\'27.6"E', 'dms'],
+    ['N 39°54\'25.2" E 116°23\'27.6"', 'dms'],
+    ['116°23′27.6″E, 39°54′25.2″N', 'dms'],
+    ['39 54 25.2 N, 116 23 27.6 E', 'dms'],
+    ['39°54.42\'N 116°23.46\'E', 'ddm'],
+    ['116.391, 39.907', 'decimal']
+  ])('parses %s', (text, format) => {
+    const parsed = parseCoordinate(text);
+    expect(parsed.format).toBe(format);
+    expect(parsed.lon).toBeCloseTo(116.391, 9);
+    expect(parsed.lat).toBeCloseTo(39.907, 9);
+    expect(parsed.swapped).toBe(false);
+  });
+
+  it('reads a third value as the height', () => {
+    expect(parseCoordinate('-77.0353, 38.8895, 169m')).toMatchObject({ lon: -77.0353, lat: 38.8895, height: 169 });
+  });
+});
+
+describe('axis order', () => {
+  it('swaps a lat, lon pair whose latitude would be out of range', () => {
+    expect(parseCoordinate('39.907, 116.391')).toMatchObject({ lon: 116.391, lat: 39.907, swapped: true });
+    expect(parseCoordinate('116.391, 39.907', { order: 'latlon' })).toMatchObject({
+      lon: 116.391,
+      lat: 39.907,
+      swapped: true
+    });
+  });
+
+  it('takes ambiguous pairs as written', () => {
+    expect(parseCoordinate('38.8895, -77.0353')).toMatchObject({ lon: 38.8895, lat: -77.0353, swapped: false });
+    expect(parseCoordinate('38.8895, -77.0353', { order: 'latlon' })).toMatchObject({
+      lon: -77.0353,
+      lat: 38.8895,
+      swapped: false
+    });
+  });
+
+  it('rejects pairs that fit neither order or repeat a hemisphere', () => {
+    expect(() => parseCoordinate('120, 100')).toThrow();
+    expect(() => parseCoordinate('39°N 116°N')).toThrow(/latitude hemisphere/);
+  });
+});
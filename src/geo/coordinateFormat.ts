@@ -0,0 +1,402 @@
+import { lonLatToUtm, utmToLonLat, type UtmHemisphere } from './transverseMercator';
+
+export type CoordinateAxis = 'lat' | 'lon';
+
+export type CoordinateFormat = 'decimal' | 'dms' | 'ddm' | 'mgrs' | 'usng';
+
+export type CoordinateOrder = 'lonlat' | 'latlon';
+
+export type CoordinateParseOptions = {
+  // Order assumed for pairs without hemisphere letters; defaults to the engine's "lon,lat".
+  order?: CoordinateOrder;
+};
+
+// `swapped` is set when a pair without hemisphere letters only made sense in the other order.
+// MGRS / USNG references resolve to the centre of their grid square.
+export type ParsedCoordinate = {
+  lon: number;
+  lat: number;
+  height?: number;
+  format: CoordinateFormat;
+  swapped: boolean;
+};
+
+export type CoordinateFormatOptions = {
+  // Defaults to "lon, lat" for decimal and "lat lon" for DMS / DDM, as they are usually written.
+  order?: CoordinateOrder;
+  // Decimal places of degrees, minutes or seconds, or MGRS / USNG digits per axis (0-5).
+  precision?: number;
+};
+
+type Hemisphere = 'N' | 'S' | 'E' | 'W';
+
+type AngleToken = {
+  value: number;
+  unit: 'deg' | 'min' | 'sec' | 'meters' | null;
+  negative: boolean;
+};
+
+type AngleComponent = {
+  values: AngleToken[];
+  hemisphere: Hemisphere | null;
+};
+
+const MGRS_BAND_LETTERS = 'CDEFGHJKLMNPQRSTUVWX';
+const MGRS_COLUMN_SETS = ['STUVWXYZ', 'ABCDEFGH', 'JKLMNPQR'];
+const MGRS_ROW_LETTERS = 'ABCDEFGHJKLMNPQRSTUV';
+const MGRS_SQUARE_METERS = 100000;
+const MGRS_ROW_CYCLE_METERS = 2000000;
+const MGRS_PATTERN = /^(\d{1,2})\s*([C-HJ-NP-X])\s*([A-HJ-NP-Z])([A-HJ-NP-V])\s*(\d*)\s*(\d*)$/;
+// A signed number with an optional degree, minute or second mark, or "m" for a height in meters.
+const NUMBER_PATTERN = /([+-]?)(\d+(?:\.\d*)?|\.\d+)\s*(°|'|"|M(?![A-Z]))?/y;
+const SEPARATORS = ',;/';
+
+function axisName(axis: CoordinateAxis): string {
+  return axis === 'lat' ? 'latitude' : 'longitude';
+}
+
+function assertFinite(value: number, axis: CoordinateAxis): void {
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid ${axisName(axis)}: ${value}`);
+  }
+}
+
+function assertLonLat(lon: number, lat: number): void {
+  if (!Number.isFinite(lon) || lon < -180 || lon > 180) {
+    throw new Error(`Longitude must be in [-180, 180], got ${lon}`);
+  }
+  if (!Number.isFinite(lat) || lat < -90 || lat > 90) {
+    throw new Error(`Latitude must be in [-90, 90], got ${lat}`);
+  }
+}
+
+function hemisphereOf(value: number, axis: CoordinateAxis): Hemisphere {
+  return axis === 'lat' ? (value < 0 ? 'S' : 'N') : value < 0 ? 'W' : 'E';
+}
+
+// Latitude band of MGRS: 8° bands from 80°S, with X stretched to 84°N.
+function mgrsBand(lat: number): string {
+  if (lat < -80 || lat >= 84) {
+    throw new Error(`MGRS covers 80°S to 84°N; polar (UPS) references are not supported: ${lat}`);
+  }
+  return MGRS_BAND_LETTERS.charAt(Math.min(19, Math.floor((lat + 80) / 8)));
+}
+
+// Row letters of even zones start at F so squares do not line up across zone boundaries.
+function mgrsRowOffset(zone: number): number {
+  return zone % 2 === 0 ? 5 : 0;
+}
+
+// Lowest northing any point of the band can have in its zone: the band's southern parallel, which
+// in the southern hemisphere dips furthest at the zone edge.
+function mgrsBandMinNorthing(zone: number, band: string): number {
+  const south = -80 + MGRS_BAND_LETTERS.indexOf(band) * 8;
+  const hemisphere: UtmHemisphere = south < 0 ? 'S' : 'N';
+  const centralMeridian = zone * 6 - 183;
+  const atCentre = lonLatToUtm(centralMeridian, south, { zone, hemisphere }).northing;
+  const atEdge = lonLatToUtm(centralMeridian + 3, south, { zone, hemisphere }).northing;
+  return Math.min(atCentre, atEdge);
+}
+
+function mgrsParts(lon: number, lat: number, precision: number): [string, string, string, string] {
+  assertLonLat(lon, lat);
+  if (!Number.isInteger(precision) || precision < 0 || precision > 5) {
+    throw new Error(`MGRS precision must be an integer from 0 to 5, got ${precision}`);
+  }
+  const band = mgrsBand(lat);
+  const utm = lonLatToUtm(lon, lat);
+  const column = (MGRS_COLUMN_SETS[utm.zone % 3] ?? '').charAt(Math.floor(utm.easting / MGRS_SQUARE_METERS) - 1);
+  const row = MGRS_ROW_LETTERS.charAt(
+    (Math.floor(utm.northing / MGRS_SQUARE_METERS) + mgrsRowOffset(utm.zone)) % MGRS_ROW_LETTERS.length
+  );
+  if (!column || !row) {
+    throw new Error(`No MGRS square for ${lon},${lat}`);
+  }
+  // References truncate rather than round: the square named always contains the point.
+  const resolution = 10 ** (5 - precision);
+  const digits = (value: number) =>
+    precision === 0 ? '' : String(Math.floor((value % MGRS_SQUARE_METERS) / resolution)).padStart(precision, '0');
+  return [`${String(utm.zone).padStart(2, '0')}${band}`, `${column}${row}`, digits(utm.easting), digits(utm.northing)];
+}
+
+function normalizeSymbols(text: string): string {
+  return text
+    .trim()
+    .toUpperCase()
+    .replace(/[º˚]/g, '°')
+    .replace(/''|[″“”]/g, '"')
+    .replace(/[′’‘`´]/g, "'");
+}
+
+function unitOf(symbol: string | undefined): AngleToken['unit'] {
+  if (symbol === '°') return 'deg';
+  if (symbol === "'") return 'min';
+  if (symbol === '"') return 'sec';
+  if (symbol === 'M') return 'meters';
+  return null;
+}
+
+function isHemisphereLetter(text: string, index: number): boolean {
+  return /[NSEW]/.test(text.charAt(index)) && !/[A-Z]/.test(text.charAt(index + 1));
+}
+
+// Splits text into angle components. Separators end a component and a degree mark starts one;
+// minutes and seconds marks continue it. Plain numbers stand alone unless a hemisphere letter
+// groups them: a prefix letter collects the numbers after it, a suffix letter those before it.
+function tokenizeComponents(text: string): AngleComponent[] {
+  const components: AngleComponent[] = [];
+  const prefixStyle = /^[NSEW]/.test(text);
+  let current: AngleComponent | null = null;
+  let pending: Hemisphere | null = null;
+  // Index in `components` where the values an upcoming suffix letter applies to begin.
+  let segmentStart = 0;
+  let cursor = 0;
+
+  while (cursor < text.length) {
+    const char = text.charAt(cursor);
+    if (/\s/.test(char)) {
+      cursor += 1;
+      continue;
+    }
+    if (SEPARATORS.includes(char)) {
+      if (current) components.push(current);
+      current = null;
+      segmentStart = components.length;
+      cursor += 1;
+      continue;
+    }
+    if (isHemisphereLetter(text, cursor)) {
+      const hemisphere = char as Hemisphere;
+      cursor += 1;
+      if (current) components.push(current);
+      current = null;
+      if (prefixStyle) {
+        pending = hemisphere;
+        continue;
+      }
+      const segment = components.splice(segmentStart);
+      if (segment.length === 0) {
+        throw new Error(`Hemisphere "${hemisphere}" does not follow a value.`);
+      }
+      components.push({ values: segment.flatMap((component) => component.values), hemisphere });
+      segmentStart = components.length;
+      continue;
+    }
+
+    NUMBER_PATTERN.lastIndex = cursor;
+    const match = NUMBER_PATTERN.exec(text);
+    if (!match) {
+      throw new Error(`Unexpected "${char}" in coordinate.`);
+    }
+    cursor = NUMBER_PATTERN.lastIndex;
+    const token: AngleToken = { value: Number(match[2]), unit: unitOf(match[3]), negative: match[1] === '-' };
+    const last = current?.values[current.values.length - 1];
+    const continues =
+      current !== null &&
+      !match[1] &&
+      (token.unit === 'min' || token.unit === 'sec' || token.unit === null) &&
+      (last?.unit === 'deg' ||
+        last?.unit === 'min' ||
+        (last?.unit === null && token.unit !== null) ||
+        (current.hemisphere !== null && token.unit === null));
+    if (current && continues) {
+      current.values.push(token);
+      continue;
+    }
+    if (current) components.push(current);
+    current = { values: [token], hemisphere: pending };
+    pending = null;
+  }
+  if (current) components.push(current);
+  if (pending) {
+    throw new Error(`Hemisphere "${pending}" is not followed by a value.`);
+  }
+  return components;
+}
+
+function componentToDegrees(component: AngleComponent): { value: number; sexagesimal: 'dms' | 'ddm' | null } {
+  const parts = [0, 0, 0];
+  let position = 0;
+  for (const token of component.values) {
+    const slot = token.unit === 'deg' ? 0 : token.unit === 'min' ? 1 : token.unit === 'sec' ? 2 : position;
+    if (token.unit === 'meters' || slot < position || slot > 2) {
+      throw new Error('Degrees, minutes and seconds are out of order.');
+    }
+    parts[slot] = token.value;
+    position = slot + 1;
+  }
+  const [degrees = 0, minutes = 0, seconds = 0] = parts;
+  if (position > 1 && (minutes >= 60 || seconds >= 60 || !Number.isInteger(degrees))) {
+    throw new Error(`Invalid degrees/minutes/seconds: ${degrees} ${minutes} ${seconds}`);
+  }
+  if (position > 2 && !Number.isInteger(minutes)) {
+    throw new Error(`Minutes must be whole when seconds are given: ${minutes}`);
+  }
+  const negative = component.values[0]?.negative ?? false;
+  if (negative && component.hemisphere) {
+    throw new Error('A coordinate cannot have both a minus sign and a hemisphere letter.');
+  }
+  const southOrWest = component.hemisphere === 'S' || component.hemisphere === 'W';
+  const value = (degrees + minutes / 60 + seconds / 3600) * (negative || southOrWest ? -1 : 1);
+  return { value, sexagesimal: position === 3 ? 'dms' : position === 2 ? 'ddm' : null };
+}
+
+function parseHeight(component: AngleComponent): number {
+  const [token] = component.values;
+  const plain = token?.unit === null || token?.unit === 'meters';
+  if (!token || !plain || component.values.length !== 1 || component.hemisphere) {
+    throw new Error('The third value of a coordinate must be a height in meters.');
+  }
+  return token.negative ? -token.value : token.value;
+}
+
+export function formatDms(value: number, axis: CoordinateAxis, secondDecimals = 2): string {
+  assertFinite(value, axis);
+  const hemisphere = hemisphereOf(value, axis);
+  const scale = 10 ** secondDecimals;
+  // Round once in whole units of the last second digit so 59.999" carries into the minutes.
+  const total = Math.round(Math.abs(value) * 3600 * scale);
+  const degrees = Math.floor(total / (3600 * scale));
+  const minutes = Math.floor((total - degrees * 3600 * scale) / (60 * scale));
+  const seconds = (total - degrees * 3600 * scale - minutes * 60 * scale) / scale;
+  const secondsText = seconds.toFixed(secondDecimals).padStart(secondDecimals > 0 ? secondDecimals + 3 : 2, '0');
+  return `${degrees}°${String(minutes).padStart(2, '0')}′${secondsText}″${hemisphere}`;
+}
+
+// Degrees and decimal minutes, e.g. 30°12.5000′N.
+export function formatDdm(value: number, axis: CoordinateAxis, minuteDecimals = 4): string {
+  assertFinite(value, axis);
+  const hemisphere = hemisphereOf(value, axis);
+  const scale = 10 ** minuteDecimals;
+  const total = Math.round(Math.abs(value) * 60 * scale);
+  const degrees = Math.floor(total / (60 * scale));
+  const minutes = (total - degrees * 60 * scale) / scale;
+  const minutesText = minutes.toFixed(minuteDecimals).padStart(minuteDecimals > 0 ? minuteDecimals + 3 : 2, '0');
+  return `${degrees}°${minutesText}′${hemisphere}`;
+}
+
+// MGRS reference truncated to `precision` digits per axis (5 = 1 m, 0 = the 100 km square).
+export function formatMgrs(lon: number, lat: number, precision = 5): string {
+  return mgrsParts(lon, lat, precision).join('');
+}
+
+// USNG is MGRS on WGS84 written with spaces, e.g. "18S UJ 23480 06470".
+export function formatUsng(lon: number, lat: number, precision = 5): string {
+  const [zoneBand, square, easting, northing] = mgrsParts(lon, lat, precision);
+  return [zoneBand, square, easting, northing].filter((part) => part).join(' ');
+}
+
+// Accepts MGRS and USNG with or without spaces; the result is the centre of the referenced square.
+export function parseMgrs(text: string): { lon: number; lat: number } {
+  const match = MGRS_PATTERN.exec(normalizeSymbols(text));
+  if (!match) {
+    throw new Error(`Not an MGRS / USNG reference: "${text}"`);
+  }
+  const [, zoneText = '', band = '', column = '', row = '', first = '', second = ''] = match;
+  const zone = Number(zoneText);
+  if (zone < 1 || zone > 60) {
+    throw new Error(`Invalid MGRS zone: ${zoneText}`);
+  }
+  // Digits come as one run ("4348306479") or, in USNG, as separate easting and northing.
+  const half = Math.floor(first.length / 2);
+  const digits = second
+    ? { easting: first, northing: second }
+    : { easting: first.slice(0, half), northing: first.slice(half) };
+  if (digits.easting.length !== digits.northing.length || digits.easting.length > 5) {
+    throw new Error(`MGRS easting and northing need the same number of digits (at most 5 each): "${text}"`);
+  }
+
+  const columnIndex = (MGRS_COLUMN_SETS[zone % 3] ?? '').indexOf(column);
+  const rowIndex = MGRS_ROW_LETTERS.indexOf(row);
+  if (columnIndex < 0 || rowIndex < 0) {
+    throw new Error(`Grid square "${column}${row}" does not exist in MGRS zone ${zone}.`);
+  }
+  const precision = digits.easting.length;
+  const resolution = 10 ** (5 - precision);
+  const offset = (value: string) => (precision === 0 ? 0 : Number(value) * resolution) + resolution / 2;
+  const easting = (columnIndex + 1) * MGRS_SQUARE_METERS + offset(digits.easting);
+
+  // Row letters repeat every 2000 km; the band picks the cycle.
+  const rowCount = MGRS_ROW_LETTERS.length;
+  const rowNorthing = ((((rowIndex - mgrsRowOffset(zone)) % rowCount) + rowCount) % rowCount) * MGRS_SQUARE_METERS;
+  const minNorthing = mgrsBandMinNorthing(zone, band);
+  let squareNorthing = rowNorthing;
+  while (squareNorthing + MGRS_SQUARE_METERS <= minNorthing) squareNorthing += MGRS_ROW_CYCLE_METERS;
+
+  const hemisphere: UtmHemisphere = band < 'N' ? 'S' : 'N';
+  return utmToLonLat(easting, squareNorthing + offset(digits.northing), zone, hemisphere);
+}
+
+// Parses decimal degrees, DMS (30°12'30"N), degrees-decimal-minutes (30°12.5'N), hemisphere
+// letters as prefix or suffix, and MGRS / USNG. An optional third value is a height in meters.
+export function parseCoordinate(text: string, options?: CoordinateParseOptions): ParsedCoordinate {
+  const normalized = normalizeSymbols(text);
+  if (!normalized) {
+    throw new Error('Coordinate text is empty.');
+  }
+  const compact = normalized.replace(/\s+/g, '');
+  if (MGRS_PATTERN.test(compact)) {
+    return { ...parseMgrs(compact), format: /\s/.test(normalized) ? 'usng' : 'mgrs', swapped: false };
+  }
+
+  const components = tokenizeComponents(normalized);
+  if (components.length < 2 || components.length > 3) {
+    throw new Error(`Expected a longitude and latitude (and optional height), got "${text}"`);
+  }
+  const [first, second, third] = components as [AngleComponent, AngleComponent, AngleComponent | undefined];
+  const a = componentToDegrees(first);
+  const b = componentToDegrees(second);
+  const height = third ? parseHeight(third) : undefined;
+  const format: CoordinateFormat = a.sexagesimal ?? b.sexagesimal ?? 'decimal';
+
+  const isLat = (component: AngleComponent) => component.hemisphere === 'N' || component.hemisphere === 'S';
+  const isLon = (component: AngleComponent) => component.hemisphere === 'E' || component.hemisphere === 'W';
+  let lon: number;
+  let lat: number;
+  let swapped = false;
+  if (first.hemisphere || second.hemisphere) {
+    if ((isLat(first) && isLat(second)) || (isLon(first) && isLon(second))) {
+      throw new Error(`Both values have ${isLat(first) ? 'latitude' : 'longitude'} hemisphere letters: "${text}"`);
+    }
+    const firstIsLat = isLat(first) || isLon(second);
+    lat = firstIsLat ? a.value : b.value;
+    lon = firstIsLat ? b.value : a.value;
+  } else {
+    const order = options?.order ?? 'lonlat';
+    [lon, lat] = order === 'lonlat' ? [a.value, b.value] : [b.value, a.value];
+    // Only a latitude beyond ±90° proves the order wrong; anything else is taken as written.
+    if (Math.abs(lat) > 90 && Math.abs(lon) <= 90) {
+      [lon, lat] = [lat, lon];
+      swapped = true;
+    }
+  }
+  assertLonLat(lon, lat);
+  return height === undefined ? { lon, lat, format, swapped } : { lon, lat, height, format, swapped };
+}
+
+export function formatCoordinate(
+  lon: number,
+  lat: number,
+  format: CoordinateFormat,
+  options?: CoordinateFormatOptions
+): string {
+  assertLonLat(lon, lat);
+  if (format === 'mgrs') return formatMgrs(lon, lat, options?.precision ?? 5);
+  if (format === 'usng') return formatUsng(lon, lat, options?.precision ?? 5);
+
+  const order = options?.order ?? (format === 'decimal' ? 'lonlat' : 'latlon');
+  let lonText: string;
+  let latText: string;
+  if (format === 'decimal') {
+    lonText = lon.toFixed(options?.precision ?? 7);
+    latText = lat.toFixed(options?.precision ?? 7);
+  } else if (format === 'dms') {
+    lonText = formatDms(lon, 'lon', options?.precision ?? 2);
+    latText = formatDms(lat, 'lat', options?.precision ?? 2);
+  } else {
+    lonText = formatDdm(lon, 'lon', options?.precision ?? 4);
+    latText = formatDdm(lat, 'lat', options?.precision ?? 4);
+  }
+  const separator = format === 'decimal' ? ', ' : ' ';
+  return order === 'lonlat' ? `${lonText}${separator}${latText}` : `${latText}${separator}${lonText}`;
+}
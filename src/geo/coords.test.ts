@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { GeoCoordinator } from './coords';
+
+// Forward offsets of 116.404, 39.915 from the widely used coordtransform library's README. Its inverses are a
+// single correction step, so they are only compared loosely; ours iterate the forward offset to convergence.
+const BEIJING = { lon: 116.404, lat: 39.915 };
+const BEIJING_GCJ02 = { lon: 116.41024449916938, lat: 39.91640428150164 };
+const BEIJING_GCJ02_AS_BD09 = { lon: 116.41036949371029, lat: 39.92133699351021 };
+const ONE_STEP_GCJ02_TO_WGS84 = { lon: 116.39775550083061, lat: 39.91359571849836 };
+
+const CHINA_POINTS = [
+  { lon: 121.4737, lat: 31.2304 },
+  { lon: 113.2644, lat: 23.1291 },
+  { lon: 87.6168, lat: 43.8256 },
+  { lon: 126.535, lat: 45.8038 },
+  { lon: 109.5119, lat: 18.2528 }
+];
+
+describe('GCJ-02 and BD-09', () => {
+  const geo = new GeoCoordinator();
+
+  it('matches the published forward offsets', () => {
+    const gcj = geo.wgs84ToGcj02(BEIJING.lon, BEIJING.lat);
+    expect(gcj.lon).toBeCloseTo(BEIJING_GCJ02.lon, 12);
+    expect(gcj.lat).toBeCloseTo(BEIJING_GCJ02.lat, 12);
+
+    const bd = geo.gcj02ToBd09(BEIJING.lon, BEIJING.lat);
+    expect(bd.lon).toBeCloseTo(BEIJING_GCJ02_AS_BD09.lon, 12);
+    expect(bd.lat).toBeCloseTo(BEIJING_GCJ02_AS_BD09.lat, 12);
+  });
+
+  it('inverts GCJ-02 more closely than a single correction step', () => {
+    const wgs = geo.gcj02ToWgs84(BEIJING.lon, BEIJING.lat);
+    expect(wgs.lon).toBeCloseTo(ONE_STEP_GCJ02_TO_WGS84.lon, 5);
+    expect(wgs.lat).toBeCloseTo(ONE_STEP_GCJ02_TO_WGS84.lat, 5);
+
+    const again = geo.wgs84ToGcj02(wgs.lon, wgs.lat);
+    expect(again.lon).toBeCloseTo(BEIJING.lon, 9);
+    expect(again.lat).toBeCloseTo(BEIJING.lat, 9);
+  });
+
+  it.each(CHINA_POINTS)('round-trips $lon, $lat through GCJ-02 and BD-09', ({ lon, lat }) => {
+    const gcj = geo.wgs84ToGcj02(lon, lat);
+    expect(Math.hypot(gcj.lon - lon, gcj.lat - lat)).toBeGreaterThan(1e-4);
+    const fromGcj = geo.gcj02ToWgs84(gcj.lon, gcj.lat);
+    expect(fromGcj.lon).toBeCloseTo(lon, 9);
+    expect(fromGcj.lat).toBeCloseTo(lat, 9);
+
+    const bd = geo.wgs84ToBd09(lon, lat);
+    const fromBd = geo.bd09ToWgs84(bd.lon, bd.lat);
+    expect(fromBd.lon).toBeCloseTo(lon, 9);
+    expect(fromBd.lat).toBeCloseTo(lat, 9);
+
+    expect(geo.convertDatum(bd.lon, bd.lat, 'BD09', 'GCJ02').lon).toBeCloseTo(gcj.lon, 9);
+  });
+
+  it('passes WGS84 through unchanged outside China', () => {
+    for (const point of [
+      { lon: -0.1276, lat: 51.5072 },
+      { lon: 139.6917, lat: 35.6895 },
+      { lon: 151.2093, lat: -33.8688 }
+    ]) {
+      expect(geo.wgs84ToGcj02(point.lon, point.lat)).toEqual(point);
+      expect(geo.gcj02ToWgs84(point.lon, point.lat)).toEqual(point);
+    }
+  });
+});
@@ -1,35 +1,43 @@
-﻿export type Vec3 = { x: number; y: number; z: number };
+﻿import { degToRad, normalizeLonDeg, radToDeg } from './angles';
+import * as batch from './batchTransforms';
+import type { CoordinateArray, LonLatHeightArrays, LonLatHeightOutput, TransformFrame } from './batchTransforms';
+import { parseCoordinate, type ParsedCoordinate } from './coordinateFormat';
+import { transform, type CrsInput } from './crs';
+import { WEB_MERCATOR_MAX_LAT, WEB_MERCATOR_R, WGS84_A } from './ellipsoid';
+import type { GeoidGrid, VerticalDatum } from './geoid';
+import {
+  gaussKrugerToLonLat,
+  lonLatToGaussKruger,
+  lonLatToUtm,
+  utmToLonLat,
+  type GaussKrugerCoordinate,
+  type GaussKrugerOptions,
+  type UtmCoordinate,
+  type UtmHemisphere
+} from './transverseMercator';
+
+export type Vec3 = { x: number; y: number; z: number };
 export type LonLatHeight = { lon: number; lat: number; height: number };
 export type Wgs84OriginInput = LonLatHeight | string;
+// GCJ-02 is the offset datum mandated for Chinese web maps (Gaode, Tencent); BD-09 is Baidu's further offset of it.
+export type MapDatum = 'WGS84' | 'GCJ02' | 'BD09';
 
 export type GeoCoordinatorOptions = {
   metersPerUnit?: number;
   frontLonDeg?: number;
   renderOriginThree?: Vec3;
   enuOrigin?: Wgs84OriginInput;
+  geoid?: GeoidGrid;
 };
 
-const WGS84_A = 6378137.0;
-const WGS84_F = 1 / 298.257223563;
-const WGS84_E2 = WGS84_F * (2 - WGS84_F);
-const WGS84_B = WGS84_A * (1 - WGS84_F);
-const WEB_MERCATOR_R = 6378137.0;
-const WEB_MERCATOR_MAX_LAT = 85.05112878;
-
-function degToRad(deg: number): number {
-  return (deg * Math.PI) / 180;
-}
-
-function radToDeg(rad: number): number {
-  return (rad * 180) / Math.PI;
-}
-
-function normalizeLonDeg(lon: number): number {
-  let out = lon % 360;
-  if (out > 180) out -= 360;
-  if (out <= -180) out += 360;
-  return out;
-}
+// Krasovsky 1940 parameters used by the published GCJ-02 algorithm.
+const GCJ02_A = 6378245.0;
+const GCJ02_EE = 0.00669342162296594323;
+const BD09_X_PI = (Math.PI * 3000.0) / 180.0;
+const DATUM_INVERSE_TOLERANCE_DEG = 1e-10;
+const DATUM_INVERSE_MAX_ITERATIONS = 30;
+// Output of the shared kernels for one scalar call; read back before the next call can overwrite it.
+const scratch = new Float64Array(3);
 
 function normalizeMetersPerUnit(value: number | undefined): number {
   const metersPerUnit = value ?? 1;
@@ -39,6 +47,10 @@ function normalizeMetersPerUnit(value: number | undefined): number {
   return metersPerUnit;
 }
 
+function scratchVec3(): Vec3 {
+  return { x: scratch[0] ?? 0, y: scratch[1] ?? 0, z: scratch[2] ?? 0 };
+}
+
 function dot(a: Vec3, b: Vec3): number {
   return a.x * b.x + a.y * b.y + a.z * b.z;
 }
@@ -73,29 +85,79 @@ function assertWgs84(value: LonLatHeight, context: string): void {
   }
 }
 
+// Any form parseCoordinate reads ("lon,lat,height", DMS, MGRS, ...); a missing height is 0.
 function parseWgs84Origin(input: string): LonLatHeight {
-  const parts = input
-    .split(',')
-    .map((part) => part.trim())
-    .filter((part) => part.length > 0);
-
-  if (parts.length !== 3) {
-    throw new Error(`Invalid origin format. Expected "lon,lat,height", got "${input}"`);
-  }
-
-  const lon = Number(parts[0]);
-  const lat = Number(parts[1]);
-  const height = Number(parts[2]);
-
-  if (!Number.isFinite(lon) || !Number.isFinite(lat) || !Number.isFinite(height)) {
-    throw new Error(`Invalid origin numeric values: "${input}"`);
+  let parsed: ParsedCoordinate;
+  try {
+    parsed = parseCoordinate(input);
+  } catch (error) {
+    throw new Error(`Invalid origin "${input}": ${error instanceof Error ? error.message : String(error)}`);
   }
 
-  const origin = { lon, lat, height };
+  const origin = { lon: parsed.lon, lat: parsed.lat, height: parsed.height ?? 0 };
   assertWgs84(origin, 'parseWgs84Origin');
   return origin;
 }
 
+// GCJ-02 is only applied inside mainland China's bounding box; elsewhere it equals WGS84.
+function outOfChina(lon: number, lat: number): boolean {
+  return lon < 72.004 || lon > 137.8347 || lat < 0.8293 || lat > 55.8271;
+}
+
+function gcj02TransformLat(x: number, y: number): number {
+  let ret = -100.0 + 2.0 * x + 3.0 * y + 0.2 * y * y + 0.1 * x * y + 0.2 * Math.sqrt(Math.abs(x));
+  ret += ((20.0 * Math.sin(6.0 * x * Math.PI) + 20.0 * Math.sin(2.0 * x * Math.PI)) * 2.0) / 3.0;
+  ret += ((20.0 * Math.sin(y * Math.PI) + 40.0 * Math.sin((y / 3.0) * Math.PI)) * 2.0) / 3.0;
+  ret += ((160.0 * Math.sin((y / 12.0) * Math.PI) + 320 * Math.sin((y * Math.PI) / 30.0)) * 2.0) / 3.0;
+  return ret;
+}
+
+function gcj02TransformLon(x: number, y: number): number {
+  let ret = 300.0 + x + 2.0 * y + 0.1 * x * x + 0.1 * x * y + 0.1 * Math.sqrt(Math.abs(x));
+  ret += ((20.0 * Math.sin(6.0 * x * Math.PI) + 20.0 * Math.sin(2.0 * x * Math.PI)) * 2.0) / 3.0;
+  ret += ((20.0 * Math.sin(x * Math.PI) + 40.0 * Math.sin((x / 3.0) * Math.PI)) * 2.0) / 3.0;
+  ret += ((150.0 * Math.sin((x / 12.0) * Math.PI) + 300.0 * Math.sin((x / 30.0) * Math.PI)) * 2.0) / 3.0;
+  return ret;
+}
+
+function wgs84ToGcj02(lon: number, lat: number): { lon: number; lat: number } {
+  if (outOfChina(lon, lat)) return { lon, lat };
+  const radLat = degToRad(lat);
+  const magic = 1 - GCJ02_EE * Math.sin(radLat) * Math.sin(radLat);
+  const sqrtMagic = Math.sqrt(magic);
+  const latRadius = (GCJ02_A * (1 - GCJ02_EE)) / (magic * sqrtMagic);
+  const lonRadius = (GCJ02_A / sqrtMagic) * Math.cos(radLat);
+  const dLat = (gcj02TransformLat(lon - 105.0, lat - 35.0) * 180.0) / (latRadius * Math.PI);
+  const dLon = (gcj02TransformLon(lon - 105.0, lat - 35.0) * 180.0) / (lonRadius * Math.PI);
+  return { lon: lon + dLon, lat: lat + dLat };
+}
+
+function gcj02ToBd09(lon: number, lat: number): { lon: number; lat: number } {
+  const z = Math.sqrt(lon * lon + lat * lat) + 0.00002 * Math.sin(lat * BD09_X_PI);
+  const theta = Math.atan2(lat, lon) + 0.000003 * Math.cos(lon * BD09_X_PI);
+  return { lon: z * Math.cos(theta) + 0.0065, lat: z * Math.sin(theta) + 0.006 };
+}
+
+// Neither offset has a closed-form inverse; the offsets vary slowly enough for fixed-point iteration
+// to converge to ~1e-10° (sub-millimetre) in a handful of steps.
+function invertDatumOffset(
+  forward: (lon: number, lat: number) => { lon: number; lat: number },
+  lon: number,
+  lat: number
+): { lon: number; lat: number } {
+  let guessLon = lon;
+  let guessLat = lat;
+  for (let i = 0; i < DATUM_INVERSE_MAX_ITERATIONS; i += 1) {
+    const projected = forward(guessLon, guessLat);
+    const dLon = projected.lon - lon;
+    const dLat = projected.lat - lat;
+    guessLon -= dLon;
+    guessLat -= dLat;
+    if (Math.abs(dLon) < DATUM_INVERSE_TOLERANCE_DEG && Math.abs(dLat) < DATUM_INVERSE_TOLERANCE_DEG) break;
+  }
+  return { lon: guessLon, lat: guessLat };
+}
+
 function normalizeOrigin(origin: Wgs84OriginInput): LonLatHeight {
   if (typeof origin === 'string') {
     return parseWgs84Origin(origin);
@@ -111,6 +173,9 @@ export class GeoCoordinator {
   private _frontLonDeg: number;
   private _renderOriginThree: Vec3;
   private _enuOrigin?: LonLatHeight;
+  private _geoid: GeoidGrid | null;
+  // ENU basis of the last origin used, reused while per-vertex calls keep the same origin.
+  private _enuBasis: { origin: LonLatHeight; basis: Float64Array } | null = null;
 
   // ECEF basis for three axes.
   private _axisXEcef: Vec3;
@@ -136,6 +201,7 @@ export class GeoCoordinator {
     if (options?.enuOrigin !== undefined) {
       this._enuOrigin = normalizeOrigin(options.enuOrigin);
     }
+    this._geoid = options?.geoid ?? null;
   }
 
   get metersPerUnit(): number {
@@ -183,6 +249,31 @@ export class GeoCoordinator {
     };
   }
 
+  get geoid(): GeoidGrid | null {
+    return this._geoid;
+  }
+
+  setGeoid(geoid: GeoidGrid | null): void {
+    this._geoid = geoid;
+  }
+
+  geoidUndulation(lon: number, lat: number): number {
+    if (!this._geoid) {
+      throw new Error('No geoid model loaded; call setGeoid() with a parsed geoid grid first.');
+    }
+    const undulation = this._geoid.undulation(lon, lat);
+    if (undulation === null) {
+      throw new Error(`Geoid "${this._geoid.name}" does not cover ${lon},${lat}.`);
+    }
+    return undulation;
+  }
+
+  convertHeight(lon: number, lat: number, height: number, from: VerticalDatum, to: VerticalDatum): number {
+    if (from === to) return height;
+    const undulation = this.geoidUndulation(lon, lat);
+    return to === 'orthometric' ? height - undulation : height + undulation;
+  }
+
   get enuOrigin(): LonLatHeight | undefined {
     return this._enuOrigin;
   }
@@ -226,44 +317,13 @@ export class GeoCoordinator {
   }
 
   wgs84ToEcef(lat: number, lon: number, height = 0): Vec3 {
-    const latRad = degToRad(lat);
-    const lonRad = degToRad(lon);
-    const sinLat = Math.sin(latRad);
-    const cosLat = Math.cos(latRad);
-    const sinLon = Math.sin(lonRad);
-    const cosLon = Math.cos(lonRad);
-
-    const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
-
-    return {
-      x: (n + height) * cosLat * cosLon,
-      y: (n + height) * cosLat * sinLon,
-      z: (n * (1 - WGS84_E2) + height) * sinLat
-    };
+    batch.geodeticToEcef(lat, lon, height, scratch);
+    return scratchVec3();
   }
 
   ecefToWgs84(x: number, y: number, z: number): LonLatHeight {
-    const p = Math.sqrt(x * x + y * y);
-    const theta = Math.atan2(z * WGS84_A, p * WGS84_B);
-    const sinTheta = Math.sin(theta);
-    const cosTheta = Math.cos(theta);
-    const ePrime2 = (WGS84_A * WGS84_A - WGS84_B * WGS84_B) / (WGS84_B * WGS84_B);
-
-    const lon = Math.atan2(y, x);
-    const lat = Math.atan2(
-      z + ePrime2 * WGS84_B * sinTheta * sinTheta * sinTheta,
-      p - WGS84_E2 * WGS84_A * cosTheta * cosTheta * cosTheta
-    );
-
-    const sinLat = Math.sin(lat);
-    const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
-    const height = p / Math.cos(lat) - n;
-
-    return {
-      lon: radToDeg(lon),
-      lat: radToDeg(lat),
-      height
-    };
+    batch.ecefToGeodetic(x, y, z, scratch);
+    return { lon: scratch[0] ?? 0, lat: scratch[1] ?? 0, height: scratch[2] ?? 0 };
   }
 
   // Contract: +Y north pole, +Z faces (frontLonDeg, 0), +X east on that front face.
@@ -282,57 +342,60 @@ export class GeoCoordinator {
     return add(add(sx, sy), sz);
   }
 
-  wgs84ToThree(lat: number, lon: number, height: number): Vec3 {
-    return this.ecefToThree(this.wgs84ToEcef(lat, lon, height));
+  wgs84ToThree(lat: number, lon: number, height: number, verticalDatum: VerticalDatum = 'ellipsoidal'): Vec3 {
+    const ellipsoidal = this.convertHeight(lon, lat, height, verticalDatum, 'ellipsoidal');
+    return this.ecefToThree(this.wgs84ToEcef(lat, lon, ellipsoidal));
   }
 
-  threeToWgs84(three: Vec3): LonLatHeight {
+  threeToWgs84(three: Vec3, verticalDatum: VerticalDatum = 'ellipsoidal'): LonLatHeight {
     const ecef = this.threeToEcef(three);
-    return this.ecefToWgs84(ecef.x, ecef.y, ecef.z);
+    const wgs = this.ecefToWgs84(ecef.x, ecef.y, ecef.z);
+    return { ...wgs, height: this.convertHeight(wgs.lon, wgs.lat, wgs.height, 'ellipsoidal', verticalDatum) };
   }
 
-  ecefToEnu(ecef: Vec3, originInput?: Wgs84OriginInput): Vec3 {
-    const origin = this.resolveEnuOrigin(originInput);
-    const originEcef = this.wgs84ToEcef(origin.lat, origin.lon, origin.height);
+  utmToThree(easting: number, northing: number, zone: number, hemisphere: UtmHemisphere, height = 0): Vec3 {
+    const { lon, lat } = utmToLonLat(easting, northing, zone, hemisphere);
+    return this.wgs84ToThree(lat, lon, height);
+  }
 
-    const latRad = degToRad(origin.lat);
-    const lonRad = degToRad(origin.lon);
-    const sinLat = Math.sin(latRad);
-    const cosLat = Math.cos(latRad);
-    const sinLon = Math.sin(lonRad);
-    const cosLon = Math.cos(lonRad);
+  // Without a zone, the zone containing the point is used.
+  threeToUtm(
+    three: Vec3,
+    zone?: { zone: number; hemisphere: UtmHemisphere }
+  ): UtmCoordinate & { height: number } {
+    const wgs = this.threeToWgs84(three);
+    return { ...lonLatToUtm(wgs.lon, wgs.lat, zone), height: wgs.height };
+  }
 
-    const dx = ecef.x - originEcef.x;
-    const dy = ecef.y - originEcef.y;
-    const dz = ecef.z - originEcef.z;
+  gaussKrugerToThree(easting: number, northing: number, height = 0, options?: GaussKrugerOptions): Vec3 {
+    const { lon, lat } = gaussKrugerToLonLat(easting, northing, options);
+    return this.wgs84ToThree(lat, lon, height);
+  }
 
-    return {
-      x: -sinLon * dx + cosLon * dy,
-      y: -sinLat * cosLon * dx - sinLat * sinLon * dy + cosLat * dz,
-      z: cosLat * cosLon * dx + cosLat * sinLon * dy + sinLat * dz
-    };
+  threeToGaussKruger(three: Vec3, options?: GaussKrugerOptions): GaussKrugerCoordinate & { height: number } {
+    const wgs = this.threeToWgs84(three);
+    return { ...lonLatToGaussKruger(wgs.lon, wgs.lat, options), height: wgs.height };
   }
 
-  enuToEcef(enu: Vec3, originInput?: Wgs84OriginInput): Vec3 {
-    const origin = this.resolveEnuOrigin(originInput);
-    const originEcef = this.wgs84ToEcef(origin.lat, origin.lon, origin.height);
+  // `coords` is [x, y] or [x, y, height] in the CRS axis order (lon/lat or easting/northing).
+  crsToThree(coords: readonly number[], crs: CrsInput): Vec3 {
+    const [lon = 0, lat = 0] = transform(coords, crs, 'EPSG:4326');
+    return this.wgs84ToThree(lat, lon, coords[2] ?? 0);
+  }
 
-    const latRad = degToRad(origin.lat);
-    const lonRad = degToRad(origin.lon);
-    const sinLat = Math.sin(latRad);
-    const cosLat = Math.cos(latRad);
-    const sinLon = Math.sin(lonRad);
-    const cosLon = Math.cos(lonRad);
+  threeToCrs(three: Vec3, crs: CrsInput): number[] {
+    const wgs = this.threeToWgs84(three);
+    return transform([wgs.lon, wgs.lat, wgs.height], 'EPSG:4326', crs);
+  }
 
-    const dx = -sinLon * enu.x - sinLat * cosLon * enu.y + cosLat * cosLon * enu.z;
-    const dy = cosLon * enu.x - sinLat * sinLon * enu.y + cosLat * sinLon * enu.z;
-    const dz = cosLat * enu.y + sinLat * enu.z;
+  ecefToEnu(ecef: Vec3, originInput?: Wgs84OriginInput): Vec3 {
+    batch.ecefToEnu(this.enuBasis(originInput), ecef.x, ecef.y, ecef.z, scratch);
+    return scratchVec3();
+  }
 
-    return {
-      x: originEcef.x + dx,
-      y: originEcef.y + dy,
-      z: originEcef.z + dz
-    };
+  enuToEcef(enu: Vec3, originInput?: Wgs84OriginInput): Vec3 {
+    batch.enuToEcef(this.enuBasis(originInput), enu.x, enu.y, enu.z, scratch);
+    return scratchVec3();
   }
 
   wgs84ToEnu(lat: number, lon: number, height: number, originInput?: Wgs84OriginInput): Vec3 {
@@ -359,6 +422,104 @@ export class GeoCoordinator {
     };
   }
 
+  wgs84ToGcj02(lon: number, lat: number): { lon: number; lat: number } {
+    return wgs84ToGcj02(lon, lat);
+  }
+
+  gcj02ToWgs84(lon: number, lat: number): { lon: number; lat: number } {
+    return outOfChina(lon, lat) ? { lon, lat } : invertDatumOffset(wgs84ToGcj02, lon, lat);
+  }
+
+  gcj02ToBd09(lon: number, lat: number): { lon: number; lat: number } {
+    return gcj02ToBd09(lon, lat);
+  }
+
+  bd09ToGcj02(lon: number, lat: number): { lon: number; lat: number } {
+    return invertDatumOffset(gcj02ToBd09, lon, lat);
+  }
+
+  wgs84ToBd09(lon: number, lat: number): { lon: number; lat: number } {
+    const gcj = wgs84ToGcj02(lon, lat);
+    return gcj02ToBd09(gcj.lon, gcj.lat);
+  }
+
+  bd09ToWgs84(lon: number, lat: number): { lon: number; lat: number } {
+    const gcj = this.bd09ToGcj02(lon, lat);
+    return this.gcj02ToWgs84(gcj.lon, gcj.lat);
+  }
+
+  convertDatum(lon: number, lat: number, from: MapDatum, to: MapDatum): { lon: number; lat: number } {
+    if (from === to) return { lon, lat };
+    let wgs = { lon, lat };
+    if (from === 'GCJ02') wgs = this.gcj02ToWgs84(lon, lat);
+    if (from === 'BD09') wgs = this.bd09ToWgs84(lon, lat);
+    if (to === 'GCJ02') return wgs84ToGcj02(wgs.lon, wgs.lat);
+    if (to === 'BD09') return this.wgs84ToBd09(wgs.lon, wgs.lat);
+    return wgs;
+  }
+
+  // Snapshot for the batch kernels; an explicit origin is resolved (and kept) like the scalar ENU methods do.
+  transformFrame(originInput?: Wgs84OriginInput): TransformFrame {
+    return {
+      metersPerUnit: this._metersPerUnit,
+      axisX: { ...this._axisXEcef },
+      axisY: { ...this._axisYEcef },
+      axisZ: { ...this._axisZEcef },
+      enuOrigin: originInput !== undefined ? this.resolveEnuOrigin(originInput) : this._enuOrigin ?? null
+    };
+  }
+
+  // Batch variants write interleaved x, y, z (or x, y for Mercator) into `out` when given, and match
+  // the scalar methods value for value. Heights are ellipsoidal.
+  wgs84ToThreeBatch(input: LonLatHeightArrays, out?: CoordinateArray): CoordinateArray {
+    return batch.wgs84ToThreeBatch(this.transformFrame(), input, out);
+  }
+
+  threeToWgs84Batch(three: CoordinateArray, out?: LonLatHeightOutput): LonLatHeightOutput {
+    return batch.threeToWgs84Batch(this.transformFrame(), three, out);
+  }
+
+  wgs84ToEnuBatch(
+    input: LonLatHeightArrays,
+    originInput?: Wgs84OriginInput,
+    out?: CoordinateArray
+  ): CoordinateArray {
+    return batch.wgs84ToEnuBatch(this.transformFrame(originInput), input, out);
+  }
+
+  enuToWgs84Batch(
+    enu: CoordinateArray,
+    originInput?: Wgs84OriginInput,
+    out?: LonLatHeightOutput
+  ): LonLatHeightOutput {
+    return batch.enuToWgs84Batch(this.transformFrame(originInput), enu, out);
+  }
+
+  lonLatToWebMercatorBatch(input: LonLatHeightArrays, out?: CoordinateArray): CoordinateArray {
+    return batch.lonLatToWebMercatorBatch(input, out);
+  }
+
+  webMercatorToLonLatBatch(mercator: CoordinateArray, out?: LonLatHeightOutput): LonLatHeightOutput {
+    return batch.webMercatorToLonLatBatch(mercator, out);
+  }
+
+  // `origin` is the planar scene origin in Web Mercator meters.
+  webMercatorToWorldBatch(
+    mercator: CoordinateArray,
+    origin: { x: number; y: number },
+    out?: CoordinateArray
+  ): CoordinateArray {
+    return batch.webMercatorToWorldBatch(mercator, origin, this._metersPerUnit, out);
+  }
+
+  worldToWebMercatorBatch(
+    world: CoordinateArray,
+    origin: { x: number; y: number },
+    out?: CoordinateArray
+  ): CoordinateArray {
+    return batch.worldToWebMercatorBatch(world, origin, this._metersPerUnit, out);
+  }
+
   lonLatToTile(lon: number, lat: number, zoom: number): { x: number; y: number } {
     const clampedLat = clampWebMercatorLat(lat);
     const latRad = degToRad(clampedLat);
@@ -377,6 +538,22 @@ export class GeoCoordinator {
     return { lon, lat: radToDeg(latRad) };
   }
 
+  private enuBasis(originInput?: Wgs84OriginInput): Float64Array {
+    const origin = this.resolveEnuOrigin(originInput);
+    const cached = this._enuBasis;
+    if (
+      cached &&
+      cached.origin.lon === origin.lon &&
+      cached.origin.lat === origin.lat &&
+      cached.origin.height === origin.height
+    ) {
+      return cached.basis;
+    }
+    const basis = batch.enuBasis(origin);
+    this._enuBasis = { origin: { ...origin }, basis };
+    return basis;
+  }
+
   private rebuildAxes(): void {
     const lonRad = degToRad(this._frontLonDeg);
     const cosLon = Math.cos(lonRad);
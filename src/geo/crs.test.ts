@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { CrsRegistry, normalizeCrsCode, parseCrsDefinition, parseProj4, parseWkt, transform } from './crs';
+
+// Definitions as published by the EPSG registry (epsg.io exports); expected grid values come from PROJ.
+const EPSG_4547_PROJ4 = '+proj=tmerc +lat_0=0 +lon_0=114 +k=1 +x_0=500000 +y_0=0 +ellps=GRS80 +units=m +no_defs';
+const EPSG_4547_WKT =
+  'PROJCS["CGCS2000 / 3-degree Gauss-Kruger CM 114E",GEOGCS["China Geodetic Coordinate System 2000",' +
+  'DATUM["China_2000",SPHEROID["CGCS2000",6378137,298.257222101,AUTHORITY["EPSG","1024"]],' +
+  'AUTHORITY["EPSG","1043"]],PRIMEM["Greenwich",0,AUTHORITY["EPSG","8901"]],' +
+  'UNIT["degree",0.0174532925199433,AUTHORITY["EPSG","9122"]],AUTHORITY["EPSG","4490"]],' +
+  'PROJECTION["Transverse_Mercator"],PARAMETER["latitude_of_origin",0],PARAMETER["central_meridian",114],' +
+  'PARAMETER["scale_factor",1],PARAMETER["false_easting",500000],PARAMETER["false_northing",0],' +
+  'UNIT["metre",1,AUTHORITY["EPSG","9001"]],AUTHORITY["EPSG","4547"]]';
+const EPSG_32650_PROJ4 = '+proj=utm +zone=50 +datum=WGS84 +units=m +no_defs';
+const EPSG_32650_WKT2 =
+  'PROJCRS["WGS 84 / UTM zone 50N",BASEGEOGCRS["WGS 84",DATUM["World Geodetic System 1984",' +
+  'ELLIPSOID["WGS 84",6378137,298.257223563,LENGTHUNIT["metre",1]]],' +
+  'PRIMEM["Greenwich",0,ANGLEUNIT["degree",0.0174532925199433]],ID["EPSG",4326]],' +
+  'CONVERSION["UTM zone 50N",METHOD["Transverse Mercator",ID["EPSG",9807]],' +
+  'PARAMETER["Latitude of natural origin",0,ANGLEUNIT["degree",0.0174532925199433],ID["EPSG",8801]],' +
+  'PARAMETER["Longitude of natural origin",117,ANGLEUNIT["degree",0.0174532925199433],ID["EPSG",8802]],' +
+  'PARAMETER["Scale factor at natural origin",0.9996,SCALEUNIT["unity",1],ID["EPSG",8805]],' +
+  'PARAMETER["False easting",500000,LENGTHUNIT["metre",1],ID["EPSG",8806]],' +
+  'PARAMETER["False northing",0,LENGTHUNIT["metre",1],ID["EPSG",8807]]],' +
+  'CS[Cartesian,2],AXIS["(E)",east,ORDER[1],LENGTHUNIT["metre",1]],' +
+  'AXIS["(N)",north,ORDER[2],LENGTHUNIT["metre",1]],ID["EPSG",32650]]';
+const EPSG_3857_WKT =
+  'PROJCS["WGS 84 / Pseudo-Mercator",GEOGCS["WGS 84",DATUM["WGS_1984",' +
+  'SPHEROID["WGS 84",6378137,298.257223563,AUTHORITY["EPSG","7030"]],AUTHORITY["EPSG","6326"]],' +
+  'PRIMEM["Greenwich",0,AUTHORITY["EPSG","8901"]],UNIT["degree",0.0174532925199433,AUTHORITY["EPSG","9122"]],' +
+  'AUTHORITY["EPSG","4326"]],PROJECTION["Mercator_1SP"],PARAMETER["central_meridian",0],' +
+  'PARAMETER["scale_factor",1],PARAMETER["false_easting",0],PARAMETER["false_northing",0],' +
+  'UNIT["metre",1,AUTHORITY["EPSG","9001"]],AXIS["Easting",EAST],AXIS["Northing",NORTH],' +
+  'EXTENSION["PROJ4","+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 +units=m ' +
+  '+nadgrids=@null +wkt +no_defs"],AUTHORITY["EPSG","3857"]]';
+const EPSG_4490_WKT2 =
+  'GEOGCRS["China Geodetic Coordinate System 2000",DATUM["China 2000",' +
+  'ELLIPSOID["CGCS2000",6378137,298.257222101,LENGTHUNIT["metre",1]]],' +
+  'PRIMEM["Greenwich",0,ANGLEUNIT["degree",0.0174532925199433]],CS[ellipsoidal,2],' +
+  'AXIS["geodetic latitude (Lat)",north,ORDER[1],ANGLEUNIT["degree",0.0174532925199433]],' +
+  'AXIS["geodetic longitude (Lon)",east,ORDER[2],ANGLEUNIT["degree",0.0174532925199433]],' +
+  'USAGE[SCOPE["Horizontal component of 3D system."],AREA["China - onshore and offshore."],' +
+  'BBOX[0.8,73.62,53.56,134.77]],ID["EPSG",4490]]';
+
+const GUANGZHOU = [113.2644, 23.1291] as const;
+const GUANGZHOU_EPSG_4547 = [424654.893, 2559024.7393] as const;
+const BEIJING = [116.391, 39.907] as const;
+const BEIJING_EPSG_32650 = [447945.3134, 4417612.6956] as const;
+const BEIJING_EPSG_3857 = [12956586.8529, 4852436.962] as const;
+
+function expectCoordinates(actual: readonly number[], expected: readonly number[], digits: number): void {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, i) => expect(actual[i]).toBeCloseTo(value, digits));
+}
+
+describe('CRS codes', () => {
+  it('normalizes URNs, URLs, bare numbers and aliases', () => {
+    expect(normalizeCrsCode('urn:ogc:def:crs:EPSG::4326')).toBe('EPSG:4326');
+    expect(normalizeCrsCode('http://www.opengis.net/def/crs/EPSG/0/3857')).toBe('EPSG:3857');
+    expect(normalizeCrsCode(4547)).toBe('EPSG:4547');
+    expect(normalizeCrsCode('epsg:900913')).toBe('EPSG:3857');
+    expect(normalizeCrsCode('CRS84')).toBe('EPSG:4326');
+  });
+
+  it('generates the UTM and CGCS2000 Gauss-Kruger families on demand', () => {
+    const registry = new CrsRegistry();
+    expect(registry.get('EPSG:32650')?.name).toBe('WGS 84 / UTM zone 50N');
+    expect(registry.get('EPSG:4547')?.name).toBe('CGCS2000 / 3-degree Gauss-Kruger CM 114E');
+    expect(registry.get('EPSG:4527')?.name).toBe('CGCS2000 / 3-degree Gauss-Kruger zone 39');
+    expect(registry.get('EPSG:4555')).toBeNull();
+    expect(() => registry.resolve('EPSG:4555')).toThrow(/Unknown CRS/);
+  });
+
+  it('transforms between registered codes', () => {
+    expectCoordinates(transform(GUANGZHOU, 'EPSG:4326', 'EPSG:4547'), GUANGZHOU_EPSG_4547, 3);
+    expectCoordinates(transform(BEIJING, 4326, 32650), BEIJING_EPSG_32650, 3);
+    expectCoordinates(transform([...BEIJING, 44.5], 'EPSG:4326', 'EPSG:3857'), [...BEIJING_EPSG_3857, 44.5], 3);
+    expectCoordinates(transform(BEIJING_EPSG_32650, 'EPSG:32650', 'EPSG:4326'), BEIJING, 8);
+  });
+});
+
+describe('proj4 definitions', () => {
+  it('parses the EPSG:4547 and EPSG:32650 strings like the built-in codes', () => {
+    const registry = new CrsRegistry();
+    const gaussKruger = parseProj4(EPSG_4547_PROJ4, 'EPSG:4547');
+    expect(gaussKruger.projection).toMatchObject({ type: 'tmerc', centralMeridian: 114, scaleFactor: 1 });
+    expectCoordinates(transform(GUANGZHOU, 'EPSG:4326', gaussKruger, registry), GUANGZHOU_EPSG_4547, 3);
+
+    const utm = registry.register(EPSG_32650_PROJ4, 'EPSG:99999');
+    expect(utm.code).toBe('EPSG:99999');
+    expectCoordinates(transform(BEIJING, 'EPSG:4326', 'EPSG:99999', registry), BEIJING_EPSG_32650, 3);
+  });
+
+  it('accepts the spherical Web Mercator form only', () => {
+    const definition = parseProj4('+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 +units=m');
+    expect(definition.projection.type).toBe('webmercator');
+    expect(() => parseProj4('+proj=merc +datum=WGS84 +units=m')).toThrow(/spherical Web Mercator/);
+    expect(() => parseProj4('+proj=tmerc +lon_0=114 +units=ft')).toThrow(/units/);
+    expect(() => parseProj4('+proj=lcc +lat_1=30 +lat_2=60')).toThrow(/Unsupported proj4 projection/);
+  });
+});
+
+describe('WKT definitions', () => {
+  it('parses WKT1 Gauss-Kruger and takes the code from its AUTHORITY', () => {
+    const definition = parseWkt(EPSG_4547_WKT);
+    expect(definition.code).toBe('EPSG:4547');
+    expect(definition.ellipsoid.f).toBe(1 / 298.257222101);
+    expectCoordinates(transform(GUANGZHOU, 'EPSG:4326', definition), GUANGZHOU_EPSG_4547, 3);
+  });
+
+  it('parses WKT2 projected and geographic CRSs', () => {
+    const utm = parseCrsDefinition(EPSG_32650_WKT2);
+    expect(utm.code).toBe('EPSG:32650');
+    expect(utm.projection).toMatchObject({ type: 'tmerc', centralMeridian: 117, scaleFactor: 0.9996 });
+    expectCoordinates(transform(BEIJING, 'EPSG:4326', utm), BEIJING_EPSG_32650, 3);
+
+    const cgcs2000 = parseWkt(EPSG_4490_WKT2);
+    expect(cgcs2000.code).toBe('EPSG:4490');
+    expect(cgcs2000.projection.type).toBe('longlat');
+  });
+
+  it('recognizes Pseudo-Mercator despite its Mercator_1SP method', () => {
+    const definition = parseWkt(EPSG_3857_WKT);
+    expect(definition.code).toBe('EPSG:3857');
+    expect(definition.projection.type).toBe('webmercator');
+    expectCoordinates(transform(BEIJING, 'EPSG:4326', definition), BEIJING_EPSG_3857, 3);
+  });
+
+  it('rejects malformed and unsupported WKT', () => {
+    expect(() => parseWkt('GEOGCS["x",DATUM["y"]')).toThrow();
+    expect(() => parseWkt('PROJCS["x",GEOGCS["y",SPHEROID["z",6378137,298.257]],PROJECTION["Lambert"]]')).toThrow(
+      /Unsupported WKT projection/
+    );
+  });
+});
@@ -0,0 +1,450 @@
+import { degToRad, radToDeg } from './angles';
+import {
+  CGCS2000_ELLIPSOID,
+  WEB_MERCATOR_MAX_LAT,
+  WEB_MERCATOR_R,
+  WGS84_ELLIPSOID,
+  type Ellipsoid
+} from './ellipsoid';
+import {
+  gaussKrugerParams,
+  transverseMercatorForward,
+  transverseMercatorInverse,
+  utmParams,
+  type TransverseMercatorParams
+} from './transverseMercator';
+
+export type CrsProjection =
+  | { type: 'longlat' }
+  | { type: 'webmercator' }
+  | ({ type: 'tmerc' } & Omit<TransverseMercatorParams, 'ellipsoid'>);
+
+// Geographic CRSs use degrees in lon/lat order; projected CRSs use metres in easting/northing order.
+export type CrsDefinition = {
+  code: string;
+  name: string;
+  ellipsoid: Ellipsoid;
+  projection: CrsProjection;
+};
+
+export type CrsInput = string | number | CrsDefinition;
+
+type WktNode = { keyword: string; args: Array<string | number | WktNode> };
+
+const GRS80_ELLIPSOID: Ellipsoid = { name: 'GRS80', a: 6378137.0, f: 1 / 298.257222101 };
+const KNOWN_ELLIPSOIDS: Readonly<Record<string, Ellipsoid>> = {
+  WGS84: WGS84_ELLIPSOID,
+  GRS80: GRS80_ELLIPSOID,
+  CGCS2000: CGCS2000_ELLIPSOID
+};
+const CODE_ALIASES: Readonly<Record<string, string>> = {
+  CRS84: 'EPSG:4326',
+  'OGC:CRS84': 'EPSG:4326',
+  'EPSG:900913': 'EPSG:3857',
+  'EPSG:3785': 'EPSG:3857',
+  'EPSG:102100': 'EPSG:3857',
+  'EPSG:102113': 'EPSG:3857'
+};
+const WKT_GEOGRAPHIC = new Set(['GEOGCS', 'GEOGCRS', 'GEODCRS', 'GEOGRAPHICCRS', 'GEODETICCRS']);
+const WKT_PROJECTED = new Set(['PROJCS', 'PROJCRS', 'PROJECTEDCRS']);
+const WKT_PSEUDO_MERCATOR = /pseudo|auxiliary_sphere|popular_visualisation/i;
+
+function geographic(code: string, name: string, ellipsoid: Ellipsoid): CrsDefinition {
+  return { code, name, ellipsoid, projection: { type: 'longlat' } };
+}
+
+function transverseMercator(code: string, name: string, params: TransverseMercatorParams): CrsDefinition {
+  const { ellipsoid, ...projection } = params;
+  return { code, name, ellipsoid, projection: { type: 'tmerc', ...projection } };
+}
+
+const BUILTIN_DEFINITIONS: readonly CrsDefinition[] = [
+  geographic('EPSG:4326', 'WGS 84', WGS84_ELLIPSOID),
+  geographic('EPSG:4490', 'China Geodetic Coordinate System 2000', CGCS2000_ELLIPSOID),
+  {
+    code: 'EPSG:3857',
+    name: 'WGS 84 / Pseudo-Mercator',
+    ellipsoid: WGS84_ELLIPSOID,
+    projection: { type: 'webmercator' }
+  }
+];
+
+// Families that are generated on demand instead of being listed one by one:
+// WGS 84 / UTM (326zz, 327zz) and the four CGCS2000 Gauss-Kruger series (4491-4554).
+function resolveEpsgFamily(code: string): CrsDefinition | null {
+  const match = /^EPSG:(\d+)$/.exec(code);
+  if (!match) return null;
+  const value = Number(match[1]);
+
+  const utmZone = value % 100;
+  if ((value - utmZone === 32600 || value - utmZone === 32700) && utmZone >= 1 && utmZone <= 60) {
+    const hemisphere = value - utmZone === 32600 ? 'N' : 'S';
+    return transverseMercator(code, `WGS 84 / UTM zone ${utmZone}${hemisphere}`, utmParams(utmZone, hemisphere));
+  }
+  if (value >= 4491 && value <= 4501) {
+    const zone = value - 4491 + 13;
+    return transverseMercator(code, `CGCS2000 / Gauss-Kruger zone ${zone}`, gaussKrugerParams(zone, 6, true));
+  }
+  if (value >= 4502 && value <= 4512) {
+    const zone = value - 4502 + 13;
+    const params = gaussKrugerParams(zone, 6, false);
+    return transverseMercator(code, `CGCS2000 / Gauss-Kruger CM ${params.centralMeridian}E`, params);
+  }
+  if (value >= 4513 && value <= 4533) {
+    const zone = value - 4513 + 25;
+    return transverseMercator(code, `CGCS2000 / 3-degree Gauss-Kruger zone ${zone}`, gaussKrugerParams(zone, 3, true));
+  }
+  if (value >= 4534 && value <= 4554) {
+    const zone = value - 4534 + 25;
+    const params = gaussKrugerParams(zone, 3, false);
+    return transverseMercator(code, `CGCS2000 / 3-degree Gauss-Kruger CM ${params.centralMeridian}E`, params);
+  }
+  return null;
+}
+
+function looksLikeDefinitionText(input: string): boolean {
+  return input.startsWith('+') || /^[A-Z_]+\s*[[(]/i.test(input);
+}
+
+function assertDefinition(definition: CrsDefinition): void {
+  const { ellipsoid, projection } = definition;
+  if (!definition.code || !(ellipsoid.a > 0) || !(ellipsoid.f >= 0 && ellipsoid.f < 1)) {
+    throw new Error(`Invalid CRS definition "${definition.code}".`);
+  }
+  if (projection.type === 'tmerc') {
+    const values = [projection.centralMeridian, projection.falseEasting, projection.falseNorthing];
+    if (!values.every(Number.isFinite) || !(projection.scaleFactor > 0)) {
+      throw new Error(`Invalid transverse Mercator parameters in CRS "${definition.code}".`);
+    }
+  }
+}
+
+function parseProj4Ellipsoid(params: ReadonlyMap<string, string>): Ellipsoid {
+  const named = params.get('ellps') ?? params.get('datum');
+  let ellipsoid = WGS84_ELLIPSOID;
+  if (named !== undefined) {
+    const known = KNOWN_ELLIPSOIDS[named.toUpperCase()];
+    if (!known) {
+      throw new Error(`Unsupported proj4 ellipsoid "${named}".`);
+    }
+    ellipsoid = known;
+  }
+  const a = params.has('a') ? Number(params.get('a')) : ellipsoid.a;
+  let f = ellipsoid.f;
+  if (params.has('rf')) f = 1 / Number(params.get('rf'));
+  else if (params.has('f')) f = Number(params.get('f'));
+  else if (params.has('b')) f = 1 - Number(params.get('b')) / a;
+  else if (params.has('a')) f = 0;
+  return f === ellipsoid.f && a === ellipsoid.a ? ellipsoid : { name: named ?? 'custom', a, f };
+}
+
+function tokenizeWkt(input: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /\s*("(?:[^"]|"")*"|[[\](),]|[^\s[\](),"]+)/y;
+  let position = 0;
+  while (input.slice(position).trim().length > 0) {
+    pattern.lastIndex = position;
+    const match = pattern.exec(input);
+    if (!match?.[1]) {
+      throw new Error(`Unexpected WKT input near "${input.slice(position, position + 20)}".`);
+    }
+    tokens.push(match[1]);
+    position = pattern.lastIndex;
+  }
+  return tokens;
+}
+
+function parseWktTokens(tokens: readonly string[]): WktNode {
+  let cursor = 0;
+  const next = (): string => {
+    const token = tokens[cursor];
+    if (token === undefined) throw new Error('Unexpected end of WKT.');
+    cursor += 1;
+    return token;
+  };
+  const parseNode = (keyword: string): WktNode => {
+    const node: WktNode = { keyword: keyword.toUpperCase(), args: [] };
+    const open = next();
+    if (open !== '[' && open !== '(') throw new Error(`Expected "[" after ${keyword} in WKT.`);
+    for (;;) {
+      const token = next();
+      if (token === ']' || token === ')') return node;
+      if (token === ',') continue;
+      if (token.startsWith('"')) {
+        node.args.push(token.slice(1, -1).replace(/""/g, '"'));
+      } else if (tokens[cursor] === '[' || tokens[cursor] === '(') {
+        node.args.push(parseNode(token));
+      } else {
+        const value = Number(token);
+        node.args.push(Number.isFinite(value) ? value : token);
+      }
+    }
+  };
+  const root = parseNode(next());
+  if (cursor !== tokens.length) throw new Error('Trailing content after WKT.');
+  return root;
+}
+
+function wktChildren(node: WktNode, ...keywords: string[]): WktNode[] {
+  return node.args.filter((arg): arg is WktNode => typeof arg === 'object' && keywords.includes(arg.keyword));
+}
+
+function wktFind(node: WktNode, ...keywords: string[]): WktNode | null {
+  for (const arg of node.args) {
+    if (typeof arg !== 'object') continue;
+    if (keywords.includes(arg.keyword)) return arg;
+    const nested = wktFind(arg, ...keywords);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+function wktName(node: WktNode | null | undefined): string {
+  const name = node?.args[0];
+  return typeof name === 'string' ? name : '';
+}
+
+function wktNumber(node: WktNode, index: number): number {
+  const value = node.args[index];
+  if (typeof value !== 'number') {
+    throw new Error(`Expected a number in WKT ${node.keyword}[${wktName(node)}].`);
+  }
+  return value;
+}
+
+function wktParameters(root: WktNode): Map<string, number> {
+  const out = new Map<string, number>();
+  const holder = wktFind(root, 'CONVERSION') ?? root;
+  for (const parameter of wktChildren(holder, 'PARAMETER')) {
+    out.set(wktName(parameter).toLowerCase().replace(/[\s_]+/g, ' '), wktNumber(parameter, 1));
+  }
+  return out;
+}
+
+function wktCode(root: WktNode, fallback: string): string {
+  const authority = wktChildren(root, 'AUTHORITY', 'ID')[0];
+  const name = wktName(authority);
+  const value = authority?.args[1];
+  return authority && value !== undefined ? normalizeCrsCode(`${name}:${value}`) : fallback;
+}
+
+export function normalizeCrsCode(code: string | number): string {
+  let out = String(code).trim().toUpperCase();
+  const urn = /^URN:OGC:DEF:CRS:(EPSG|OGC):[^:]*:(\w+)$/.exec(out);
+  const url = /^HTTPS?:\/\/WWW\.OPENGIS\.NET\/DEF\/CRS\/(EPSG|OGC)\/[^/]+\/(\w+)$/.exec(out);
+  const parts = urn ?? url;
+  if (parts) out = `${parts[1]}:${parts[2]}`;
+  if (/^\d+$/.test(out)) out = `EPSG:${out}`;
+  return CODE_ALIASES[out] ?? out;
+}
+
+// Supports +proj=longlat|latlong|lonlat|merc (spherical Web Mercator only)|tmerc|utm with metre units.
+export function parseProj4(input: string, code?: string): CrsDefinition {
+  const params = new Map<string, string>();
+  for (const token of input.trim().split(/\s+/)) {
+    const match = /^\+([\w]+)(?:=(.*))?$/.exec(token);
+    if (!match?.[1]) throw new Error(`Invalid proj4 token "${token}".`);
+    params.set(match[1].toLowerCase(), match[2] ?? '');
+  }
+  const units = params.get('units');
+  if ((units !== undefined && units !== 'm') || params.has('to_meter')) {
+    throw new Error(`Unsupported proj4 units "${units ?? params.get('to_meter')}"; only metres are supported.`);
+  }
+  const number = (key: string, fallback: number): number => {
+    const raw = params.get(key);
+    const value = raw === undefined ? fallback : Number(raw);
+    if (!Number.isFinite(value)) throw new Error(`Invalid proj4 value +${key}=${raw}`);
+    return value;
+  };
+
+  const ellipsoid = parseProj4Ellipsoid(params);
+  const name = code ?? input.trim();
+  const proj = params.get('proj');
+  let definition: CrsDefinition;
+  if (proj === 'longlat' || proj === 'latlong' || proj === 'lonlat') {
+    definition = geographic(code ?? `PROJ4:${input.trim()}`, name, ellipsoid);
+  } else if (proj === 'merc') {
+    const offsets = [number('lon_0', 0), number('x_0', 0), number('y_0', 0), number('lat_ts', 0)];
+    const spherical = ellipsoid.f === 0 && ellipsoid.a === WEB_MERCATOR_R;
+    if (!spherical || offsets.some((value) => value !== 0) || number('k', 1) !== 1) {
+      throw new Error('Only the spherical Web Mercator (EPSG:3857) form of +proj=merc is supported.');
+    }
+    definition = { code: code ?? 'EPSG:3857', name, ellipsoid: WGS84_ELLIPSOID, projection: { type: 'webmercator' } };
+  } else if (proj === 'utm') {
+    const zone = number('zone', Number.NaN);
+    definition = transverseMercator(
+      code ?? `PROJ4:${input.trim()}`,
+      name,
+      utmParams(zone, params.has('south') ? 'S' : 'N', ellipsoid)
+    );
+  } else if (proj === 'tmerc') {
+    definition = transverseMercator(code ?? `PROJ4:${input.trim()}`, name, {
+      ellipsoid,
+      centralMeridian: number('lon_0', 0),
+      latitudeOfOrigin: number('lat_0', 0),
+      scaleFactor: number('k_0', number('k', 1)),
+      falseEasting: number('x_0', 0),
+      falseNorthing: number('y_0', 0)
+    });
+  } else {
+    throw new Error(`Unsupported proj4 projection "${proj ?? ''}".`);
+  }
+  assertDefinition(definition);
+  return definition;
+}
+
+// Supports WKT1 and WKT2 geographic CRSs and projected CRSs using Transverse Mercator or Pseudo-Mercator.
+export function parseWkt(input: string, code?: string): CrsDefinition {
+  const root = parseWktTokens(tokenizeWkt(input.trim()));
+  const name = wktName(root);
+  const resolvedCode = code ?? wktCode(root, `WKT:${name}`);
+  const spheroid = wktFind(root, 'SPHEROID', 'ELLIPSOID');
+  if (!spheroid) {
+    throw new Error(`WKT "${name}" has no SPHEROID/ELLIPSOID.`);
+  }
+  const inverseFlattening = wktNumber(spheroid, 2);
+  const ellipsoid: Ellipsoid = {
+    name: wktName(spheroid),
+    a: wktNumber(spheroid, 1),
+    f: inverseFlattening === 0 ? 0 : 1 / inverseFlattening
+  };
+
+  let definition: CrsDefinition;
+  if (WKT_GEOGRAPHIC.has(root.keyword)) {
+    definition = geographic(resolvedCode, name, ellipsoid);
+  } else if (WKT_PROJECTED.has(root.keyword)) {
+    const unit = wktChildren(root, 'UNIT', 'LENGTHUNIT')[0] ?? wktFind(root, 'LENGTHUNIT');
+    if (unit && wktNumber(unit, 1) !== 1) {
+      throw new Error(`Unsupported WKT unit "${wktName(unit)}"; only metres are supported.`);
+    }
+    const method = wktName(wktFind(root, 'PROJECTION', 'METHOD'));
+    const parameters = wktParameters(root);
+    const parameter = (fallback: number, ...keys: string[]): number => {
+      for (const key of keys) {
+        const value = parameters.get(key);
+        if (value !== undefined) return value;
+      }
+      return fallback;
+    };
+    if (/transverse.?mercator/i.test(method)) {
+      definition = transverseMercator(resolvedCode, name, {
+        ellipsoid,
+        centralMeridian: parameter(0, 'central meridian', 'longitude of natural origin'),
+        latitudeOfOrigin: parameter(0, 'latitude of origin', 'latitude of natural origin'),
+        scaleFactor: parameter(1, 'scale factor', 'scale factor at natural origin'),
+        falseEasting: parameter(0, 'false easting'),
+        falseNorthing: parameter(0, 'false northing')
+      });
+    } else if (WKT_PSEUDO_MERCATOR.test(method) || WKT_PSEUDO_MERCATOR.test(name) || resolvedCode === 'EPSG:3857') {
+      definition = { code: resolvedCode, name, ellipsoid, projection: { type: 'webmercator' } };
+    } else {
+      throw new Error(`Unsupported WKT projection "${method}".`);
+    }
+  } else {
+    throw new Error(`Unsupported WKT type "${root.keyword}".`);
+  }
+  assertDefinition(definition);
+  return definition;
+}
+
+export function parseCrsDefinition(input: string, code?: string): CrsDefinition {
+  const text = input.trim();
+  return text.startsWith('+') ? parseProj4(text, code) : parseWkt(text, code);
+}
+
+export function crsToLonLat(definition: CrsDefinition, x: number, y: number): { lon: number; lat: number } {
+  const projection = definition.projection;
+  if (projection.type === 'longlat') return { lon: x, lat: y };
+  if (projection.type === 'webmercator') {
+    return {
+      lon: radToDeg(x / WEB_MERCATOR_R),
+      lat: radToDeg(2 * Math.atan(Math.exp(y / WEB_MERCATOR_R)) - Math.PI / 2)
+    };
+  }
+  return transverseMercatorInverse(x, y, { ellipsoid: definition.ellipsoid, ...projection });
+}
+
+export function lonLatToCrs(definition: CrsDefinition, lon: number, lat: number): { x: number; y: number } {
+  const projection = definition.projection;
+  if (projection.type === 'longlat') return { x: lon, y: lat };
+  if (projection.type === 'webmercator') {
+    const clampedLat = Math.max(-WEB_MERCATOR_MAX_LAT, Math.min(WEB_MERCATOR_MAX_LAT, lat));
+    return {
+      x: WEB_MERCATOR_R * degToRad(lon),
+      y: WEB_MERCATOR_R * Math.log(Math.tan(Math.PI / 4 + degToRad(clampedLat) / 2))
+    };
+  }
+  const grid = transverseMercatorForward(lon, lat, { ellipsoid: definition.ellipsoid, ...projection });
+  return { x: grid.easting, y: grid.northing };
+}
+
+export class CrsRegistry {
+  private readonly _definitions = new Map<string, CrsDefinition>();
+
+  constructor(definitions: readonly CrsDefinition[] = BUILTIN_DEFINITIONS) {
+    for (const definition of definitions) this.register(definition);
+  }
+
+  // Text definitions (proj4 or WKT) need a code unless the WKT carries an AUTHORITY/ID.
+  register(definition: CrsDefinition | string, code?: string): CrsDefinition {
+    const parsed =
+      typeof definition === 'string'
+        ? parseCrsDefinition(definition, code === undefined ? undefined : normalizeCrsCode(code))
+        : { ...definition, code: normalizeCrsCode(code ?? definition.code) };
+    assertDefinition(parsed);
+    this._definitions.set(parsed.code, parsed);
+    return parsed;
+  }
+
+  unregister(code: string): boolean {
+    return this._definitions.delete(normalizeCrsCode(code));
+  }
+
+  has(code: string): boolean {
+    return this.get(code) !== null;
+  }
+
+  get(code: string): CrsDefinition | null {
+    const normalized = normalizeCrsCode(code);
+    return this._definitions.get(normalized) ?? resolveEpsgFamily(normalized);
+  }
+
+  list(): CrsDefinition[] {
+    return [...this._definitions.values()];
+  }
+
+  // Accepts a registered code, a proj4 string, a WKT string or a definition object.
+  resolve(input: CrsInput): CrsDefinition {
+    if (typeof input === 'object') return input;
+    const text = String(input).trim();
+    if (looksLikeDefinitionText(text)) return parseCrsDefinition(text);
+    const definition = this.get(text);
+    if (!definition) {
+      throw new Error(`Unknown CRS "${input}". Register it with crsRegistry.register() first.`);
+    }
+    return definition;
+  }
+}
+
+export const crsRegistry = new CrsRegistry();
+
+// Transforms [x, y] or [x, y, z] between two CRSs; z passes through unchanged.
+// Geographic CRSs on different ellipsoids (e.g. WGS84 and CGCS2000) are treated as coincident,
+// which holds to a few centimetres; no datum shift grids or Helmert parameters are applied.
+export function transform(
+  coords: readonly number[],
+  fromCrs: CrsInput,
+  toCrs: CrsInput,
+  registry = crsRegistry
+): number[] {
+  const [x, y, ...rest] = coords;
+  if (x === undefined || y === undefined || !Number.isFinite(x) || !Number.isFinite(y)) {
+    throw new Error(`Invalid coordinate for CRS transform: ${coords.join(',')}`);
+  }
+  const from = registry.resolve(fromCrs);
+  const to = registry.resolve(toCrs);
+  if (from === to || from.code === to.code) return [x, y, ...rest];
+  const lonLat = crsToLonLat(from, x, y);
+  const out = lonLatToCrs(to, lonLat.lon, lonLat.lat);
+  return [out.x, out.y, ...rest];
+}
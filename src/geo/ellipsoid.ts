@@ -0,0 +1,23 @@
+export type Ellipsoid = {
+  name: string;
+  a: number;
+  f: number;
+};
+
+export const WGS84_ELLIPSOID: Ellipsoid = { name: 'WGS84', a: 6378137.0, f: 1 / 298.257223563 };
+
+// CGCS2000 shares WGS84's semi-major axis; the flattening differs in the 9th significant digit.
+export const CGCS2000_ELLIPSOID: Ellipsoid = { name: 'CGCS2000', a: 6378137.0, f: 1 / 298.257222101 };
+
+export const WGS84_A = WGS84_ELLIPSOID.a;
+export const WGS84_F = WGS84_ELLIPSOID.f;
+export const WGS84_E2 = ellipsoidE2(WGS84_ELLIPSOID);
+export const WGS84_B = WGS84_A * (1 - WGS84_F);
+
+// Web Mercator projects onto a sphere of WGS84's semi-major axis; the latitude limit makes the map square.
+export const WEB_MERCATOR_R = WGS84_A;
+export const WEB_MERCATOR_MAX_LAT = 85.0511287798066;
+
+export function ellipsoidE2(ellipsoid: Ellipsoid): number {
+  return ellipsoid.f * (2 - ellipsoid.f);
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { densifyGeodesic, geodesicDirect, geodesicInverse } from './geodesic';
+
+// Vincenty (1975), Survey Review XXIII: Flinders Peak to Buninyong on the GRS80/WGS84 ellipsoid.
+const FLINDERS_PEAK = { lon: dms(144, 25, 29.5244), lat: -dms(37, 57, 3.7203) };
+const BUNINYONG = { lon: dms(143, 55, 35.3839), lat: -dms(37, 39, 10.1561) };
+
+// Lines from GeographicLib's GeodTest.dat: lat1, lon1, azi1, lat2, lon2, azi2, s12.
+const GEOD_TEST = [
+  [35.60777, -139.44815, 111.098748429560326, -11.17491, -69.95921, 129.289270889708762, 8935244.5604818305],
+  [55.52454, 106.05087, 22.020059880982801, 77.03196, 197.18234, 109.112041110671519, 4105086.1713924406],
+  [-21.97856, 142.59065, -32.44456876433189, 41.84138, 98.56635, -41.84359951440466, 8394328.894657671],
+  [-66.99028, 112.2363, 173.73491240878403, -12.70631, 285.90344, 2.512956620913668, 11150344.2312080241],
+  [-17.42761, 173.34268, -159.033557661192928, -15.84784, 5.93557, -20.787484651536988, 16076603.1631180673],
+  [32.84994, 48.28919, 150.492927788121982, -56.28556, 202.29132, 48.113449399816759, 16727068.9438164461],
+  [6.96833, 52.74123, 92.581585386317712, -7.39675, 206.17291, 90.721692165923907, 17102477.2496958388],
+  [-50.56724, -16.30485, -105.439679907590164, -33.56571, -94.97412, -47.348547835650331, 6455670.5118668696],
+  [-58.93002, -8.90775, 140.965397902500679, -8.91104, 133.13503, 19.255429433416599, 11756066.0219864627],
+  [-68.82867, -74.28391, 93.774347763114881, -50.63005, -8.36685, 34.65564085411343, 3956936.926063544],
+  [-10.62672, -32.0898, -86.426713286747751, 5.883, -134.31681, -80.473780971034875, 11470869.3864563009],
+  [-21.76221, 166.90563, 29.319421206936428, 48.72884, 213.97627, 43.508671946410168, 9098627.3986554915],
+  [-19.79938, -174.47484, 71.167275780171533, -11.99349, -154.35109, 65.589099775199228, 2319004.8601169389],
+  [-11.95887, -116.94513, 92.712619830452549, 4.57352, 7.16501, 78.64960934409585, 13834722.5801401374],
+  [-87.85331, 85.66836, -65.120313040242748, 66.48646, 16.09921, -4.888658719272296, 17286615.3147144645],
+  [1.74708, 128.32011, -101.584843631173858, -11.16617, 11.87109, -86.325793296437476, 12942901.1241347408],
+  [-25.72959, -144.90758, -153.647468693117198, -57.70581, -269.17879, -48.343983158876487, 9413446.7452453107],
+  [-41.22777, 122.32875, 14.285113402275739, -7.57291, 130.37946, 10.805303085187369, 3812686.035106021],
+  [11.01307, 138.25278, 79.43682622782374, 6.62726, 247.05981, 103.708090215522657, 11911190.819018408],
+  [-29.47124, 95.14681, -163.779130441688382, -27.46601, -69.15955, -15.909335945554969, 13487015.8381145492]
+] as const;
+
+// Nearly antipodal pairs from GeographicLib's GeodSolve checks, where Vincenty's iteration fails or crawls:
+// lat1, lon1, lat2, lon2, s12.
+const NEARLY_ANTIPODAL = [
+  [88.202499451857, 0, -88.202499451857, 179.981022032992859592, 20003898.214],
+  [89.262080389218, 0, -89.262080389218, 179.992207982775375662, 20003925.854],
+  [56.320923501171, 0, -56.320923501171, 179.664747671772880215, 19993558.287],
+  [52.784459512564, 0, -52.784459512563990912, 179.634407464943777557, 19991596.095],
+  [48.522876735459, 0, -48.52287673545898293, 179.599720456223079643, 19989144.774],
+  [45, 0, -45, 179.572719, 19987083.007]
+] as const;
+
+function dms(degrees: number, minutes: number, seconds: number): number {
+  return degrees + minutes / 60 + seconds / 3600;
+}
+
+function expectAngle(actual: number, expected: number, tolerance: number): void {
+  const difference = Math.abs((((actual - expected) % 360) + 540) % 360 - 180);
+  expect(difference).toBeLessThan(tolerance);
+}
+
+describe('geodesicInverse', () => {
+  it('matches Vincenty for Flinders Peak to Buninyong', () => {
+    const result = geodesicInverse(FLINDERS_PEAK, BUNINYONG);
+    expect(result.distance).toBeCloseTo(54972.271, 3);
+    expectAngle(result.initialAzimuth, dms(306, 52, 5.37), 0.005 / 3600);
+    expectAngle(result.finalAzimuth, dms(127, 10, 25.07) + 180, 0.005 / 3600);
+  });
+
+  it.each(GEOD_TEST)('matches GeodTest from %f,%f', (lat1, lon1, azi1, lat2, lon2, azi2, s12) => {
+    const result = geodesicInverse({ lon: lon1, lat: lat1 }, { lon: lon2, lat: lat2 });
+    expect(result.distance).toBeCloseTo(s12, 6);
+    expectAngle(result.initialAzimuth, azi1, 1e-11);
+    expectAngle(result.finalAzimuth, azi2, 1e-11);
+  });
+
+  it.each(NEARLY_ANTIPODAL)('converges for nearly antipodal %f,%f', (lat1, lon1, lat2, lon2, s12) => {
+    expect(geodesicInverse({ lon: lon1, lat: lat1 }, { lon: lon2, lat: lat2 }).distance).toBeCloseTo(s12, 3);
+  });
+
+  it('solves Wellington to Salamanca, a classic Vincenty failure', () => {
+    const result = geodesicInverse({ lon: dms(174, 49, 0), lat: -dms(41, 19, 0) }, { lon: -5.5, lat: dms(40, 58, 0) });
+    expect(result.distance).toBeCloseTo(19960543.857179, 6);
+    expectAngle(result.initialAzimuth, 160.39137649664, 0.5e-11);
+    expectAngle(result.finalAzimuth, 19.50042925176, 0.5e-11);
+  });
+
+  it('solves lines close to 180 degrees of longitude apart', () => {
+    const result = geodesicInverse({ lon: 0, lat: 27.2 }, { lon: 179.5, lat: -27.1 });
+    expect(result.distance).toBeCloseTo(19974354.765767, 6);
+    expectAngle(result.initialAzimuth, 45.82468716758, 0.5e-11);
+    expectAngle(result.finalAzimuth, 134.2277653267, 0.5e-11);
+
+    expectAngle(geodesicInverse({ lon: 0, lat: 0 }, { lon: 179, lat: 0 }).initialAzimuth, 90, 0.5e-5);
+    expect(geodesicInverse({ lon: 1e-14, lat: 5 }, { lon: 180, lat: 10 }).distance).toBeCloseTo(18345191.174332713, 6);
+  });
+
+  it('handles exactly antipodal and coincident points', () => {
+    expect(geodesicInverse({ lon: 0, lat: 0 }, { lon: 180, lat: 0 }).distance).toBeCloseTo(20003931.4586, 3);
+    expect(geodesicInverse({ lon: 0, lat: 90 }, { lon: 0, lat: -90 }).distance).toBeCloseTo(20003931.4586, 3);
+    expect(geodesicInverse({ lon: 10, lat: 20 }, { lon: 10, lat: 20 }).distance).toBe(0);
+    const short = geodesicInverse({ lon: 0, lat: 36.493349428792 }, { lon: 8e-7, lat: 36.49334942879201 });
+    expect(short.distance).toBeCloseTo(0.072, 3);
+  });
+
+  it('rejects latitudes outside [-90, 90]', () => {
+    expect(() => geodesicInverse({ lon: 0, lat: 91 }, { lon: 0, lat: 0 })).toThrow(/Invalid geodesic point/);
+  });
+});
+
+describe('geodesicDirect', () => {
+  it('matches Vincenty for Flinders Peak to Buninyong', () => {
+    const result = geodesicDirect(FLINDERS_PEAK, dms(306, 52, 5.37), 54972.271);
+    expect(result.lon).toBeCloseTo(BUNINYONG.lon, 7);
+    expect(result.lat).toBeCloseTo(BUNINYONG.lat, 7);
+    expectAngle(result.finalAzimuth, dms(127, 10, 25.07) + 180, 0.005 / 3600);
+  });
+
+  it.each(GEOD_TEST)('matches GeodTest from %f,%f', (lat1, lon1, azi1, lat2, lon2, azi2, s12) => {
+    const result = geodesicDirect({ lon: lon1, lat: lat1 }, azi1, s12);
+    expect(result.lat).toBeCloseTo(lat2, 11);
+    expectAngle(result.lon, lon2, 1e-11);
+    expectAngle(result.finalAzimuth, azi2, 1e-11);
+  });
+
+  it.each(NEARLY_ANTIPODAL)('returns to the antipodal end from %f,%f', (lat1, lon1, lat2, lon2) => {
+    const inverse = geodesicInverse({ lon: lon1, lat: lat1 }, { lon: lon2, lat: lat2 });
+    const result = geodesicDirect({ lon: lon1, lat: lat1 }, inverse.initialAzimuth, inverse.distance);
+    expect(result.lat).toBeCloseTo(lat2, 9);
+    expectAngle(result.lon, lon2, 1e-9);
+  });
+});
+
+describe('densifyGeodesic', () => {
+  it('spaces points evenly along a nearly antipodal line', () => {
+    const from = { lon: 0, lat: 0 };
+    const to = { lon: 179.5, lat: 0 };
+    const points = densifyGeodesic(from, to, 5);
+    expect(points).toHaveLength(5);
+    const total = geodesicInverse(from, to).distance;
+    for (let i = 1; i < points.length; i += 1) {
+      const a = points[i - 1] ?? from;
+      const b = points[i] ?? to;
+      expect(geodesicInverse(a, b).distance).toBeCloseTo(total / 4, 4);
+    }
+  });
+});
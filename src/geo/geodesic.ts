@@ -0,0 +1,883 @@
+import { degToRad, normalizeLonDeg, radToDeg } from './angles';
+import { WGS84_A, WGS84_B, WGS84_E2, WGS84_F } from './ellipsoid';
+
+export type GeodesicPoint = { lon: number; lat: number };
+
+// Distance in meters on the WGS84 ellipsoid, azimuths in degrees clockwise from north in [0, 360).
+export type GeodesicInverseResult = {
+  distance: number;
+  initialAzimuth: number;
+  finalAzimuth: number;
+};
+
+export type GeodesicDirectResult = {
+  lon: number;
+  lat: number;
+  finalAzimuth: number;
+};
+
+const WGS84_F1 = 1 - WGS84_F;
+const WGS84_EP2 = (WGS84_F * (2 - WGS84_F)) / (WGS84_F1 * WGS84_F1);
+const WGS84_N = WGS84_F / (2 - WGS84_F);
+// Squared radius of the sphere with the ellipsoid's surface area.
+const WGS84_C2 =
+  (WGS84_A * WGS84_A + (WGS84_B * WGS84_B * Math.atanh(Math.sqrt(WGS84_E2))) / Math.sqrt(WGS84_E2)) / 2;
+
+// Karney, "Algorithms for geodesics" (2013), ported from GeographicLib (MIT licence): series to sixth order
+// in the flattening, so both problems are accurate to a few nanometres for any pair of points, including
+// the nearly antipodal ones Vincenty's iteration cannot solve.
+const ORDER = 6;
+const TOL0 = Number.EPSILON;
+const TOL1 = 200 * TOL0;
+const TOL2 = Math.sqrt(TOL0);
+const TOLB = TOL0;
+const XTHRESH = 1000 * TOL2;
+const ETOL2 = (0.1 * TOL2) / Math.sqrt((Math.max(0.001, Math.abs(WGS84_F)) * Math.min(1, 1 - WGS84_F / 2)) / 2);
+const TINY = Math.sqrt(Number.MIN_VALUE / Number.EPSILON);
+const MAX_NEWTON_ITERATIONS = 20;
+const MAX_ITERATIONS = MAX_NEWTON_ITERATIONS + 53 + 10;
+
+// Numerators followed by the denominator of each polynomial, as laid out in GeographicLib.
+const A1M1_COEFF = [1, 4, 64, 0, 256];
+const C1_COEFF = [-1, 6, -16, 32, -9, 64, -128, 2048, 9, -16, 768, 3, -5, 512, -7, 1280, -7, 2048];
+const C1P_COEFF = [
+  205, -432, 768, 1536, 4005, -4736, 3840, 12288, -225, 116, 384, -7173, 2695, 7680, 3467, 7680, 38081, 61440
+];
+const A2M1_COEFF = [-11, -28, -192, 0, 256];
+const C2_COEFF = [1, 2, 16, 32, 35, 64, 384, 2048, 15, 80, 768, 7, 35, 512, 63, 1280, 77, 2048];
+const A3_COEFF = [-3, 128, -2, -3, 64, -1, -3, -1, 16, 3, -1, -2, 8, 1, -1, 2, 1, 1];
+const C3_COEFF = [
+  3, 128, 2, 5, 128, -1, 3, 3, 64, -1, 0, 1, 8, -1, 1, 4, 5, 256, 1, 3, 128, -3, -2, 3, 64, 1, -3, 2, 32, 7, 512, -10,
+  9, 384, 5, -9, 5, 192, 7, 512, -14, 7, 512, 21, 2560
+];
+const C4_COEFF = [
+  97, 15015, 1088, 156, 45045, -224, -4784, 1573, 45045, -10656, 14144, -4576, -858, 45045, 64, 624, -4576, 6864,
+  -3003, 15015, 100, 208, 572, 3432, -12012, 30030, 45045, 1, 9009, -2944, 468, 135135, 5792, 1040, -1287, 135135,
+  5952, -11648, 9152, -2574, 135135, -64, -624, 4576, -6864, 3003, 135135, 8, 10725, 1856, -936, 225225, -8448, 4992,
+  -1144, 225225, -1440, 4160, -4576, 1716, 225225, -136, 63063, 1024, -208, 105105, 3584, -3328, 1144, 315315, -128,
+  135135, -2560, 832, 405405, 128, 99099
+];
+const A3X = a3Coefficients();
+const C3X = c3Coefficients();
+const C4X = c4Coefficients();
+
+function normalizeAzimuthDeg(deg: number): number {
+  const out = deg % 360;
+  return out < 0 ? out + 360 : out + 0;
+}
+
+function assertPoint(point: GeodesicPoint): void {
+  if (!Number.isFinite(point.lon) || !Number.isFinite(point.lat) || point.lat < -90 || point.lat > 90) {
+    throw new Error(`Invalid geodesic point: ${point.lon},${point.lat}`);
+  }
+}
+
+function assertCount(count: number): number {
+  if (!Number.isInteger(count) || count < 2) {
+    throw new Error(`Densification needs an integer point count of at least 2: ${count}`);
+  }
+  return count;
+}
+
+function toUnitVector(point: GeodesicPoint): { x: number; y: number; z: number } {
+  const lat = degToRad(point.lat);
+  const lon = degToRad(point.lon);
+  return { x: Math.cos(lat) * Math.cos(lon), y: Math.cos(lat) * Math.sin(lon), z: Math.sin(lat) };
+}
+
+// Karney's inverse solution; converges for every pair of points on the ellipsoid.
+export function geodesicInverse(from: GeodesicPoint, to: GeodesicPoint): GeodesicInverseResult {
+  const { distance, initialAzimuth, finalAzimuth } = solveInverse(from, to, false);
+  return { distance, initialAzimuth, finalAzimuth };
+}
+
+export function geodesicDistance(from: GeodesicPoint, to: GeodesicPoint): number {
+  return geodesicInverse(from, to).distance;
+}
+
+// Area in square meters of the quadrilateral bounded by the geodesic from `from` to `to`, the meridians through
+// both ends and the equator (Karney's S12), positive when traversed counter-clockwise. Summing it over the edges
+// of a ring gives the ring's area modulo the area of the ellipsoid.
+export function geodesicEdgeArea(from: GeodesicPoint, to: GeodesicPoint): number {
+  return solveInverse(from, to, true).area;
+}
+
+function solveInverse(
+  from: GeodesicPoint,
+  to: GeodesicPoint,
+  withArea: boolean
+): GeodesicInverseResult & { area: number } {
+  assertPoint(from);
+  assertPoint(to);
+
+  // Reduce to the canonical case 0 <= lon12 <= 180, lat1 <= 0 and lat1 <= lat2 <= -lat1; the signs record
+  // how to map the azimuths back.
+  let lat1 = angRound(from.lat);
+  let lat2 = angRound(to.lat);
+  const difference = angDiff(from.lon, to.lon);
+  let lonsign = copysign(1, difference.d);
+  const lon12 = difference.d * lonsign;
+  const lon12e = difference.e * lonsign;
+  const lam12 = degToRad(lon12);
+  const { s: slam12, c: clam12 } = sincosd(lon12, lon12e);
+  // The supplementary longitude difference.
+  const lon12s = 180 - lon12 - lon12e;
+
+  const swapp = Math.abs(lat1) < Math.abs(lat2) ? -1 : 1;
+  if (swapp < 0) {
+    lonsign *= -1;
+    [lat1, lat2] = [lat2, lat1];
+  }
+  const latsign = copysign(1, -lat1);
+  lat1 *= latsign;
+  lat2 *= latsign;
+
+  const beta1 = reducedLatitude(lat1);
+  const beta2 = reducedLatitude(lat2);
+  const sbet1 = beta1.s;
+  const cbet1 = beta1.c;
+  let sbet2 = beta2.s;
+  let cbet2 = beta2.c;
+  // Force bet2 = ±bet1 exactly when rounding leaves them a hair apart; Lambda12 relies on it.
+  if (cbet1 < -sbet1) {
+    if (cbet2 === cbet1) sbet2 = copysign(sbet1, sbet2);
+  } else if (Math.abs(sbet2) === -sbet1) {
+    cbet2 = cbet1;
+  }
+  const dn1 = Math.sqrt(1 + WGS84_EP2 * sbet1 * sbet1);
+  const dn2 = Math.sqrt(1 + WGS84_EP2 * sbet2 * sbet2);
+
+  let salp1 = 0;
+  let calp1 = 0;
+  let salp2 = 0;
+  let calp2 = 0;
+  let s12x = 0;
+  // The longitude difference on the auxiliary sphere, needed for the area.
+  let somg12 = 0;
+  let comg12 = 1;
+
+  let meridian = lat1 === -90 || slam12 === 0;
+  if (meridian) {
+    calp1 = clam12;
+    salp1 = slam12;
+    calp2 = 1;
+    salp2 = 0;
+    const ssig1 = sbet1;
+    const csig1 = calp1 * cbet1;
+    const ssig2 = sbet2;
+    const csig2 = calp2 * cbet2;
+    let sig12 = Math.atan2(Math.max(0, csig1 * ssig2 - ssig1 * csig2), csig1 * csig2 + ssig1 * ssig2);
+    const lengths = geodesicLengths(WGS84_N, sig12, ssig1, csig1, dn1, ssig2, csig2, dn2);
+    s12x = lengths.s12b;
+    if (sig12 < TOL2 || lengths.m12b >= 0) {
+      if (sig12 < 3 * TINY || (sig12 < TOL0 && (s12x < 0 || lengths.m12b < 0))) {
+        sig12 = 0;
+        s12x = 0;
+      }
+      s12x *= WGS84_B;
+    } else {
+      // Too close to antipodal for the meridian to be the shortest path.
+      meridian = false;
+    }
+  }
+
+  if (!meridian && sbet1 === 0 && lon12s >= WGS84_F * 180) {
+    // Along the equator.
+    calp1 = 0;
+    calp2 = 0;
+    salp1 = 1;
+    salp2 = 1;
+    s12x = WGS84_A * lam12;
+    somg12 = Math.sin(lam12 / WGS84_F1);
+    comg12 = Math.cos(lam12 / WGS84_F1);
+  } else if (!meridian) {
+    const start = inverseStart(sbet1, cbet1, sbet2, cbet2, lam12, slam12, clam12);
+    salp1 = start.salp1;
+    calp1 = start.calp1;
+    if (start.sig12 >= 0) {
+      salp2 = start.salp2;
+      calp2 = start.calp2;
+      s12x = start.sig12 * WGS84_B * start.dnm;
+      somg12 = Math.sin(lam12 / (WGS84_F1 * start.dnm));
+      comg12 = Math.cos(lam12 / (WGS84_F1 * start.dnm));
+    } else {
+      // Newton's method on lambda12(alp1) - lam12 = 0, falling back to bisection of the bracket
+      // (alp1a, alp1b) whenever a step leaves it.
+      let salp1a = TINY;
+      let calp1a = 1;
+      let salp1b = TINY;
+      let calp1b = -1;
+      let tripn = false;
+      let tripb = false;
+      let solution: Lambda12Solution;
+      for (let iteration = 0; ; iteration += 1) {
+        const diffp = iteration < MAX_NEWTON_ITERATIONS;
+        solution = lambda12(sbet1, cbet1, dn1, sbet2, cbet2, dn2, salp1, calp1, slam12, clam12, diffp);
+        const v = solution.lam12;
+        // Written so that NaN escapes the loop.
+        if (tripb || !(Math.abs(v) >= (tripn ? 8 : 1) * TOL0) || iteration === MAX_ITERATIONS) break;
+        if (v > 0 && (iteration < MAX_NEWTON_ITERATIONS || calp1 / salp1 > calp1b / salp1b)) {
+          salp1b = salp1;
+          calp1b = calp1;
+        } else if (v < 0 && (iteration < MAX_NEWTON_ITERATIONS || calp1 / salp1 < calp1a / salp1a)) {
+          salp1a = salp1;
+          calp1a = calp1;
+        }
+        if (iteration < MAX_NEWTON_ITERATIONS && solution.dlam12 > 0) {
+          const dalp1 = -v / solution.dlam12;
+          if (Math.abs(dalp1) < Math.PI) {
+            const sdalp1 = Math.sin(dalp1);
+            const cdalp1 = Math.cos(dalp1);
+            const nsalp1 = salp1 * cdalp1 + calp1 * sdalp1;
+            if (nsalp1 > 0) {
+              calp1 = calp1 * cdalp1 - salp1 * sdalp1;
+              salp1 = nsalp1;
+              [salp1, calp1] = normalize(salp1, calp1);
+              tripn = Math.abs(v) <= 16 * TOL0;
+              continue;
+            }
+          }
+        }
+        [salp1, calp1] = normalize((salp1a + salp1b) / 2, (calp1a + calp1b) / 2);
+        tripn = false;
+        tripb =
+          Math.abs(salp1a - salp1) + (calp1a - calp1) < TOLB || Math.abs(salp1 - salp1b) + (calp1 - calp1b) < TOLB;
+      }
+      salp2 = solution.salp2;
+      calp2 = solution.calp2;
+      const lengths = geodesicLengths(
+        solution.eps,
+        solution.sig12,
+        solution.ssig1,
+        solution.csig1,
+        dn1,
+        solution.ssig2,
+        solution.csig2,
+        dn2
+      );
+      s12x = lengths.s12b * WGS84_B;
+      // omg12 = lam12 - domg12
+      const sdomg12 = Math.sin(solution.domg12);
+      const cdomg12 = Math.cos(solution.domg12);
+      somg12 = slam12 * cdomg12 - clam12 * sdomg12;
+      comg12 = clam12 * cdomg12 + slam12 * sdomg12;
+    }
+  }
+
+  let area = 0;
+  if (withArea) {
+    area = edgeArea(sbet1, cbet1, sbet2, cbet2, salp1, calp1, salp2, calp2, somg12, comg12, meridian);
+    area *= swapp * lonsign * latsign;
+  }
+
+  if (swapp < 0) {
+    [salp1, salp2] = [salp2, salp1];
+    [calp1, calp2] = [calp2, calp1];
+  }
+  salp1 *= swapp * lonsign;
+  calp1 *= swapp * latsign;
+  salp2 *= swapp * lonsign;
+  calp2 *= swapp * latsign;
+
+  return {
+    distance: s12x + 0,
+    initialAzimuth: normalizeAzimuthDeg(atan2d(salp1, calp1)),
+    finalAzimuth: normalizeAzimuthDeg(atan2d(salp2, calp2)),
+    area: area + 0
+  };
+}
+
+// Karney's direct solution: the point reached after `distance` meters along the geodesic leaving `from`
+// at `azimuth` degrees clockwise from north.
+export function geodesicDirect(from: GeodesicPoint, azimuth: number, distance: number): GeodesicDirectResult {
+  assertPoint(from);
+  if (!Number.isFinite(azimuth) || !Number.isFinite(distance)) {
+    throw new Error(`Invalid geodesic direct input: azimuth ${azimuth}, distance ${distance}`);
+  }
+
+  const { s: salp1, c: calp1 } = sincosd(angRound(angNormalize(azimuth)));
+  const { s: sbet1, c: cbet1 } = reducedLatitude(angRound(from.lat));
+  // alp0 is the azimuth where the geodesic crosses the equator heading north.
+  const salp0 = salp1 * cbet1;
+  const calp0 = Math.hypot(calp1, salp1 * sbet1);
+  const somg1 = salp0 * sbet1;
+  const comg1 = sbet1 !== 0 || calp1 !== 0 ? cbet1 * calp1 : 1;
+  const [ssig1, csig1] = normalize(sbet1, comg1);
+
+  const k2 = calp0 * calp0 * WGS84_EP2;
+  const eps = k2 / (2 * (1 + Math.sqrt(1 + k2)) + k2);
+  const A1m1 = a1m1f(eps);
+  const B11 = sinCosSeries(true, ssig1, csig1, fourierCoefficients(C1_COEFF, eps));
+  const stau1 = ssig1 * Math.cos(B11) + csig1 * Math.sin(B11);
+  const ctau1 = csig1 * Math.cos(B11) - ssig1 * Math.sin(B11);
+  const C3a = c3f(eps);
+  const A3c = -WGS84_F * salp0 * a3f(eps);
+  const B31 = sinCosSeries(true, ssig1, csig1, C3a);
+
+  // Invert the distance series for the arc length sig12 on the auxiliary sphere.
+  const tau12 = distance / (WGS84_B * (1 + A1m1));
+  const stau12 = Math.sin(tau12);
+  const ctau12 = Math.cos(tau12);
+  const B12 = -sinCosSeries(
+    true,
+    stau1 * ctau12 + ctau1 * stau12,
+    ctau1 * ctau12 - stau1 * stau12,
+    fourierCoefficients(C1P_COEFF, eps)
+  );
+  const sig12 = tau12 - (B12 - B11);
+  const ssig12 = Math.sin(sig12);
+  const csig12 = Math.cos(sig12);
+
+  const ssig2 = ssig1 * csig12 + csig1 * ssig12;
+  let csig2 = csig1 * csig12 - ssig1 * ssig12;
+  const sbet2 = calp0 * ssig2;
+  let cbet2 = Math.hypot(salp0, calp0 * csig2);
+  if (cbet2 === 0) {
+    // The geodesic reaches a pole; keep it on the side it came from.
+    cbet2 = TINY;
+    csig2 = TINY;
+  }
+  const somg2 = salp0 * ssig2;
+  const comg2 = csig2;
+  const omg12 = Math.atan2(somg2 * comg1 - comg2 * somg1, comg2 * comg1 + somg2 * somg1);
+  const lam12 = omg12 + A3c * (sig12 + (sinCosSeries(true, ssig2, csig2, C3a) - B31));
+
+  return {
+    lon: normalizeLonDeg(angNormalize(from.lon) + angNormalize(radToDeg(lam12))),
+    lat: atan2d(sbet2, WGS84_F1 * cbet2),
+    finalAzimuth: normalizeAzimuthDeg(atan2d(salp0, calp0 * csig2))
+  };
+}
+
+export function geodesicInitialBearing(from: GeodesicPoint, to: GeodesicPoint): number {
+  return geodesicInverse(from, to).initialAzimuth;
+}
+
+export function geodesicFinalBearing(from: GeodesicPoint, to: GeodesicPoint): number {
+  return geodesicInverse(from, to).finalAzimuth;
+}
+
+// `count` points evenly spaced along the geodesic, both endpoints included.
+export function densifyGeodesic(from: GeodesicPoint, to: GeodesicPoint, count: number): GeodesicPoint[] {
+  const n = assertCount(count);
+  const inverse = geodesicInverse(from, to);
+  const out: GeodesicPoint[] = [{ lon: from.lon, lat: from.lat }];
+  for (let i = 1; i < n - 1; i += 1) {
+    const point = geodesicDirect(from, inverse.initialAzimuth, (inverse.distance * i) / (n - 1));
+    out.push({ lon: point.lon, lat: point.lat });
+  }
+  out.push({ lon: to.lon, lat: to.lat });
+  return out;
+}
+
+// Same as densifyGeodesic but along the great circle of a sphere; cheaper and fine for display lines.
+export function densifyGreatCircle(from: GeodesicPoint, to: GeodesicPoint, count: number): GeodesicPoint[] {
+  const n = assertCount(count);
+  assertPoint(from);
+  assertPoint(to);
+  const a = toUnitVector(from);
+  const b = toUnitVector(to);
+  const omega = Math.acos(Math.max(-1, Math.min(1, a.x * b.x + a.y * b.y + a.z * b.z)));
+  const sinOmega = Math.sin(omega);
+  if (omega > 0 && sinOmega < 1e-12) {
+    throw new Error('Great circle between antipodal points is undefined.');
+  }
+
+  const out: GeodesicPoint[] = [{ lon: from.lon, lat: from.lat }];
+  for (let i = 1; i < n - 1; i += 1) {
+    const t = i / (n - 1);
+    const wa = omega === 0 ? 1 - t : Math.sin((1 - t) * omega) / sinOmega;
+    const wb = omega === 0 ? t : Math.sin(t * omega) / sinOmega;
+    const x = wa * a.x + wb * b.x;
+    const y = wa * a.y + wb * b.y;
+    const z = wa * a.z + wb * b.z;
+    out.push({ lon: radToDeg(Math.atan2(y, x)), lat: radToDeg(Math.atan2(z, Math.hypot(x, y))) });
+  }
+  out.push({ lon: to.lon, lat: to.lat });
+  return out;
+}
+
+type Lambda12Solution = {
+  lam12: number;
+  dlam12: number;
+  salp2: number;
+  calp2: number;
+  sig12: number;
+  ssig1: number;
+  csig1: number;
+  ssig2: number;
+  csig2: number;
+  eps: number;
+  domg12: number;
+};
+
+// Sine and cosine of the reduced latitude, with the cosine kept positive at the poles.
+function reducedLatitude(lat: number): { s: number; c: number } {
+  const { s, c } = sincosd(lat);
+  const [sbet, cbet] = normalize(WGS84_F1 * s, c);
+  return { s: sbet, c: Math.max(TINY, cbet) };
+}
+
+function normalize(s: number, c: number): [number, number] {
+  const length = Math.hypot(s, c);
+  return [s / length, c / length];
+}
+
+// Starting azimuth for Newton's method. A non-negative sig12 means the line is short enough to be solved
+// outright, in which case salp2, calp2 and dnm are set as well.
+function inverseStart(
+  sbet1: number,
+  cbet1: number,
+  sbet2: number,
+  cbet2: number,
+  lam12: number,
+  slam12: number,
+  clam12: number
+): { sig12: number; salp1: number; calp1: number; salp2: number; calp2: number; dnm: number } {
+  const sbet12 = sbet2 * cbet1 - cbet2 * sbet1;
+  const cbet12 = cbet2 * cbet1 + sbet2 * sbet1;
+  const sbet12a = sbet2 * cbet1 + cbet2 * sbet1;
+  const shortline = cbet12 >= 0 && sbet12 < 0.5 && cbet2 * lam12 < 0.5;
+  let dnm = 1;
+  let somg12 = slam12;
+  let comg12 = clam12;
+  if (shortline) {
+    let sbetm2 = (sbet1 + sbet2) * (sbet1 + sbet2);
+    sbetm2 /= sbetm2 + (cbet1 + cbet2) * (cbet1 + cbet2);
+    dnm = Math.sqrt(1 + WGS84_EP2 * sbetm2);
+    const omg12 = lam12 / (WGS84_F1 * dnm);
+    somg12 = Math.sin(omg12);
+    comg12 = Math.cos(omg12);
+  }
+
+  let salp1 = cbet2 * somg12;
+  let calp1 =
+    comg12 >= 0
+      ? sbet12 + (cbet2 * sbet1 * somg12 * somg12) / (1 + comg12)
+      : sbet12a - (cbet2 * sbet1 * somg12 * somg12) / (1 - comg12);
+  const ssig12 = Math.hypot(salp1, calp1);
+  const csig12 = sbet1 * sbet2 + cbet1 * cbet2 * comg12;
+
+  if (shortline && ssig12 < ETOL2) {
+    const [salp2, calp2] = normalize(
+      cbet1 * somg12,
+      sbet12 - cbet1 * sbet2 * (comg12 >= 0 ? (somg12 * somg12) / (1 + comg12) : 1 - comg12)
+    );
+    [salp1, calp1] = normalize(salp1, calp1);
+    return { sig12: Math.atan2(ssig12, csig12), salp1, calp1, salp2, calp2, dnm };
+  }
+
+  // Nearly antipodal: the spherical guess is poor, so solve the astroid problem in coordinates scaled so the
+  // antipode is at the origin.
+  if (csig12 < 0 && ssig12 < 6 * Math.abs(WGS84_N) * Math.PI * cbet1 * cbet1) {
+    const lam12x = Math.atan2(-slam12, -clam12);
+    const k2 = sbet1 * sbet1 * WGS84_EP2;
+    const eps = k2 / (2 * (1 + Math.sqrt(1 + k2)) + k2);
+    const lamscale = WGS84_F * cbet1 * a3f(eps) * Math.PI;
+    const betscale = lamscale * cbet1;
+    const x = lam12x / lamscale;
+    const y = sbet12a / betscale;
+    if (y > -TOL1 && x > -1 - XTHRESH) {
+      salp1 = Math.min(1, -x);
+      calp1 = -Math.sqrt(1 - salp1 * salp1);
+    } else {
+      const k = astroid(x, y);
+      const omg12a = lamscale * ((-x * k) / (1 + k));
+      somg12 = Math.sin(omg12a);
+      comg12 = -Math.cos(omg12a);
+      salp1 = cbet2 * somg12;
+      calp1 = sbet12a - (cbet2 * sbet1 * somg12 * somg12) / (1 - comg12);
+    }
+  }
+
+  if (salp1 > 0) {
+    [salp1, calp1] = normalize(salp1, calp1);
+  } else {
+    salp1 = 1;
+    calp1 = 0;
+  }
+  return { sig12: -1, salp1, calp1, salp2: 0, calp2: 0, dnm };
+}
+
+// The longitude difference reached by leaving point 1 at alp1, less the target, and its derivative.
+function lambda12(
+  sbet1: number,
+  cbet1: number,
+  dn1: number,
+  sbet2: number,
+  cbet2: number,
+  dn2: number,
+  salp1: number,
+  calp1In: number,
+  slam120: number,
+  clam120: number,
+  diffp: boolean
+): Lambda12Solution {
+  // Break the degeneracy of the equatorial line.
+  const calp1 = sbet1 === 0 && calp1In === 0 ? -TINY : calp1In;
+  const salp0 = salp1 * cbet1;
+  const calp0 = Math.hypot(calp1, salp1 * sbet1);
+
+  const somg1 = salp0 * sbet1;
+  const comg1 = calp1 * cbet1;
+  const [ssig1, csig1] = normalize(sbet1, comg1);
+
+  const salp2 = cbet2 !== cbet1 ? salp0 / cbet2 : salp1;
+  const calp2 =
+    cbet2 !== cbet1 || Math.abs(sbet2) !== -sbet1
+      ? Math.sqrt(
+          calp1 * cbet1 * (calp1 * cbet1) +
+            (cbet1 < -sbet1 ? (cbet2 - cbet1) * (cbet1 + cbet2) : (sbet1 - sbet2) * (sbet1 + sbet2))
+        ) / cbet2
+      : Math.abs(calp1);
+  const somg2 = salp0 * sbet2;
+  const comg2 = calp2 * cbet2;
+  const [ssig2, csig2] = normalize(sbet2, comg2);
+
+  const sig12 = Math.atan2(Math.max(0, csig1 * ssig2 - ssig1 * csig2), csig1 * csig2 + ssig1 * ssig2);
+  const somg12 = Math.max(0, comg1 * somg2 - somg1 * comg2);
+  const comg12 = comg1 * comg2 + somg1 * somg2;
+  const eta = Math.atan2(somg12 * clam120 - comg12 * slam120, comg12 * clam120 + somg12 * slam120);
+  const k2 = calp0 * calp0 * WGS84_EP2;
+  const eps = k2 / (2 * (1 + Math.sqrt(1 + k2)) + k2);
+  const C3a = c3f(eps);
+  const B312 = sinCosSeries(true, ssig2, csig2, C3a) - sinCosSeries(true, ssig1, csig1, C3a);
+  const domg12 = -WGS84_F * a3f(eps) * salp0 * (sig12 + B312);
+  const lam12 = eta + domg12;
+
+  let dlam12 = 0;
+  if (diffp) {
+    dlam12 =
+      calp2 === 0
+        ? (-2 * WGS84_F1 * dn1) / sbet1
+        : (geodesicLengths(eps, sig12, ssig1, csig1, dn1, ssig2, csig2, dn2).m12b * WGS84_F1) / (calp2 * cbet2);
+  }
+  return { lam12, dlam12, salp2, calp2, sig12, ssig1, csig1, ssig2, csig2, eps, domg12 };
+}
+
+// S12 for the canonical line of solveInverse: the ellipsoidal correction from the C4 series plus the spherical
+// excess c²·(alp2 - alp1) of the authalic sphere.
+function edgeArea(
+  sbet1: number,
+  cbet1: number,
+  sbet2: number,
+  cbet2: number,
+  salp1: number,
+  calp1: number,
+  salp2: number,
+  calp2: number,
+  somg12: number,
+  comg12: number,
+  meridian: boolean
+): number {
+  const salp0 = salp1 * cbet1;
+  const calp0 = Math.hypot(calp1, salp1 * sbet1);
+  let S12 = 0;
+  // sig1 and sig2 are indeterminate on the equator, where the correction vanishes anyway.
+  if (calp0 !== 0 && salp0 !== 0) {
+    const [ssig1, csig1] = normalize(sbet1, calp1 * cbet1);
+    const [ssig2, csig2] = normalize(sbet2, calp2 * cbet2);
+    const k2 = calp0 * calp0 * WGS84_EP2;
+    const eps = k2 / (2 * (1 + Math.sqrt(1 + k2)) + k2);
+    const A4 = WGS84_A * WGS84_A * calp0 * salp0 * WGS84_E2;
+    const C4a = c4f(eps);
+    S12 = A4 * (sinCosSeries(false, ssig2, csig2, C4a) - sinCosSeries(false, ssig1, csig1, C4a));
+  }
+
+  let alp12: number;
+  if (!meridian && comg12 > -0.7071 && sbet2 - sbet1 < 1.75) {
+    // tan(alp12/2) from the half-angle tangents of omg12, bet1 and bet2; accurate for short lines.
+    const domg12 = 1 + comg12;
+    const dbet1 = 1 + cbet1;
+    const dbet2 = 1 + cbet2;
+    alp12 = 2 * Math.atan2(somg12 * (sbet1 * dbet2 + sbet2 * dbet1), domg12 * (sbet1 * sbet2 + dbet1 * dbet2));
+  } else {
+    let salp12 = salp2 * calp1 - calp2 * salp1;
+    let calp12 = calp2 * calp1 + salp2 * salp1;
+    // Keep alp12 = -180 rather than +180 when alp1 = ±180 and alp2 = 0.
+    if (salp12 === 0 && calp12 < 0) {
+      salp12 = TINY * calp1;
+      calp12 = -1;
+    }
+    alp12 = Math.atan2(salp12, calp12);
+  }
+  return S12 + WGS84_C2 * alp12;
+}
+
+// Distance and reduced length along the auxiliary sphere, both in units of the semi-minor axis.
+function geodesicLengths(
+  eps: number,
+  sig12: number,
+  ssig1: number,
+  csig1: number,
+  dn1: number,
+  ssig2: number,
+  csig2: number,
+  dn2: number
+): { s12b: number; m12b: number } {
+  const C1a = fourierCoefficients(C1_COEFF, eps);
+  const C2a = fourierCoefficients(C2_COEFF, eps);
+  const A1 = 1 + a1m1f(eps);
+  const A2 = 1 + a2m1f(eps);
+  const B1 = sinCosSeries(true, ssig2, csig2, C1a) - sinCosSeries(true, ssig1, csig1, C1a);
+  const B2 = sinCosSeries(true, ssig2, csig2, C2a) - sinCosSeries(true, ssig1, csig1, C2a);
+  const J12 = (A1 - A2) * sig12 + (A1 * B1 - A2 * B2);
+  return {
+    s12b: A1 * (sig12 + B1),
+    m12b: dn2 * (csig1 * ssig2) - dn1 * (ssig1 * csig2) - csig1 * csig2 * J12
+  };
+}
+
+// Positive root k of k⁴ + 2k³ - (x² + y² - 1)k² - 2y²k - y² = 0.
+function astroid(x: number, y: number): number {
+  const p = x * x;
+  const q = y * y;
+  const r = (p + q - 1) / 6;
+  if (q === 0 && r <= 0) return 0;
+  const S = (p * q) / 4;
+  const r2 = r * r;
+  const r3 = r * r2;
+  const disc = S * (S + 2 * r3);
+  let u = r;
+  if (disc >= 0) {
+    let T3 = S + r3;
+    T3 += T3 < 0 ? -Math.sqrt(disc) : Math.sqrt(disc);
+    const T = Math.cbrt(T3);
+    u += T + (T !== 0 ? r2 / T : 0);
+  } else {
+    const angle = Math.atan2(Math.sqrt(-disc), -(S + r3));
+    u += 2 * r * Math.cos(angle / 3);
+  }
+  const v = Math.sqrt(u * u + q);
+  const uv = u < 0 ? q / (v - u) : u + v;
+  const w = (uv - q) / (2 * v);
+  return uv / (Math.sqrt(uv + w * w) + w);
+}
+
+function a1m1f(eps: number): number {
+  const t = polyval(3, A1M1_COEFF, 0, eps * eps) / at(A1M1_COEFF, 4);
+  return (t + eps) / (1 - eps);
+}
+
+function a2m1f(eps: number): number {
+  const t = polyval(3, A2M1_COEFF, 0, eps * eps) / at(A2M1_COEFF, 4);
+  return (t - eps) / (1 + eps);
+}
+
+function a3f(eps: number): number {
+  return polyval(ORDER - 1, A3X, 0, eps);
+}
+
+// C1, C1' and C2 share one layout: coefficient l is eps^l times a polynomial in eps² of order (6 - l) / 2.
+function fourierCoefficients(coeff: readonly number[], eps: number): number[] {
+  const out = new Array<number>(ORDER + 1).fill(0);
+  const eps2 = eps * eps;
+  let d = eps;
+  let offset = 0;
+  for (let l = 1; l <= ORDER; l += 1) {
+    const order = Math.floor((ORDER - l) / 2);
+    out[l] = (d * polyval(order, coeff, offset, eps2)) / at(coeff, offset + order + 1);
+    offset += order + 2;
+    d *= eps;
+  }
+  return out;
+}
+
+function c3f(eps: number): number[] {
+  const out = new Array<number>(ORDER).fill(0);
+  let mult = 1;
+  let offset = 0;
+  for (let l = 1; l < ORDER; l += 1) {
+    const order = ORDER - l - 1;
+    mult *= eps;
+    out[l] = mult * polyval(order, C3X, offset, eps);
+    offset += order + 1;
+  }
+  return out;
+}
+
+function c4f(eps: number): number[] {
+  const out = new Array<number>(ORDER).fill(0);
+  let mult = 1;
+  let offset = 0;
+  for (let l = 0; l < ORDER; l += 1) {
+    const order = ORDER - l - 1;
+    out[l] = mult * polyval(order, C4X, offset, eps);
+    offset += order + 1;
+    mult *= eps;
+  }
+  return out;
+}
+
+// A3, C3 and C4 depend on the third flattening n as well as eps; their n polynomials are evaluated once here.
+function a3Coefficients(): number[] {
+  const out: number[] = [];
+  let offset = 0;
+  for (let j = ORDER - 1; j >= 0; j -= 1) {
+    const order = Math.min(ORDER - j - 1, j);
+    out.push(polyval(order, A3_COEFF, offset, WGS84_N) / at(A3_COEFF, offset + order + 1));
+    offset += order + 2;
+  }
+  return out;
+}
+
+function c3Coefficients(): number[] {
+  const out: number[] = [];
+  let offset = 0;
+  for (let l = 1; l < ORDER; l += 1) {
+    for (let j = ORDER - 1; j >= l; j -= 1) {
+      const order = Math.min(ORDER - j - 1, j);
+      out.push(polyval(order, C3_COEFF, offset, WGS84_N) / at(C3_COEFF, offset + order + 1));
+      offset += order + 2;
+    }
+  }
+  return out;
+}
+
+function c4Coefficients(): number[] {
+  const out: number[] = [];
+  let offset = 0;
+  for (let l = 0; l < ORDER; l += 1) {
+    for (let j = ORDER - 1; j >= l; j -= 1) {
+      const order = ORDER - j - 1;
+      out.push(polyval(order, C4_COEFF, offset, WGS84_N) / at(C4_COEFF, offset + order + 1));
+      offset += order + 2;
+    }
+  }
+  return out;
+}
+
+// Clenshaw summation of Σ c[l] sin(2lσ) for l >= 1 (c[0] unused), or of Σ c[l] cos((2l + 1)σ) when !sinp.
+function sinCosSeries(sinp: boolean, sinx: number, cosx: number, c: readonly number[]): number {
+  let k = c.length;
+  let n = k - (sinp ? 1 : 0);
+  const ar = 2 * (cosx - sinx) * (cosx + sinx);
+  let y0 = 0;
+  let y1 = 0;
+  if (n & 1) {
+    k -= 1;
+    y0 = at(c, k);
+  }
+  for (n = Math.floor(n / 2); n > 0; n -= 1) {
+    k -= 1;
+    y1 = ar * y0 - y1 + at(c, k);
+    k -= 1;
+    y0 = ar * y1 - y0 + at(c, k);
+  }
+  return sinp ? 2 * sinx * cosx * y0 : cosx * (y0 - y1);
+}
+
+function polyval(order: number, coeff: readonly number[], offset: number, x: number): number {
+  let y = order < 0 ? 0 : at(coeff, offset);
+  for (let i = 1; i <= order; i += 1) y = y * x + at(coeff, offset + i);
+  return y;
+}
+
+function at(values: readonly number[], index: number): number {
+  return values[index] ?? 0;
+}
+
+function copysign(x: number, y: number): number {
+  return Math.abs(x) * (y < 0 || Object.is(y, -0) ? -1 : 1);
+}
+
+// Rounds tiny angles to a 2^-57 degree grid so values a hair off the equator are treated as on it.
+function angRound(x: number): number {
+  const z = 1 / 16;
+  const y = Math.abs(x);
+  return copysign(y < z ? z - (z - y) : y, x);
+}
+
+function remainder(x: number, y: number): number {
+  const r = x % y;
+  return r < -y / 2 ? r + y : r < y / 2 ? r : r - y;
+}
+
+function angNormalize(x: number): number {
+  const y = remainder(x, 360);
+  return Math.abs(y) === 180 ? copysign(180, x) : y;
+}
+
+// Exact two-sum: u + v = s + t.
+function sum(u: number, v: number): { s: number; t: number } {
+  const s = u + v;
+  const up = s - v - u;
+  const vpp = s - (s - v) - v;
+  return { s, t: s ? 0 - (up + vpp) : s };
+}
+
+// y - x reduced to [-180, 180] as a rounded part d plus the rounding error e.
+function angDiff(x: number, y: number): { d: number; e: number } {
+  let r = sum(remainder(-x, 360), remainder(y, 360));
+  r = sum(remainder(r.s, 360), r.t);
+  let d = r.s;
+  const e = r.t;
+  if (d === 0 || Math.abs(d) === 180) d = copysign(d, e === 0 ? y - x : -e);
+  return { d, e };
+}
+
+// Sine and cosine of x (+ t, a small correction) degrees, reducing the argument exactly to [-45, 45] before
+// converting to radians.
+function sincosd(x: number, t?: number): { s: number; c: number } {
+  let d = x % 360;
+  const q = Math.round(d / 90);
+  d -= 90 * q;
+  if (t !== undefined) d = angRound(d + t);
+  const r = degToRad(d);
+  let s = Math.sin(r);
+  let c = Math.cos(r);
+  if (Math.abs(d) === 45) {
+    c = Math.SQRT1_2;
+    s = copysign(c, r);
+  } else if (Math.abs(d) === 30) {
+    c = Math.sqrt(0.75);
+    s = copysign(0.5, r);
+  }
+  let sinx: number;
+  let cosx: number;
+  switch (q & 3) {
+    case 0:
+      sinx = s;
+      cosx = c;
+      break;
+    case 1:
+      sinx = c;
+      cosx = -s;
+      break;
+    case 2:
+      sinx = -s;
+      cosx = -c;
+      break;
+    default:
+      sinx = -c;
+      cosx = s;
+  }
+  cosx += 0;
+  if (sinx === 0) sinx = copysign(sinx, x + (t ?? 0));
+  return { s: sinx, c: cosx };
+}
+
+function atan2d(y: number, x: number): number {
+  let yy = y;
+  let xx = x;
+  let q = 0;
+  if (Math.abs(yy) > Math.abs(xx)) {
+    [yy, xx] = [xx, yy];
+    q = 2;
+  }
+  if (copysign(1, xx) < 0) {
+    xx = -xx;
+    q += 1;
+  }
+  const angle = radToDeg(Math.atan2(yy, xx));
+  switch (q) {
+    case 1:
+      return copysign(180, yy) - angle;
+    case 2:
+      return 90 - angle;
+    case 3:
+      return -90 + angle;
+    default:
+      return angle;
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { GeoidGrid, ellipsoidalToOrthometric, orthometricToEllipsoidal, parseGeoidGrid } from './geoid';
+
+// 4 x 3 grid on 90° spacing: rows at 90°N, 0° and 90°S, columns at 0°, 90°E, 180° and 90°W.
+const RAW = [
+  [36000, 36000, 36000, 36000],
+  [36100, 36400, 36700, 37000],
+  [35000, 35000, 35000, 35000]
+];
+// The offset and scale GeographicLib writes into egm96-5.pgm and egm2008-1.pgm.
+const OFFSET = -108;
+const SCALE = 0.003;
+
+function undulationAt(row: number, column: number): number {
+  return OFFSET + SCALE * (RAW[row]?.[column] ?? 0);
+}
+
+function pgmBuffer(header: string, samples: readonly number[]): ArrayBuffer {
+  const head = new TextEncoder().encode(header);
+  const bytes = new Uint8Array(head.length + samples.length * 2);
+  bytes.set(head);
+  const view = new DataView(bytes.buffer, head.length);
+  samples.forEach((sample, i) => view.setUint16(i * 2, sample, false));
+  return bytes.buffer;
+}
+
+const PGM_HEADER = `P5\n# Description Tiny test geoid\n# Offset ${OFFSET}\n# Scale ${SCALE}\n4 3\n65535\n`;
+
+describe('GeoidGrid', () => {
+  const grid = parseGeoidGrid(pgmBuffer(PGM_HEADER, RAW.flat()));
+
+  it('reads the PGM header comments and samples', () => {
+    expect(grid.name).toBe('Tiny test geoid');
+    expect(grid.undulation(0, 0)).toBeCloseTo(undulationAt(1, 0), 5);
+    expect(grid.undulation(90, 0)).toBeCloseTo(undulationAt(1, 1), 5);
+    expect(grid.undulation(0, 90)).toBeCloseTo(undulationAt(0, 0), 5);
+    expect(grid.undulation(0, -90)).toBeCloseTo(undulationAt(2, 0), 5);
+  });
+
+  it('interpolates bilinearly between posts', () => {
+    const fx = 30 / 90;
+    const fy = 60 / 90;
+    const north = undulationAt(0, 0) * (1 - fx) + undulationAt(0, 1) * fx;
+    const equator = undulationAt(1, 0) * (1 - fx) + undulationAt(1, 1) * fx;
+    expect(grid.undulation(30, 30)).toBeCloseTo(north * (1 - fy) + equator * fy, 5);
+  });
+
+  it('wraps across the antimeridian and the Greenwich seam', () => {
+    const between = (undulationAt(1, 3) + undulationAt(1, 0)) / 2;
+    expect(grid.undulation(-45, 0)).toBeCloseTo(between, 5);
+    expect(grid.undulation(315, 0)).toBeCloseTo(between, 5);
+    expect(grid.undulation(180, 0)).toBeCloseTo(undulationAt(1, 2), 5);
+    expect(grid.undulation(-180, 0)).toBeCloseTo(undulationAt(1, 2), 5);
+    expect(grid.undulation(-135, 0)).toBeCloseTo((undulationAt(1, 2) + undulationAt(1, 3)) / 2, 5);
+  });
+
+  it('rejects PGM files without offset and scale, or with too few samples', () => {
+    expect(() => parseGeoidGrid(pgmBuffer('P5\n4 3\n65535\n', RAW.flat()))).toThrow(/Offset/);
+    expect(() => parseGeoidGrid(pgmBuffer(PGM_HEADER, RAW.flat().slice(1)))).toThrow(/truncated/);
+  });
+
+  it('returns null outside a regional grid', () => {
+    const regional = new GeoidGrid({
+      name: 'regional',
+      width: 2,
+      height: 2,
+      west: 100,
+      north: 40,
+      lonSpacing: 10,
+      latSpacing: 10,
+      values: Float32Array.from([1, 2, 3, 4])
+    });
+    expect(regional.undulation(105, 35)).toBeCloseTo(2.5, 6);
+    expect(regional.undulation(99, 35)).toBeNull();
+    expect(regional.undulation(105, 41)).toBeNull();
+  });
+});
+
+describe('height conversion', () => {
+  it('applies h = H + N both ways', () => {
+    expect(ellipsoidalToOrthometric(100, 28.5)).toBe(71.5);
+    expect(orthometricToEllipsoidal(71.5, 28.5)).toBe(100);
+  });
+});
@@ -0,0 +1,227 @@
+// Ellipsoidal heights (h) are above the WGS84 ellipsoid; orthometric heights (H) are above the geoid
+// (mean sea level). They differ by the geoid undulation N: h = H + N.
+export type VerticalDatum = 'ellipsoidal' | 'orthometric';
+
+// Raw grids are row-major from the north-west corner; values are N = offset + scale * raw.
+export type GeoidGridOptions = {
+  name?: string;
+  format?: 'pgm' | 'egm96-dac' | 'int16' | 'float32';
+  width?: number;
+  height?: number;
+  west?: number;
+  north?: number;
+  lonSpacing?: number;
+  latSpacing?: number;
+  littleEndian?: boolean;
+  scale?: number;
+  offset?: number;
+};
+
+export type GeoidGridSpec = {
+  name: string;
+  width: number;
+  height: number;
+  west: number;
+  north: number;
+  lonSpacing: number;
+  latSpacing: number;
+  values: Float32Array;
+};
+
+// NGA's WW15MGH.DAC: EGM96 on a 15' grid, 721 x 1440 big-endian int16 centimetres from 90°N, 0°E.
+const EGM96_DAC_WIDTH = 1440;
+const EGM96_DAC_HEIGHT = 721;
+const PGM_MAGIC = 'P5';
+
+function readPgmHeader(bytes: Uint8Array): { fields: number[]; comments: Map<string, string>; dataOffset: number } {
+  const fields: number[] = [];
+  const comments = new Map<string, string>();
+  let cursor = 0;
+  let token = '';
+  // Magic, width, height and max value, separated by whitespace, with "# key value" comment lines.
+  while (fields.length < 4 && cursor < bytes.length) {
+    const char = String.fromCharCode(bytes[cursor] ?? 0);
+    if (char === '#') {
+      let end = cursor;
+      while (end < bytes.length && bytes[end] !== 0x0a) end += 1;
+      const line = new TextDecoder().decode(bytes.subarray(cursor + 1, end)).trim();
+      const space = line.indexOf(' ');
+      if (space > 0) comments.set(line.slice(0, space).toLowerCase(), line.slice(space + 1).trim());
+      cursor = end + 1;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      if (token) fields.push(fields.length === 0 ? (token === PGM_MAGIC ? 0 : Number.NaN) : Number(token));
+      token = '';
+    } else {
+      token += char;
+    }
+    cursor += 1;
+  }
+  if (fields.length < 4 || fields.some((value) => !Number.isFinite(value))) {
+    throw new Error('Invalid PGM geoid header; expected a binary (P5) GeographicLib geoid file.');
+  }
+  return { fields: fields.slice(1), comments, dataOffset: cursor };
+}
+
+// GeographicLib geoid files (egm96-5.pgm, egm2008-1.pgm, ...): 16-bit big-endian samples covering
+// the globe from 90°N, 0°E with the last row at 90°S.
+function parsePgm(buffer: ArrayBuffer, options?: GeoidGridOptions): GeoidGridSpec {
+  const bytes = new Uint8Array(buffer);
+  const { fields, comments, dataOffset } = readPgmHeader(bytes);
+  const [width = 0, height = 0, maxValue = 0] = fields;
+  if (maxValue > 0xffff || width < 2 || height < 2) {
+    throw new Error(`Unsupported PGM geoid layout ${width}x${height} (max ${maxValue}).`);
+  }
+  const scale = options?.scale ?? Number(comments.get('scale') ?? Number.NaN);
+  const offset = options?.offset ?? Number(comments.get('offset') ?? Number.NaN);
+  if (!Number.isFinite(scale) || !Number.isFinite(offset)) {
+    throw new Error('PGM geoid file is missing its "# Offset" / "# Scale" header comments.');
+  }
+  const bytesPerSample = maxValue > 0xff ? 2 : 1;
+  if (bytes.length - dataOffset < width * height * bytesPerSample) {
+    throw new Error(`PGM geoid file is truncated: expected ${width * height} samples.`);
+  }
+  const view = new DataView(buffer, dataOffset);
+  const values = new Float32Array(width * height);
+  for (let i = 0; i < values.length; i += 1) {
+    const raw = bytesPerSample === 2 ? view.getUint16(i * 2, false) : view.getUint8(i);
+    values[i] = offset + scale * raw;
+  }
+  return {
+    name: options?.name ?? comments.get('description') ?? 'geoid',
+    width,
+    height,
+    west: 0,
+    north: 90,
+    lonSpacing: 360 / width,
+    latSpacing: 180 / (height - 1),
+    values
+  };
+}
+
+function parseRaw(buffer: ArrayBuffer, options: GeoidGridOptions, format: 'int16' | 'float32'): GeoidGridSpec {
+  const { width, height, lonSpacing, latSpacing } = options;
+  if (!width || !height || !lonSpacing || !latSpacing) {
+    throw new Error(`A ${format} geoid grid needs width, height, lonSpacing and latSpacing.`);
+  }
+  const bytesPerSample = format === 'int16' ? 2 : 4;
+  if (buffer.byteLength < width * height * bytesPerSample) {
+    throw new Error(`Geoid grid is truncated: expected ${width * height} ${format} samples.`);
+  }
+  const view = new DataView(buffer);
+  const littleEndian = options.littleEndian ?? false;
+  const scale = options.scale ?? 1;
+  const offset = options.offset ?? 0;
+  const values = new Float32Array(width * height);
+  for (let i = 0; i < values.length; i += 1) {
+    const raw =
+      format === 'int16' ? view.getInt16(i * 2, littleEndian) : view.getFloat32(i * 4, littleEndian);
+    values[i] = offset + scale * raw;
+  }
+  return {
+    name: options.name ?? 'geoid',
+    width,
+    height,
+    west: options.west ?? 0,
+    north: options.north ?? 90,
+    lonSpacing,
+    latSpacing,
+    values
+  };
+}
+
+function detectFormat(buffer: ArrayBuffer): GeoidGridOptions['format'] {
+  const head = new Uint8Array(buffer, 0, Math.min(2, buffer.byteLength));
+  if (String.fromCharCode(...head) === PGM_MAGIC) return 'pgm';
+  if (buffer.byteLength === EGM96_DAC_WIDTH * EGM96_DAC_HEIGHT * 2) return 'egm96-dac';
+  return undefined;
+}
+
+export class GeoidGrid {
+  readonly name: string;
+
+  private readonly _spec: GeoidGridSpec;
+  private readonly _global: boolean;
+
+  constructor(spec: GeoidGridSpec) {
+    const { width, height, lonSpacing, latSpacing, values } = spec;
+    if (width < 2 || height < 2 || !(lonSpacing > 0) || !(latSpacing > 0)) {
+      throw new Error(`Invalid geoid grid "${spec.name}": ${width}x${height} at ${lonSpacing}/${latSpacing}°.`);
+    }
+    if (values.length !== width * height) {
+      throw new Error(`Geoid grid "${spec.name}" expects ${width * height} values, got ${values.length}.`);
+    }
+    this.name = spec.name;
+    this._spec = spec;
+    this._global = Math.abs(width * lonSpacing - 360) < lonSpacing * 1e-6;
+  }
+
+  // Undulation N in metres by bilinear interpolation, or null outside the grid coverage.
+  undulation(lon: number, lat: number): number | null {
+    const { width, height, west, north, lonSpacing, latSpacing, values } = this._spec;
+    if (!Number.isFinite(lon) || !Number.isFinite(lat)) return null;
+
+    let dx = lon - west;
+    if (this._global) dx = ((dx % 360) + 360) % 360;
+    const px = dx / lonSpacing;
+    const py = (north - lat) / latSpacing;
+    const maxX = this._global ? width : width - 1;
+    if (px < 0 || px > maxX || py < 0 || py > height - 1) return null;
+
+    const x0 = Math.min(Math.floor(px), maxX - 1);
+    const y0 = Math.min(Math.floor(py), height - 2);
+    const x1 = this._global ? (x0 + 1) % width : x0 + 1;
+    const fx = px - x0;
+    const fy = py - y0;
+    const v00 = values[y0 * width + x0] ?? 0;
+    const v10 = values[y0 * width + x1] ?? 0;
+    const v01 = values[(y0 + 1) * width + x0] ?? 0;
+    const v11 = values[(y0 + 1) * width + x1] ?? 0;
+    return (v00 * (1 - fx) + v10 * fx) * (1 - fy) + (v01 * (1 - fx) + v11 * fx) * fy;
+  }
+}
+
+// Parses GeographicLib .pgm files and NGA's EGM96 WW15MGH.DAC directly; other grids need `format`
+// ('int16' or 'float32') plus their layout in the options.
+export function parseGeoidGrid(buffer: ArrayBuffer, options?: GeoidGridOptions): GeoidGrid {
+  const format = options?.format ?? detectFormat(buffer);
+  if (format === 'pgm') return new GeoidGrid(parsePgm(buffer, options));
+  if (format === 'egm96-dac') {
+    return new GeoidGrid(
+      parseRaw(
+        buffer,
+        {
+          name: 'EGM96',
+          width: EGM96_DAC_WIDTH,
+          height: EGM96_DAC_HEIGHT,
+          lonSpacing: 0.25,
+          latSpacing: 0.25,
+          scale: 0.01,
+          ...options
+        },
+        'int16'
+      )
+    );
+  }
+  if (format === 'int16' || format === 'float32') {
+    return new GeoidGrid(parseRaw(buffer, options ?? {}, format));
+  }
+  throw new Error('Unrecognised geoid grid; pass options.format and the grid layout.');
+}
+
+export async function loadGeoidGrid(url: string, options?: GeoidGridOptions): Promise<GeoidGrid> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load geoid grid ${url}: HTTP ${response.status}`);
+  }
+  return parseGeoidGrid(await response.arrayBuffer(), options);
+}
+
+export function ellipsoidalToOrthometric(ellipsoidalHeight: number, undulation: number): number {
+  return ellipsoidalHeight - undulation;
+}
+
+export function orthometricToEllipsoidal(orthometricHeight: number, undulation: number): number {
+  return orthometricHeight + undulation;
+}
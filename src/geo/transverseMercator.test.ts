@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  gaussKrugerCentralMeridian,
+  gaussKrugerToLonLat,
+  gaussKrugerZone,
+  lonLatToGaussKruger,
+  lonLatToUtm,
+  parseUtmEpsg,
+  utmToLonLat,
+  utmZoneFromLonLat
+} from './transverseMercator';
+
+// lon, lat, zone, hemisphere, easting, northing. The CN Tower is the worked example in Wikipedia's UTM article
+// (17T 630084 4833438), 33.3°N 44.4°E the one in GeographicLib's GeoConvert manual (38n 444140.54 3684706.36);
+// the sub-millimetre digits and the Sydney point come from PROJ's utm projection.
+const UTM_POINTS = [
+  [-(79 + 23 / 60 + 13.7 / 3600), 43 + 38 / 60 + 33.24 / 3600, 17, 'N', 630084.3105, 4833438.5488],
+  [44.4, 33.3, 38, 'N', 444140.5449, 3684706.3555],
+  [151.2153, -33.8568, 56, 'S', 334900.5697, 6252288.7529]
+] as const;
+
+// lon, lat, zone width, zone, easting (with zone prefix), northing, from PROJ's tmerc on the CGCS2000 ellipsoid
+// (a = 6378137, 1/f = 298.257222101, k0 = 1), as in the EPSG:4491-4554 CGCS2000 Gauss-Kruger definitions.
+const GAUSS_KRUGER_POINTS = [
+  [116.391, 39.907, 3, 39, 39447924.4832, 4419380.4476],
+  [116.391, 39.907, 6, 20, 20447924.4832, 4419380.4476],
+  [87.6168, 43.8256, 6, 15, 15549615.9011, 4854629.6266],
+  [109.5119, 18.2528, 3, 37, 37342614.566, 2019602.5527]
+] as const;
+
+describe('UTM', () => {
+  it.each(UTM_POINTS)('projects %f, %f into zone %i%s', (lon, lat, zone, hemisphere, easting, northing) => {
+    const utm = lonLatToUtm(lon, lat);
+    expect(utm.zone).toBe(zone);
+    expect(utm.hemisphere).toBe(hemisphere);
+    expect(utm.easting).toBeCloseTo(easting, 3);
+    expect(utm.northing).toBeCloseTo(northing, 3);
+
+    const back = utmToLonLat(easting, northing, zone, hemisphere);
+    expect(back.lon).toBeCloseTo(lon, 8);
+    expect(back.lat).toBeCloseTo(lat, 8);
+  });
+
+  it('applies the Norway and Svalbard zone exceptions', () => {
+    expect(utmZoneFromLonLat(5, 60).zone).toBe(32);
+    expect(utmZoneFromLonLat(15, 75).zone).toBe(33);
+    expect(utmZoneFromLonLat(180, 0).zone).toBe(60);
+    expect(() => utmZoneFromLonLat(0, 85)).toThrow();
+  });
+
+  it('reads zone and hemisphere from WGS84 / UTM EPSG codes', () => {
+    expect(parseUtmEpsg('EPSG:32650')).toEqual({ zone: 50, hemisphere: 'N' });
+    expect(parseUtmEpsg(32733)).toEqual({ zone: 33, hemisphere: 'S' });
+    expect(() => parseUtmEpsg(4326)).toThrow();
+  });
+});
+
+describe('CGCS2000 Gauss-Kruger', () => {
+  it.each(GAUSS_KRUGER_POINTS)(
+    'projects %f, %f into the %i° zone %i',
+    (lon, lat, zoneWidth, zone, easting, northing) => {
+      const grid = lonLatToGaussKruger(lon, lat, { zoneWidth, zonePrefix: true });
+      expect(grid.zone).toBe(zone);
+      expect(grid.easting).toBeCloseTo(easting, 3);
+      expect(grid.northing).toBeCloseTo(northing, 3);
+
+      const back = gaussKrugerToLonLat(easting, northing, { zoneWidth });
+      expect(back.lon).toBeCloseTo(lon, 8);
+      expect(back.lat).toBeCloseTo(lat, 8);
+    }
+  );
+
+  it('numbers zones eastwards from Greenwich in both hemispheres', () => {
+    expect(gaussKrugerZone(-75, 6)).toBe(48);
+    expect(gaussKrugerCentralMeridian(48, 6)).toBe(-75);
+    expect(gaussKrugerZone(-1.4, 3)).toBe(120);
+    expect(gaussKrugerCentralMeridian(120, 3)).toBe(0);
+    expect(gaussKrugerCentralMeridian(60, 6)).toBe(-3);
+  });
+
+  it('needs a zone for an easting without prefix', () => {
+    expect(() => gaussKrugerToLonLat(447924.4832, 4419380.4476)).toThrow();
+    const back = gaussKrugerToLonLat(447924.4832, 4419380.4476, { zoneWidth: 6, zone: 20 });
+    expect(back.lon).toBeCloseTo(116.391, 9);
+  });
+});
@@ -0,0 +1,301 @@
+import { degToRad, normalizeLonDeg, radToDeg } from './angles';
+import { CGCS2000_ELLIPSOID, WGS84_ELLIPSOID, ellipsoidE2, type Ellipsoid } from './ellipsoid';
+
+export type TransverseMercatorParams = {
+  ellipsoid: Ellipsoid;
+  centralMeridian: number;
+  scaleFactor: number;
+  falseEasting: number;
+  falseNorthing: number;
+  latitudeOfOrigin?: number;
+};
+
+export type GridPoint = { easting: number; northing: number };
+
+export type UtmHemisphere = 'N' | 'S';
+
+export type UtmCoordinate = GridPoint & {
+  zone: number;
+  hemisphere: UtmHemisphere;
+  epsg: number;
+};
+
+export type GaussKrugerZoneWidth = 3 | 6;
+
+export type GaussKrugerOptions = {
+  zoneWidth?: GaussKrugerZoneWidth;
+  zone?: number;
+  // Prefix the zone number to the easting (e.g. 39500000 in zone 39), as the CGCS2000 "zone" EPSG codes do.
+  zonePrefix?: boolean;
+};
+
+export type GaussKrugerCoordinate = GridPoint & {
+  zone: number;
+  zoneWidth: GaussKrugerZoneWidth;
+  centralMeridian: number;
+};
+
+type KruegerSeries = {
+  e: number;
+  A: number;
+  alpha: readonly number[];
+  beta: readonly number[];
+};
+
+const UTM_SCALE_FACTOR = 0.9996;
+const UTM_FALSE_EASTING = 500_000;
+const UTM_SOUTH_FALSE_NORTHING = 10_000_000;
+const GAUSS_KRUGER_FALSE_EASTING = 500_000;
+const NEWTON_TOLERANCE = 1e-12;
+const seriesCache = new Map<string, KruegerSeries>();
+
+// Krüger series to sixth order in n (Karney 2011, "Transverse Mercator with an accuracy of a few nanometers").
+function kruegerSeries(ellipsoid: Ellipsoid): KruegerSeries {
+  const key = `${ellipsoid.a}:${ellipsoid.f}`;
+  const cached = seriesCache.get(key);
+  if (cached) return cached;
+
+  const n = ellipsoid.f / (2 - ellipsoid.f);
+  const n2 = n * n;
+  const n3 = n2 * n;
+  const n4 = n3 * n;
+  const n5 = n4 * n;
+  const n6 = n5 * n;
+  const series: KruegerSeries = {
+    e: Math.sqrt(ellipsoidE2(ellipsoid)),
+    A: (ellipsoid.a / (1 + n)) * (1 + n2 / 4 + n4 / 64 + n6 / 256),
+    alpha: [
+      n / 2 - (2 / 3) * n2 + (5 / 16) * n3 + (41 / 180) * n4 - (127 / 288) * n5 + (7891 / 37800) * n6,
+      (13 / 48) * n2 - (3 / 5) * n3 + (557 / 1440) * n4 + (281 / 630) * n5 - (1983433 / 1935360) * n6,
+      (61 / 240) * n3 - (103 / 140) * n4 + (15061 / 26880) * n5 + (167603 / 181440) * n6,
+      (49561 / 161280) * n4 - (179 / 168) * n5 + (6601661 / 7257600) * n6,
+      (34729 / 80640) * n5 - (3418889 / 1995840) * n6,
+      (212378941 / 319334400) * n6
+    ],
+    beta: [
+      n / 2 - (2 / 3) * n2 + (37 / 96) * n3 - (1 / 360) * n4 - (81 / 512) * n5 + (96199 / 604800) * n6,
+      (1 / 48) * n2 + (1 / 15) * n3 - (437 / 1440) * n4 + (46 / 105) * n5 - (1118711 / 3870720) * n6,
+      (17 / 480) * n3 - (37 / 840) * n4 - (209 / 4480) * n5 + (5569 / 90720) * n6,
+      (4397 / 161280) * n4 - (11 / 504) * n5 - (830251 / 7257600) * n6,
+      (4583 / 161280) * n5 - (108847 / 3991680) * n6,
+      (20648693 / 638668800) * n6
+    ]
+  };
+  seriesCache.set(key, series);
+  return series;
+}
+
+// Conformal latitude tangent τ' from the geodetic tangent τ.
+function conformalTan(tau: number, e: number): number {
+  const sigma = Math.sinh(e * Math.atanh((e * tau) / Math.sqrt(1 + tau * tau)));
+  return tau * Math.sqrt(1 + sigma * sigma) - sigma * Math.sqrt(1 + tau * tau);
+}
+
+function projectXiEta(lonRad: number, latRad: number, series: KruegerSeries): { xi: number; eta: number } {
+  const tauPrime = conformalTan(Math.tan(latRad), series.e);
+  const cosLon = Math.cos(lonRad);
+  const xiPrime = Math.atan2(tauPrime, cosLon);
+  const etaPrime = Math.asinh(Math.sin(lonRad) / Math.sqrt(tauPrime * tauPrime + cosLon * cosLon));
+
+  let xi = xiPrime;
+  let eta = etaPrime;
+  series.alpha.forEach((alpha, index) => {
+    const j2 = 2 * (index + 1);
+    xi += alpha * Math.sin(j2 * xiPrime) * Math.cosh(j2 * etaPrime);
+    eta += alpha * Math.cos(j2 * xiPrime) * Math.sinh(j2 * etaPrime);
+  });
+  return { xi, eta };
+}
+
+function assertParams(params: TransverseMercatorParams): void {
+  if (!Number.isFinite(params.centralMeridian) || !(params.scaleFactor > 0)) {
+    throw new Error(
+      `Invalid transverse Mercator parameters: central meridian ${params.centralMeridian}, scale ${params.scaleFactor}`
+    );
+  }
+}
+
+export function transverseMercatorForward(lon: number, lat: number, params: TransverseMercatorParams): GridPoint {
+  assertParams(params);
+  if (!Number.isFinite(lon) || !Number.isFinite(lat) || lat < -90 || lat > 90) {
+    throw new Error(`Invalid transverse Mercator input: ${lon},${lat}`);
+  }
+  const series = kruegerSeries(params.ellipsoid);
+  const k0A = params.scaleFactor * series.A;
+  const { xi, eta } = projectXiEta(degToRad(normalizeLonDeg(lon - params.centralMeridian)), degToRad(lat), series);
+  const xi0 = params.latitudeOfOrigin ? projectXiEta(0, degToRad(params.latitudeOfOrigin), series).xi : 0;
+  return {
+    easting: params.falseEasting + k0A * eta,
+    northing: params.falseNorthing + k0A * (xi - xi0)
+  };
+}
+
+export function transverseMercatorInverse(
+  easting: number,
+  northing: number,
+  params: TransverseMercatorParams
+): { lon: number; lat: number } {
+  assertParams(params);
+  if (!Number.isFinite(easting) || !Number.isFinite(northing)) {
+    throw new Error(`Invalid transverse Mercator grid point: ${easting},${northing}`);
+  }
+  const series = kruegerSeries(params.ellipsoid);
+  const k0A = params.scaleFactor * series.A;
+  const xi0 = params.latitudeOfOrigin ? projectXiEta(0, degToRad(params.latitudeOfOrigin), series).xi : 0;
+  const xi = (northing - params.falseNorthing) / k0A + xi0;
+  const eta = (easting - params.falseEasting) / k0A;
+
+  let xiPrime = xi;
+  let etaPrime = eta;
+  series.beta.forEach((beta, index) => {
+    const j2 = 2 * (index + 1);
+    xiPrime -= beta * Math.sin(j2 * xi) * Math.cosh(j2 * eta);
+    etaPrime -= beta * Math.cos(j2 * xi) * Math.sinh(j2 * eta);
+  });
+
+  const sinhEtaPrime = Math.sinh(etaPrime);
+  const cosXiPrime = Math.cos(xiPrime);
+  const tauPrime = Math.sin(xiPrime) / Math.sqrt(sinhEtaPrime * sinhEtaPrime + cosXiPrime * cosXiPrime);
+  const lonRad = Math.atan2(sinhEtaPrime, cosXiPrime);
+
+  // Newton iteration for τ from τ'.
+  const e2 = series.e * series.e;
+  let tau = tauPrime;
+  for (let i = 0; i < 16; i += 1) {
+    const tauI = conformalTan(tau, series.e);
+    const delta =
+      ((tauPrime - tauI) / Math.sqrt(1 + tauI * tauI)) * ((1 + (1 - e2) * tau * tau) / ((1 - e2) * Math.sqrt(1 + tau * tau)));
+    tau += delta;
+    if (Math.abs(delta) < NEWTON_TOLERANCE) break;
+  }
+
+  return {
+    lon: normalizeLonDeg(params.centralMeridian + radToDeg(lonRad)),
+    lat: radToDeg(Math.atan(tau))
+  };
+}
+
+// Standard 6° zones with the Norway (32V) and Svalbard (31X-37X) exceptions.
+export function utmZoneFromLonLat(lon: number, lat: number): { zone: number; hemisphere: UtmHemisphere } {
+  if (!Number.isFinite(lon) || !Number.isFinite(lat) || lat < -80 || lat > 84) {
+    throw new Error(`UTM is defined between 80°S and 84°N: ${lon},${lat}`);
+  }
+  const wrapped = normalizeLonDeg(lon);
+  let zone = Math.min(60, Math.floor((wrapped + 180) / 6) + 1);
+  if (lat >= 56 && lat < 64 && wrapped >= 3 && wrapped < 12) zone = 32;
+  if (lat >= 72) {
+    if (wrapped >= 0 && wrapped < 9) zone = 31;
+    else if (wrapped >= 9 && wrapped < 21) zone = 33;
+    else if (wrapped >= 21 && wrapped < 33) zone = 35;
+    else if (wrapped >= 33 && wrapped < 42) zone = 37;
+  }
+  return { zone, hemisphere: lat < 0 ? 'S' : 'N' };
+}
+
+export function utmParams(zone: number, hemisphere: UtmHemisphere, ellipsoid = WGS84_ELLIPSOID): TransverseMercatorParams {
+  if (!Number.isInteger(zone) || zone < 1 || zone > 60) {
+    throw new Error(`Invalid UTM zone: ${zone}`);
+  }
+  return {
+    ellipsoid,
+    centralMeridian: zone * 6 - 183,
+    scaleFactor: UTM_SCALE_FACTOR,
+    falseEasting: UTM_FALSE_EASTING,
+    falseNorthing: hemisphere === 'S' ? UTM_SOUTH_FALSE_NORTHING : 0
+  };
+}
+
+// WGS84 / UTM EPSG codes: 326zz north, 327zz south.
+export function utmEpsg(zone: number, hemisphere: UtmHemisphere): number {
+  return (hemisphere === 'N' ? 32600 : 32700) + zone;
+}
+
+export function parseUtmEpsg(code: number | string): { zone: number; hemisphere: UtmHemisphere } {
+  const value = typeof code === 'number' ? code : Number(String(code).replace(/^EPSG:/i, ''));
+  const zone = value % 100;
+  const base = value - zone;
+  if (!Number.isInteger(value) || (base !== 32600 && base !== 32700) || zone < 1 || zone > 60) {
+    throw new Error(`Not a WGS84 / UTM EPSG code: ${code}`);
+  }
+  return { zone, hemisphere: base === 32600 ? 'N' : 'S' };
+}
+
+export function lonLatToUtm(
+  lon: number,
+  lat: number,
+  zone?: { zone: number; hemisphere: UtmHemisphere }
+): UtmCoordinate {
+  const target = zone ?? utmZoneFromLonLat(lon, lat);
+  const grid = transverseMercatorForward(lon, lat, utmParams(target.zone, target.hemisphere));
+  return { ...grid, zone: target.zone, hemisphere: target.hemisphere, epsg: utmEpsg(target.zone, target.hemisphere) };
+}
+
+export function utmToLonLat(
+  easting: number,
+  northing: number,
+  zone: number,
+  hemisphere: UtmHemisphere
+): { lon: number; lat: number } {
+  return transverseMercatorInverse(easting, northing, utmParams(zone, hemisphere));
+}
+
+// With lon taken in [0°, 360°): 6° zones are floor(lon / 6) + 1, central meridian 6 * zone - 3 (zone 20 is
+// 117°E, zone 60 is 3°W); 3° zones are round(lon / 3) with 0 as zone 120, central meridian 3 * zone.
+export function gaussKrugerZone(lon: number, zoneWidth: GaussKrugerZoneWidth): number {
+  if (!Number.isFinite(lon)) {
+    throw new Error(`Invalid longitude: ${lon}`);
+  }
+  const wrapped = normalizeLonDeg(lon);
+  const east = wrapped < 0 ? wrapped + 360 : wrapped;
+  return zoneWidth === 6 ? Math.floor(east / 6) + 1 : Math.floor((east + 1.5) / 3) % 120 || 120;
+}
+
+export function gaussKrugerCentralMeridian(zone: number, zoneWidth: GaussKrugerZoneWidth): number {
+  if (!Number.isInteger(zone) || zone < 1 || zone > (zoneWidth === 6 ? 60 : 120)) {
+    throw new Error(`Invalid ${zoneWidth}° Gauss-Kruger zone: ${zone}`);
+  }
+  return normalizeLonDeg(zoneWidth === 6 ? zone * 6 - 3 : zone * 3);
+}
+
+export function gaussKrugerParams(
+  zone: number,
+  zoneWidth: GaussKrugerZoneWidth,
+  zonePrefix = false,
+  ellipsoid = CGCS2000_ELLIPSOID
+): TransverseMercatorParams {
+  return {
+    ellipsoid,
+    centralMeridian: gaussKrugerCentralMeridian(zone, zoneWidth),
+    scaleFactor: 1,
+    falseEasting: GAUSS_KRUGER_FALSE_EASTING + (zonePrefix ? zone * 1_000_000 : 0),
+    falseNorthing: 0
+  };
+}
+
+// CGCS2000 Gauss-Kruger. Latitude and longitude are taken as CGCS2000, which agrees with WGS84 to a few cm.
+export function lonLatToGaussKruger(lon: number, lat: number, options?: GaussKrugerOptions): GaussKrugerCoordinate {
+  const zoneWidth = options?.zoneWidth ?? 3;
+  const zone = options?.zone ?? gaussKrugerZone(lon, zoneWidth);
+  const params = gaussKrugerParams(zone, zoneWidth, options?.zonePrefix ?? false);
+  return {
+    ...transverseMercatorForward(lon, lat, params),
+    zone,
+    zoneWidth,
+    centralMeridian: params.centralMeridian
+  };
+}
+
+// Without an explicit zone, the zone is read from a prefixed easting (e.g. 39500000 -> zone 39).
+export function gaussKrugerToLonLat(
+  easting: number,
+  northing: number,
+  options?: GaussKrugerOptions
+): { lon: number; lat: number } {
+  const zoneWidth = options?.zoneWidth ?? 3;
+  const prefixed = options?.zonePrefix ?? easting >= 1_000_000;
+  const zone = options?.zone ?? (prefixed ? Math.floor(easting / 1_000_000) : undefined);
+  if (zone === undefined) {
+    throw new Error('Gauss-Kruger easting has no zone prefix; pass the zone explicitly.');
+  }
+  return transverseMercatorInverse(easting, northing, gaussKrugerParams(zone, zoneWidth, prefixed));
+}
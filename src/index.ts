@@ -1,5 +1,98 @@
 export { Viewer } from './engine/Viewer';
 export type { ViewerOptions } from './engine/Viewer';
+export type { MorphOptions, SceneMode } from './engine/SceneMorph';
+export { GlobeScene } from './engine/globe/GlobeScene';
+export type { GlobeOptions } from './engine/globe/GlobeScene';
+export { GlobeTileLayer } from './engine/globe/GlobeTileLayer';
+export type {
+  GlobeImageryOptions,
+  GlobeTerrainOptions,
+  GlobeTileDebugInfo,
+  GlobeTileLayerOptions
+} from './engine/globe/GlobeTileLayer';
+export type { ClipMode } from './engine/validation/PlanarClipMask';
+export type {
+  PlanarClipPlaneOptions,
+  PlanarClipPolygonInfo,
+  PlanarClipPolygonOptions
+} from './engine/validation/PlanarClipping';
+export type {
+  CutFillDesign,
+  CutFillGrid,
+  CutFillOptions,
+  CutFillResult
+} from './engine/validation/PlanarCutFill';
+export type { DemPatchCrs, PlanarDemPatchInfo, PlanarDemPatchOptions } from './engine/validation/PlanarDemPatch';
+export type { PlanarExcavationInfo, PlanarExcavationOptions } from './engine/validation/PlanarExcavation';
+export type {
+  PlanarFeatureInfo,
+  PlanarFeatureInfoOptions,
+  PlanarImageryLayerChange,
+  PlanarImageryLayerInfo,
+  PlanarImageryLayerOptions,
+  PlanarImageryLayers
+} from './engine/validation/PlanarImageryLayers';
+export type { ImageryBounds } from './engine/validation/PlanarMapTileLayer';
+export type { ImageryAdjustments, ResolvedImageryAdjustments } from './engine/validation/PlanarImageryMaterial';
+export { createXyzTileSource } from './engine/validation/PlanarTileSource';
+export type { PlanarTileSource, TileGridProjection, XyzTileSourceOptions } from './engine/validation/PlanarTileSource';
+export {
+  createWmtsTileSource,
+  loadWmtsCapabilities,
+  parseWmtsCapabilities
+} from './engine/validation/PlanarWmtsSource';
+export type {
+  WmtsCapabilities,
+  WmtsDimension,
+  WmtsLayer,
+  WmtsResourceUrl,
+  WmtsStyle,
+  WmtsTileMatrix,
+  WmtsTileMatrixLimits,
+  WmtsTileMatrixSet,
+  WmtsTileMatrixSetLink,
+  WmtsTileSourceOptions
+} from './engine/validation/PlanarWmtsSource';
+export { createWmsTileSource, fetchWmsFeatureInfo } from './engine/validation/PlanarWmsSource';
+export type {
+  WmsFeatureInfo,
+  WmsFeatureInfoOptions,
+  WmsTileSource,
+  WmsTileSourceOptions,
+  WmsVersion
+} from './engine/validation/PlanarWmsSource';
+export type {
+  ElevationPathOptions,
+  ElevationPathSample,
+  ElevationQueryOptions,
+  ElevationSample
+} from './engine/validation/PlanarTerrainLayer';
+export {
+  terrainProfileToCsv,
+  terrainProfileToJson
+} from './engine/validation/PlanarProfile';
+export type {
+  TerrainProfile,
+  TerrainProfileOptions,
+  TerrainProfilePoint
+} from './engine/validation/PlanarProfile';
+export type {
+  AreaMeasureInput,
+  AreaMeasurement,
+  PathMeasureInput,
+  PathMeasureMode,
+  PathMeasurement,
+  SurveyMeasurement,
+  SurveyPointInput
+} from './engine/validation/PlanarSurvey';
+export type { SurveyPoint } from './engine/validation/PlanarSurveyPoints';
+export type {
+  FlattenTerrainModifier,
+  RaiseTerrainModifier,
+  SlopeTerrainModifier,
+  TerrainModifier,
+  TerrainModifierDocument
+} from './engine/validation/PlanarTerrainModifiers';
 export { ToolManager } from './engine/ToolManager';
 export type {
   BuiltinToolId,
@@ -9,3 +102,103 @@ export type {
   ToolPanelStyle,
   ToolTriggerContext
 } from './engine/ToolManager';
+export type { MapDatum } from './geo/coords';
+export {
+  formatCoordinate,
+  formatDdm,
+  formatDms,
+  formatMgrs,
+  formatUsng,
+  parseCoordinate,
+  parseMgrs
+} from './geo/coordinateFormat';
+export {
+  findPolygonSelfIntersection,
+  geodesicPolygonArea,
+  geodesicPolygonPerimeter,
+  measureGeodesicPolygon,
+  polygonCentroid
+} from './geo/area';
+export type { GeodesicPolygonMeasure } from './geo/area';
+export {
+  densifyGeodesic,
+  densifyGreatCircle,
+  geodesicDirect,
+  geodesicDistance,
+  geodesicFinalBearing,
+  geodesicInitialBearing,
+  geodesicInverse
+} from './geo/geodesic';
+export type { GeodesicDirectResult, GeodesicInverseResult, GeodesicPoint } from './geo/geodesic';
+export type {
+  CoordinateAxis,
+  CoordinateFormat,
+  CoordinateFormatOptions,
+  CoordinateOrder,
+  CoordinateParseOptions,
+  ParsedCoordinate
+} from './geo/coordinateFormat';
+export { CGCS2000_ELLIPSOID, WGS84_ELLIPSOID, ellipsoidE2 } from './geo/ellipsoid';
+export type { Ellipsoid } from './geo/ellipsoid';
+export {
+  gaussKrugerCentralMeridian,
+  gaussKrugerParams,
+  gaussKrugerToLonLat,
+  gaussKrugerZone,
+  lonLatToGaussKruger,
+  lonLatToUtm,
+  parseUtmEpsg,
+  transverseMercatorForward,
+  transverseMercatorInverse,
+  utmEpsg,
+  utmParams,
+  utmToLonLat,
+  utmZoneFromLonLat
+} from './geo/transverseMercator';
+export type {
+  GaussKrugerCoordinate,
+  GaussKrugerOptions,
+  GaussKrugerZoneWidth,
+  GridPoint,
+  TransverseMercatorParams,
+  UtmCoordinate,
+  UtmHemisphere
+} from './geo/transverseMercator';
+export {
+  CrsRegistry,
+  crsRegistry,
+  crsToLonLat,
+  lonLatToCrs,
+  normalizeCrsCode,
+  parseCrsDefinition,
+  parseProj4,
+  parseWkt,
+  transform
+} from './geo/crs';
+export type { CrsDefinition, CrsInput, CrsProjection } from './geo/crs';
+export {
+  GeoidGrid,
+  ellipsoidalToOrthometric,
+  loadGeoidGrid,
+  orthometricToEllipsoidal,
+  parseGeoidGrid
+} from './geo/geoid';
+export type { GeoidGridOptions, GeoidGridSpec, VerticalDatum } from './geo/geoid';
+export {
+  enuToWgs84Batch,
+  lonLatToWebMercatorBatch,
+  threeToWgs84Batch,
+  webMercatorToLonLatBatch,
+  webMercatorToWorldBatch,
+  wgs84ToEnuBatch,
+  wgs84ToThreeBatch,
+  worldToWebMercatorBatch
+} from './geo/batchTransforms';
+export type {
+  CoordinateArray,
+  LonLatHeightArrays,
+  LonLatHeightOutput,
+  TransformFrame
+} from './geo/batchTransforms';
+export { BatchTransformWorker } from './geo/batchTransformWorker';
+export type { BatchTransformWorkerOptions } from './geo/batchTransformWorker';